@@ -0,0 +1,62 @@
+import { loadMergedConfig } from '../../config/configLoad.js';
+import { defaultDiffFilePathMap } from '../../config/configSchema.js';
+import { diffSnapshots, loadSnapshot } from '../../core/diff/snapshotDiff.js';
+import { generateDiffOutput } from '../../core/output/diffOutputGenerate.js';
+import { writeOutputToDisk } from '../../core/packager/writeOutputToDisk.js';
+import { writeOutputToStdout } from '../../core/packager/writeOutputToStdout.js';
+import { logger } from '../../shared/logger.js';
+import { printCompletion, printDiffSummary } from '../cliPrint.js';
+import type { CliOptions } from '../types.js';
+
+/**
+ * Executes the diff action, which compares two saved snapshots (json style outputs) resource by resource
+ * and writes the diff report in the configured style.
+ *
+ * @param beforePath - The earlier snapshot.
+ * @param afterPath - The later snapshot.
+ * @param options - CLI options (style, output file, config file).
+ */
+export const runDiffAction = async (beforePath: string, afterPath: string, options: CliOptions): Promise<void> => {
+  logger.trace('CLI options received:', options);
+
+  const config = await loadMergedConfig(options);
+  // Keep stdout for the generated output (also when enabled in the config file)
+  if (config.output?.stdout) {
+    logger.setStderrOnly(true);
+  }
+  // The configured output file holds aggregations; the report gets its own default name
+  if (!options.output) {
+    config.output = { ...config.output, filePath: defaultDiffFilePathMap[config.output?.style ?? 'markdown'] };
+  }
+
+  logger.info(`Comparing ${beforePath} with ${afterPath}...`);
+  const [before, after] = await Promise.all([loadSnapshot(beforePath), loadSnapshot(afterPath)]);
+  const diff = diffSnapshots(before, after, { before: beforePath, after: afterPath }, config.diff?.ignoreFields);
+  for (const warning of diff.warnings) {
+    logger.warn(`Not compared: ${warning}`);
+  }
+
+  const output = await generateDiffOutput(config, diff);
+  if (config.output?.stdout) {
+    await writeOutputToStdout(output);
+    logger.info('Diff report successfully written to stdout');
+  } else {
+    const [outputFile] = await writeOutputToDisk(output, config);
+    logger.info(`Diff report successfully written to ${outputFile}`);
+  }
+
+  // --- Output Summary ---
+  logger.log('');
+  printDiffSummary(
+    {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      modified: diff.modified.length,
+      unchanged: diff.unchangedCount,
+    },
+    { before: beforePath, after: afterPath },
+    config,
+  );
+  logger.log('');
+  printCompletion();
+};
@@ -1,10 +1,30 @@
 import { writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import { loadMergedConfig } from '../../config/configLoad.js';
+import type { KubectlRequestStats } from '../../core/kubernetes/kubectlRetry.js';
 import { aggregateResources } from '../../core/packager.js';
+import type { TokenConsumer } from '../../core/tokenCount/tokenBreakdown.js';
 import { logger } from '../../shared/logger.js';
-import { printCompletion, printSummary } from '../cliPrint.js';
+import { printCompletion, printSummary, printTopTokenConsumers } from '../cliPrint.js';
 import type { CliOptions } from '../types.js';
+import { runWatchAction } from './watchAction.js';
+
+// Counts collected from one cluster of a multi-cluster run
+export interface ClusterAggregationResult {
+  context: string;
+  namespaceCount: number;
+  resourceCounts: Record<string, number>;
+  totalResourceCount: number;
+  eventCount: number;
+}
+
+// Resources added, removed, modified and unchanged between two aggregations
+export interface DiffCounts {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
 
 // Result structure from the core aggregation logic
 export interface AggregationResult {
@@ -17,7 +37,17 @@ export interface AggregationResult {
   // Fields for FRD-7
   totalCharacters?: number; // Total character count of the output
   totalTokens?: number; // Estimated token count of the output
+  outputFiles?: string[]; // Files of an output split into several parts (undefined for a single file)
+  clipboardMethod?: string; // Clipboard tool the output was copied with (undefined if not copied)
+  slimTokensSaved?: number; // Tokens removed by slim mode (undefined if slim mode is disabled)
+  diffCounts?: DiffCounts; // Changes since the snapshot compared with (undefined without --diff-against)
+  tokensByNamespace?: Record<string, number>; // Tokens of the resources and diagnostics of each namespace
+  tokensByKind?: Record<string, number>; // Tokens of the resources of each kind, and of pod logs
+  topTokenConsumers?: TokenConsumer[]; // The largest resources and log blocks, largest first
   secretsFound?: boolean; // Whether secrets were found and redacted (if enabled)
+  eventCount?: number; // Recent events listed in the output (undefined if events are disabled)
+  requestStats?: KubectlRequestStats; // kubectl commands executed, retried and timed out
+  clusters?: ClusterAggregationResult[]; // Per-cluster counts when several contexts were aggregated (totals above)
 }
 
 /**
@@ -30,6 +60,10 @@ export const runNamespacesAction = async (options: CliOptions): Promise<void> =>
   // Load configuration with CLI options merged
   const config = await loadMergedConfig(options);
   logger.trace('Merged config:', config);
+  // Keep stdout for the generated output (also when enabled in the config file)
+  if (config.output?.stdout) {
+    logger.setStderrOnly(true);
+  }
 
   // Ensure output.filePath exists
   if (!config.output || !config.output.filePath) {
@@ -39,6 +73,12 @@ export const runNamespacesAction = async (options: CliOptions): Promise<void> =>
     };
   }
 
+  // Watch mode repeats the aggregation until interrupted
+  if (config.watch?.enabled) {
+    await runWatchAction(config);
+    return;
+  }
+
   logger.info('Fetching namespaces from the current Kubernetes cluster...');
 
   // Call the packager to aggregate resources
@@ -46,6 +86,7 @@ export const runNamespacesAction = async (options: CliOptions): Promise<void> =>
 
   // --- Output Summary ---
   logger.log('');
+  printTopTokenConsumers(metrics, config);
   printSummary(metrics, config);
   logger.log('');
   printCompletion();
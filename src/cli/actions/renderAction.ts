@@ -0,0 +1,34 @@
+import { loadMergedConfig } from '../../config/configLoad.js';
+import { renderSnapshot } from '../../core/packager.js';
+import { applySnapshotConfig, loadSnapshotBundle } from '../../core/snapshot/snapshotBundle.js';
+import { logger } from '../../shared/logger.js';
+import { printCompletion, printSummary, printTopTokenConsumers } from '../cliPrint.js';
+import type { CliOptions } from '../types.js';
+
+/**
+ * Executes the render action, which generates the output from a snapshot bundle (--save-snapshot)
+ * instead of a cluster, in the configured style and with the configured slim mode and token budget.
+ *
+ * @param bundlePath - The snapshot bundle.
+ * @param options - CLI options.
+ */
+export const runRenderAction = async (bundlePath: string, options: CliOptions): Promise<void> => {
+  logger.trace('CLI options received:', options);
+
+  const bundle = await loadSnapshotBundle(bundlePath);
+  const config = applySnapshotConfig(await loadMergedConfig(options), bundle);
+  // Keep stdout for the generated output (also when enabled in the config file)
+  if (config.output?.stdout) {
+    logger.setStderrOnly(true);
+  }
+  logger.trace('Render config:', config);
+
+  const metrics = await renderSnapshot(config, bundle);
+
+  // --- Output Summary ---
+  logger.log('');
+  printTopTokenConsumers(metrics, config);
+  printSummary(metrics, config);
+  logger.log('');
+  printCompletion();
+};
@@ -0,0 +1,57 @@
+import process from 'node:process';
+import pc from 'picocolors';
+import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { watchResources } from '../../core/watch/watchResources.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { kubeAggregatorLogLevels, logger } from '../../shared/logger.js';
+import { printSummary, printTopTokenConsumers, printWatchChanges } from '../cliPrint.js';
+
+/**
+ * Executes watch mode (--watch), which regenerates the output periodically until interrupted (Ctrl+C).
+ * The full summary is printed after the first run, and the changes since the previous run after each later run.
+ * Informational messages of the later runs are hidden (unless --verbose), so that the changes stand out.
+ *
+ * @param config - The merged configuration, with watch mode enabled.
+ * @throws {KubeAggregatorError} If the output is written to stdout, where each run would be appended to the last.
+ */
+export const runWatchAction = async (config: KubeAggregatorConfigMerged): Promise<void> => {
+  if (config.output?.stdout) {
+    throw new KubeAggregatorError('--watch rewrites an output file and cannot be combined with --stdout or -o -');
+  }
+
+  const logLevel = logger.getLogLevel();
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  try {
+    const runs = await watchResources(
+      config,
+      ({ iteration, metrics, changes }) => {
+        logger.setLogLevel(logLevel);
+        logger.log('');
+        if (changes) {
+          printWatchChanges(changes, iteration);
+        } else {
+          printTopTokenConsumers(metrics, config);
+          printSummary(metrics, config);
+        }
+        logger.log('');
+        logger.log(
+          pc.dim(`👀 Watching: next run in ${config.watch?.intervalSeconds ?? 60} seconds (press Ctrl+C to stop)`),
+        );
+        if (logLevel === kubeAggregatorLogLevels.INFO) {
+          logger.setLogLevel(kubeAggregatorLogLevels.WARN);
+        }
+      },
+      controller.signal,
+    );
+    logger.setLogLevel(logLevel);
+    logger.log(pc.green(`🎉 Watch mode stopped after ${runs} ${runs === 1 ? 'run' : 'runs'}.`));
+  } finally {
+    logger.setLogLevel(logLevel);
+    process.removeListener('SIGINT', stop);
+    process.removeListener('SIGTERM', stop);
+  }
+};
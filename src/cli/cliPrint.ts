@@ -3,8 +3,10 @@ import pc from 'picocolors';
 
 // Import types
 import type { KubeAggregatorConfigMerged } from '../config/configSchema.js';
+import type { ResourceDiff } from '../core/diff/snapshotDiff.js';
+import type { WatchChanges } from '../core/watch/watchResources.js';
 import { logger } from '../shared/logger.js';
-import type { AggregationResult } from './actions/namespaceAction.js';
+import type { AggregationResult, DiffCounts } from './actions/namespaceAction.js';
 
 /**
  * Formats a number with commas for thousands
@@ -16,6 +18,16 @@ const formatNumber = (num: number): string => {
   return num.toLocaleString();
 };
 
+/**
+ * Formats the changes between two aggregations, e.g. '2 added, 1 removed, 3 modified (40 unchanged)'
+ *
+ * @param counts - The diff counts
+ * @returns The formatted changes
+ */
+const formatDiffCounts = (counts: DiffCounts): string =>
+  `${pc.green(`${formatNumber(counts.added)} added`)}, ${pc.red(`${formatNumber(counts.removed)} removed`)}, ` +
+  `${pc.yellow(`${formatNumber(counts.modified)} modified`)} ${pc.dim(`(${formatNumber(counts.unchanged)} unchanged)`)}`;
+
 /**
  * Prints a summary of the aggregation results to the console
  *
@@ -24,16 +36,41 @@ const formatNumber = (num: number): string => {
  */
 export const printSummary = (metrics: AggregationResult, config: KubeAggregatorConfigMerged) => {
   // Extract values from metrics
-  const { namespaceCount, resourceCounts, totalResourceCount, totalCharacters, totalTokens, secretsFound, podCount } =
-    metrics;
+  const {
+    namespaceCount,
+    resourceCounts,
+    totalResourceCount,
+    totalCharacters,
+    totalTokens,
+    outputFiles,
+    clipboardMethod,
+    slimTokensSaved,
+    diffCounts,
+    secretsFound,
+    podCount,
+    requestStats,
+    clusters,
+    eventCount,
+  } = metrics;
 
   // Default output path
-  const outputPath = config.output?.filePath || 'kubemix-output.md';
+  const outputPath = config.output?.stdout ? 'stdout' : config.output?.filePath || 'kubemix-output.md';
 
   // Start summary output
   logger.log(pc.white('📊 Aggregation Summary:'));
   logger.log(pc.dim('──────────────────────'));
 
+  // Clusters of a multi-cluster run, with their own counts (the counts below are totals)
+  if (clusters?.length) {
+    logger.log(`${pc.white('         Clusters:')} ${pc.white(formatNumber(clusters.length))}`);
+    for (const cluster of clusters) {
+      logger.log(
+        `${pc.white(`         ${cluster.context}:`)} ${pc.white(formatNumber(cluster.namespaceCount))} namespaces, ` +
+          `${pc.white(formatNumber(cluster.totalResourceCount))} resources`,
+      );
+    }
+  }
+
   // Namespaces
   logger.log(`${pc.white('   Namespaces Found:')} ${pc.white(formatNumber(namespaceCount))}`);
 
@@ -56,6 +93,11 @@ export const printSummary = (metrics: AggregationResult, config: KubeAggregatorC
     logger.log(`${pc.white('        Pods Found:')} ${pc.white(formatNumber(podCount))}`);
   }
 
+  // Recent events
+  if (typeof eventCount === 'number') {
+    logger.log(`${pc.white('    Recent Events:')} ${pc.white(formatNumber(eventCount))}`);
+  }
+
   // Token and character counts (FRD-7)
   if (typeof totalCharacters === 'number') {
     logger.log(`${pc.white(' Total Characters:')} ${pc.white(formatNumber(totalCharacters))} chars`);
@@ -67,8 +109,40 @@ export const printSummary = (metrics: AggregationResult, config: KubeAggregatorC
     logger.log(`${pc.white('     Total Tokens:')} ${pc.dim('N/A (token counting unavailable)')}`);
   }
 
-  // Output file
-  logger.log(`${pc.white('      Output File:')} ${pc.white(outputPath)}`);
+  // Noise fields removed by slim mode
+  if (typeof slimTokensSaved === 'number') {
+    logger.log(`${pc.white('        Slim Mode:')} ${pc.green(formatNumber(slimTokensSaved))} tokens saved`);
+  }
+
+  // Changes since the snapshot compared with (the output is the diff report)
+  if (diffCounts) {
+    logger.log(
+      `${pc.white('          Changes:')} ${formatDiffCounts(diffCounts)} since ${pc.white(config.diff?.against ?? '')}`,
+    );
+  }
+
+  // Kubernetes requests, with the retries and timeouts needed to complete them
+  if (requestStats) {
+    const problems = [
+      `${formatNumber(requestStats.retries)} ${requestStats.retries === 1 ? 'retry' : 'retries'}`,
+      `${formatNumber(requestStats.timeouts)} ${requestStats.timeouts === 1 ? 'timeout' : 'timeouts'}`,
+    ].join(', ');
+    const problemsText = requestStats.retries || requestStats.timeouts ? pc.yellow(problems) : pc.dim(problems);
+    logger.log(`${pc.white('    Kube Requests:')} ${pc.white(formatNumber(requestStats.requests))} (${problemsText})`);
+  }
+
+  // Output file, or the files of an output split into parts
+  if (outputFiles?.length) {
+    logger.log(`${pc.white('     Output Files:')} ${pc.white(outputFiles.join(', '))} (${outputFiles.length} parts)`);
+  } else {
+    logger.log(`${pc.white('      Output File:')} ${pc.white(outputPath)}`);
+  }
+
+  // Clipboard copy (a failure was reported as a warning)
+  if (config.output?.copyToClipboard) {
+    const clipboardStatus = clipboardMethod ? pc.green(`Copied (${clipboardMethod})`) : pc.red('Not copied');
+    logger.log(`${pc.white('        Clipboard:')} ${clipboardStatus}`);
+  }
 
   // Secret redaction status
   let redactionStatus: string;
@@ -85,8 +159,22 @@ export const printSummary = (metrics: AggregationResult, config: KubeAggregatorC
 
   // Formats and styles
   logger.log(`${pc.white('    Output Format:')} ${pc.white(config.kubernetes?.outputFormat || 'text')}`);
+  const offlineSources = [...(config.offline?.directories ?? []), ...(config.offline?.files ?? [])];
+  if (offlineSources.length) {
+    logger.log(`${pc.white('           Source:')} ${pc.white(offlineSources.join(', '))} ${pc.dim('(offline)')}`);
+  } else {
+    logger.log(`${pc.white('        Transport:')} ${pc.white(config.kubernetes?.transport || 'kubectl')}`);
+  }
+  logger.log(
+    `${pc.white('      Concurrency:')} ${pc.white(String(config.kubernetes?.concurrency ?? 5))} namespaces, ` +
+      `${pc.white(String(config.kubernetes?.requestTimeout ?? 60))}s timeout, ${pc.white(String(config.kubernetes?.retries ?? 3))} retries`,
+  );
   logger.log(`${pc.white('     Output Style:')} ${pc.white(config.output?.style || 'markdown')}`);
 
+  // Cluster-scoped resources status
+  const clusterResourcesStatus = config.clusterResources?.enabled === false ? pc.dim('Disabled') : pc.green('Enabled');
+  logger.log(`${pc.white('Cluster Resources:')} ${clusterResourcesStatus}`);
+
   // Show filtering information if applicable
   if (config.filter) {
     if (config.filter.namespaces?.length) {
@@ -95,13 +183,132 @@ export const printSummary = (metrics: AggregationResult, config: KubeAggregatorC
     if (config.filter.excludeNamespaces?.length) {
       logger.log(`${pc.white('Excluded Namespaces:')} ${pc.white(config.filter.excludeNamespaces.join(', '))}`);
     }
+    if (config.filter.discover) {
+      logger.log(`${pc.white('   Resource Types:')} ${pc.white('Discovered from cluster (api-resources)')}`);
+    }
     if (config.filter.includeResourceTypes?.length) {
       logger.log(`${pc.white('Included Resource Types:')} ${pc.white(config.filter.includeResourceTypes.join(', '))}`);
     }
     if (config.filter.excludeResourceTypes?.length) {
       logger.log(`${pc.white('Excluded Resource Types:')} ${pc.white(config.filter.excludeResourceTypes.join(', '))}`);
     }
+    if (config.filter.labelSelector) {
+      logger.log(`${pc.white('   Label Selector:')} ${pc.white(config.filter.labelSelector)}`);
+    }
+    if (config.filter.fieldSelector) {
+      logger.log(`${pc.white('   Field Selector:')} ${pc.white(config.filter.fieldSelector)}`);
+    }
+  }
+};
+
+/**
+ * Prints a summary of a comparison of two snapshots to the console
+ *
+ * @param counts - The diff counts
+ * @param sources - The compared snapshot files
+ * @param config - The merged configuration
+ */
+export const printDiffSummary = (
+  counts: DiffCounts,
+  sources: { before: string; after: string },
+  config: KubeAggregatorConfigMerged,
+) => {
+  logger.log(pc.white('📊 Diff Summary:'));
+  logger.log(pc.dim('──────────────────────'));
+  logger.log(`${pc.white('           Before:')} ${pc.white(sources.before)}`);
+  logger.log(`${pc.white('            After:')} ${pc.white(sources.after)}`);
+  logger.log(`${pc.white('          Changes:')} ${formatDiffCounts(counts)}`);
+  logger.log(
+    `${pc.white('      Output File:')} ${pc.white(config.output?.stdout ? 'stdout' : (config.output?.filePath ?? ''))}`,
+  );
+  logger.log(`${pc.white('     Output Style:')} ${pc.white(config.output?.style || 'markdown')}`);
+};
+
+// Maximum number of changed resources listed after each run of watch mode
+const WATCH_CHANGES_LIST_LENGTH = 10;
+
+/**
+ * Prints the changes since the previous run of watch mode: changed resources, resource counts and output size
+ *
+ * @param changes - The changes since the previous run
+ * @param iteration - The number of the run
+ */
+export const printWatchChanges = (changes: WatchChanges, iteration: number) => {
+  const { diff, resourceCountChanges, tokensBefore, tokensAfter } = changes;
+  const formatResource = (resource: ResourceDiff) =>
+    `${resource.kind} ${[resource.cluster, resource.namespace, resource.name].filter(Boolean).join('/')}`;
+  const changedResources = [
+    ...diff.added.map((resource) => pc.green(`+ ${formatResource(resource)}`)),
+    ...diff.removed.map((resource) => pc.red(`- ${formatResource(resource)}`)),
+    ...diff.modified.map(
+      (resource) =>
+        `${pc.yellow(`~ ${formatResource(resource)}`)} ${pc.dim(`(${resource.changes?.map((change) => change.path).join(', ')})`)}`,
+    ),
+  ];
+
+  logger.log(pc.white(`🔄 Run ${iteration} at ${new Date().toLocaleTimeString()}, changes since the previous run:`));
+  if (changedResources.length === 0 && resourceCountChanges.length === 0) {
+    // Text output (kubectl tables) is not parsed into resources
+    logger.log(
+      pc.dim(
+        diff.warnings.length > 0
+          ? '   No changes in resource counts (fetch with --format yaml or json to compare resources)'
+          : '   No changes',
+      ),
+    );
   }
+  for (const line of changedResources.slice(0, WATCH_CHANGES_LIST_LENGTH)) {
+    logger.log(`   ${line}`);
+  }
+  if (changedResources.length > WATCH_CHANGES_LIST_LENGTH) {
+    logger.log(pc.dim(`   ... and ${formatNumber(changedResources.length - WATCH_CHANGES_LIST_LENGTH)} more`));
+  }
+  // Counts show changes that cannot be listed by resource (text output)
+  for (const { kind, before, after } of resourceCountChanges) {
+    logger.log(`   ${pc.white(`${kind}:`)} ${formatNumber(before)} → ${pc.white(formatNumber(after))}`);
+  }
+  const tokenDelta = tokensAfter - tokensBefore;
+  const tokenDeltaText = `${tokenDelta >= 0 ? '+' : ''}${formatNumber(tokenDelta)}`;
+  logger.log(`   ${pc.white('Total Tokens:')} ${pc.white(formatNumber(tokensAfter))} ${pc.dim(`(${tokenDeltaText})`)}`);
+};
+
+/**
+ * Prints the largest token consumers: namespaces, kinds, and individual resources and log blocks
+ *
+ * @param metrics - The aggregation metrics object
+ * @param config - The merged configuration
+ */
+export const printTopTokenConsumers = (metrics: AggregationResult, config: KubeAggregatorConfigMerged) => {
+  const topLength = config.tokenCount?.topConsumersLength ?? 5;
+  const { tokensByNamespace, tokensByKind, topTokenConsumers, totalTokens } = metrics;
+  if (topLength === 0 || !topTokenConsumers?.length) {
+    return;
+  }
+
+  // Shares are relative to the whole output (which also includes headers, the overview and events)
+  const printRanking = (title: string, entries: Array<[string, number]>) => {
+    logger.log(pc.white(`${title}:`));
+    entries.forEach(([label, tokens], index) => {
+      const share = totalTokens ? `, ${((tokens / totalTokens) * 100).toFixed(1)}%` : '';
+      logger.log(
+        `${pc.white(`${`${index + 1}.`.padStart(4)} ${label}`)} ${pc.dim(`(${formatNumber(tokens)} tokens${share})`)}`,
+      );
+    });
+  };
+  const largest = (counts: Record<string, number> = {}) =>
+    Object.entries(counts)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, topLength);
+
+  logger.log(pc.white(`📈 Top ${topLength} Token Consumers:`));
+  logger.log(pc.dim('──────────────────────────'));
+  printRanking('Namespaces', largest(tokensByNamespace));
+  printRanking('Kinds', largest(tokensByKind));
+  printRanking(
+    'Resources and logs',
+    topTokenConsumers.map((consumer) => [consumer.label, consumer.tokens]),
+  );
+  logger.log('');
 };
 
 // Basic completion message
@@ -4,8 +4,10 @@ import pc from 'picocolors';
 
 import { handleError } from '../shared/errorHandle.js'; // Assuming this exists
 import { kubeAggregatorLogLevels, logger } from '../shared/logger.js';
+import { runDiffAction } from './actions/diffAction.js';
 // Import the namespace action
 import { runNamespacesAction } from './actions/namespaceAction.js';
+import { runRenderAction } from './actions/renderAction.js';
 import type { CliOptions } from './types.js';
 // import { getVersion } from '../core/kubernetes/kubeVersion.js'; // Placeholder for future version logic
 
@@ -16,24 +18,81 @@ export const run = async () => {
       .name('kubemix')
       .description('KubeMix - Aggregate Kubernetes resources into a single file')
       // Define options based on CliOptions
-      .option('-o, --output <file>', 'Specify the output file name (default: kubemix-output.md)')
+      .option('-o, --output <file>', "Specify the output file name, '-' for stdout (default: kubemix-output.md)")
+      .option('--stdout', 'Write the output to stdout instead of a file; messages go to stderr')
       .option('--style <type>', 'Specify the output style (default: markdown)')
+      .option('--template <file>', 'Render the output with a custom Handlebars template (see RenderContext)')
+      .option('--parsable-style', 'Escape all content in the xml style so that the output is well-formed XML')
+      .option('--no-resource-graph', 'Show the resource tree without owner and selector relationships')
+      .option('--no-resource-sections', 'Show the resources of each namespace as one block instead of one per resource')
+      .option('--split-output <tokens>', 'Split the output into numbered files of at most this many tokens each')
+      .option('--save-snapshot <file>', 'Also save the collected data as a snapshot bundle, for kubemix render')
+      .option('--copy', 'Copy the generated output to the clipboard')
+      .option('--header-text <text>', 'Add text to the summary of the output (e.g., team context)')
+      .option('--instruction <file>', 'Add the content of a file at the end of the output (e.g., the task)')
       .option('--kubeconfig <path>', 'Path to the kubeconfig file')
-      .option('--context <name>', 'Kubernetes context to use')
+      .option('--context <name1,name2,...>', 'Kubernetes context to use; several are aggregated into one document')
+      .option('--all-contexts', 'Aggregate every context of the kubeconfig into one document, grouped by cluster')
       .option('--format <format>', 'Specify kubectl output format (default: text, options: text, yaml, json)')
+      .option('--transport <type>', 'How to reach the cluster (default: kubectl, options: kubectl, api)')
+      .option('--from-dir <dir1,dir2,...>', 'Read YAML/JSON manifests from directories instead of a cluster')
+      .option('--from-file <file1,file2,...>', 'Read YAML/JSON manifest files instead of a cluster')
+      .option('--concurrency <number>', 'Maximum number of namespaces fetched in parallel (default: 5)')
+      .option(
+        '--request-timeout <seconds>',
+        'Abandon kubectl commands after this many seconds, 0 to disable (default: 60)',
+      )
+      .option('--retries <number>', 'Retry transient failures (throttling, 5xx, resets) this many times (default: 3)')
       .option('-n, --namespace <ns1,ns2,...>', 'Specify namespaces to include (comma-separated)')
       .option('--exclude-namespace <ns1,ns2,...>', 'Specify namespaces to exclude (comma-separated)')
       .option('--include-type <type1,type2,...>', 'Specify resource types to include (comma-separated)')
       .option('--exclude-type <type1,type2,...>', 'Specify resource types to exclude (comma-separated)')
+      .option('--all-types', 'Discover and fetch every listable namespaced resource type, including CRDs')
+      .option('-l, --selector <selector>', 'Label selector to filter resources (e.g., app=checkout)')
+      .option('--field-selector <selector>', 'Field selector to filter resources (e.g., status.phase!=Running)')
+      .option('--no-cluster-resources', 'Disable collection of cluster-scoped resources (nodes, storage classes, ...)')
+      .option('--cluster-type <type1,type2,...>', 'Specify cluster-scoped resource types to collect (comma-separated)')
+      .option('--slim', 'Remove noise fields (managedFields, last-applied configuration, defaults) from manifests')
+      .option('--diff-against <snapshot>', 'Write the changes since a snapshot (a json style output) instead')
+      .option('--watch [seconds]', 'Regenerate the output every 60 seconds (or as given) until interrupted')
+      .option(
+        '--max-tokens <number>',
+        'Trim low-priority content (healthy ReplicaSets, old logs, ...) to fit a token budget',
+      )
+      .option('--top-consumers-len <number>', 'Number of largest resources and log blocks to list (default: 5)')
       .option('--no-redact-secrets', 'Disable redaction of Secret data (NOT RECOMMENDED)')
       .option('--no-diagnostics', 'Disable diagnostics for failing pods')
       .option('--pod-log-lines <number>', 'Number of log lines to fetch for failing pods (default: 50)')
+      .option('--no-events', 'Disable collection of recent Warning events')
+      .option('--normal-events', 'Include Normal events in addition to Warning events')
+      .option('--events-since <minutes>', 'Only include events seen within this many minutes (default: 60)')
+      .option('--no-helm', 'Disable decoding of Helm releases')
+      .option('--no-helm-values', 'Omit the user-supplied values of Helm releases')
       .option('-c, --config <path>', 'Path to a custom config file')
       .addOption(new Option('--verbose', 'Enable verbose logging').conflicts('quiet'))
       .addOption(new Option('--quiet', 'Disable informational output').conflicts('verbose'))
       // Define the action to take when the command is run
       .action(commanderActionEndpoint);
 
+    // Compare two snapshots; the options of the main command (style, output, config) apply
+    program
+      .command('diff')
+      .description('Compare two snapshots (json style outputs) and write the added, removed and modified resources')
+      .argument('<before>', 'The earlier snapshot')
+      .argument('<after>', 'The later snapshot')
+      .action(async (before: string, after: string, _options: CliOptions, command: Command) => {
+        await runDiffCli(before, after, command.optsWithGlobals());
+      });
+
+    // Render a snapshot bundle without the cluster; the output options of the main command apply
+    program
+      .command('render')
+      .description('Generate the output from a snapshot bundle saved with --save-snapshot, without cluster access')
+      .argument('<bundle>', 'The snapshot bundle')
+      .action(async (bundle: string, _options: CliOptions, command: Command) => {
+        await runRenderCli(bundle, command.optsWithGlobals());
+      });
+
     // Add custom error handling/suggestions later if needed (like Repomix)
     // program.configureOutput({ ... });
 
@@ -52,9 +111,10 @@ const commanderActionEndpoint = async (options: CliOptions = {}) => {
   await runCli(options);
 };
 
-// Main CLI logic function
-export const runCli = async (options: CliOptions) => {
-  // Set log level based on verbose/quiet flags
+// Set log level based on verbose/quiet flags, and where messages go based on --stdout
+const configureLogLevel = (options: CliOptions) => {
+  // Keep stdout for the generated output
+  logger.setStderrOnly(!!options.stdout || options.output === '-');
   if (options.quiet) {
     logger.setLogLevel(kubeAggregatorLogLevels.SILENT);
   } else if (options.verbose) {
@@ -62,6 +122,11 @@ export const runCli = async (options: CliOptions) => {
   } else {
     logger.setLogLevel(kubeAggregatorLogLevels.INFO); // Default log level
   }
+};
+
+// Main CLI logic function
+export const runCli = async (options: CliOptions) => {
+  configureLogLevel(options);
 
   logger.trace('cwd:', process.cwd());
   logger.trace('options:', options);
@@ -93,5 +158,31 @@ export const runCli = async (options: CliOptions) => {
   }
 };
 
+// CLI logic of the diff command
+export const runDiffCli = async (before: string, after: string, options: CliOptions) => {
+  configureLogLevel(options);
+  logger.trace('cwd:', process.cwd());
+
+  try {
+    await runDiffAction(before, after, options);
+  } catch (error) {
+    handleError(error);
+    process.exit(1); // Ensure exit on error during action
+  }
+};
+
+// CLI logic of the render command
+export const runRenderCli = async (bundle: string, options: CliOptions) => {
+  configureLogLevel(options);
+  logger.trace('cwd:', process.cwd());
+
+  try {
+    await runRenderAction(bundle, options);
+  } catch (error) {
+    handleError(error);
+    process.exit(1); // Ensure exit on error during action
+  }
+};
+
 // Export the program instance if needed for testing or extensions
 export const program = new Command();
@@ -3,19 +3,50 @@ import type { OptionValues } from 'commander';
 // Define the structure for CLI options parsed by Commander
 export interface CliOptions extends OptionValues {
   // Output Options
-  output?: string; // Path for the output file
+  output?: string; // Path for the output file ('-' for stdout)
+  stdout?: boolean; // Write the output to stdout, and messages to stderr
   style?: string; // Output style (e.g., 'markdown', 'xml', 'plain') - defaulting to markdown for now
+  parsableStyle?: boolean; // Generate well-formed XML with the xml style
+  resourceGraph?: boolean; // Set to false by --no-resource-graph
+  resourceSections?: boolean; // Set to false by --no-resource-sections
+  splitOutput?: string; // Split the output into files of at most this many tokens
+  saveSnapshot?: string; // Save the collected data as a snapshot bundle
+  copy?: boolean; // Copy the generated output to the clipboard
+  headerText?: string; // Text added to the summary of the output
+  instruction?: string; // File whose content is added at the end of the output
+  template?: string; // Handlebars template rendered instead of the template of the style
 
   // Kubernetes Specific Options
   kubeconfig?: string; // Path to kubeconfig file
-  context?: string; // Kubernetes context to use
+  context?: string; // Kubernetes context(s) to use, comma-separated
+  allContexts?: boolean; // Aggregate every context of the kubeconfig
   format?: string; // Output format for kubectl commands (text, yaml, json)
+  transport?: string; // How to reach the cluster (kubectl, api)
+  fromDir?: string; // Directories to read manifests from (offline mode), comma-separated
+  fromFile?: string; // Manifest files to read (offline mode), comma-separated
+  concurrency?: string; // Maximum number of namespaces fetched in parallel
+  requestTimeout?: string; // Seconds before a kubectl command is abandoned
+  retries?: string; // Retries for transient failures
 
   // Filtering Options
   namespace?: string; // Namespaces to include, comma-separated
   excludeNamespace?: string; // Namespaces to exclude, comma-separated
   includeType?: string; // Resource types to include, comma-separated
   excludeType?: string; // Resource types to exclude, comma-separated
+  selector?: string; // Label selector (e.g., 'app=checkout')
+  fieldSelector?: string; // Field selector (e.g., 'status.phase!=Running')
+  allTypes?: boolean; // Discover and fetch every listable namespaced resource type, including CRDs
+
+  // Cluster-Scoped Resources Options
+  clusterResources?: boolean; // Set to false by --no-cluster-resources
+  clusterType?: string; // Cluster-scoped resource types to collect, comma-separated
+
+  // Processing Options
+  slim?: boolean; // Remove noise fields from YAML/JSON manifests
+  diffAgainst?: string; // Snapshot to compare the aggregation with; the output becomes the diff report
+  watch?: boolean | string; // Regenerate the output periodically (every this many seconds, if given)
+  maxTokens?: string; // Trim low-priority content until the output fits this many tokens
+  topConsumersLen?: string; // Number of largest resources and log blocks listed in the summary
 
   // Security Options
   noRedactSecrets?: boolean; // Disable redaction of Secret data
@@ -24,6 +55,15 @@ export interface CliOptions extends OptionValues {
   noDiagnostics?: boolean; // Disable diagnostics for failing pods
   podLogLines?: number; // Number of log lines to fetch for failing pods
 
+  // Events Options
+  events?: boolean; // Set to false by --no-events
+  normalEvents?: boolean; // Include Normal events in addition to Warning events
+  eventsSince?: string; // Only include events seen within this many minutes
+
+  // Helm Options
+  helm?: boolean; // Set to false by --no-helm
+  helmValues?: boolean; // Set to false by --no-helm-values
+
   // Configuration Options
   config?: string; // Path to a custom config file
   // init?: boolean; // Add later if needed
@@ -17,7 +17,9 @@ import {
   type KubeAggregatorConfigMerged,
   type KubeAggregatorOutputStyle,
   type KubectlOutputFormat,
+  type KubectlTransportType,
   defaultConfig,
+  defaultDiffFilePathMap,
   defaultFilePathMap,
   kubeAggregatorConfigFileSchema,
   kubeAggregatorConfigMergedSchema,
@@ -184,6 +186,21 @@ export const mergeConfigs = (
       logger.debug(`Combined excluded resource types: ${currentFilter.excludeResourceTypes.join(', ')}`);
     }
 
+    // 5. Selectors: CLI label/field selectors REPLACE file selectors
+    if (cliConfig.filter.labelSelector) {
+      currentFilter.labelSelector = cliConfig.filter.labelSelector;
+      logger.debug(`Using CLI-specified label selector: ${currentFilter.labelSelector}`);
+    }
+    if (cliConfig.filter.fieldSelector) {
+      currentFilter.fieldSelector = cliConfig.filter.fieldSelector;
+      logger.debug(`Using CLI-specified field selector: ${currentFilter.fieldSelector}`);
+    }
+
+    // 6. Discovery: CLI --all-types enables discovery regardless of the file config
+    if (cliConfig.filter.discover) {
+      currentFilter.discover = true;
+    }
+
     // Update merged filter with our specially handled arrays
     merged.filter = currentFilter;
   }
@@ -194,13 +211,36 @@ export const mergeConfigs = (
   filteredCliConfig.filter = undefined;
   merged = deepMerge(merged, filteredCliConfig);
 
-  // Special handling for filePath based on style if not explicitly set
-  if (!merged.output?.filePath) {
+  // Special handling for filePath based on style if not explicitly set (the defaults always hold the markdown path)
+  if (!fileConfig.output?.filePath && !cliConfig.output?.filePath) {
     const style = merged.output?.style ?? defaultConfig.output.style;
-    merged.output = { ...merged.output, filePath: defaultFilePathMap[style] };
+    // A diff report does not overwrite the aggregation it may be compared with later
+    const filePath = merged.diff?.against ? defaultDiffFilePathMap[style] : defaultFilePathMap[style];
+    merged.output = { ...merged.output, filePath };
     logger.trace(`Output file path defaulted based on style '${style}' to: ${merged.output.filePath}`);
   }
 
+  // The JSON style and diffs parse resources from the fetched output: fetch JSON unless a format was chosen explicitly
+  if (
+    (merged.output?.style === 'json' || merged.diff?.against) &&
+    !fileConfig.kubernetes?.outputFormat &&
+    !cliConfig.kubernetes?.outputFormat
+  ) {
+    merged.kubernetes = { ...merged.kubernetes, outputFormat: 'json' };
+    logger.trace('Fetching JSON output to parse resources');
+  }
+  if (merged.diff?.against && merged.output?.splitOutput) {
+    logger.warn('Diff reports are not split into parts; --split-output is ignored.');
+  }
+
+  if (merged.output?.templatePath && (merged.output.style === 'json' || merged.output.parsableStyle)) {
+    logger.warn('Custom templates replace the markdown, xml and plain templates; the template is not used.');
+  }
+
+  if (merged.output?.parsableStyle && merged.output.style !== 'xml') {
+    logger.warn(`Parsable output only applies to the xml style; the ${merged.output.style} style is not affected.`);
+  }
+
   // Add runtime CWD
   merged.cwd = cwd;
 
@@ -227,16 +267,48 @@ type DeepPartial<T> = {
 interface CliInputOptions {
   output?: string;
   style?: string;
+  parsableStyle?: boolean;
+  resourceGraph?: boolean;
+  resourceSections?: boolean;
+  splitOutput?: number | string;
+  saveSnapshot?: string;
+  copy?: boolean;
+  headerText?: string;
+  instruction?: string;
+  template?: string;
+  stdout?: boolean;
   kubeconfig?: string;
   context?: string;
+  allContexts?: boolean;
   format?: string;
+  transport?: string;
+  concurrency?: number | string;
+  requestTimeout?: number | string;
+  retries?: number | string;
   namespace?: string;
   excludeNamespace?: string;
   includeType?: string;
   excludeType?: string;
+  selector?: string;
+  fieldSelector?: string;
+  allTypes?: boolean;
+  clusterResources?: boolean;
+  clusterType?: string;
+  fromDir?: string;
+  fromFile?: string;
   noRedactSecrets?: boolean;
   noDiagnostics?: boolean;
   podLogLines?: number | string;
+  events?: boolean;
+  normalEvents?: boolean;
+  eventsSince?: number | string;
+  helm?: boolean;
+  helmValues?: boolean;
+  slim?: boolean;
+  diffAgainst?: string;
+  watch?: boolean | string;
+  maxTokens?: number | string;
+  topConsumersLen?: number | string;
   config?: string;
   [key: string]: unknown; // Allow other properties we might not handle explicitly
 }
@@ -251,23 +323,85 @@ export const buildCliConfig = (options: CliInputOptions): KubeAggregatorConfigCl
   const cliConfig: KubeAggregatorConfigCli = {};
 
   // Map CLI options to config structure
-  if (options.output) {
+  // '-o -' writes to stdout, like --stdout
+  if (options.stdout || options.output === '-') {
+    cliConfig.output = { ...cliConfig.output, stdout: true };
+    logger.debug('Writing the output to stdout via CLI option');
+  } else if (options.output) {
     cliConfig.output = { ...cliConfig.output, filePath: options.output };
   }
   if (options.style) {
     // Basic validation, schema will do more thorough check
-    const validStyles = ['markdown', 'xml', 'plain'];
+    const validStyles = ['markdown', 'xml', 'plain', 'json'];
     if (validStyles.includes(options.style.toLowerCase())) {
       cliConfig.output = { ...cliConfig.output, style: options.style.toLowerCase() as KubeAggregatorOutputStyle };
     } else {
       logger.warn(`Invalid style specified: ${options.style}. Defaulting to markdown.`);
     }
   }
+  if (options.headerText) {
+    cliConfig.output = { ...cliConfig.output, headerText: options.headerText };
+    logger.debug('Header text set via CLI option');
+  }
+  if (options.instruction) {
+    cliConfig.output = { ...cliConfig.output, instructionFilePath: options.instruction };
+    logger.debug(`Instruction file ${options.instruction} set via CLI option`);
+  }
+  if (options.template) {
+    cliConfig.output = { ...cliConfig.output, templatePath: options.template };
+    logger.debug(`Custom template ${options.template} set via CLI option`);
+  }
+  if (options.parsableStyle) {
+    cliConfig.output = { ...cliConfig.output, parsableStyle: true };
+    logger.debug('Parsable XML output enabled via CLI option');
+  }
+  // Commander sets resourceGraph to false for --no-resource-graph
+  if (options.resourceGraph === false) {
+    cliConfig.output = { ...cliConfig.output, resourceGraph: false };
+    logger.debug('Resource relationships disabled via CLI option');
+  }
+  // Commander sets resourceSections to false for --no-resource-sections
+  if (options.resourceSections === false) {
+    cliConfig.output = { ...cliConfig.output, resourceSections: false };
+    logger.debug('Per-resource sections disabled via CLI option');
+  }
+  if (options.saveSnapshot) {
+    cliConfig.output = { ...cliConfig.output, saveSnapshot: options.saveSnapshot };
+    logger.debug(`Saving a snapshot to ${options.saveSnapshot} via CLI option`);
+  }
+  if (options.copy) {
+    cliConfig.output = { ...cliConfig.output, copyToClipboard: true };
+    logger.debug('Copying the output to the clipboard via CLI option');
+  }
+  if (options.splitOutput !== undefined) {
+    const splitOutput = Number(options.splitOutput);
+    if (Number.isInteger(splitOutput) && splitOutput > 0) {
+      cliConfig.output = { ...cliConfig.output, splitOutput };
+      logger.debug(`Splitting the output into parts of ${splitOutput} tokens via CLI option`);
+    } else {
+      logger.warn(`Invalid part size: ${options.splitOutput}. Output will not be split.`);
+    }
+  }
   if (options.kubeconfig) {
     cliConfig.kubernetes = { ...cliConfig.kubernetes, kubeconfigPath: options.kubeconfig };
   }
   if (options.context) {
-    cliConfig.kubernetes = { ...cliConfig.kubernetes, context: options.context };
+    // A comma-separated list selects several clusters, aggregated into one document
+    const contexts = options.context
+      .split(',')
+      .map((context: string) => context.trim())
+      .filter(Boolean);
+    if (contexts.length > 1) {
+      cliConfig.kubernetes = { ...cliConfig.kubernetes, contexts };
+      logger.debug(`Aggregating contexts from CLI: ${contexts.join(', ')}`);
+    } else if (contexts.length === 1) {
+      // A single CLI context also replaces contexts listed in the config file
+      cliConfig.kubernetes = { ...cliConfig.kubernetes, context: contexts[0], contexts: [] };
+    }
+  }
+  if (options.allContexts) {
+    cliConfig.kubernetes = { ...cliConfig.kubernetes, allContexts: true };
+    logger.debug('Aggregating all kubeconfig contexts via CLI option');
   }
   if (options.format) {
     // Basic validation, schema will do more thorough check
@@ -281,6 +415,37 @@ export const buildCliConfig = (options: CliInputOptions): KubeAggregatorConfigCl
       logger.warn(`Invalid kubectl output format specified: ${options.format}. Defaulting to text.`);
     }
   }
+  if (options.transport) {
+    // Basic validation, schema will do more thorough check
+    const validTransports = ['kubectl', 'api'];
+    if (validTransports.includes(options.transport.toLowerCase())) {
+      cliConfig.kubernetes = {
+        ...cliConfig.kubernetes,
+        transport: options.transport.toLowerCase() as KubectlTransportType,
+      };
+    } else {
+      logger.warn(`Invalid transport specified: ${options.transport}. Defaulting to kubectl.`);
+    }
+  }
+
+  // Handle request tuning options (concurrency, timeout, retries)
+  const requestLimits = [
+    { option: 'concurrency', value: options.concurrency, min: 1 },
+    { option: 'requestTimeout', value: options.requestTimeout, min: 0 },
+    { option: 'retries', value: options.retries, min: 0 },
+  ] as const;
+  for (const { option, value, min } of requestLimits) {
+    if (value === undefined) {
+      continue;
+    }
+    const parsed = Number(value);
+    if (Number.isInteger(parsed) && parsed >= min) {
+      cliConfig.kubernetes = { ...cliConfig.kubernetes, [option]: parsed };
+      logger.debug(`Setting kubernetes.${option} to ${parsed} via CLI option`);
+    } else {
+      logger.warn(`Invalid ${option} value: ${value}. Using default.`);
+    }
+  }
 
   // Handle namespace and resource type filtering options
   if (options.namespace) {
@@ -327,6 +492,54 @@ export const buildCliConfig = (options: CliInputOptions): KubeAggregatorConfigCl
     }
   }
 
+  if (options.allTypes) {
+    cliConfig.filter = { ...cliConfig.filter, discover: true };
+    logger.debug('Resource type discovery enabled via CLI option');
+  }
+
+  // Handle label and field selectors
+  if (options.selector?.trim()) {
+    cliConfig.filter = { ...cliConfig.filter, labelSelector: options.selector.trim() };
+    logger.debug(`Filtering by label selector from CLI: ${options.selector.trim()}`);
+  }
+
+  if (options.fieldSelector?.trim()) {
+    cliConfig.filter = { ...cliConfig.filter, fieldSelector: options.fieldSelector.trim() };
+    logger.debug(`Filtering by field selector from CLI: ${options.fieldSelector.trim()}`);
+  }
+
+  // Handle cluster-scoped resource options (Commander sets clusterResources to false for --no-cluster-resources)
+  if (options.clusterResources === false) {
+    cliConfig.clusterResources = { ...cliConfig.clusterResources, enabled: false };
+    logger.debug('Cluster-scoped resource collection disabled via CLI option');
+  }
+
+  if (options.clusterType) {
+    const resourceTypes = options.clusterType
+      .split(',')
+      .map((type: string) => type.trim())
+      .filter(Boolean);
+    if (resourceTypes.length) {
+      cliConfig.clusterResources = { ...cliConfig.clusterResources, resourceTypes };
+      logger.debug(`Collecting cluster-scoped resource types from CLI: ${resourceTypes.join(', ')}`);
+    }
+  }
+
+  // Handle offline mode options (read manifests instead of querying a cluster)
+  for (const [option, key] of [
+    ['fromDir', 'directories'],
+    ['fromFile', 'files'],
+  ] as const) {
+    const paths = options[option]
+      ?.split(',')
+      .map((value: string) => value.trim())
+      .filter(Boolean);
+    if (paths?.length) {
+      cliConfig.offline = { ...cliConfig.offline, [key]: paths };
+      logger.debug(`Reading manifests from CLI ${key}: ${paths.join(', ')}`);
+    }
+  }
+
   // Handle security options
   if (options.noRedactSecrets !== undefined) {
     cliConfig.security = {
@@ -362,6 +575,82 @@ export const buildCliConfig = (options: CliInputOptions): KubeAggregatorConfigCl
     }
   }
 
+  // Handle events options (Commander sets events to false for --no-events)
+  if (options.events === false) {
+    cliConfig.events = { ...cliConfig.events, enabled: false };
+    logger.debug('Events collection disabled via CLI option');
+  }
+  if (options.normalEvents) {
+    cliConfig.events = { ...cliConfig.events, includeNormal: true };
+    logger.debug('Including Normal events via CLI option');
+  }
+  if (options.eventsSince !== undefined) {
+    const sinceMinutes = Number(options.eventsSince);
+    if (Number.isInteger(sinceMinutes) && sinceMinutes > 0) {
+      cliConfig.events = { ...cliConfig.events, sinceMinutes };
+      logger.debug(`Collecting events of the last ${sinceMinutes} minutes via CLI option`);
+    } else {
+      logger.warn(`Invalid events window: ${options.eventsSince}. Using default.`);
+    }
+  }
+
+  // Handle the token budget
+  if (options.maxTokens !== undefined) {
+    const budget = Number(options.maxTokens);
+    if (Number.isInteger(budget) && budget > 0) {
+      cliConfig.tokenCount = { ...cliConfig.tokenCount, budget };
+      logger.debug(`Limiting the output to ${budget} tokens via CLI option`);
+    } else {
+      logger.warn(`Invalid token budget: ${options.maxTokens}. Output will not be limited.`);
+    }
+  }
+
+  if (options.topConsumersLen !== undefined) {
+    const topConsumersLength = Number(options.topConsumersLen);
+    if (Number.isInteger(topConsumersLength) && topConsumersLength >= 0) {
+      cliConfig.tokenCount = { ...cliConfig.tokenCount, topConsumersLength };
+      logger.debug(`Listing the ${topConsumersLength} largest token consumers via CLI option`);
+    } else {
+      logger.warn(`Invalid number of top token consumers: ${options.topConsumersLen}. Using default.`);
+    }
+  }
+
+  // Handle slim mode
+  if (options.slim) {
+    cliConfig.slim = { ...cliConfig.slim, enabled: true };
+    logger.debug('Slim mode enabled via CLI option');
+  }
+
+  // Compare the aggregation with a saved snapshot instead of writing it
+  if (options.diffAgainst) {
+    cliConfig.diff = { ...cliConfig.diff, against: options.diffAgainst };
+    logger.debug(`Comparing with snapshot ${options.diffAgainst} via CLI option`);
+  }
+
+  // Handle watch mode (--watch alone keeps the configured interval)
+  if (options.watch !== undefined && options.watch !== false) {
+    cliConfig.watch = { ...cliConfig.watch, enabled: true };
+    if (options.watch !== true) {
+      const intervalSeconds = Number(options.watch);
+      if (Number.isInteger(intervalSeconds) && intervalSeconds > 0) {
+        cliConfig.watch.intervalSeconds = intervalSeconds;
+      } else {
+        logger.warn(`Invalid watch interval: ${options.watch}. Using default.`);
+      }
+    }
+    logger.debug('Watch mode enabled via CLI option');
+  }
+
+  // Handle Helm options (Commander sets helm/helmValues to false for --no-helm/--no-helm-values)
+  if (options.helm === false) {
+    cliConfig.helm = { ...cliConfig.helm, enabled: false };
+    logger.debug('Helm release decoding disabled via CLI option');
+  }
+  if (options.helmValues === false) {
+    cliConfig.helm = { ...cliConfig.helm, includeValues: false };
+    logger.debug('Helm release values disabled via CLI option');
+  }
+
   // Validate the generated CLI config portion against its schema
   try {
     return kubeAggregatorConfigFileSchema.parse(cliConfig);
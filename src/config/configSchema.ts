@@ -3,7 +3,7 @@ import { z } from 'zod';
 // --- Output Configuration ---
 
 // Define possible output styles
-export const kubeAggregatorOutputStyleSchema = z.enum(['markdown', 'xml', 'plain']);
+export const kubeAggregatorOutputStyleSchema = z.enum(['markdown', 'xml', 'plain', 'json']);
 export type KubeAggregatorOutputStyle = z.infer<typeof kubeAggregatorOutputStyleSchema>;
 
 // Map styles to default file names
@@ -11,6 +11,15 @@ export const defaultFilePathMap: Record<KubeAggregatorOutputStyle, string> = {
   markdown: 'kubemix-output.md',
   xml: 'kubemix-output.xml',
   plain: 'kubemix-output.txt',
+  json: 'kubemix-output.json',
+} as const;
+
+// Map styles to default file names of diff reports (kubemix diff, --diff-against)
+export const defaultDiffFilePathMap: Record<KubeAggregatorOutputStyle, string> = {
+  markdown: 'kubemix-diff.md',
+  xml: 'kubemix-diff.xml',
+  plain: 'kubemix-diff.txt',
+  json: 'kubemix-diff.json',
 } as const;
 
 // --- Kubernetes Configuration ---
@@ -19,11 +28,34 @@ export const defaultFilePathMap: Record<KubeAggregatorOutputStyle, string> = {
 export const kubectlOutputFormatSchema = z.enum(['text', 'yaml', 'json']);
 export type KubectlOutputFormat = z.infer<typeof kubectlOutputFormatSchema>;
 
+// Define how Kubernetes requests are made: by spawning kubectl, or by calling the API server directly
+export const kubectlTransportSchema = z.enum(['kubectl', 'api']);
+export type KubectlTransportType = z.infer<typeof kubectlTransportSchema>;
+
 // Schema for Kubernetes connection/targeting options
 const kubernetesConfigSchema = z.object({
   kubeconfigPath: z.string().optional().describe('Path to the kubeconfig file'),
   context: z.string().optional().describe('Specific Kubernetes context to use'),
+  contexts: z
+    .array(z.string())
+    .optional()
+    .describe('Several contexts to aggregate into one document, grouped by cluster (overrides context)'),
+  allContexts: z.boolean().optional().describe('Aggregate every context of the kubeconfig into one document'),
   outputFormat: kubectlOutputFormatSchema.optional().describe('Output format for kubectl commands'),
+  transport: kubectlTransportSchema.optional().describe('How to reach the cluster: kubectl processes or the API'),
+  concurrency: z.number().int().positive().optional().describe('Maximum number of namespaces fetched in parallel'),
+  requestTimeout: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Seconds before a kubectl command is abandoned (0 disables the timeout)'),
+  retries: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('How often transient failures (throttling, 5xx, connection resets) are retried'),
   // Add more specific Kube options later (e.g., cluster URL, token)
 });
 
@@ -41,6 +73,8 @@ const filterSchema = z.object({
     .describe('List of resource types to include (e.g., pods, services)'),
   // Resource types to exclude
   excludeResourceTypes: z.array(z.string()).optional().describe('List of resource types to exclude'),
+  // Discover resource types from the cluster (`kubectl api-resources`) instead of using the default list
+  discover: z.boolean().optional().describe('Whether to fetch every listable namespaced type, including CRDs'),
   // Namespaces to exclude (higher priority than include)
   excludeNamespaces: z.array(z.string()).optional().describe('List of namespaces to explicitly exclude'),
   // Label selector string (e.g., 'app=myapp,env=production')
@@ -49,12 +83,36 @@ const filterSchema = z.object({
   fieldSelector: z.string().optional().describe('Kubernetes field selector'),
 });
 
+// --- Cluster-Scoped Resources Configuration ---
+
+// Schema for the cluster-scoped collection phase (nodes, storage, RBAC, ...)
+const clusterResourcesConfigSchema = z.object({
+  enabled: z.boolean().optional().describe('Whether to collect cluster-scoped resources'),
+  // Cluster-scoped resource types to collect (e.g., ['nodes', 'storageclasses'])
+  resourceTypes: z.array(z.string()).optional().describe('List of cluster-scoped resource types to collect'),
+});
+
+// Schema for offline mode: read manifests from local files instead of a cluster
+const offlineConfigSchema = z.object({
+  directories: z.array(z.string()).optional().describe('Directories to read YAML/JSON manifests from (recursively)'),
+  files: z.array(z.string()).optional().describe('YAML/JSON manifest files to read'),
+});
+
 // --- Security/Redaction Configuration ---
 
 // Schema for redaction options (placeholder for now)
 const securityConfigSchema = z.object({
   redactSecrets: z.boolean().optional().describe('Whether to redact data in Secret resources'),
-  // Add more fine-grained redaction options later
+  // Key names of credentials outside of Secrets: Helm values, and ConfigMap data and container environment variables
+  // with redactManifestKeys
+  redactKeys: z
+    .array(z.string())
+    .optional()
+    .describe("Key name patterns whose values are redacted, ignoring case, '-' and '_' ('*' matches any characters)"),
+  redactManifestKeys: z
+    .boolean()
+    .optional()
+    .describe('Whether ConfigMap data and container environment variables matching redactKeys are also redacted'),
 });
 
 // Schema for diagnostics options
@@ -63,9 +121,81 @@ const diagnosticsConfigSchema = z.object({
   podLogTailLines: z.number().int().positive().optional().describe('Number of log lines to fetch for failing pods'),
 });
 
+// Schema for the events collector (Warning events correlated with the resources they reference)
+const eventsConfigSchema = z.object({
+  enabled: z.boolean().optional().describe('Whether to collect recent events'),
+  includeNormal: z.boolean().optional().describe('Whether to include Normal events in addition to Warning events'),
+  sinceMinutes: z.number().int().positive().optional().describe('Only include events seen within this many minutes'),
+  maxEvents: z.number().int().positive().optional().describe('Maximum number of events listed (most recent first)'),
+});
+
+// Schema for Helm release awareness (decoded from the Helm release Secrets)
+const helmConfigSchema = z.object({
+  enabled: z.boolean().optional().describe('Whether to decode Helm releases and tag their resources'),
+  includeValues: z.boolean().optional().describe('Whether to include the user-supplied values of each release'),
+});
+
+// Schema for slim mode (removal of noise fields from YAML/JSON manifests)
+const slimConfigSchema = z.object({
+  enabled: z.boolean().optional().describe('Whether to remove noise fields from YAML/JSON manifests'),
+  removeFields: z
+    .record(z.string(), z.array(z.string()))
+    .optional()
+    .describe("Field paths to remove by kind ('*' for every kind), e.g. 'metadata.managedFields'"),
+  removeDefaults: z.boolean().optional().describe('Whether to remove fields holding their default values'),
+});
+
+// Schema for comparing aggregations (kubemix diff, --diff-against)
+const diffConfigSchema = z.object({
+  against: z
+    .string()
+    .optional()
+    .describe('Snapshot (a json style output) to compare the aggregation with; the output becomes the diff report'),
+  ignoreFields: z
+    .record(z.string(), z.array(z.string()))
+    .optional()
+    .describe("Volatile field paths ignored by kind ('*' for every kind), in the slim.removeFields syntax"),
+});
+
+// Schema for watch mode (the output is regenerated periodically until interrupted)
+const watchConfigSchema = z.object({
+  enabled: z.boolean().optional().describe('Whether to keep regenerating the output until interrupted'),
+  intervalSeconds: z.number().int().positive().optional().describe('Seconds between two aggregations'),
+});
+
+// Content trimmed to fit a token budget, in order of increasing importance by default
+export const tokenBudgetTrimStepSchema = z.enum([
+  'healthyReplicaSets', // ReplicaSets whose pods are all ready (including old, scaled-down ones)
+  'configMapData', // ConfigMap bodies (keys are kept)
+  'previousLogs', // Logs of the previous container instance of failing pods
+  'normalEvents', // Normal events (Warning events are kept)
+  'helmValues', // User-supplied values of Helm releases
+  'olderLogs', // Older lines of the current logs of failing pods
+  'olderEvents', // Older events
+  'clusterResources', // Manifests of cluster-scoped resources (the resource tree still lists them)
+  'resourceOutput', // Trailing resources (JSON lists) or lines of the namespaced resource output, as a last resort
+]);
+export type TokenBudgetTrimStep = z.infer<typeof tokenBudgetTrimStepSchema>;
+
 // Schema for token counting options
 const tokenCountConfigSchema = z.object({
   encoding: z.string().optional().describe('Encoding to use for token counting (e.g., o200k_base, cl100k_base)'),
+  budget: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of tokens of the output; low-priority content is trimmed to fit'),
+  trimOrder: z
+    .array(tokenBudgetTrimStepSchema)
+    .optional()
+    .describe('Order in which content is trimmed to fit the budget (the first is trimmed first)'),
+  topConsumersLength: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Number of largest resources and log blocks listed in the summary'),
 });
 
 // --- Base Configuration Schema (Common Structure) ---
@@ -76,10 +206,56 @@ export const kubeAggregatorConfigBaseSchema = z.object({
     .object({
       filePath: z.string().optional().describe('Path to the output file'),
       style: kubeAggregatorOutputStyleSchema.optional().describe('Output format style'),
+      resourceGraph: z
+        .boolean()
+        .optional()
+        .describe('Whether to nest owned resources below their owners and show selector relationships in the tree'),
+      resourceSections: z
+        .boolean()
+        .optional()
+        .describe('Whether YAML and JSON output is split into one section per resource, grouped by kind'),
+      parsableStyle: z
+        .boolean()
+        .optional()
+        .describe('Whether the xml style escapes all content and splits resources so that the output is well-formed'),
+      splitOutput: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Split the output into numbered files of at most this many tokens each'),
+      saveSnapshot: z
+        .string()
+        .optional()
+        .describe('Path of a snapshot bundle persisting the collected data, to render it again with kubemix render'),
+      stdout: z
+        .boolean()
+        .optional()
+        .describe('Whether to write the generated output to stdout instead of a file (messages go to stderr)'),
+      copyToClipboard: z.boolean().optional().describe('Whether to copy the generated output to the clipboard'),
+      clipboardMaxCharacters: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Output size (characters) above which copying to the clipboard warns that it may not fit'),
+      headerText: z
+        .string()
+        .optional()
+        .describe('Text added to the summary of the output, e.g. team context such as the platform and its SLOs'),
+      instructionFilePath: z
+        .string()
+        .optional()
+        .describe('Path to a file whose content is added at the end of the output, e.g. the task for the model'),
+      templatePath: z
+        .string()
+        .optional()
+        .describe('Path to a Handlebars template rendered instead of the markdown, xml or plain style template'),
+      templateHelpers: z
+        .array(z.string())
+        .optional()
+        .describe('Paths to ES modules whose exported functions are registered as helpers of the custom template'),
       // Add options similar to Repomix if needed later:
-      // parsableStyle: z.boolean().optional(),
-      // headerText: z.string().optional(),
-      // instructionFilePath: z.string().optional(),
       // preamble: z.boolean().optional(), // Renamed from fileSummary
       // resourceTree: z.boolean().optional(), // Renamed from directoryStructure
     })
@@ -87,8 +263,15 @@ export const kubeAggregatorConfigBaseSchema = z.object({
     .optional(),
   kubernetes: kubernetesConfigSchema.strict().optional(),
   filter: filterSchema.strict().optional(),
+  clusterResources: clusterResourcesConfigSchema.strict().optional(),
+  offline: offlineConfigSchema.strict().optional(),
   security: securityConfigSchema.strict().optional(),
   diagnostics: diagnosticsConfigSchema.strict().optional(),
+  events: eventsConfigSchema.strict().optional(),
+  helm: helmConfigSchema.strict().optional(),
+  slim: slimConfigSchema.strict().optional(),
+  diff: diffConfigSchema.strict().optional(),
+  watch: watchConfigSchema.strict().optional(),
   tokenCount: tokenCountConfigSchema.strict().optional(),
 });
 
@@ -100,6 +283,12 @@ export const kubeAggregatorConfigDefaultSchema = z.object({
     .object({
       filePath: z.string().default(defaultFilePathMap.markdown), // Default to markdown
       style: kubeAggregatorOutputStyleSchema.default('markdown'), // Default to markdown
+      resourceGraph: z.boolean().default(true),
+      resourceSections: z.boolean().default(true),
+      parsableStyle: z.boolean().default(false), // The xml template is easier to read for models
+      stdout: z.boolean().default(false),
+      copyToClipboard: z.boolean().default(false),
+      clipboardMaxCharacters: z.number().int().positive().default(500_000), // Chat inputs often accept less
       // preamble: z.boolean().default(true),
       // resourceTree: z.boolean().default(true),
     })
@@ -107,6 +296,10 @@ export const kubeAggregatorConfigDefaultSchema = z.object({
   kubernetes: kubernetesConfigSchema
     .extend({
       outputFormat: kubectlOutputFormatSchema.default('text'),
+      transport: kubectlTransportSchema.default('kubectl'), // Spawn kubectl unless asked to use the API
+      concurrency: z.number().int().positive().default(5),
+      requestTimeout: z.number().int().nonnegative().default(60),
+      retries: z.number().int().nonnegative().default(3),
     })
     .default({}),
   filter: filterSchema
@@ -114,11 +307,55 @@ export const kubeAggregatorConfigDefaultSchema = z.object({
       // Default exclusions (can be overridden)
       excludeNamespaces: z.array(z.string()).default(['kube-system', 'kube-public', 'kube-node-lease']),
       excludeResourceTypes: z.array(z.string()).default(['events']), // Often noisy
+      discover: z.boolean().default(false), // Use the default resource type list unless asked to discover
+    })
+    .default({}),
+  clusterResources: clusterResourcesConfigSchema
+    .extend({
+      enabled: z.boolean().default(true), // Default to collecting cluster-scoped resources
+      resourceTypes: z
+        .array(z.string())
+        .default([
+          'nodes',
+          'persistentvolumes',
+          'storageclasses.storage.k8s.io',
+          'clusterroles.rbac.authorization.k8s.io',
+          'clusterrolebindings.rbac.authorization.k8s.io',
+          'ingressclasses.networking.k8s.io',
+          'priorityclasses.scheduling.k8s.io',
+          'validatingwebhookconfigurations.admissionregistration.k8s.io',
+          'mutatingwebhookconfigurations.admissionregistration.k8s.io',
+        ]),
     })
     .default({}),
   security: securityConfigSchema
     .extend({
       redactSecrets: z.boolean().default(true), // Default to redacting secrets
+      redactKeys: z
+        .array(z.string())
+        .default([
+          '*password*',
+          '*passwd*',
+          '*passphrase*',
+          '*secret',
+          '*secretkey',
+          '*secretaccesskey',
+          '*token',
+          '*tokens',
+          '*credential',
+          '*credentials',
+          '*apikey',
+          '*accesskey',
+          '*accesskeyid',
+          '*privatekey',
+          '*.key',
+          'auth',
+          '*basicauth',
+          'authorization',
+          '*dsn',
+          '*connectionstring',
+        ]),
+      redactManifestKeys: z.boolean().default(false),
     })
     .default({}),
   diagnostics: diagnosticsConfigSchema
@@ -127,9 +364,63 @@ export const kubeAggregatorConfigDefaultSchema = z.object({
       podLogTailLines: z.number().int().positive().default(50), // Default to 50 lines of logs
     })
     .default({}),
+  events: eventsConfigSchema
+    .extend({
+      enabled: z.boolean().default(true), // Events are the most useful troubleshooting signal
+      includeNormal: z.boolean().default(false), // Normal events are mostly noise
+      sinceMinutes: z.number().int().positive().default(60),
+      maxEvents: z.number().int().positive().default(100),
+    })
+    .default({}),
+  helm: helmConfigSchema
+    .extend({
+      enabled: z.boolean().default(true),
+      includeValues: z.boolean().default(true), // Values are redacted like Secrets
+    })
+    .default({}),
+  slim: slimConfigSchema
+    .extend({
+      enabled: z.boolean().default(false), // Manifests are complete unless asked otherwise
+      removeFields: z.record(z.string(), z.array(z.string())).default({
+        '*': [
+          'metadata.managedFields',
+          'metadata.annotations[kubectl.kubernetes.io/last-applied-configuration]',
+          'metadata.resourceVersion',
+          'metadata.uid',
+          'metadata.generation',
+          'metadata.selfLink',
+          'metadata.ownerReferences.*.uid',
+        ],
+      }),
+      removeDefaults: z.boolean().default(true),
+    })
+    .default({}),
+  diff: diffConfigSchema
+    .extend({
+      // Status timestamps (lastTransitionTime, startedAt, ...) are always ignored
+      ignoreFields: z.record(z.string(), z.array(z.string())).default({
+        '*': [
+          'metadata.managedFields',
+          'metadata.annotations[kubectl.kubernetes.io/last-applied-configuration]',
+          'metadata.resourceVersion',
+          'metadata.generation',
+          'metadata.selfLink',
+          'status.observedGeneration',
+        ],
+      }),
+    })
+    .default({}),
+  watch: watchConfigSchema
+    .extend({
+      enabled: z.boolean().default(false),
+      intervalSeconds: z.number().int().positive().default(60),
+    })
+    .default({}),
   tokenCount: tokenCountConfigSchema
     .extend({
       encoding: z.string().default('o200k_base'), // Default to o200k_base encoding (GPT-4o)
+      trimOrder: z.array(tokenBudgetTrimStepSchema).default([...tokenBudgetTrimStepSchema.options]),
+      topConsumersLength: z.number().int().nonnegative().default(5),
     })
     .default({}),
 });
@@ -0,0 +1,303 @@
+// src/core/diff/snapshotDiff.ts
+// Compares two aggregations resource by resource. Aggregations are compared as JSON output documents (the json
+// style): saved snapshots are loaded from disk, while snapshot bundles and live aggregations are converted with
+// buildJsonOutputDocument.
+
+import fs from 'node:fs/promises';
+import * as yaml from 'yaml';
+import { defaultConfig } from '../../config/configSchema.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import { buildOutputGeneratorContext } from '../output/outputGenerate.js';
+import {
+  type JsonOutputDocument,
+  type JsonOutputResource,
+  buildJsonOutputDocument,
+} from '../output/outputStyles/jsonStyle.js';
+import { removeFieldPaths } from '../processing/resourceProcessor.js';
+import { getResourceAnchor } from '../processing/resourceSections.js';
+import { isSnapshotBundle, validateSnapshotBundle } from '../snapshot/snapshotBundle.js';
+
+// Keys of timestamps under `status` (lastTransitionTime, startedAt, ...), which change without the resource changing
+const STATUS_TIMESTAMP_KEY_PATTERN = /(Time|Timestamp|At)$/;
+
+// A changed field of a modified resource; values are formatted as compact JSON
+export interface FieldChange {
+  path: string; // e.g., 'spec.template.spec.containers[name=api].image'
+  type: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+// A resource that was added, removed or modified between the two aggregations
+export interface ResourceDiff {
+  kind: string;
+  name: string;
+  namespace?: string;
+  cluster?: string; // Kubeconfig context, only set for multi-cluster aggregations
+  anchor: string;
+  manifest?: string; // YAML of the added or removed resource (volatile fields removed)
+  changes?: FieldChange[]; // Changed fields of a modified resource
+}
+
+// Where an aggregation came from
+export interface SnapshotInfo {
+  source: string; // Snapshot file, or a description of the live aggregation
+  generatedAt: string;
+}
+
+// The differences between two aggregations
+export interface SnapshotDiff {
+  before: SnapshotInfo;
+  after: SnapshotInfo;
+  added: ResourceDiff[];
+  removed: ResourceDiff[];
+  modified: ResourceDiff[];
+  unchangedCount: number;
+  warnings: string[]; // Content that could not be compared (e.g., kubectl tables)
+}
+
+/**
+ * Loads a snapshot: a JSON output document written with the json style, or a snapshot bundle (--save-snapshot),
+ * which is converted to a JSON output document.
+ *
+ * @param filePath - Path to the snapshot file.
+ * @returns The parsed document.
+ * @throws {KubeAggregatorError} If the file cannot be read or is not a snapshot of a supported version.
+ */
+export const loadSnapshot = async (filePath: string): Promise<JsonOutputDocument> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to read snapshot ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  let document: Partial<JsonOutputDocument>;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    throw new KubeAggregatorError(`Snapshot ${filePath} is not JSON; save snapshots with --style json`);
+  }
+  if (isSnapshotBundle(document)) {
+    const bundle = validateSnapshotBundle(document, filePath);
+    const config = { ...defaultConfig, ...bundle.config, cwd: process.cwd() };
+    const context = await buildOutputGeneratorContext(
+      config,
+      bundle.clusters.map((cluster) => cluster.aggregation),
+    );
+    return { ...buildJsonOutputDocument(context), generator: { name: 'kubemix', generatedAt: bundle.createdAt } };
+  }
+  if (typeof document.schemaVersion !== 'string' || !Array.isArray(document.clusters)) {
+    throw new KubeAggregatorError(
+      `Snapshot ${filePath} is not a kubemix JSON document; save snapshots with --style json`,
+    );
+  }
+  if (!document.schemaVersion.startsWith('1.')) {
+    throw new KubeAggregatorError(`Snapshot ${filePath} has unsupported schema version ${document.schemaVersion}`);
+  }
+  if (document.part && document.part.totalParts > 1) {
+    logger.warn(
+      `Snapshot ${filePath} is part ${document.part.part} of ${document.part.totalParts}; only its resources are compared`,
+    );
+  }
+  return document as JsonOutputDocument;
+};
+
+/**
+ * Removes timestamps from the status of a resource, recursively. The value is modified in place.
+ */
+const removeStatusTimestamps = (value: unknown): void => {
+  if (!value || typeof value !== 'object') return;
+  if (Array.isArray(value)) {
+    value.forEach(removeStatusTimestamps);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  for (const [key, child] of Object.entries(record)) {
+    if (STATUS_TIMESTAMP_KEY_PATTERN.test(key) && (typeof child === 'string' || child === null)) {
+      delete record[key];
+    } else {
+      removeStatusTimestamps(child);
+    }
+  }
+};
+
+/**
+ * Copies a manifest without its volatile fields: the configured `diff.ignoreFields` and the timestamps of its status.
+ *
+ * @param resource - The resource to normalize.
+ * @param ignoreFields - Field paths to ignore by kind ('*' for every kind).
+ * @returns The normalized manifest.
+ */
+export const normalizeManifest = (
+  resource: JsonOutputResource,
+  ignoreFields: Record<string, string[]>,
+): Record<string, unknown> => {
+  const manifest = structuredClone(resource.manifest);
+  removeFieldPaths(manifest, [...(ignoreFields['*'] ?? []), ...(ignoreFields[resource.kind] ?? [])]);
+  removeStatusTimestamps(manifest.status);
+  return manifest;
+};
+
+/**
+ * Formats a value of a field change as compact JSON.
+ */
+const formatValue = (value: unknown): string => JSON.stringify(value) ?? 'null';
+
+/**
+ * Checks whether every item of an array is an object with a name (containers, volumes, ports, ...).
+ */
+const isNamedList = (values: unknown[]): values is Array<{ name: string }> =>
+  values.length > 0 &&
+  values.every(
+    (value) => !!value && typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string',
+  );
+
+/**
+ * Compares two JSON values field by field. Lists of named items are matched by name, other lists by position.
+ *
+ * @param before - The earlier value.
+ * @param after - The later value.
+ * @param path - The path of the values.
+ * @returns The changed fields, in document order.
+ */
+export const diffValues = (before: unknown, after: unknown, path = ''): FieldChange[] => {
+  const isObject = (value: unknown) => !!value && typeof value === 'object';
+  const childPath = (key: string) => (path ? `${path}.${key}` : key);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (isNamedList(before) && isNamedList(after)) {
+      const afterByName = new Map(after.map((item) => [item.name, item]));
+      const beforeNames = new Set(before.map((item) => item.name));
+      return [
+        ...before.flatMap((item) => diffValues(item, afterByName.get(item.name), `${path}[name=${item.name}]`)),
+        ...after
+          .filter((item) => !beforeNames.has(item.name))
+          .flatMap((item) => diffValues(undefined, item, `${path}[name=${item.name}]`)),
+      ];
+    }
+    return Array.from({ length: Math.max(before.length, after.length) }, (_, index) =>
+      diffValues(before[index], after[index], `${path}[${index}]`),
+    ).flat();
+  }
+
+  if (isObject(before) && isObject(after) && !Array.isArray(before) && !Array.isArray(after)) {
+    const beforeRecord = before as Record<string, unknown>;
+    const afterRecord = after as Record<string, unknown>;
+    const keys = [...new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)])];
+    return keys.flatMap((key) => diffValues(beforeRecord[key], afterRecord[key], childPath(key)));
+  }
+
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, type: 'added', after: formatValue(after) }];
+  if (after === undefined) return [{ path, type: 'removed', before: formatValue(before) }];
+  return formatValue(before) === formatValue(after)
+    ? []
+    : [{ path, type: 'changed', before: formatValue(before), after: formatValue(after) }];
+};
+
+/**
+ * Returns the API group of a resource ('' for the core group). The version is left out, so a resource served
+ * under a new version of its group is still the same resource.
+ */
+const getApiGroup = (resource: JsonOutputResource): string => {
+  const apiVersion = resource.apiVersion ?? resource.manifest.apiVersion;
+  return typeof apiVersion === 'string' && apiVersion.includes('/') ? apiVersion.split('/')[0] : '';
+};
+
+/**
+ * Indexes the resources of a document by cluster, API group, kind, namespace and name, and collects what cannot
+ * be compared.
+ */
+const indexResources = (
+  document: JsonOutputDocument,
+  source: string,
+  warnings: string[],
+): Map<string, { resource: JsonOutputResource; cluster?: string }> => {
+  const index = new Map<string, { resource: JsonOutputResource; cluster?: string }>();
+  for (const cluster of document.clusters) {
+    const context = cluster.context ?? undefined;
+    for (const resource of [...cluster.resources, ...cluster.clusterResources]) {
+      index.set(JSON.stringify([context, getApiGroup(resource), resource.kind, resource.namespace, resource.name]), {
+        resource,
+        cluster: context,
+      });
+    }
+    if (cluster.rawOutputs.length > 0) {
+      warnings.push(
+        `${source}${context ? ` (cluster ${context})` : ''}: ${cluster.rawOutputs.length} text outputs (kubectl tables or trimmed output) were not compared; fetch with --format json or yaml`,
+      );
+    }
+  }
+  return index;
+};
+
+/**
+ * Compares two aggregations resource by resource, ignoring volatile fields.
+ * Resources are matched by cluster, API group, kind, namespace and name.
+ *
+ * @param before - The earlier aggregation, as a JSON output document.
+ * @param after - The later aggregation, as a JSON output document.
+ * @param sources - Where the aggregations came from (snapshot files, or a description of a live aggregation).
+ * @param ignoreFields - Field paths to ignore by kind ('*' for every kind), in the `slim.removeFields` syntax.
+ * @returns The added, removed and modified resources.
+ */
+export const diffSnapshots = (
+  before: JsonOutputDocument,
+  after: JsonOutputDocument,
+  sources: { before: string; after: string },
+  ignoreFields: Record<string, string[]> = {},
+): SnapshotDiff => {
+  const warnings: string[] = [];
+  const beforeIndex = indexResources(before, sources.before, warnings);
+  const afterIndex = indexResources(after, sources.after, warnings);
+
+  const toResourceDiff = (
+    { resource, cluster }: { resource: JsonOutputResource; cluster?: string },
+    details: Pick<ResourceDiff, 'manifest' | 'changes'>,
+  ): ResourceDiff => ({
+    kind: resource.kind,
+    name: resource.name,
+    namespace: resource.namespace,
+    cluster,
+    anchor: getResourceAnchor(resource.kind, resource.name, resource.namespace, cluster),
+    ...details,
+  });
+  const toManifest = (resource: JsonOutputResource) =>
+    yaml.stringify(normalizeManifest(resource, ignoreFields)).trimEnd();
+
+  const diff: SnapshotDiff = {
+    before: { source: sources.before, generatedAt: before.generator?.generatedAt ?? '' },
+    after: { source: sources.after, generatedAt: after.generator?.generatedAt ?? '' },
+    added: [],
+    removed: [],
+    modified: [],
+    unchangedCount: 0,
+    warnings,
+  };
+  for (const [key, entry] of beforeIndex) {
+    const afterEntry = afterIndex.get(key);
+    if (!afterEntry) {
+      diff.removed.push(toResourceDiff(entry, { manifest: toManifest(entry.resource) }));
+      continue;
+    }
+    const changes = diffValues(
+      normalizeManifest(entry.resource, ignoreFields),
+      normalizeManifest(afterEntry.resource, ignoreFields),
+    );
+    if (changes.length > 0) {
+      diff.modified.push(toResourceDiff(afterEntry, { changes }));
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+  for (const [key, entry] of afterIndex) {
+    if (!beforeIndex.has(key)) {
+      diff.added.push(toResourceDiff(entry, { manifest: toManifest(entry.resource) }));
+    }
+  }
+  return diff;
+};
@@ -0,0 +1,214 @@
+// Minimal HTTP client for the Kubernetes API server, used by the API transport.
+// Connections are pooled (keep-alive) per client, which is what makes the API transport
+// faster than spawning a kubectl process for every request.
+// Proxy environment variables (HTTPS_PROXY, HTTP_PROXY, NO_PROXY) and the proxy-url of the kubeconfig are not
+// honoured: clusters only reachable through a proxy need the kubectl transport.
+
+import http from 'node:http';
+import https from 'node:https';
+
+import { KubeApiError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import type { KubeConnection } from './kubeconfig.js';
+
+// Accept header asking the server to render lists as tables (as used by `kubectl get`)
+export const TABLE_ACCEPT_HEADER =
+  'application/json;as=Table;v=v1;g=meta.k8s.io,application/json;as=Table;v=v1beta1;g=meta.k8s.io,application/json';
+// Accept header asking the server for metadata only (as used by `kubectl get -o name`)
+export const METADATA_ACCEPT_HEADER =
+  'application/json;as=PartialObjectMetadataList;v=v1;g=meta.k8s.io,application/json';
+
+// Page size for list requests, same as kubectl's default chunk size
+const LIST_CHUNK_SIZE = 500;
+
+// Reason of the KubeApiError thrown when a request exceeds the client's timeout
+export const CLIENT_TIMEOUT_REASON = 'ClientTimeout';
+
+// Query parameters of an API request; undefined values are omitted
+export type KubeApiQuery = Record<string, string | undefined>;
+
+// Raw response of an API request
+interface KubeApiResponse {
+  statusCode: number;
+  body: string;
+}
+
+/**
+ * Client for a single API server, authenticated with the credentials of a kubeconfig context.
+ */
+export class KubeApiClient {
+  private readonly agent: http.Agent;
+
+  /**
+   * @param connection - The API server and credentials.
+   * @param requestTimeoutMs - Abandon requests after this many milliseconds (0: no timeout).
+   * @param agent - Pooled connections of another client to share (see withTimeout).
+   */
+  constructor(
+    private readonly connection: KubeConnection,
+    private readonly requestTimeoutMs = 0,
+    agent?: http.Agent,
+  ) {
+    this.agent =
+      agent ??
+      (connection.server.startsWith('http://')
+        ? new http.Agent({ keepAlive: true })
+        : new https.Agent({
+            keepAlive: true,
+            ca: connection.ca,
+            cert: connection.cert,
+            key: connection.key,
+            rejectUnauthorized: !connection.insecureSkipTlsVerify,
+            servername: connection.tlsServerName,
+          }));
+  }
+
+  /**
+   * Returns a client sharing the pooled connections of this one, with its own request timeout, so concurrent
+   * commands do not change each other's timeout.
+   *
+   * @param requestTimeoutMs - Abandon requests after this many milliseconds (0: no timeout).
+   * @returns The client.
+   */
+  withTimeout(requestTimeoutMs: number): KubeApiClient {
+    return new KubeApiClient(this.connection, requestTimeoutMs, this.agent);
+  }
+
+  /**
+   * Fetches a JSON document.
+   *
+   * @param apiPath - The API path, e.g. '/api/v1/namespaces'.
+   * @param query - Optional query parameters.
+   * @param accept - The Accept header (defaults to plain JSON).
+   * @returns The parsed response body.
+   * @throws KubeApiError if the request fails or the server returns an error status.
+   */
+  async getJson<T>(apiPath: string, query: KubeApiQuery = {}, accept = 'application/json'): Promise<T> {
+    const body = await this.getText(apiPath, query, accept);
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new KubeApiError(`invalid JSON response from ${apiPath}`);
+    }
+  }
+
+  /**
+   * Fetches all pages of a list, following the server's continue tokens.
+   * Works for plain lists (items) as well as tables (rows).
+   *
+   * @param apiPath - The API path of the collection.
+   * @param query - Optional query parameters (e.g., labelSelector).
+   * @param accept - The Accept header.
+   * @returns The pages, in order.
+   */
+  async listAll<T extends { metadata?: { continue?: string } }>(
+    apiPath: string,
+    query: KubeApiQuery = {},
+    accept = 'application/json',
+  ): Promise<T[]> {
+    const pages: T[] = [];
+    let continueToken: string | undefined;
+    do {
+      const page: T = await this.getJson<T>(
+        apiPath,
+        { ...query, limit: String(LIST_CHUNK_SIZE), continue: continueToken },
+        accept,
+      );
+      pages.push(page);
+      continueToken = page.metadata?.continue || undefined;
+    } while (continueToken);
+    return pages;
+  }
+
+  /**
+   * Fetches a text document (e.g., pod logs).
+   *
+   * @param apiPath - The API path.
+   * @param query - Optional query parameters.
+   * @param accept - The Accept header.
+   * @returns The response body.
+   * @throws KubeApiError if the request fails or the server returns an error status.
+   */
+  async getText(apiPath: string, query: KubeApiQuery = {}, accept = '*/*'): Promise<string> {
+    const { statusCode, body } = await this.request(apiPath, query, accept);
+    if (statusCode < 200 || statusCode >= 300) {
+      throw parseErrorStatus(statusCode, body);
+    }
+    return body;
+  }
+
+  /**
+   * Closes pooled connections.
+   */
+  close(): void {
+    this.agent.destroy();
+  }
+
+  private request(apiPath: string, query: KubeApiQuery, accept: string): Promise<KubeApiResponse> {
+    const url = new URL(`${this.connection.server}${apiPath}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    const headers: Record<string, string> = { Accept: accept, 'User-Agent': 'kubemix' };
+    if (this.connection.token) {
+      headers.Authorization = `Bearer ${this.connection.token}`;
+    } else if (this.connection.username) {
+      const credentials = `${this.connection.username}:${this.connection.password ?? ''}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    logger.trace(`API request: GET ${url.pathname}${url.search}`);
+    const requestFn = url.protocol === 'http:' ? http.request : https.request;
+    return new Promise((resolve, reject) => {
+      const req = requestFn(url, { method: 'GET', headers, agent: this.agent }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () =>
+          resolve({ statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf-8') }),
+        );
+        res.on('error', (error) => reject(new KubeApiError(error.message)));
+      });
+      req.on('error', (error) => reject(new KubeApiError(error.message)));
+      if (this.requestTimeoutMs > 0) {
+        const timer = setTimeout(() => {
+          const error = new KubeApiError(
+            `request timed out after ${this.requestTimeoutMs}ms`,
+            undefined,
+            CLIENT_TIMEOUT_REASON,
+          );
+          // Reject before destroying, so the timeout is reported rather than the aborted connection
+          reject(error);
+          req.destroy(error);
+        }, this.requestTimeoutMs);
+        req.on('close', () => clearTimeout(timer));
+      }
+      req.end();
+    });
+  }
+}
+
+/**
+ * Converts an error response (usually a metav1.Status object) into a KubeApiError.
+ *
+ * @param statusCode - The HTTP status code.
+ * @param body - The response body.
+ * @returns The error.
+ */
+const parseErrorStatus = (statusCode: number, body: string): KubeApiError => {
+  try {
+    const status = JSON.parse(body) as { kind?: string; message?: string; reason?: string };
+    if (status.kind === 'Status' && status.message) {
+      return new KubeApiError(status.message, statusCode, status.reason);
+    }
+  } catch {
+    // Not a Status object, fall through
+  }
+  return new KubeApiError(
+    body.trim() || `the server responded with status ${statusCode}`,
+    statusCode,
+    http.STATUS_CODES[statusCode]?.replace(/\s/g, ''),
+  );
+};
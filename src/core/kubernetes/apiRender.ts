@@ -0,0 +1,471 @@
+// Renders Kubernetes API responses the way kubectl prints them, so that output produced by the
+// API transport matches the output of the kubectl transport (tables, -o name/json/yaml, describe).
+
+import * as yaml from 'yaml';
+
+import type {
+  ContainerSpec,
+  ContainerState,
+  ContainerStatus,
+  EventObject,
+  KubeList,
+  KubeObject,
+  KubeTable,
+  PodObject,
+} from './apiTypes.js';
+import type { ResourceKindInfo } from './resourceRegistry.js';
+
+// Spacing between table columns, as used by kubectl's tab writer
+const COLUMN_PADDING = 3;
+
+// A table fetched for one resource type
+export interface ResourceTable {
+  info: ResourceKindInfo;
+  table: KubeTable;
+}
+
+// Options controlling how `kubectl get` tables are printed
+export interface TableRenderOptions {
+  wide: boolean; // Include low-priority columns (-o wide)
+  withKind: boolean; // Prefix names with their kind (when several types are printed)
+  withNamespace: boolean; // Add a NAMESPACE column (--all-namespaces)
+  noHeaders: boolean;
+  now?: number; // Reference time for ages, defaults to Date.now()
+}
+
+/**
+ * Formats a duration the way kubectl prints ages (e.g., '45s', '7m30s', '5h12m', '3d4h', '2y15d').
+ *
+ * @param milliseconds - The duration.
+ * @returns The human-readable duration.
+ */
+export const formatHumanDuration = (milliseconds: number): string => {
+  const seconds = Math.floor(milliseconds / 1000);
+  if (seconds < -1) return '<invalid>';
+  if (seconds < 0) return '0s';
+  if (seconds < 60 * 2) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 10) return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m${seconds % 60}s`;
+  if (minutes < 60 * 3) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 8) return minutes % 60 === 0 ? `${hours}h` : `${hours}h${minutes % 60}m`;
+  if (hours < 48) return `${hours}h`;
+  if (hours < 24 * 8) return hours % 24 === 0 ? `${hours / 24}d` : `${Math.floor(hours / 24)}d${hours % 24}h`;
+
+  const days = Math.floor(hours / 24);
+  if (hours < 24 * 365 * 2) return `${days}d`;
+  if (hours < 24 * 365 * 8) return days % 365 === 0 ? `${days / 365}y` : `${Math.floor(days / 365)}y${days % 365}d`;
+  return `${Math.floor(days / 365)}y`;
+};
+
+/**
+ * Formats the age of a timestamp relative to now.
+ */
+const formatAge = (timestamp: string | undefined, now: number): string => {
+  const time = timestamp ? Date.parse(timestamp) : Number.NaN;
+  return Number.isNaN(time) ? '<unknown>' : formatHumanDuration(now - time);
+};
+
+/**
+ * Formats a timestamp the way kubectl describe prints it (RFC 1123 with numeric zone).
+ */
+const formatTime = (timestamp: string | undefined): string => {
+  const time = timestamp ? new Date(timestamp) : undefined;
+  return time && !Number.isNaN(time.getTime()) ? time.toUTCString().replace('GMT', '+0000') : '<unknown>';
+};
+
+/**
+ * Aligns rows of cells into columns separated by spaces.
+ *
+ * @param rows - The rows, each an array of cells.
+ * @param indent - Optional prefix of every line.
+ * @returns The aligned lines (without trailing whitespace).
+ */
+export const formatColumns = (rows: string[][], indent = ''): string[] => {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index] ?? 0, cell.length);
+    });
+  }
+  return rows.map((row) =>
+    `${indent}${row.map((cell, index) => cell.padEnd(widths[index] + COLUMN_PADDING)).join('')}`.trimEnd(),
+  );
+};
+
+/**
+ * Formats a single table cell value.
+ */
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '<none>';
+  if (Array.isArray(value)) return value.map(formatCell).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Builds the prefix kubectl uses for a resource of the given kind (e.g., 'deployment.apps').
+ *
+ * @param info - The resource kind.
+ * @returns The lowercased, group-qualified kind.
+ */
+export const formatKindPrefix = (info: ResourceKindInfo): string => {
+  const kind = info.kind.toLowerCase();
+  return info.group ? `${kind}.${info.group}` : kind;
+};
+
+/**
+ * Converts a plain list (returned by servers that do not support tables) into a NAME/AGE table.
+ *
+ * @param list - The list response.
+ * @returns The equivalent table.
+ */
+export const listToTable = (list: KubeList): KubeTable => ({
+  kind: 'Table',
+  columnDefinitions: [
+    { name: 'Name', type: 'string', format: 'name' },
+    { name: 'Age', type: 'date' },
+  ],
+  rows: (list.items ?? []).map((item) => ({
+    cells: [item.metadata?.name, item.metadata?.creationTimestamp],
+    object: { metadata: item.metadata },
+  })),
+});
+
+/**
+ * Renders tables like `kubectl get` does, one block per resource type.
+ * Types without any rows are omitted.
+ *
+ * @param tables - The tables, one per resource type.
+ * @param options - Rendering options.
+ * @returns The rendered tables, or an empty string if there are no rows.
+ */
+export const renderResourceTables = (tables: ResourceTable[], options: TableRenderOptions): string => {
+  const now = options.now ?? Date.now();
+  const blocks: string[] = [];
+
+  for (const { info, table } of tables) {
+    const rows = table.rows ?? [];
+    if (rows.length === 0) {
+      continue;
+    }
+
+    // Keep the column indices, as row cells are positional
+    const columns = (table.columnDefinitions ?? [])
+      .map((definition, index) => ({ definition, index }))
+      .filter(({ definition }) => options.wide || !definition.priority);
+
+    const lines: string[][] = [];
+    if (!options.noHeaders) {
+      const header = columns.map(({ definition }) => definition.name.toUpperCase());
+      lines.push(options.withNamespace ? ['NAMESPACE', ...header] : header);
+    }
+
+    for (const row of rows) {
+      const cells = columns.map(({ definition, index }) => {
+        const value = row.cells[index];
+        if (definition.type === 'date' && typeof value === 'string') {
+          return formatAge(value, now);
+        }
+        if (options.withKind && (definition.format === 'name' || definition.name === 'Name')) {
+          return `${formatKindPrefix(info)}/${formatCell(value)}`;
+        }
+        return formatCell(value);
+      });
+      lines.push(options.withNamespace ? [row.object?.metadata?.namespace ?? '', ...cells] : cells);
+    }
+
+    blocks.push(formatColumns(lines).join('\n'));
+  }
+
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+};
+
+/**
+ * Renders resource kinds like `kubectl api-resources` does.
+ *
+ * @param kinds - The resource kinds.
+ * @param wide - Whether to include the VERBS and CATEGORIES columns (-o wide).
+ * @returns The rendered table.
+ */
+export const renderApiResources = (kinds: ResourceKindInfo[], wide: boolean): string => {
+  // Core group first, then by group and name
+  const sorted = [...kinds].sort((a, b) => {
+    if (a.group !== b.group) {
+      if (!a.group) return -1;
+      if (!b.group) return 1;
+      return a.group.localeCompare(b.group);
+    }
+    return a.name.localeCompare(b.name);
+  });
+
+  const header = ['NAME', 'SHORTNAMES', 'APIVERSION', 'NAMESPACED', 'KIND'];
+  const rows = sorted.map((info) => {
+    const row = [
+      info.name,
+      info.shortNames.join(','),
+      info.group ? `${info.group}/${info.version}` : info.version,
+      String(info.namespaced),
+      info.kind,
+    ];
+    return wide ? [...row, `[${info.verbs.join(' ')}]`, info.categories.join(',')] : row;
+  });
+
+  return `${formatColumns([wide ? [...header, 'VERBS', 'CATEGORIES'] : header, ...rows]).join('\n')}\n`;
+};
+
+/**
+ * Recursively sorts object keys, as kubectl does when printing JSON and YAML.
+ */
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Renders objects like `kubectl get -o json|yaml` does: a single object as is, several wrapped in a List.
+ *
+ * @param format - The output format.
+ * @param objects - The objects (with apiVersion and kind set).
+ * @param single - Whether a single named object was requested.
+ * @returns The rendered document.
+ */
+export const renderObjects = (format: 'json' | 'yaml', objects: KubeObject[], single: boolean): string => {
+  const document = sortKeys(
+    single && objects.length === 1
+      ? objects[0]
+      : { apiVersion: 'v1', items: objects, kind: 'List', metadata: { resourceVersion: '' } },
+  );
+  if (format === 'json') {
+    return `${JSON.stringify(document, null, 4)}\n`;
+  }
+  return yaml.stringify(document, { indentSeq: false, lineWidth: 0 });
+};
+
+// --- kubectl describe ---
+
+// A line of describe output: [indentation level, label, value]; lines without value are section headers
+type DescribeLine = [number, string, string?];
+
+/**
+ * Aligns describe lines: values of lines at the same level start in the same column,
+ * unless separated by a section header or a line at a lower level.
+ */
+const formatDescribeLines = (lines: DescribeLine[]): string => {
+  const widths: number[] = lines.map(() => 0);
+  lines.forEach(([level, , value], start) => {
+    if (value === undefined || widths[start] > 0) {
+      return;
+    }
+    // Collect the lines of this block, skipping over nested lines
+    const members: number[] = [];
+    for (let index = start; index < lines.length; index++) {
+      const [lineLevel, , lineValue] = lines[index];
+      if (lineLevel < level || (lineLevel === level && lineValue === undefined)) break;
+      if (lineLevel === level) members.push(index);
+    }
+    const width = Math.max(...members.map((index) => lines[index][1].length + 1)) + 2;
+    for (const index of members) {
+      widths[index] = width;
+    }
+  });
+
+  const output = lines.map(([level, label, value], index) => {
+    const indent = '  '.repeat(level);
+    if (value === undefined) {
+      return `${indent}${label}`;
+    }
+    return `${indent}${(label ? `${label}:` : '').padEnd(widths[index])}${value}`.trimEnd();
+  });
+  return `${output.join('\n')}\n`;
+};
+
+/**
+ * Adds a map (labels, annotations, ...) as one line per entry, or '<none>'.
+ */
+const describeMap = (lines: DescribeLine[], level: number, label: string, map?: Record<string, string>) => {
+  const entries = Object.entries(map ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) {
+    lines.push([level, label, '<none>']);
+    return;
+  }
+  entries.forEach(([key, value], index) => {
+    lines.push([level, index === 0 ? label : '', `${key}=${value}`]);
+  });
+};
+
+/**
+ * Adds the state of a container (State / Last State).
+ */
+const describeContainerState = (lines: DescribeLine[], label: string, state?: ContainerState) => {
+  if (state?.running) {
+    lines.push([2, label, 'Running'], [3, 'Started', formatTime(state.running.startedAt)]);
+  } else if (state?.waiting) {
+    lines.push([2, label, 'Waiting']);
+    if (state.waiting.reason) lines.push([3, 'Reason', state.waiting.reason]);
+    if (state.waiting.message) lines.push([3, 'Message', state.waiting.message]);
+  } else if (state?.terminated) {
+    const terminated = state.terminated;
+    lines.push([2, label, 'Terminated']);
+    if (terminated.reason) lines.push([3, 'Reason', terminated.reason]);
+    if (terminated.message) lines.push([3, 'Message', terminated.message]);
+    lines.push([3, 'Exit Code', String(terminated.exitCode ?? 0)]);
+    if (terminated.signal) lines.push([3, 'Signal', String(terminated.signal)]);
+    lines.push([3, 'Started', formatTime(terminated.startedAt)], [3, 'Finished', formatTime(terminated.finishedAt)]);
+  } else if (label === 'State') {
+    lines.push([2, label, 'Waiting']);
+  }
+};
+
+/**
+ * Adds the containers (or init containers) of a pod.
+ */
+const describeContainers = (
+  lines: DescribeLine[],
+  title: string,
+  containers: ContainerSpec[],
+  statuses: ContainerStatus[],
+) => {
+  lines.push([0, `${title}:`]);
+  for (const container of containers) {
+    const status = statuses.find((candidate) => candidate.name === container.name);
+    const ports = (container.ports ?? []).map((port) => `${port.containerPort}/${port.protocol ?? 'TCP'}`);
+
+    lines.push([1, `${container.name}:`]);
+    lines.push(
+      [2, 'Container ID', status?.containerID ?? ''],
+      [2, 'Image', container.image ?? ''],
+      [2, 'Image ID', status?.imageID ?? ''],
+      [2, ports.length > 1 ? 'Ports' : 'Port', ports.join(', ') || '<none>'],
+    );
+    if (container.command?.length) {
+      lines.push([2, 'Command', container.command.join(' ')]);
+    }
+    if (container.args?.length) {
+      lines.push([2, 'Args', container.args.join(' ')]);
+    }
+    describeContainerState(lines, 'State', status?.state);
+    describeContainerState(lines, 'Last State', status?.lastState);
+    lines.push([2, 'Ready', status?.ready ? 'True' : 'False'], [2, 'Restart Count', String(status?.restartCount ?? 0)]);
+    for (const [section, values] of [
+      ['Limits', container.resources?.limits],
+      ['Requests', container.resources?.requests],
+    ] as const) {
+      if (values && Object.keys(values).length > 0) {
+        lines.push([2, `${section}:`]);
+        for (const [resource, quantity] of Object.entries(values)) {
+          lines.push([3, resource, quantity]);
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Renders a pod and its events like `kubectl describe pod` does (the commonly used sections).
+ *
+ * @param pod - The pod.
+ * @param events - Events involving the pod.
+ * @param now - Reference time for event ages, defaults to Date.now().
+ * @returns The description.
+ */
+export const renderPodDescription = (pod: PodObject, events: EventObject[], now = Date.now()): string => {
+  const metadata = pod.metadata ?? {};
+  const spec = pod.spec ?? {};
+  const status = pod.status ?? {};
+  const lines: DescribeLine[] = [];
+
+  lines.push(
+    [0, 'Name', metadata.name ?? ''],
+    [0, 'Namespace', metadata.namespace ?? ''],
+    [0, 'Priority', String(spec.priority ?? 0)],
+  );
+  if (spec.priorityClassName) {
+    lines.push([0, 'Priority Class Name', spec.priorityClassName]);
+  }
+  lines.push(
+    [0, 'Service Account', spec.serviceAccountName ?? 'default'],
+    [0, 'Node', spec.nodeName ? `${spec.nodeName}/${status.hostIP ?? ''}` : '<none>'],
+  );
+  if (status.startTime) {
+    lines.push([0, 'Start Time', formatTime(status.startTime)]);
+  }
+  describeMap(lines, 0, 'Labels', metadata.labels);
+  describeMap(lines, 0, 'Annotations', metadata.annotations);
+  lines.push([0, 'Status', status.phase ?? 'Unknown']);
+  if (status.reason) lines.push([0, 'Reason', status.reason]);
+  if (status.message) lines.push([0, 'Message', status.message]);
+  lines.push([0, 'IP', status.podIP ?? '']);
+  const controller = metadata.ownerReferences?.find((owner) => owner.controller);
+  if (controller) {
+    lines.push([0, 'Controlled By', `${controller.kind}/${controller.name}`]);
+  }
+
+  if (spec.initContainers?.length) {
+    describeContainers(lines, 'Init Containers', spec.initContainers, status.initContainerStatuses ?? []);
+  }
+  describeContainers(lines, 'Containers', spec.containers ?? [], status.containerStatuses ?? []);
+
+  // Tables are pre-rendered and added as section headers, so they are not realigned
+  lines.push([0, 'Conditions:']);
+  for (const row of formatColumns(
+    [['Type', 'Status'], ...(status.conditions ?? []).map((condition) => [condition.type, condition.status])],
+    '  ',
+  )) {
+    lines.push([0, row]);
+  }
+
+  lines.push([0, 'QoS Class', status.qosClass ?? '']);
+  describeMap(lines, 0, 'Node-Selectors', spec.nodeSelector);
+  const tolerations = (spec.tolerations ?? []).map((toleration) => {
+    let text = toleration.key ?? '';
+    if (toleration.value) text += `=${toleration.value}`;
+    if (toleration.effect) text += `:${toleration.effect}`;
+    if (toleration.operator === 'Exists' && !toleration.value) text += ' op=Exists';
+    if (toleration.tolerationSeconds !== undefined) text += ` for ${toleration.tolerationSeconds}s`;
+    return text.trim();
+  });
+  tolerations.forEach((toleration, index) => {
+    lines.push([0, index === 0 ? 'Tolerations' : '', toleration]);
+  });
+  if (tolerations.length === 0) {
+    lines.push([0, 'Tolerations', '<none>']);
+  }
+
+  if (events.length === 0) {
+    lines.push([0, 'Events', '<none>']);
+  } else {
+    const lastSeen = (event: EventObject) => event.lastTimestamp ?? event.eventTime ?? event.firstTimestamp;
+    const sortedEvents = [...events].sort(
+      (a, b) => (Date.parse(lastSeen(a) ?? '') || 0) - (Date.parse(lastSeen(b) ?? '') || 0),
+    );
+    const rows = sortedEvents.map((event) => {
+      let age = formatAge(lastSeen(event), now);
+      if ((event.count ?? 0) > 1 && event.firstTimestamp) {
+        age += ` (x${event.count} over ${formatAge(event.firstTimestamp, now)})`;
+      }
+      const source = event.source?.component ?? event.reportingComponent ?? '';
+      return [event.type ?? '', event.reason ?? '', age, source, (event.message ?? '').trim()];
+    });
+    lines.push([0, 'Events:']);
+    for (const row of formatColumns(
+      [['Type', 'Reason', 'Age', 'From', 'Message'], ['----', '------', '----', '----', '-------'], ...rows],
+      '  ',
+    )) {
+      lines.push([0, row]);
+    }
+  }
+
+  return formatDescribeLines(lines);
+};
@@ -0,0 +1,477 @@
+// Transport calling the Kubernetes API server directly instead of spawning kubectl.
+// It understands the kubectl commands issued by kubectlWrapper and resourceDiscovery
+// (get, api-resources, logs, describe pod), translates them into REST requests and renders
+// the responses like kubectl would, so the generated output does not depend on the transport.
+
+import { KubeApiError, KubectlError, KubectlTimeoutError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import {
+  CLIENT_TIMEOUT_REASON,
+  KubeApiClient,
+  type KubeApiQuery,
+  METADATA_ACCEPT_HEADER,
+  TABLE_ACCEPT_HEADER,
+} from './apiClient.js';
+import {
+  type ResourceTable,
+  formatKindPrefix,
+  listToTable,
+  renderApiResources,
+  renderObjects,
+  renderPodDescription,
+  renderResourceTables,
+} from './apiRender.js';
+import type {
+  ApiGroupList,
+  ApiResourceList,
+  EventObject,
+  KubeList,
+  KubeObject,
+  KubeTable,
+  PodObject,
+} from './apiTypes.js';
+import { type KubeConnection, loadKubeConnection } from './kubeconfig.js';
+import type { KubectlTransport, KubectlTransportOptions, KubectlTransportResult } from './kubectlTransport.js';
+import { type ResourceKindInfo, ResourceKindRegistry } from './resourceRegistry.js';
+
+// Flags taking a value, by their long name
+const VALUE_FLAGS = new Set(['namespace', 'selector', 'field-selector', 'output', 'tail', 'container']);
+// Flags without a value, by their long name
+const BOOLEAN_FLAGS = new Set(['all-namespaces', 'previous', 'no-headers']);
+// Short flag aliases
+const SHORT_FLAGS: Record<string, string> = {
+  n: 'namespace',
+  l: 'selector',
+  o: 'output',
+  A: 'all-namespaces',
+  c: 'container',
+  p: 'previous',
+};
+
+// The pod kind, used for logs and describe without discovery
+const POD_KIND: ResourceKindInfo = {
+  name: 'pods',
+  singularName: 'pod',
+  shortNames: ['po'],
+  group: '',
+  version: 'v1',
+  kind: 'Pod',
+  namespaced: true,
+  verbs: ['get', 'list'],
+  categories: ['all'],
+};
+
+// A parsed kubectl command line
+export interface ParsedCommand {
+  verb: string;
+  positionals: string[];
+  flags: Map<string, string>;
+}
+
+// Per-context state: connection, client and (lazily) discovered resource kinds
+interface ApiContext {
+  connection: KubeConnection;
+  client: KubeApiClient; // Within a command, applies the timeout of the command
+  discovery: { kinds?: Promise<ResourceKindInfo[]> }; // Shared by all commands of the context
+}
+
+/**
+ * Creates an error carrying kubectl-style stderr, so kubectlWrapper handles it like a failed kubectl process.
+ */
+const commandError = (stderr: string, command: string): KubectlError => new KubectlError(stderr, stderr, command);
+
+/**
+ * Parses kubectl arguments into the verb, positional arguments and flags.
+ *
+ * @param args - The kubectl arguments (without --kubeconfig/--context).
+ * @param command - The kubectl command string, for error reporting.
+ * @returns The parsed command.
+ * @throws KubectlError for flags the API transport does not support.
+ */
+export const parseKubectlArgs = (args: string[], command: string): ParsedCommand => {
+  const positionals: string[] = [];
+  const flags = new Map<string, string>();
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
+      continue;
+    }
+
+    // Split '--flag=value' and resolve short aliases
+    const flag = arg.replace(/^--?/, '');
+    const equalsIndex = flag.indexOf('=');
+    const rawName = equalsIndex >= 0 ? flag.substring(0, equalsIndex) : flag;
+    const inlineValue = equalsIndex >= 0 ? flag.substring(equalsIndex + 1) : undefined;
+    const name = arg.startsWith('--') ? rawName : (SHORT_FLAGS[rawName] ?? rawName);
+
+    if (VALUE_FLAGS.has(name)) {
+      const value = inlineValue ?? args[++index];
+      if (value === undefined) {
+        throw commandError(`error: flag needs an argument: ${arg}`, command);
+      }
+      flags.set(name, value);
+    } else if (BOOLEAN_FLAGS.has(name)) {
+      flags.set(name, inlineValue ?? 'true');
+    } else {
+      throw commandError(`error: flag ${arg} is not supported by the API transport`, command);
+    }
+  }
+
+  const [verb = '', ...rest] = positionals;
+  return { verb, positionals: rest, flags };
+};
+
+/**
+ * Builds the API path of a resource collection or a single resource.
+ *
+ * @param info - The resource kind.
+ * @param namespace - The namespace (ignored for cluster-scoped kinds, all namespaces if omitted).
+ * @param name - Optional name of a single resource.
+ * @returns The API path, e.g. '/apis/apps/v1/namespaces/default/deployments'.
+ */
+export const buildResourcePath = (info: ResourceKindInfo, namespace?: string, name?: string): string => {
+  const base = info.group ? `/apis/${info.group}/${info.version}` : `/api/${info.version}`;
+  const namespacePath = info.namespaced && namespace ? `/namespaces/${encodeURIComponent(namespace)}` : '';
+  const namePath = name ? `/${encodeURIComponent(name)}` : '';
+  return `${base}${namespacePath}/${info.name}${namePath}`;
+};
+
+/**
+ * Transport calling the API server over HTTPS with the credentials from the kubeconfig.
+ */
+class ApiTransport implements KubectlTransport {
+  readonly name = 'api' as const;
+  private readonly contexts = new Map<string, Promise<ApiContext>>();
+
+  async execute(args: string[], options: KubectlTransportOptions): Promise<KubectlTransportResult> {
+    const parsed = parseKubectlArgs(args, options.command);
+    const sharedContext = await this.getContext(options);
+    const apiContext = { ...sharedContext, client: sharedContext.client.withTimeout(options.timeoutMs ?? 0) };
+
+    try {
+      switch (parsed.verb) {
+        case 'get':
+          return await this.get(apiContext, parsed, options.command);
+        case 'api-resources':
+          return await this.apiResources(apiContext, parsed);
+        case 'logs':
+          return await this.logs(apiContext, parsed, options.command);
+        case 'describe':
+          return await this.describe(apiContext, parsed, options.command);
+        default:
+          throw commandError(`error: '${parsed.verb}' is not supported by the API transport`, options.command);
+      }
+    } catch (error) {
+      if (error instanceof KubeApiError && error.reason === CLIENT_TIMEOUT_REASON) {
+        throw new KubectlTimeoutError(`error: ${error.message}`, options.command);
+      }
+      if (error instanceof KubeApiError) {
+        // Report API failures the way kubectl does
+        const stderr = error.statusCode
+          ? `Error from server (${error.reason ?? error.statusCode}): ${error.message}`
+          : `Unable to connect to the server: ${error.message}`;
+        throw commandError(stderr, options.command);
+      }
+      throw error;
+    }
+  }
+
+  close(): void {
+    for (const apiContext of this.contexts.values()) {
+      apiContext.then((resolved) => resolved.client.close()).catch(() => {});
+    }
+    this.contexts.clear();
+  }
+
+  /**
+   * Returns the (cached) connection and client for the kubeconfig and context of a command.
+   */
+  private getContext(options: KubectlTransportOptions): Promise<ApiContext> {
+    const key = `${options.kubeconfigPath ?? ''}\u0000${options.context ?? ''}`;
+    let apiContext = this.contexts.get(key);
+    if (!apiContext) {
+      apiContext = loadKubeConnection(options.kubeconfigPath, options.context).then((connection) => ({
+        connection,
+        client: new KubeApiClient(connection),
+        discovery: {},
+      }));
+      // Do not cache failures, e.g. a missing kubeconfig
+      apiContext.catch(() => this.contexts.delete(key));
+      this.contexts.set(key, apiContext);
+    }
+    return apiContext;
+  }
+
+  /**
+   * Returns the (cached) resource kinds served by the cluster, using the discovery endpoints.
+   */
+  private getKinds(apiContext: ApiContext): Promise<ResourceKindInfo[]> {
+    const { discovery } = apiContext;
+    discovery.kinds ??= this.discoverKinds(apiContext.client);
+    discovery.kinds.catch(() => {
+      discovery.kinds = undefined;
+    });
+    return discovery.kinds;
+  }
+
+  private async discoverKinds(client: KubeApiClient): Promise<ResourceKindInfo[]> {
+    const [coreResources, groupList] = await Promise.all([
+      client.getJson<ApiResourceList>('/api/v1'),
+      client.getJson<ApiGroupList>('/apis'),
+    ]);
+    const groupResources = await Promise.all(
+      groupList.groups
+        .filter((group) => group.preferredVersion)
+        .map((group) =>
+          client.getJson<ApiResourceList>(`/apis/${group.preferredVersion?.groupVersion}`).catch((error) => {
+            // Like kubectl, skip groups that fail (e.g., unavailable aggregated APIs)
+            logger.warn(`Unable to retrieve the API resources of ${group.name}: ${error.message}`);
+            return undefined;
+          }),
+        ),
+    );
+
+    const kinds: ResourceKindInfo[] = [];
+    for (const resourceList of [coreResources, ...groupResources]) {
+      if (!resourceList) continue;
+      const slashIndex = resourceList.groupVersion.lastIndexOf('/');
+      const group = slashIndex >= 0 ? resourceList.groupVersion.substring(0, slashIndex) : '';
+      const version = resourceList.groupVersion.substring(slashIndex + 1);
+      for (const resource of resourceList.resources) {
+        // Skip subresources such as 'pods/log'
+        if (resource.name.includes('/')) continue;
+        kinds.push({
+          name: resource.name,
+          singularName: resource.singularName || resource.kind.toLowerCase(),
+          shortNames: resource.shortNames ?? [],
+          group,
+          version,
+          kind: resource.kind,
+          namespaced: resource.namespaced,
+          verbs: resource.verbs,
+          categories: resource.categories ?? [],
+        });
+      }
+    }
+    logger.debug(`Discovered ${kinds.length} API resource types through the API`);
+    return kinds;
+  }
+
+  /**
+   * Resolves comma-separated kubectl types (names, aliases, categories like 'all') to resource kinds.
+   */
+  private async resolveKinds(apiContext: ApiContext, typeList: string, command: string): Promise<ResourceKindInfo[]> {
+    const kinds = await this.getKinds(apiContext);
+    const registry = new ResourceKindRegistry(kinds);
+    const resolved: ResourceKindInfo[] = [];
+
+    for (const type of typeList.split(',').filter(Boolean)) {
+      const info = registry.resolve(type);
+      const members = info
+        ? [info]
+        : registry.getAll().filter((candidate) => candidate.categories.includes(type.toLowerCase()));
+      if (members.length === 0) {
+        throw commandError(`error: the server doesn't have a resource type "${type}"`, command);
+      }
+      for (const member of members) {
+        if (!resolved.includes(member)) resolved.push(member);
+      }
+    }
+    return resolved;
+  }
+
+  private async get(apiContext: ApiContext, parsed: ParsedCommand, command: string): Promise<KubectlTransportResult> {
+    const [typeList, ...names] = parsed.positionals;
+    if (!typeList) {
+      throw commandError('error: you must specify the type of resource to get', command);
+    }
+    const kinds = await this.resolveKinds(apiContext, typeList, command);
+    const allNamespaces = parsed.flags.get('all-namespaces') === 'true';
+    const namespace = allNamespaces ? undefined : (parsed.flags.get('namespace') ?? apiContext.connection.namespace);
+    const query: KubeApiQuery = {
+      labelSelector: parsed.flags.get('selector'),
+      fieldSelector: parsed.flags.get('field-selector'),
+    };
+    const output = parsed.flags.get('output') ?? '';
+
+    if (output === 'name') {
+      const lines: string[] = [];
+      for (const info of kinds) {
+        const objects = await this.getObjects(apiContext, info, namespace, names, query, METADATA_ACCEPT_HEADER);
+        lines.push(...objects.map((object) => `${formatKindPrefix(info)}/${object.metadata?.name}`));
+      }
+      return { stdout: lines.length > 0 ? `${lines.join('\n')}\n` : '', stderr: '' };
+    }
+
+    if (output === 'json' || output === 'yaml') {
+      const objects: KubeObject[] = [];
+      for (const info of kinds) {
+        const items = await this.getObjects(apiContext, info, namespace, names, query);
+        // List items do not carry their apiVersion and kind
+        const apiVersion = info.group ? `${info.group}/${info.version}` : info.version;
+        objects.push(...items.map((item) => ({ ...item, apiVersion, kind: info.kind })));
+      }
+      return { stdout: renderObjects(output, objects, names.length === 1 && kinds.length === 1), stderr: '' };
+    }
+
+    if (output !== '' && output !== 'wide') {
+      throw commandError(`error: output format '${output}' is not supported by the API transport`, command);
+    }
+
+    const tables: ResourceTable[] = [];
+    for (const info of kinds) {
+      tables.push({ info, table: await this.getTable(apiContext, info, namespace, names, query) });
+    }
+    const stdout = renderResourceTables(tables, {
+      wide: output === 'wide',
+      withKind: kinds.length > 1,
+      withNamespace: allNamespaces,
+      noHeaders: parsed.flags.get('no-headers') === 'true',
+    });
+    const stderr = stdout ? '' : namespace ? `No resources found in ${namespace} namespace.` : 'No resources found';
+    return { stdout, stderr };
+  }
+
+  /**
+   * Fetches the objects of one kind: the named ones, or all of them (following pagination).
+   */
+  private async getObjects(
+    apiContext: ApiContext,
+    info: ResourceKindInfo,
+    namespace: string | undefined,
+    names: string[],
+    query: KubeApiQuery,
+    accept?: string,
+  ): Promise<KubeObject[]> {
+    const { client } = apiContext;
+    if (names.length > 0) {
+      return Promise.all(names.map((name) => client.getJson<KubeObject>(buildResourcePath(info, namespace, name))));
+    }
+    const pages = await client.listAll<KubeList>(buildResourcePath(info, namespace), query, accept);
+    return pages.flatMap((page) => page.items ?? []);
+  }
+
+  /**
+   * Fetches the server-side table of one kind, as printed by `kubectl get`.
+   */
+  private async getTable(
+    apiContext: ApiContext,
+    info: ResourceKindInfo,
+    namespace: string | undefined,
+    names: string[],
+    query: KubeApiQuery,
+  ): Promise<KubeTable> {
+    const { client } = apiContext;
+    const tableQuery = { ...query, includeObject: 'Metadata' };
+    const responses: Array<KubeTable | KubeList> =
+      names.length > 0
+        ? await Promise.all(
+            names.map((name) =>
+              client.getJson<KubeTable | KubeObject>(
+                buildResourcePath(info, namespace, name),
+                tableQuery,
+                TABLE_ACCEPT_HEADER,
+              ),
+            ),
+          ).then((objects) =>
+            objects.map((object) =>
+              object.kind === 'Table' ? (object as KubeTable) : { items: [object as KubeObject] },
+            ),
+          )
+        : await client.listAll<KubeTable | KubeList>(
+            buildResourcePath(info, namespace),
+            tableQuery,
+            TABLE_ACCEPT_HEADER,
+          );
+
+    // Merge pages; servers without table support return plain lists
+    const tables = responses.map((response) =>
+      response.kind === 'Table' ? (response as KubeTable) : listToTable(response as KubeList),
+    );
+    return {
+      kind: 'Table',
+      columnDefinitions: tables[0]?.columnDefinitions ?? [],
+      rows: tables.flatMap((table) => table.rows ?? []),
+    };
+  }
+
+  private async apiResources(apiContext: ApiContext, parsed: ParsedCommand): Promise<KubectlTransportResult> {
+    const kinds = await this.getKinds(apiContext);
+    return { stdout: renderApiResources(kinds, parsed.flags.get('output') === 'wide'), stderr: '' };
+  }
+
+  private async logs(apiContext: ApiContext, parsed: ParsedCommand, command: string): Promise<KubectlTransportResult> {
+    const [podName] = parsed.positionals;
+    if (!podName) {
+      throw commandError('error: expected POD to be specified', command);
+    }
+    const namespace = parsed.flags.get('namespace') ?? apiContext.connection.namespace;
+    const logPath = `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(podName)}/log`;
+    const query: KubeApiQuery = {
+      container: parsed.flags.get('container'),
+      tailLines: parsed.flags.get('tail'),
+      previous: parsed.flags.get('previous') === 'true' ? 'true' : undefined,
+    };
+
+    try {
+      return { stdout: await apiContext.client.getText(logPath, query), stderr: '' };
+    } catch (error) {
+      // Like kubectl, default to the annotated (or first) container of multi-container pods
+      if (
+        query.container ||
+        !(error instanceof KubeApiError) ||
+        !error.message.includes('container name must be specified')
+      ) {
+        throw error;
+      }
+      const pod = await apiContext.client.getJson<PodObject>(buildResourcePath(POD_KIND, namespace, podName));
+      const containerNames = (pod.spec?.containers ?? []).map((container) => container.name);
+      const container =
+        pod.metadata?.annotations?.['kubectl.kubernetes.io/default-container'] ?? containerNames[0] ?? '';
+      const stdout = await apiContext.client.getText(logPath, { ...query, container });
+      return { stdout, stderr: `Defaulted container "${container}" out of: ${containerNames.join(', ')}\n` };
+    }
+  }
+
+  private async describe(
+    apiContext: ApiContext,
+    parsed: ParsedCommand,
+    command: string,
+  ): Promise<KubectlTransportResult> {
+    const [type, podName] = parsed.positionals;
+    if (!['pod', 'pods', 'po'].includes(type ?? '') || !podName) {
+      throw commandError('error: describe is only supported for single pods by the API transport', command);
+    }
+    const namespace = parsed.flags.get('namespace') ?? apiContext.connection.namespace;
+    const pod = await apiContext.client.getJson<PodObject>(buildResourcePath(POD_KIND, namespace, podName));
+
+    // Same event selection as kubectl describe
+    const fieldSelector = [
+      `involvedObject.name=${podName}`,
+      `involvedObject.namespace=${namespace}`,
+      pod.metadata?.uid ? `involvedObject.uid=${pod.metadata.uid}` : '',
+    ]
+      .filter(Boolean)
+      .join(',');
+    const events = await apiContext.client
+      .getJson<{ items?: EventObject[] }>(`/api/v1/namespaces/${encodeURIComponent(namespace)}/events`, {
+        fieldSelector,
+      })
+      .then((list) => list.items ?? [])
+      .catch((error) => {
+        logger.debug(`Failed to fetch events for pod '${podName}':`, error);
+        return [];
+      });
+
+    return { stdout: renderPodDescription(pod, events), stderr: '' };
+  }
+}
+
+/**
+ * Creates the transport calling the API server directly.
+ *
+ * @returns The API transport.
+ */
+export const createApiTransport = (): KubectlTransport => new ApiTransport();
@@ -0,0 +1,131 @@
+// Shapes of the Kubernetes API objects used by the API transport (only the fields that are read).
+
+export interface ObjectMeta {
+  name?: string;
+  namespace?: string;
+  uid?: string;
+  creationTimestamp?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  ownerReferences?: Array<{ apiVersion?: string; kind: string; name: string; controller?: boolean }>;
+}
+
+// Any Kubernetes object
+export interface KubeObject {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: ObjectMeta;
+  [key: string]: unknown;
+}
+
+// A list response (e.g., PodList)
+export interface KubeList {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: { continue?: string; resourceVersion?: string };
+  items?: KubeObject[];
+}
+
+// A Table response (`Accept: application/json;as=Table;g=meta.k8s.io;v=v1`)
+export interface KubeTable {
+  kind?: string;
+  metadata?: { continue?: string };
+  columnDefinitions?: Array<{ name: string; type: string; format?: string; priority?: number }>;
+  rows?: Array<{ cells: unknown[]; object?: { metadata?: ObjectMeta } }>;
+}
+
+// Discovery document of one group version (e.g., GET /apis/apps/v1)
+export interface ApiResourceList {
+  groupVersion: string;
+  resources: Array<{
+    name: string;
+    singularName?: string;
+    namespaced: boolean;
+    kind: string;
+    verbs: string[];
+    shortNames?: string[];
+    categories?: string[];
+  }>;
+}
+
+// Discovery document listing the API groups (GET /apis)
+export interface ApiGroupList {
+  groups: Array<{ name: string; preferredVersion?: { groupVersion: string } }>;
+}
+
+// Container state as reported in a pod's status
+export interface ContainerState {
+  waiting?: { reason?: string; message?: string };
+  running?: { startedAt?: string };
+  terminated?: {
+    reason?: string;
+    message?: string;
+    exitCode?: number;
+    signal?: number;
+    startedAt?: string;
+    finishedAt?: string;
+  };
+}
+
+export interface ContainerSpec {
+  name: string;
+  image?: string;
+  ports?: Array<{ containerPort: number; protocol?: string }>;
+  command?: string[];
+  args?: string[];
+  resources?: { limits?: Record<string, string>; requests?: Record<string, string> };
+}
+
+export interface ContainerStatus {
+  name: string;
+  containerID?: string;
+  imageID?: string;
+  state?: ContainerState;
+  lastState?: ContainerState;
+  ready?: boolean;
+  restartCount?: number;
+}
+
+export interface PodObject extends KubeObject {
+  spec?: {
+    nodeName?: string;
+    serviceAccountName?: string;
+    priority?: number;
+    priorityClassName?: string;
+    initContainers?: ContainerSpec[];
+    containers?: ContainerSpec[];
+    nodeSelector?: Record<string, string>;
+    tolerations?: Array<{
+      key?: string;
+      operator?: string;
+      value?: string;
+      effect?: string;
+      tolerationSeconds?: number;
+    }>;
+  };
+  status?: {
+    phase?: string;
+    reason?: string;
+    message?: string;
+    hostIP?: string;
+    podIP?: string;
+    startTime?: string;
+    qosClass?: string;
+    conditions?: Array<{ type: string; status: string }>;
+    initContainerStatuses?: ContainerStatus[];
+    containerStatuses?: ContainerStatus[];
+  };
+}
+
+export interface EventObject extends KubeObject {
+  involvedObject?: { apiVersion?: string; kind?: string; name?: string; namespace?: string; uid?: string };
+  type?: string;
+  reason?: string;
+  message?: string;
+  count?: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  eventTime?: string;
+  source?: { component?: string; host?: string };
+  reportingComponent?: string;
+}
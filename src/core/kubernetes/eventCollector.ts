@@ -0,0 +1,131 @@
+// Summarizing of Kubernetes events for the output.
+// The raw event list is noisy (one object per reason and object, repeated for every restart), so events are
+// restricted to a time window and the selected namespaces, and deduplicated by reason and involved object.
+
+import type { ResourceEvent } from '../output/outputGeneratorTypes.js';
+import { getResourceTreeKey } from '../output/resourceTreeGenerate.js';
+import type { EventObject } from './apiTypes.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry, splitApiVersion } from './resourceRegistry.js';
+
+// Options for summarizing events
+export interface EventSummaryOptions {
+  includeNormal: boolean; // Keep Normal events in addition to Warning events
+  sinceMinutes: number; // Only keep events seen within this window
+  maxEvents: number; // Keep at most this many events (the most recent ones)
+  namespaces: string[]; // Selected namespaces; events of cluster-scoped objects (e.g., nodes) are always kept
+  now?: Date; // End of the window; defaults to the most recent event (for manifests captured in the past)
+}
+
+/**
+ * Returns the time an event was last seen, falling back to the other timestamps of the event.
+ */
+const getLastSeen = (event: EventObject): string | undefined =>
+  event.lastTimestamp || event.eventTime || event.firstTimestamp || event.metadata?.creationTimestamp || undefined;
+
+/**
+ * Compares optional ISO timestamps; events without a timestamp sort first.
+ */
+const compareTimestamps = (a?: string, b?: string): number => (a ? Date.parse(a) : 0) - (b ? Date.parse(b) : 0);
+
+/**
+ * Filters, deduplicates and sorts events for the output.
+ * Occurrences with the same namespace, type, reason and involved object are merged into one event:
+ * their counts are summed, the time range covers all of them, and the most recent message is kept.
+ *
+ * @param events - The events as returned by the API.
+ * @param options - The type filter, time window, namespaces and limit.
+ * @param registry - Registry used to map involved objects to canonical resource types.
+ * @returns The events in chronological order (oldest first).
+ */
+export const summarizeEvents = (
+  events: EventObject[],
+  options: EventSummaryOptions,
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): ResourceEvent[] => {
+  const selectedNamespaces = new Set(options.namespaces);
+  const relevant = events.filter(
+    (event) =>
+      (options.includeNormal || event.type === 'Warning') &&
+      // Events of namespaced objects must be in a selected namespace; objects without one (nodes) are kept
+      (!event.involvedObject?.namespace || selectedNamespaces.has(event.involvedObject.namespace)),
+  );
+
+  // Window relative to now, or to the most recent event when reading manifests captured earlier
+  const end =
+    options.now?.getTime() ?? Math.max(0, ...relevant.map((event) => Date.parse(getLastSeen(event) ?? '') || 0));
+  const start = end - options.sinceMinutes * 60_000;
+
+  const merged = new Map<string, ResourceEvent>();
+  for (const event of relevant) {
+    const lastSeen = getLastSeen(event);
+    if (lastSeen && Date.parse(lastSeen) < start) {
+      continue;
+    }
+
+    const involved = event.involvedObject ?? {};
+    const kind = involved.kind ?? '';
+    const name = involved.name ?? '';
+    const namespace = involved.namespace || undefined;
+    const key = [namespace, event.type, event.reason, kind, name].join('/');
+    const firstSeen = event.firstTimestamp || event.eventTime || lastSeen;
+    const count = event.count ?? 1;
+
+    const existing = merged.get(key);
+    if (!existing) {
+      const { group } = splitApiVersion(involved.apiVersion ?? 'v1');
+      merged.set(key, {
+        namespace,
+        type: event.type ?? 'Normal',
+        reason: event.reason ?? '',
+        message: (event.message ?? '').trim(),
+        kind,
+        name,
+        resourceType: registry.canonicalName(group ? `${kind}.${group}` : kind),
+        count,
+        firstSeen,
+        lastSeen,
+      });
+      continue;
+    }
+
+    existing.count += count;
+    if (compareTimestamps(firstSeen, existing.firstSeen) < 0) {
+      existing.firstSeen = firstSeen;
+    }
+    if (compareTimestamps(lastSeen, existing.lastSeen) >= 0) {
+      existing.lastSeen = lastSeen;
+      existing.message = (event.message ?? '').trim();
+    }
+  }
+
+  // Chronological order, keeping the most recent events if there are too many
+  const sorted = [...merged.values()].sort((a, b) => compareTimestamps(a.lastSeen, b.lastSeen));
+  return sorted.slice(Math.max(0, sorted.length - options.maxEvents));
+};
+
+/**
+ * Summarizes the events of each resource in a short annotation for the resource tree
+ * (e.g., 'Warning BackOff x12, Warning Unhealthy x3').
+ *
+ * @param events - The summarized events.
+ * @returns Annotations by resource key (see getResourceTreeKey).
+ */
+export const getEventAnnotations = (events: ResourceEvent[]): Map<string, string> => {
+  const reasonsByResource = new Map<string, Map<string, number>>();
+  for (const event of events) {
+    const key = getResourceTreeKey(event.namespace, event.resourceType, event.name);
+    const reasons = reasonsByResource.get(key) ?? new Map<string, number>();
+    const label = event.type === 'Warning' ? `Warning ${event.reason}` : event.reason;
+    reasons.set(label, (reasons.get(label) ?? 0) + event.count);
+    reasonsByResource.set(key, reasons);
+  }
+
+  const annotations = new Map<string, string>();
+  for (const [key, reasons] of reasonsByResource) {
+    annotations.set(
+      key,
+      [...reasons].map(([reason, count]) => (count > 1 ? `${reason} x${count}` : reason)).join(', '),
+    );
+  }
+  return annotations;
+};
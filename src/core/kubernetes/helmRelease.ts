@@ -0,0 +1,136 @@
+// Decoding of Helm release Secrets (`sh.helm.release.v1.<release>.v<revision>`).
+// Helm 3 stores each revision of a release as a Secret whose `release` key holds base64-encoded, gzipped JSON
+// (base64-encoded once more by the Secret). Decoding happens locally, so the Secrets can still be redacted.
+
+import { gunzipSync } from 'node:zlib';
+import * as yaml from 'yaml';
+
+import { logger } from '../../shared/logger.js';
+import { getResourceTreeKey } from '../output/resourceTreeGenerate.js';
+import type { KubeObject } from './apiTypes.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry, splitApiVersion } from './resourceRegistry.js';
+
+// Secret type used by Helm 3 for release records
+export const HELM_RELEASE_SECRET_TYPE = 'helm.sh/release.v1';
+
+// The fields of a decoded Helm release record that are read
+interface HelmReleaseRecord {
+  name?: string;
+  namespace?: string;
+  version?: number;
+  info?: { status?: string; last_deployed?: string; description?: string };
+  chart?: { metadata?: { name?: string; version?: string; appVersion?: string } };
+  config?: Record<string, unknown>; // User-supplied values
+  manifest?: string; // Rendered manifests of the release
+}
+
+// A Helm release (its latest revision), decoded from the release Secrets
+export interface HelmRelease {
+  name: string;
+  namespace: string;
+  chart: string;
+  chartVersion: string;
+  appVersion?: string;
+  revision: number;
+  status: string;
+  updated?: string; // ISO timestamp of the last deployment
+  values: Record<string, unknown>; // User-supplied values, not redacted
+  resourceKeys: string[]; // Resource tree keys of the resources rendered by the release (see getResourceTreeKey)
+}
+
+/**
+ * Decodes the `release` payload of a Helm release Secret.
+ *
+ * @param data - The value of the Secret's `release` data key (as returned by the API, base64-encoded).
+ * @returns The release record.
+ * @throws Error if the payload is not a Helm release.
+ */
+export const decodeHelmReleasePayload = (data: string): HelmReleaseRecord => {
+  // The Secret encoding wraps Helm's own base64 encoding of the gzipped JSON
+  const helmEncoded = Buffer.from(data, 'base64').toString('utf-8');
+  const compressed = Buffer.from(helmEncoded, 'base64');
+  // Helm only compresses records when the gzip magic bytes are present; older records are plain JSON
+  const json = compressed[0] === 0x1f && compressed[1] === 0x8b ? gunzipSync(compressed) : compressed;
+  return JSON.parse(json.toString('utf-8')) as HelmReleaseRecord;
+};
+
+/**
+ * Lists the resources rendered by a release, as resource tree keys.
+ */
+const getManifestResourceKeys = (record: HelmReleaseRecord, registry: ResourceKindRegistry): string[] => {
+  const keys: string[] = [];
+  for (const document of yaml.parseAllDocuments(record.manifest ?? '')) {
+    const object = document.errors.length === 0 ? (document.toJS() as KubeObject | null) : null;
+    if (!object?.kind || !object.metadata?.name) continue;
+
+    const { group } = splitApiVersion(object.apiVersion ?? 'v1');
+    const info = registry.resolve(group ? `${object.kind}.${group}` : object.kind);
+    const resourceType = registry.canonicalName(group ? `${object.kind}.${group}` : object.kind);
+    // Namespaced resources without an explicit namespace are installed into the release namespace
+    const namespace = info?.namespaced === false ? undefined : (object.metadata.namespace ?? record.namespace);
+    keys.push(getResourceTreeKey(namespace, resourceType, object.metadata.name));
+  }
+  return keys;
+};
+
+/**
+ * Decodes Helm release Secrets into releases, keeping the latest revision of each release.
+ * Secrets that cannot be decoded are skipped with a warning.
+ *
+ * @param secrets - Secrets of type helm.sh/release.v1, with their data.
+ * @param namespaces - Only releases installed into these namespaces are returned.
+ * @param registry - Registry used to map the release's resources to canonical resource types.
+ * @returns The releases, sorted by namespace and name.
+ */
+export const decodeHelmReleases = (
+  secrets: KubeObject[],
+  namespaces: string[],
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): HelmRelease[] => {
+  const selectedNamespaces = new Set(namespaces);
+  const latest = new Map<string, { revision: number; secret: KubeObject }>();
+
+  // Pick the latest revision of each release before decoding, as histories can be long
+  for (const secret of secrets) {
+    const labels = secret.metadata?.labels ?? {};
+    const namespace = secret.metadata?.namespace ?? '';
+    if (secret.type !== HELM_RELEASE_SECRET_TYPE || !labels.name || !selectedNamespaces.has(namespace)) continue;
+
+    const revision = Number(labels.version) || 0;
+    const key = `${namespace}/${labels.name}`;
+    if ((latest.get(key)?.revision ?? -1) < revision) {
+      latest.set(key, { revision, secret });
+    }
+  }
+
+  const releases: HelmRelease[] = [];
+  for (const { revision, secret } of latest.values()) {
+    const namespace = secret.metadata?.namespace ?? '';
+    const payload = (secret.data as Record<string, string> | undefined)?.release;
+    try {
+      if (!payload) {
+        throw new Error('the Secret has no release data');
+      }
+      const record = decodeHelmReleasePayload(payload);
+      const metadata = record.chart?.metadata ?? {};
+      releases.push({
+        name: record.name ?? secret.metadata?.labels?.name ?? '',
+        namespace: record.namespace ?? namespace,
+        chart: metadata.name ?? '',
+        chartVersion: metadata.version ?? '',
+        appVersion: metadata.appVersion,
+        revision: record.version ?? revision,
+        status: record.info?.status ?? secret.metadata?.labels?.status ?? 'unknown',
+        updated: record.info?.last_deployed,
+        values: record.config ?? {},
+        resourceKeys: getManifestResourceKeys({ ...record, namespace: record.namespace ?? namespace }, registry),
+      });
+    } catch (error) {
+      logger.warn(
+        `Failed to decode Helm release Secret ${namespace}/${secret.metadata?.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  return releases.sort((a, b) => `${a.namespace}/${a.name}`.localeCompare(`${b.namespace}/${b.name}`));
+};
@@ -0,0 +1,337 @@
+// Kubeconfig loading for the API transport.
+// Resolves the selected context into the server address, TLS material and credentials
+// needed to call the API server directly, following kubectl's lookup rules:
+// --kubeconfig, then $KUBECONFIG (merged, first value wins), then ~/.kube/config, then in-cluster config.
+
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import { promisify } from 'node:util';
+import * as yaml from 'yaml';
+
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+// Location of the service account credentials mounted into pods
+const IN_CLUSTER_SERVICE_ACCOUNT_DIR = '/var/run/secrets/kubernetes.io/serviceaccount';
+
+/**
+ * Everything needed to call the API server of one kubeconfig context.
+ */
+export interface KubeConnection {
+  contextName: string;
+  server: string; // e.g. 'https://10.0.0.1:6443'
+  namespace: string; // Default namespace of the context
+  ca?: Buffer;
+  cert?: Buffer;
+  key?: Buffer;
+  token?: string;
+  username?: string;
+  password?: string;
+  insecureSkipTlsVerify: boolean;
+  tlsServerName?: string;
+}
+
+// --- Kubeconfig file structure (only the fields used here) ---
+
+interface KubeconfigCluster {
+  server?: string;
+  'certificate-authority'?: string;
+  'certificate-authority-data'?: string;
+  'insecure-skip-tls-verify'?: boolean;
+  'tls-server-name'?: string;
+}
+
+interface KubeconfigExec {
+  command: string;
+  args?: string[] | null;
+  env?: Array<{ name: string; value: string }> | null;
+  apiVersion?: string;
+}
+
+interface KubeconfigUser {
+  token?: string;
+  tokenFile?: string;
+  'client-certificate'?: string;
+  'client-certificate-data'?: string;
+  'client-key'?: string;
+  'client-key-data'?: string;
+  username?: string;
+  password?: string;
+  exec?: KubeconfigExec;
+  'auth-provider'?: { name?: string; config?: Record<string, string> };
+}
+
+interface KubeconfigContext {
+  cluster: string;
+  user?: string;
+  namespace?: string;
+}
+
+interface KubeconfigFile {
+  'current-context'?: string;
+  clusters?: Array<{ name: string; cluster: KubeconfigCluster }> | null;
+  users?: Array<{ name: string; user: KubeconfigUser }> | null;
+  contexts?: Array<{ name: string; context: KubeconfigContext }> | null;
+}
+
+// A kubeconfig entry, remembering the directory of its file to resolve relative paths
+interface Located<T> {
+  value: T;
+  dir: string;
+}
+
+// Kubeconfig files merged the way kubectl merges them
+interface MergedKubeconfig {
+  currentContext?: string;
+  clusters: Map<string, Located<KubeconfigCluster>>;
+  users: Map<string, Located<KubeconfigUser>>;
+  contexts: Map<string, KubeconfigContext>;
+}
+
+/**
+ * Determines the kubeconfig files to load.
+ *
+ * @param kubeconfigPath - Optional explicit path (--kubeconfig).
+ * @returns The candidate kubeconfig file paths, in priority order.
+ */
+export const getKubeconfigPaths = (kubeconfigPath?: string): string[] => {
+  if (kubeconfigPath) {
+    return [kubeconfigPath];
+  }
+  const envPaths = (process.env.KUBECONFIG ?? '').split(path.delimiter).filter(Boolean);
+  if (envPaths.length > 0) {
+    return envPaths;
+  }
+  return [path.join(os.homedir(), '.kube', 'config')];
+};
+
+/**
+ * Reads and merges kubeconfig files. For entries defined in several files, the first file wins.
+ *
+ * @param filePaths - Kubeconfig files, in priority order.
+ * @param explicit - Whether the files were requested explicitly (missing files are then an error).
+ * @returns The merged kubeconfig, or undefined if none of the files exists.
+ */
+const loadMergedKubeconfig = async (filePaths: string[], explicit: boolean): Promise<MergedKubeconfig | undefined> => {
+  const merged: MergedKubeconfig = { clusters: new Map(), users: new Map(), contexts: new Map() };
+  let found = false;
+
+  for (const filePath of filePaths) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (explicit) {
+        throw new KubeAggregatorError(
+          `Cannot read kubeconfig file '${filePath}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+      logger.trace(`Skipping missing kubeconfig file '${filePath}'`);
+      continue;
+    }
+
+    let file: KubeconfigFile;
+    try {
+      file = (yaml.parse(content) ?? {}) as KubeconfigFile;
+    } catch (error) {
+      throw new KubeAggregatorError(
+        `Invalid kubeconfig file '${filePath}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    found = true;
+    const dir = path.dirname(path.resolve(filePath));
+    merged.currentContext ??= file['current-context'] || undefined;
+    for (const { name, cluster } of file.clusters ?? []) {
+      if (!merged.clusters.has(name)) merged.clusters.set(name, { value: cluster ?? {}, dir });
+    }
+    for (const { name, user } of file.users ?? []) {
+      if (!merged.users.has(name)) merged.users.set(name, { value: user ?? {}, dir });
+    }
+    for (const { name, context } of file.contexts ?? []) {
+      if (!merged.contexts.has(name)) merged.contexts.set(name, context);
+    }
+  }
+
+  return found ? merged : undefined;
+};
+
+/**
+ * Lists the context names defined in the kubeconfig (merged like kubectl does), in file order.
+ *
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @returns The context names.
+ * @throws KubeAggregatorError if no kubeconfig is found or it cannot be read.
+ */
+export const getKubeconfigContextNames = async (kubeconfigPath?: string): Promise<string[]> => {
+  const kubeconfig = await loadMergedKubeconfig(getKubeconfigPaths(kubeconfigPath), Boolean(kubeconfigPath));
+  if (!kubeconfig) {
+    throw new KubeAggregatorError('No kubeconfig found. Set --kubeconfig or the KUBECONFIG environment variable.');
+  }
+  return [...kubeconfig.contexts.keys()];
+};
+
+/**
+ * Runs a client-go credential plugin (users[].user.exec, e.g. for EKS or GKE) and returns its credentials.
+ *
+ * @param exec - The exec configuration of the user.
+ * @param dir - Directory of the kubeconfig file, used to resolve a relative command path.
+ * @returns The token and/or client certificate issued by the plugin.
+ */
+const runExecCredentialPlugin = async (
+  exec: KubeconfigExec,
+  dir: string,
+): Promise<{ token?: string; cert?: Buffer; key?: Buffer }> => {
+  // Relative paths with a separator are relative to the kubeconfig; plain names are looked up in PATH
+  const command = exec.command.includes(path.sep) ? path.resolve(dir, exec.command) : exec.command;
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    KUBERNETES_EXEC_INFO: JSON.stringify({
+      apiVersion: exec.apiVersion ?? 'client.authentication.k8s.io/v1beta1',
+      kind: 'ExecCredential',
+      spec: { interactive: false },
+    }),
+  };
+  for (const { name, value } of exec.env ?? []) {
+    env[name] = value;
+  }
+
+  logger.trace(`Running credential plugin: ${command} ${(exec.args ?? []).join(' ')}`);
+  try {
+    const { stdout } = await execFileAsync(command, exec.args ?? [], { env });
+    const status = JSON.parse(stdout).status ?? {};
+    return {
+      token: status.token,
+      cert: status.clientCertificateData ? Buffer.from(status.clientCertificateData) : undefined,
+      key: status.clientKeyData ? Buffer.from(status.clientKeyData) : undefined,
+    };
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Credential plugin '${exec.command}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+};
+
+/**
+ * Reads inline base64 data or a file referenced by the kubeconfig.
+ *
+ * @param data - Base64-encoded inline data.
+ * @param file - Path of a file, relative to the kubeconfig directory.
+ * @param dir - Directory of the kubeconfig file.
+ * @returns The data, or undefined if neither is set.
+ */
+const readDataOrFile = async (data: string | undefined, file: string | undefined, dir: string) => {
+  if (data) {
+    return Buffer.from(data, 'base64');
+  }
+  if (file) {
+    return fs.readFile(path.resolve(dir, file));
+  }
+  return undefined;
+};
+
+/**
+ * Builds the connection for a pod's service account, used when no kubeconfig exists inside a cluster.
+ *
+ * @returns The in-cluster connection.
+ */
+const loadInClusterConnection = async (): Promise<KubeConnection> => {
+  const host = process.env.KUBERNETES_SERVICE_HOST ?? '';
+  const port = process.env.KUBERNETES_SERVICE_PORT ?? '443';
+  const readFile = (name: string) => fs.readFile(path.join(IN_CLUSTER_SERVICE_ACCOUNT_DIR, name));
+
+  const [token, ca, namespace] = await Promise.all([
+    readFile('token'),
+    readFile('ca.crt'),
+    readFile('namespace').catch(() => Buffer.from('default')),
+  ]);
+  return {
+    contextName: 'in-cluster',
+    server: `https://${host.includes(':') ? `[${host}]` : host}:${port}`,
+    namespace: namespace.toString().trim(),
+    ca,
+    token: token.toString().trim(),
+    insecureSkipTlsVerify: false,
+  };
+};
+
+/**
+ * Loads the connection details for a kubeconfig context.
+ *
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @param context - Optional context name; defaults to the current context.
+ * @returns The connection details.
+ * @throws KubeAggregatorError if the kubeconfig, context, cluster or credentials cannot be resolved.
+ */
+export const loadKubeConnection = async (kubeconfigPath?: string, context?: string): Promise<KubeConnection> => {
+  const kubeconfig = await loadMergedKubeconfig(getKubeconfigPaths(kubeconfigPath), Boolean(kubeconfigPath));
+
+  if (!kubeconfig) {
+    if (process.env.KUBERNETES_SERVICE_HOST && !context) {
+      logger.debug('No kubeconfig found, using in-cluster service account credentials');
+      return loadInClusterConnection();
+    }
+    throw new KubeAggregatorError('No kubeconfig found. Set --kubeconfig or the KUBECONFIG environment variable.');
+  }
+
+  const contextName = context || kubeconfig.currentContext;
+  if (!contextName) {
+    throw new KubeAggregatorError('No current context is set in the kubeconfig. Use --context to select one.');
+  }
+  const kubeContext = kubeconfig.contexts.get(contextName);
+  if (!kubeContext) {
+    throw new KubeAggregatorError(`Context '${contextName}' does not exist in the kubeconfig`);
+  }
+  const cluster = kubeconfig.clusters.get(kubeContext.cluster);
+  if (!cluster?.value.server) {
+    throw new KubeAggregatorError(`Cluster '${kubeContext.cluster}' of context '${contextName}' has no server address`);
+  }
+  const user = kubeContext.user ? kubeconfig.users.get(kubeContext.user) : undefined;
+  if (kubeContext.user && !user) {
+    logger.warn(`User '${kubeContext.user}' of context '${contextName}' is not defined, connecting anonymously`);
+  }
+
+  const connection: KubeConnection = {
+    contextName,
+    server: cluster.value.server.replace(/\/+$/, ''),
+    namespace: kubeContext.namespace || 'default',
+    ca: await readDataOrFile(
+      cluster.value['certificate-authority-data'],
+      cluster.value['certificate-authority'],
+      cluster.dir,
+    ),
+    insecureSkipTlsVerify: cluster.value['insecure-skip-tls-verify'] === true,
+    tlsServerName: cluster.value['tls-server-name'],
+  };
+
+  if (user) {
+    const { value, dir } = user;
+    connection.cert = await readDataOrFile(value['client-certificate-data'], value['client-certificate'], dir);
+    connection.key = await readDataOrFile(value['client-key-data'], value['client-key'], dir);
+    connection.username = value.username;
+    connection.password = value.password;
+    connection.token = value.token;
+    if (!connection.token && value.tokenFile) {
+      connection.token = (await fs.readFile(path.resolve(dir, value.tokenFile), 'utf-8')).trim();
+    }
+    if (!connection.token && value['auth-provider']?.config) {
+      // Legacy auth providers (gcp, oidc) cache their tokens in the kubeconfig
+      const providerConfig = value['auth-provider'].config;
+      connection.token = providerConfig['access-token'] ?? providerConfig['id-token'];
+    }
+    if (value.exec) {
+      const credentials = await runExecCredentialPlugin(value.exec, dir);
+      connection.token = credentials.token ?? connection.token;
+      connection.cert = credentials.cert ?? connection.cert;
+      connection.key = credentials.key ?? connection.key;
+    }
+  }
+
+  logger.debug(`Loaded kubeconfig context '${contextName}' (server: ${connection.server})`);
+  return connection;
+};
@@ -0,0 +1,136 @@
+// Timeouts and retries for kubectl commands.
+// Large clusters throttle clients (API priority and fairness answers with 429) and occasionally drop connections,
+// so transient failures are retried with exponential backoff. Counters are kept for the run summary.
+
+import { KubectlTimeoutError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+
+// Settings applied to every kubectl command
+export interface KubectlRequestSettings {
+  timeoutMs: number; // 0 disables the timeout
+  maxRetries: number;
+  backoffMs: number; // Delay before the first retry, doubled for every further attempt
+}
+
+// Counters reported in the run summary
+export interface KubectlRequestStats {
+  requests: number; // Commands executed (not counting retries)
+  retries: number;
+  timeouts: number; // Attempts abandoned because of the request timeout
+}
+
+// Upper bound for a single backoff delay
+const MAX_BACKOFF_MS = 10_000;
+
+// Messages (from kubectl or the API transport) of failures that are worth retrying
+const TRANSIENT_ERROR_PATTERNS = [
+  /\((TooManyRequests|InternalError|InternalServerError|ServiceUnavailable|BadGateway|GatewayTimeout|ServerTimeout|Timeout)\)/,
+  /too many requests/i,
+  /the server is currently unable to handle the request/i,
+  /etcdserver: request timed out/i,
+  /connection reset by peer|ECONNRESET|socket hang up/i,
+  /TLS handshake timeout|i\/o timeout|unexpected EOF|http2: client connection lost/i,
+];
+
+const defaultSettings: KubectlRequestSettings = { timeoutMs: 60_000, maxRetries: 3, backoffMs: 500 };
+
+let settings: KubectlRequestSettings = { ...defaultSettings };
+let stats: KubectlRequestStats = { requests: 0, retries: 0, timeouts: 0 };
+
+/**
+ * Updates the timeout and retry settings used for kubectl commands.
+ *
+ * @param overrides - The settings to change; omitted settings keep their defaults.
+ */
+export const configureKubectlRequests = (overrides: Partial<KubectlRequestSettings>): void => {
+  settings = { ...defaultSettings, ...overrides };
+  logger.debug(
+    `Kubectl requests: timeout ${settings.timeoutMs ? `${settings.timeoutMs}ms` : 'disabled'}, ${settings.maxRetries} retries`,
+  );
+};
+
+/**
+ * Returns the timeout and retry settings used for kubectl commands.
+ */
+export const getKubectlRequestSettings = (): KubectlRequestSettings => settings;
+
+/**
+ * Returns the request counters collected since the last reset.
+ */
+export const getKubectlRequestStats = (): KubectlRequestStats => ({ ...stats });
+
+/**
+ * Resets the request counters (at the start of a run).
+ */
+export const resetKubectlRequestStats = (): void => {
+  stats = { requests: 0, retries: 0, timeouts: 0 };
+};
+
+/**
+ * Checks whether a failure is transient (throttling, server errors, dropped connections or timeouts).
+ *
+ * @param error - The error thrown by a transport.
+ * @returns True if the command should be retried.
+ */
+export const isTransientKubectlError = (error: unknown): boolean => {
+  if (error instanceof KubectlTimeoutError) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if ('code' in error && error.code === 'ECONNRESET') {
+    return true;
+  }
+  const stderr = 'stderr' in error && typeof error.stderr === 'string' ? error.stderr : '';
+  const text = `${stderr}\n${error.message}`;
+  return TRANSIENT_ERROR_PATTERNS.some((pattern) => pattern.test(text));
+};
+
+/**
+ * Computes the delay before a retry: exponential backoff with jitter, so parallel
+ * commands throttled at the same time do not retry in lockstep.
+ *
+ * @param attempt - The number of the retry (1 for the first retry).
+ * @param backoffMs - The base delay.
+ * @returns The delay in milliseconds.
+ */
+export const getRetryDelay = (attempt: number, backoffMs: number): number => {
+  const delay = Math.min(backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs a kubectl command, retrying transient failures with exponential backoff.
+ * Requests, retries and timeouts are counted for the run summary.
+ *
+ * @param command - The kubectl command string, for logging.
+ * @param run - Executes the command once, enforcing the given timeout (0 = none).
+ * @returns The result of the first successful attempt.
+ * @throws The error of the last attempt if the command keeps failing, or the first non-transient error.
+ */
+export const runWithRetries = async <T>(command: string, run: (timeoutMs: number) => Promise<T>): Promise<T> => {
+  const { timeoutMs, maxRetries, backoffMs } = settings;
+  stats.requests++;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(timeoutMs);
+    } catch (error) {
+      if (error instanceof KubectlTimeoutError) {
+        stats.timeouts++;
+      }
+      if (attempt >= maxRetries || !isTransientKubectlError(error)) {
+        throw error;
+      }
+
+      stats.retries++;
+      const delay = getRetryDelay(attempt + 1, backoffMs);
+      const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      logger.debug(`Retrying "${command}" in ${delay}ms (attempt ${attempt + 2}/${maxRetries + 1}): ${reason}`);
+      await sleep(delay);
+    }
+  }
+};
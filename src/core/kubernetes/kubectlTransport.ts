@@ -0,0 +1,130 @@
+// Transports execute kubectl-style commands on behalf of the kubectlWrapper functions.
+// The default transport spawns the `kubectl` binary; the API transport talks to the API server directly
+// and renders kubectl-equivalent output, so the rest of the tool does not need to know which one is used.
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import type { KubectlTransportType } from '../../config/configSchema.js';
+import { KubectlTimeoutError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import { createApiTransport } from './apiTransport.js';
+
+const execFileAsync = promisify(execFile);
+
+// Options passed to a transport for a single command
+export interface KubectlTransportOptions {
+  kubeconfigPath?: string;
+  context?: string;
+  command: string; // The equivalent kubectl command string, for error reporting
+  timeoutMs?: number; // Abandon the command after this many milliseconds (0 or unset: no timeout)
+}
+
+// Raw output of a command executed by a transport
+export interface KubectlTransportResult {
+  stdout: string;
+  stderr: string;
+  command?: string; // Where the output came from, if not the kubectl command (e.g., manifest files)
+}
+
+// Transport names: the configurable transports, plus 'manifests' for offline mode
+export type KubectlTransportName = KubectlTransportType | 'manifests';
+
+/**
+ * Executes kubectl-style commands (e.g., ['get', 'pods', '-n', 'default', '-o', 'yaml']).
+ * Failures are reported by throwing an error carrying kubectl's `stderr`,
+ * so callers can handle both transports the same way; timeouts throw a KubectlTimeoutError.
+ */
+export interface KubectlTransport {
+  readonly name: KubectlTransportName;
+  execute(args: string[], options: KubectlTransportOptions): Promise<KubectlTransportResult>;
+  // Releases resources held by the transport (e.g., pooled connections)
+  close?(): void;
+}
+
+/**
+ * Builds the global kubectl arguments selecting the kubeconfig file and context.
+ *
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @param context - Optional specific Kubernetes context to use.
+ * @returns An array of kubectl arguments (empty if neither is set).
+ */
+export const buildGlobalArgs = (kubeconfigPath?: string, context?: string): string[] => {
+  const args: string[] = [];
+  if (kubeconfigPath) {
+    args.push('--kubeconfig', kubeconfigPath);
+  }
+  if (context) {
+    args.push('--context', context);
+  }
+  return args;
+};
+
+/**
+ * Creates the transport that spawns a `kubectl` process for every command.
+ *
+ * @returns The kubectl process transport.
+ */
+export const createExecTransport = (): KubectlTransport => ({
+  name: 'kubectl',
+  execute: async (args, options) => {
+    try {
+      const { stdout, stderr } = await execFileAsync(
+        'kubectl',
+        [...buildGlobalArgs(options.kubeconfigPath, options.context), ...args],
+        { timeout: options.timeoutMs ?? 0 },
+      );
+      return { stdout, stderr };
+    } catch (error) {
+      // execFile kills the process when the timeout expires
+      if (options.timeoutMs && error instanceof Error && 'killed' in error && error.killed) {
+        throw new KubectlTimeoutError(`error: timed out after ${options.timeoutMs}ms`, options.command);
+      }
+      throw error;
+    }
+  },
+});
+
+/**
+ * Creates a transport of the given type.
+ *
+ * @param type - 'kubectl' to spawn kubectl processes, 'api' to call the API server directly.
+ * @returns The transport.
+ */
+export const createKubectlTransport = (type: KubectlTransportType = 'kubectl'): KubectlTransport => {
+  return type === 'api' ? createApiTransport() : createExecTransport();
+};
+
+// The transport used by executeKubectlCommand
+let activeTransport: KubectlTransport = createExecTransport();
+
+/**
+ * Returns the transport currently used to execute kubectl commands.
+ */
+export const getKubectlTransport = (): KubectlTransport => activeTransport;
+
+/**
+ * Sets the transport used to execute kubectl commands, closing the previous one.
+ *
+ * @param transport - The transport to use from now on.
+ */
+export const setKubectlTransport = (transport: KubectlTransport): void => {
+  if (transport !== activeTransport) {
+    activeTransport.close?.();
+  }
+  activeTransport = transport;
+  logger.debug(`Using '${transport.name}' transport for Kubernetes requests`);
+};
+
+/**
+ * Makes sure a transport of the given type is active, keeping the current one (and its connections) if it matches.
+ *
+ * @param type - The transport type from the configuration.
+ * @returns The active transport.
+ */
+export const useKubectlTransport = (type: KubectlTransportType = 'kubectl'): KubectlTransport => {
+  if (activeTransport.name !== type) {
+    setKubectlTransport(createKubectlTransport(type));
+  }
+  return activeTransport;
+};
@@ -1,11 +1,10 @@
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
-
 // Import the actual error class
 import { KubeAggregatorError, KubectlError } from '../../shared/errorHandle.js';
 import { logger } from '../../shared/logger.js';
-
-const execFileAsync = promisify(execFile);
+import type { EventObject, KubeObject } from './apiTypes.js';
+import { runWithRetries } from './kubectlRetry.js';
+import { buildGlobalArgs, getKubectlTransport } from './kubectlTransport.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry } from './resourceRegistry.js';
 
 // Interface for the result of executing a kubectl command
 export interface KubectlResult {
@@ -14,8 +13,33 @@ export interface KubectlResult {
   command: string; // The exact command string executed
 }
 
+// Label and field selectors applied to resource queries
+export interface ResourceSelectors {
+  labelSelector?: string; // e.g. 'app=checkout,tier!=cache'
+  fieldSelector?: string; // e.g. 'status.phase!=Running'
+}
+
+/**
+ * Builds the kubectl arguments for the given label and field selectors.
+ *
+ * @param selectors - Optional label and field selectors.
+ * @returns An array of kubectl arguments (empty if no selectors are set).
+ */
+export const buildSelectorArgs = (selectors?: ResourceSelectors): string[] => {
+  const args: string[] = [];
+  if (selectors?.labelSelector) {
+    args.push('-l', selectors.labelSelector);
+  }
+  if (selectors?.fieldSelector) {
+    args.push('--field-selector', selectors.fieldSelector);
+  }
+  return args;
+};
+
 /**
- * Executes a kubectl command with the given arguments.
+ * Executes a kubectl command with the given arguments, using the active transport
+ * (a kubectl process by default, or direct API calls; see kubectlTransport.ts).
+ * The returned command string is the equivalent kubectl command in both cases.
  *
  * @param args - Array of strings representing the command arguments (e.g., ['get', 'pods', '-n', 'default']).
  * @param kubeconfigPath - Optional path to a specific kubeconfig file.
@@ -28,24 +52,17 @@ export const executeKubectlCommand = async (
   kubeconfigPath?: string,
   context?: string,
 ): Promise<KubectlResult> => {
-  const commandArgs: string[] = [];
-
-  // Add context and kubeconfig if provided
-  if (kubeconfigPath) {
-    commandArgs.push('--kubeconfig', kubeconfigPath);
-  }
-  if (context) {
-    commandArgs.push('--context', context);
-  }
-
-  // Add the main command arguments
-  commandArgs.push(...args);
+  // Add context and kubeconfig if provided, then the main command arguments
+  const commandArgs = [...buildGlobalArgs(kubeconfigPath, context), ...args];
 
   const commandString = `kubectl ${commandArgs.join(' ')}`;
-  logger.trace(`Executing: ${commandString}`);
+  const transport = getKubectlTransport();
+  logger.trace(`Executing (${transport.name} transport): ${commandString}`);
 
   try {
-    const { stdout, stderr } = await execFileAsync('kubectl', commandArgs);
+    const { stdout, stderr, command } = await runWithRetries(commandString, (timeoutMs) =>
+      transport.execute(args, { kubeconfigPath, context, command: commandString, timeoutMs }),
+    );
 
     if (stderr) {
       // Log stderr but don't necessarily throw unless exit code was non-zero (handled below)
@@ -53,7 +70,7 @@ export const executeKubectlCommand = async (
     }
 
     logger.trace(`kubectl stdout for command "${commandString}":\n${stdout}`);
-    return { stdout, stderr, command: commandString };
+    return { stdout, stderr, command: command ?? commandString };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     let detailedError = errorMessage;
@@ -178,6 +195,43 @@ export const getNamespacesOutput = async (
   }
 };
 
+/**
+ * Parses `kubectl get -o name` output (e.g., "pod/nginx-xyz\ndeployment.apps/deploy-1") and adds each
+ * resource name to the result, keyed by canonical type name.
+ *
+ * @param stdout - The raw kubectl output.
+ * @param result - The record to add the resource names to.
+ * @param registry - Registry used to map kinds to canonical names.
+ */
+const parseResourceNames = (stdout: string, result: Record<string, string[]>, registry: ResourceKindRegistry): void => {
+  const lines = stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean); // Remove empty lines
+
+  // Process each line and organize by kind
+  for (const line of lines) {
+    // Split by "/" to get kind and name
+    const parts = line.split('/');
+
+    if (parts.length < 2) {
+      logger.warn(`Unexpected format in resource name: ${line}`);
+      continue;
+    }
+
+    // Map the kind (e.g., 'deployment.apps', 'ingress.networking.k8s.io') to its canonical type name
+    const kind = registry.canonicalName(parts[0]);
+
+    // Ensure the kind exists in result
+    if (!result[kind]) {
+      result[kind] = [];
+    }
+
+    // Add the resource name
+    result[kind].push(parts[1]);
+  }
+};
+
 /**
  * Fetches the names of resources in a given namespace and organizes them by kind.
  *
@@ -185,13 +239,18 @@ export const getNamespacesOutput = async (
  * @param types - Array of resource types to fetch. Use ['all'] to fetch all common resource types.
  * @param kubeconfigPath - Optional path to a specific kubeconfig file.
  * @param context - Optional specific Kubernetes context to use.
- * @returns A promise that resolves with a record mapping resource kinds to arrays of resource names.
+ * @param selectors - Optional label and field selectors to narrow down the resources.
+ * @param registry - Registry used to map kinds to canonical names. Defaults to the built-in kinds.
+ * @returns A promise that resolves with a record mapping canonical resource types
+ *          (e.g., 'pods', 'deployments.apps') to arrays of resource names.
  */
 export const getResourcesByName = async (
   namespace: string,
   types: string[],
   kubeconfigPath?: string,
   context?: string,
+  selectors?: ResourceSelectors,
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
 ): Promise<Record<string, string[]>> => {
   // Check if we're using 'all' to get all resources
   const isGetAll = types.includes('all');
@@ -204,8 +263,10 @@ export const getResourcesByName = async (
   // Create empty result structure with empty arrays for each resource type
   const result: Record<string, string[]> = {};
   for (const type of types) {
-    // Store with normalized kind name
-    result[type] = [];
+    // Store with canonical type name ('all' is a category, not a type)
+    if (type !== 'all') {
+      result[registry.canonicalName(type)] = [];
+    }
   }
 
   // If no types specified, return empty result
@@ -213,79 +274,57 @@ export const getResourcesByName = async (
     return result;
   }
 
-  // Build the kubectl command with comma-separated types
-  const typeList = types.join(',');
-  const args = ['get', typeList, '-n', namespace, '-o', 'name', '--no-headers=true'];
-
-  try {
+  // A field selector is applied type by type: fields such as status.phase are only supported by some kinds, and
+  // kubectl fails the whole request when one of the types rejects it ('all' is expanded by kubectl and cannot be split)
+  const typeLists = selectors?.fieldSelector && !isGetAll ? types.map((type) => [type]) : [types];
+  const fetchNames = async (typeList: string[]) => {
+    // Build the kubectl command with comma-separated types
+    const args = [
+      'get',
+      typeList.join(','),
+      '-n',
+      namespace,
+      ...buildSelectorArgs(selectors),
+      '-o',
+      'name',
+      '--no-headers=true',
+    ];
     const { stdout } = await executeKubectlCommand(args, kubeconfigPath, context);
-
-    // Handle empty case (no resources)
-    if (!stdout.trim()) {
-      logger.debug(`No resources found in namespace '${namespace}'.`);
-      return result;
-    }
-
-    // Parse the output (e.g., "pod/nginx-xyz\nservice/svc-1\ndeployment.apps/deploy-1")
-    const lines = stdout
-      .split('\n')
-      .map((line) => line.trim())
-      .filter(Boolean); // Remove empty lines
-
-    // Process each line and organize by kind
-    for (const line of lines) {
-      // Split by "/" to get kind and name
-      const parts = line.split('/');
-
-      if (parts.length < 2) {
-        logger.warn(`Unexpected format in resource name: ${line}`);
+    parseResourceNames(stdout, result, registry);
+  };
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+  for (const typeList of typeLists) {
+    try {
+      await fetchNames(typeList);
+    } catch (error) {
+      if (typeList.length === 1) {
+        // Log error but don't fail entirely, keeping the initialized empty result of this type for resilience
+        logger.warn(`Failed to get ${typeList[0]} names for namespace '${namespace}': ${errorMessage(error)}`);
         continue;
       }
-
-      // Extract and normalize kind
-      let kind = parts[0];
-
-      // Handle special kinds with dots (e.g., deployment.apps -> deployments)
-      if (kind.includes('.')) {
-        const kindBase = kind.split('.')[0];
-
-        // Map to plural form based on the base name
-        const normalizedKinds: Record<string, string> = {
-          deployment: 'deployments',
-          replicaset: 'replicasets',
-          statefulset: 'statefulsets',
-          daemonset: 'daemonsets',
-          job: 'jobs',
-          cronjob: 'cronjobs',
-          // Add more special cases as needed
-        };
-
-        kind = normalizedKinds[kindBase] || `${kindBase}s`; // Default to adding 's'
+      // kubectl fails the whole request when one type is forbidden or unavailable (e.g., a discovered aggregated API
+      // whose server is down): retry type by type, skipping only the types that fail
+      logger.debug(
+        `Failed to get resource names for namespace '${namespace}', retrying type by type: ${errorMessage(error)}`,
+      );
+      for (const type of typeList) {
+        try {
+          await fetchNames([type]);
+        } catch (typeError) {
+          logger.warn(`Failed to get ${type} names for namespace '${namespace}': ${errorMessage(typeError)}`);
+        }
       }
-
-      // Ensure the kind exists in result
-      if (!result[kind]) {
-        result[kind] = [];
-      }
-
-      // Add the resource name
-      result[kind].push(parts[1]);
     }
+  }
 
-    // Log summary of resources found
-    const totalResources = Object.values(result).reduce((sum, names) => sum + names.length, 0);
-    logger.debug(
-      `Found ${totalResources} resources across ${Object.keys(result).filter((k) => result[k].length > 0).length} kinds in namespace '${namespace}'.`,
-    );
-
-    return result;
-  } catch (error) {
-    // Log error but don't fail entirely
-    logger.warn(`Failed to get resource names for namespace '${namespace}':`, error);
+  // Log summary of resources found
+  const totalResources = Object.values(result).reduce((sum, names) => sum + names.length, 0);
+  logger.debug(
+    `Found ${totalResources} resources across ${Object.keys(result).filter((k) => result[k].length > 0).length} kinds in namespace '${namespace}'.`,
+  );
 
-    // Return initialized empty result for resilience
-    return result;
-  }
+  return result;
 };
 
 /**
@@ -296,6 +335,7 @@ export const getResourcesByName = async (
  * @param kubeconfigPath - Optional path to a specific kubeconfig file.
  * @param context - Optional specific Kubernetes context to use.
  * @param outputFormat - Optional output format (text, yaml, json). Defaults to text (which is -o wide).
+ * @param selectors - Optional label and field selectors to narrow down the resources.
  * @returns A promise resolving with the output content and the command used.
  */
 export const getResourcesOutput = async (
@@ -304,6 +344,7 @@ export const getResourcesOutput = async (
   kubeconfigPath?: string,
   context?: string,
   outputFormat: 'text' | 'yaml' | 'json' = 'text',
+  selectors?: ResourceSelectors,
 ): Promise<{ output: string; command: string }> => {
   // Check if we're using 'all' to get all resources
   const isGetAll = types.includes('all');
@@ -327,7 +368,8 @@ export const getResourcesOutput = async (
   // Debug output flag explicitly
   logger.debug(`Using kubectl output flag: -o ${outputFlag} for format '${outputFormat}'`);
 
-  const args = ['get', typeList, '-n', namespace, '-o', outputFlag];
+  const selectorArgs = buildSelectorArgs(selectors);
+  const args = ['get', typeList, '-n', namespace, ...selectorArgs, '-o', outputFlag];
 
   try {
     const { stdout, command } = await executeKubectlCommand(args, kubeconfigPath, context);
@@ -349,7 +391,7 @@ export const getResourcesOutput = async (
     logger.warn(`Failed to get resource data for namespace '${namespace}':`, error);
 
     // Create a command string for return value consistency
-    const commandStr = `kubectl get ${types.join(',')} -n ${namespace} -o ${outputFlag}`;
+    const commandStr = ['kubectl', ...args].join(' ');
     if (error instanceof KubectlError && error.command) {
       return { output: '', command: error.command };
     }
@@ -359,6 +401,238 @@ export const getResourcesOutput = async (
   }
 };
 
+/**
+ * Fetches the names of cluster-scoped resources (e.g., nodes, storage classes) and organizes them by kind.
+ *
+ * @param types - Array of cluster-scoped resource types to fetch.
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @param context - Optional specific Kubernetes context to use.
+ * @param registry - Registry used to map kinds to canonical names. Defaults to the built-in kinds.
+ * @returns A promise that resolves with a record mapping canonical resource types to arrays of resource names.
+ */
+export const getClusterResourcesByName = async (
+  types: string[],
+  kubeconfigPath?: string,
+  context?: string,
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): Promise<Record<string, string[]>> => {
+  logger.debug(`Fetching cluster-scoped resources (${types.join(',')}) by name...`);
+
+  // Create empty result structure with empty arrays for each resource type
+  const result: Record<string, string[]> = {};
+  for (const type of types) {
+    result[registry.canonicalName(type)] = [];
+  }
+
+  // If no types specified, return empty result
+  if (!types.length) {
+    return result;
+  }
+
+  const args = ['get', types.join(','), '-o', 'name', '--no-headers=true'];
+
+  try {
+    const { stdout } = await executeKubectlCommand(args, kubeconfigPath, context);
+    parseResourceNames(stdout, result, registry);
+
+    const totalResources = Object.values(result).reduce((sum, names) => sum + names.length, 0);
+    logger.debug(`Found ${totalResources} cluster-scoped resources.`);
+    return result;
+  } catch (error) {
+    // Log error but don't fail entirely (e.g., RBAC often forbids listing cluster-scoped resources)
+    logger.warn('Failed to get cluster-scoped resource names:', error);
+    return result;
+  }
+};
+
+/**
+ * Fetches the definition for cluster-scoped resources using the specified format.
+ *
+ * @param types - Array of cluster-scoped resource types to fetch.
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @param context - Optional specific Kubernetes context to use.
+ * @param outputFormat - Optional output format (text, yaml, json). Defaults to text (which is -o wide).
+ * @returns A promise resolving with the output content and the command used.
+ */
+export const getClusterResourcesOutput = async (
+  types: string[],
+  kubeconfigPath?: string,
+  context?: string,
+  outputFormat: 'text' | 'yaml' | 'json' = 'text',
+): Promise<{ output: string; command: string }> => {
+  logger.debug(`Fetching ${outputFormat} output for cluster-scoped types (${types.join(',')})...`);
+
+  const outputFlag = outputFormat === 'text' ? 'wide' : outputFormat;
+  const args = ['get', types.join(','), '-o', outputFlag];
+
+  // If no types specified, return empty result
+  if (!types.length) {
+    return { output: '', command: ['kubectl', ...args].join(' ') };
+  }
+
+  try {
+    const { stdout, command } = await executeKubectlCommand(args, kubeconfigPath, context);
+
+    // Check if any resources were found
+    if (
+      !stdout.trim() ||
+      (outputFormat === 'yaml' && stdout.includes('items: []')) ||
+      (outputFormat === 'json' && stdout.includes('"items": []')) ||
+      stdout.includes('No resources found')
+    ) {
+      logger.debug(`No cluster-scoped resources found for types (${types.join(',')}).`);
+      return { output: '', command };
+    }
+
+    return { output: stdout, command };
+  } catch (error) {
+    // Log error but don't fail entirely
+    logger.warn('Failed to get cluster-scoped resource data:', error);
+
+    if (error instanceof KubectlError && error.command) {
+      return { output: '', command: error.command };
+    }
+    return { output: '', command: ['kubectl', ...args].join(' ') };
+  }
+};
+
+/**
+ * Lists objects as JSON, across all namespaces or in each of the given namespaces in turn (which only needs
+ * namespace-scoped permissions). A namespace that cannot be listed is skipped with a warning.
+ *
+ * @param type - The resource type to list (e.g., 'events').
+ * @param extraArgs - Additional kubectl arguments (e.g., selectors).
+ * @param namespaces - The namespaces to list, or undefined for all namespaces.
+ * @param description - Description of the objects for log messages (e.g., 'events').
+ * @param kubeconfigPath - Optional path to the kubeconfig file.
+ * @param context - Optional Kubernetes context to use.
+ * @returns A promise that resolves with the objects and the commands used, one per line.
+ */
+const listObjectsByNamespace = async <T>(
+  type: string,
+  extraArgs: string[],
+  namespaces: string[] | undefined,
+  description: string,
+  kubeconfigPath?: string,
+  context?: string,
+): Promise<{ items: T[]; command: string }> => {
+  const items: T[] = [];
+  const commands: string[] = [];
+  for (const namespace of namespaces ?? [undefined]) {
+    const args = ['get', type, ...(namespace ? ['-n', namespace] : ['--all-namespaces']), '-o', 'json', ...extraArgs];
+    try {
+      const { stdout, command } = await executeKubectlCommand(args, kubeconfigPath, context);
+      const list = stdout.trim() ? (JSON.parse(stdout) as { items?: T[] }) : {};
+      items.push(...(list.items ?? []));
+      commands.push(command);
+    } catch (error) {
+      logger.warn(
+        `Failed to get ${description}${namespace ? ` in namespace '${namespace}'` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      commands.push(error instanceof KubectlError && error.command ? error.command : ['kubectl', ...args].join(' '));
+    }
+  }
+  return { items, command: commands.join('\n') };
+};
+
+/**
+ * Fetches the Helm release Secrets as JSON, including their data, for decoding Helm releases.
+ * The Secrets are only decoded locally; their data never appears in the output.
+ *
+ * @param kubeconfigPath - Optional path to the kubeconfig file.
+ * @param context - Optional Kubernetes context to use.
+ * @param namespaces - The namespaces to fetch the Secrets of, or undefined for all namespaces.
+ * @returns A promise that resolves with the Secrets and the commands used (no Secrets where the fetch fails).
+ */
+export const getHelmReleaseSecrets = async (
+  kubeconfigPath?: string,
+  context?: string,
+  namespaces?: string[],
+): Promise<{ secrets: KubeObject[]; command: string }> => {
+  logger.debug('Fetching Helm release Secrets...');
+
+  // Reading Secrets is often forbidden by RBAC: failures are logged without failing the run
+  const { items, command } = await listObjectsByNamespace<KubeObject>(
+    'secrets',
+    ['-l', 'owner=helm'],
+    namespaces,
+    'Helm release Secrets',
+    kubeconfigPath,
+    context,
+  );
+  logger.debug(`Found ${items.length} Helm release Secrets.`);
+  return { secrets: items, command };
+};
+
+/**
+ * Fetches resources of a namespace as JSON objects, for the relationship graph
+ * (which needs their ownerReferences, labels and selectors).
+ *
+ * @param namespace - The namespace to fetch resources from.
+ * @param types - The resource types to fetch.
+ * @param kubeconfigPath - Optional path to the kubeconfig file.
+ * @param context - Optional Kubernetes context to use.
+ * @param selectors - Optional label and field selectors to narrow down the resources.
+ * @returns A promise that resolves with the resources (none if the fetch fails).
+ */
+export const getResourceObjects = async (
+  namespace: string,
+  types: string[],
+  kubeconfigPath?: string,
+  context?: string,
+  selectors?: ResourceSelectors,
+): Promise<KubeObject[]> => {
+  if (types.length === 0) {
+    return [];
+  }
+  logger.debug(`Fetching ${types.join(',')} objects in namespace '${namespace}'...`);
+
+  const args = ['get', types.join(','), '-n', namespace, '-o', 'json', ...buildSelectorArgs(selectors)];
+  try {
+    const { stdout } = await executeKubectlCommand(args, kubeconfigPath, context);
+    const list = stdout.trim() ? (JSON.parse(stdout) as { items?: KubeObject[] }) : {};
+    // Lists of a single namespace may omit the namespace of their items
+    return (list.items ?? []).map((item) => ({ ...item, metadata: { namespace, ...item.metadata } }));
+  } catch (error) {
+    // Log error but don't fail entirely (the tree is then shown without relationships)
+    logger.warn(
+      `Failed to get resource objects for namespace '${namespace}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+    return [];
+  }
+};
+
+/**
+ * Fetches events as JSON, for the events collector.
+ * Unless Normal events are requested, only Warning events are fetched (filtered by the API server).
+ *
+ * @param includeNormal - Whether to fetch Normal events in addition to Warning events.
+ * @param kubeconfigPath - Optional path to the kubeconfig file.
+ * @param context - Optional Kubernetes context to use.
+ * @param namespaces - The namespaces to fetch the events of, or undefined for all namespaces.
+ * @returns A promise that resolves with the events and the commands used (no events where the fetch fails).
+ */
+export const getEvents = async (
+  includeNormal: boolean,
+  kubeconfigPath?: string,
+  context?: string,
+  namespaces?: string[],
+): Promise<{ events: EventObject[]; command: string }> => {
+  logger.debug(`Fetching ${includeNormal ? 'all' : 'Warning'} events...`);
+
+  // Events are supplementary: failures are logged without failing the run
+  const { items, command } = await listObjectsByNamespace<EventObject>(
+    'events',
+    includeNormal ? [] : ['--field-selector', 'type=Warning'],
+    namespaces,
+    'events',
+    kubeconfigPath,
+    context,
+  );
+  logger.debug(`Found ${items.length} events.`);
+  return { events: items, command };
+};
+
 /**
  * Fetches logs for a pod in a specific namespace
  *
@@ -0,0 +1,227 @@
+// Loading of Kubernetes manifests from local files and directories (offline mode),
+// e.g. a support bundle or the output of `kubectl get -o yaml` saved in a ticket.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import * as yaml from 'yaml';
+
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import type { KubeObject } from './apiTypes.js';
+import {
+  type ResourceKindInfo,
+  createBuiltinResourceKindRegistry,
+  guessPlural,
+  splitApiVersion,
+} from './resourceRegistry.js';
+
+// Files and directories to read manifests from
+export interface ManifestSources {
+  files?: string[];
+  directories?: string[];
+}
+
+// A resource read from a manifest file
+export interface ManifestObject {
+  object: KubeObject;
+  info: ResourceKindInfo;
+  namespace?: string; // Effective namespace ('default' for namespaced resources without one)
+  source?: string; // The file the resource was read from (undefined for derived namespaces)
+}
+
+// All resources read from the sources, with the resource kinds they belong to
+export interface ManifestIndex {
+  objects: ManifestObject[];
+  kinds: ResourceKindInfo[];
+  sources: string[]; // The configured files and directories, for reporting
+}
+
+// File extensions read from directories
+const MANIFEST_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+/**
+ * Formats a path for display in the output (relative to the working directory when below it).
+ */
+export const displayPath = (filePath: string): string => {
+  const relative = path.relative(process.cwd(), filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+};
+
+/**
+ * Recursively lists the manifest files of a directory, in a stable order.
+ */
+const listManifestFiles = async (directory: string): Promise<string[]> => {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      files.push(...(await listManifestFiles(entryPath)));
+    } else if (entry.isFile() && MANIFEST_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+};
+
+/**
+ * Parses the documents of a manifest file, expanding lists (e.g., `kubectl get -o yaml` output) into their items.
+ */
+const parseManifestFile = (content: string, filePath: string): KubeObject[] => {
+  const documents: unknown[] =
+    path.extname(filePath).toLowerCase() === '.json'
+      ? [JSON.parse(content)]
+      : yaml.parseAllDocuments(content).map((document) => {
+          if (document.errors.length > 0) {
+            throw document.errors[0];
+          }
+          return document.toJS();
+        });
+
+  const objects: KubeObject[] = [];
+  const collect = (document: unknown) => {
+    if (!document || typeof document !== 'object') return;
+    const object = document as KubeObject;
+    if (Array.isArray(object.items) && (object.kind === 'List' || object.kind?.endsWith('List'))) {
+      for (const item of object.items) collect(item);
+    } else if (object.kind && object.metadata?.name) {
+      objects.push(object);
+    } else {
+      logger.debug(`Skipping a document without kind or name in ${filePath}`);
+    }
+  };
+  for (const document of documents) collect(document);
+  return objects;
+};
+
+/**
+ * Builds the resource kinds of the CustomResourceDefinitions found in the manifests.
+ */
+const getCustomResourceKinds = (objects: KubeObject[]): ResourceKindInfo[] => {
+  return objects
+    .filter((object) => object.kind === 'CustomResourceDefinition')
+    .map((object) => {
+      const spec = (object.spec ?? {}) as {
+        group?: string;
+        scope?: string;
+        names?: { plural?: string; singular?: string; kind?: string; shortNames?: string[]; categories?: string[] };
+        versions?: Array<{ name: string; storage?: boolean }>;
+      };
+      const names = spec.names ?? {};
+      const version = spec.versions?.find((candidate) => candidate.storage) ?? spec.versions?.[0];
+      return {
+        name: names.plural ?? '',
+        singularName: names.singular || names.kind?.toLowerCase() || '',
+        shortNames: names.shortNames ?? [],
+        group: spec.group ?? '',
+        version: version?.name ?? 'v1',
+        kind: names.kind ?? '',
+        namespaced: spec.scope !== 'Cluster',
+        verbs: ['get', 'list'],
+        categories: names.categories ?? [],
+      };
+    })
+    .filter((info) => info.name && info.kind && info.group);
+};
+
+/**
+ * Reads all manifests from the given files and directories.
+ * Kinds are resolved against the built-in kinds and the CRDs contained in the manifests;
+ * namespaces referenced by resources are added even if their Namespace objects are missing.
+ *
+ * @param sources - The files and directories to read.
+ * @returns The index of the loaded resources.
+ * @throws KubeAggregatorError if a source cannot be read or contains no manifests.
+ */
+export const loadManifests = async (sources: ManifestSources): Promise<ManifestIndex> => {
+  const configuredSources = [...(sources.directories ?? []), ...(sources.files ?? [])].map((source) =>
+    path.resolve(source),
+  );
+  const files: string[] = [];
+  try {
+    for (const directory of sources.directories ?? []) {
+      files.push(...(await listManifestFiles(path.resolve(directory))));
+    }
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to read manifest directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  files.push(...(sources.files ?? []).map((file) => path.resolve(file)));
+
+  const loaded: Array<{ object: KubeObject; source: string }> = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      throw new KubeAggregatorError(
+        `Failed to read manifest file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+    try {
+      const objects = parseManifestFile(content, file);
+      loaded.push(...objects.map((object) => ({ object, source: file })));
+      logger.debug(`Read ${objects.length} resources from ${file}`);
+    } catch (error) {
+      // Skip unparsable files (e.g., unrelated YAML in a support bundle) rather than failing the run
+      logger.warn(`Skipping ${displayPath(file)}: ${error instanceof Error ? error.message : 'not a valid manifest'}`);
+    }
+  }
+  if (loaded.length === 0) {
+    throw new KubeAggregatorError(`No Kubernetes manifests found in ${configuredSources.map(displayPath).join(', ')}`);
+  }
+
+  const kinds = [
+    ...createBuiltinResourceKindRegistry().getAll(),
+    ...getCustomResourceKinds(loaded.map(({ object }) => object)),
+  ];
+  const findKind = (object: KubeObject): ResourceKindInfo => {
+    const { group, version } = splitApiVersion(object.apiVersion ?? 'v1');
+    const known = kinds.find((info) => info.kind === object.kind && info.group === group);
+    if (known) {
+      return known;
+    }
+    // Kinds without a CRD in the manifests: derive the resource name, and the scope from the object itself
+    const singularName = (object.kind ?? '').toLowerCase();
+    const info: ResourceKindInfo = {
+      name: guessPlural(singularName),
+      singularName,
+      shortNames: [],
+      group,
+      version,
+      kind: object.kind ?? '',
+      namespaced: object.metadata?.namespace !== undefined,
+      verbs: ['get', 'list'],
+      categories: [],
+    };
+    kinds.push(info);
+    return info;
+  };
+
+  const objects: ManifestObject[] = loaded.map(({ object, source }) => {
+    const info = findKind(object);
+    const namespace = info.namespaced ? (object.metadata?.namespace ?? 'default') : undefined;
+    return { object, info, namespace, source };
+  });
+
+  // Namespaces referenced by resources but not included as Namespace objects
+  const namespaceKind = kinds.find((info) => info.kind === 'Namespace' && info.group === '');
+  if (namespaceKind) {
+    const knownNamespaces = new Set(
+      objects.filter(({ info }) => info === namespaceKind).map(({ object }) => object.metadata?.name),
+    );
+    for (const { namespace } of objects) {
+      if (namespace && !knownNamespaces.has(namespace)) {
+        knownNamespaces.add(namespace);
+        objects.push({
+          object: { apiVersion: 'v1', kind: 'Namespace', metadata: { name: namespace } },
+          info: namespaceKind,
+        });
+      }
+    }
+  }
+
+  logger.info(`Loaded ${loaded.length} resources from ${files.length} manifest files.`);
+  return { objects, kinds, sources: configuredSources };
+};
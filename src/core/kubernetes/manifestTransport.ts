@@ -0,0 +1,257 @@
+// Transport answering kubectl commands from local manifest files instead of a cluster (offline mode).
+// Resources are filtered and rendered like the API transport renders them, and the command reported
+// for every result names the files the resources were read from.
+
+import { KubectlError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import {
+  type ResourceTable,
+  formatKindPrefix,
+  listToTable,
+  renderApiResources,
+  renderObjects,
+  renderPodDescription,
+  renderResourceTables,
+} from './apiRender.js';
+import { type ParsedCommand, parseKubectlArgs } from './apiTransport.js';
+import type { EventObject, PodObject } from './apiTypes.js';
+import type { KubectlTransport, KubectlTransportOptions, KubectlTransportResult } from './kubectlTransport.js';
+import {
+  type ManifestIndex,
+  type ManifestObject,
+  type ManifestSources,
+  displayPath,
+  loadManifests,
+} from './manifestSource.js';
+import { type ResourceKindInfo, ResourceKindRegistry } from './resourceRegistry.js';
+import { matchesFieldSelector, matchesLabelSelector } from './selectorMatch.js';
+
+// Namespace of commands without -n, like kubectl without a namespace in the kubeconfig context
+const DEFAULT_NAMESPACE = 'default';
+
+/**
+ * Creates an error carrying kubectl-style stderr, so kubectlWrapper handles it like a failed kubectl process.
+ */
+const commandError = (stderr: string, command: string): KubectlError => new KubectlError(stderr, stderr, command);
+
+/**
+ * Transport reading resources from manifest files; the files are loaded on first use.
+ */
+class ManifestTransport implements KubectlTransport {
+  readonly name = 'manifests' as const;
+  private index?: Promise<ManifestIndex>;
+
+  constructor(private readonly sources: ManifestSources) {}
+
+  async execute(args: string[], options: KubectlTransportOptions): Promise<KubectlTransportResult> {
+    const parsed = parseKubectlArgs(args, options.command);
+    const index = await this.getIndex();
+
+    switch (parsed.verb) {
+      case 'get':
+        return this.get(index, parsed, options.command);
+      case 'api-resources':
+        return { stdout: renderApiResources(index.kinds, parsed.flags.get('output') === 'wide'), stderr: '' };
+      case 'logs':
+        return this.logs(index, parsed, options.command);
+      case 'describe':
+        return this.describe(index, parsed, options.command);
+      default:
+        throw commandError(`error: '${parsed.verb}' is not supported when reading manifest files`, options.command);
+    }
+  }
+
+  private getIndex(): Promise<ManifestIndex> {
+    this.index ??= loadManifests(this.sources);
+    // Do not cache failures, so a corrected source can be read on the next run
+    this.index.catch(() => {
+      this.index = undefined;
+    });
+    return this.index;
+  }
+
+  /**
+   * Resolves comma-separated kubectl types (names, aliases, categories like 'all') to resource kinds.
+   */
+  private resolveKinds(index: ManifestIndex, typeList: string, command: string): ResourceKindInfo[] {
+    const registry = new ResourceKindRegistry(index.kinds);
+    const resolved: ResourceKindInfo[] = [];
+
+    for (const type of typeList.split(',').filter(Boolean)) {
+      const info = registry.resolve(type);
+      const members = info
+        ? [info]
+        : registry.getAll().filter((candidate) => candidate.categories.includes(type.toLowerCase()));
+      if (members.length === 0) {
+        throw commandError(`error: the manifests don't have a resource type "${type}"`, command);
+      }
+      for (const member of members) {
+        if (!resolved.includes(member)) resolved.push(member);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Selects the resources of one kind in a namespace (all namespaces if undefined), applying names and selectors.
+   */
+  private selectObjects(
+    index: ManifestIndex,
+    info: ResourceKindInfo,
+    namespace: string | undefined,
+    names: string[],
+    parsed: ParsedCommand,
+    command: string,
+  ): ManifestObject[] {
+    const labelSelector = parsed.flags.get('selector');
+    const fieldSelector = parsed.flags.get('field-selector');
+    const selected = index.objects
+      .filter(
+        (entry) =>
+          entry.info === info &&
+          (!info.namespaced || namespace === undefined || entry.namespace === namespace) &&
+          (names.length === 0 || names.includes(entry.object.metadata?.name ?? '')) &&
+          (!labelSelector || matchesLabelSelector(entry.object.metadata?.labels, labelSelector)) &&
+          (!fieldSelector || matchesFieldSelector(entry.object, fieldSelector)),
+      )
+      // Sorted by namespace and name, like API server lists
+      .sort((a, b) =>
+        `${a.namespace ?? ''}/${a.object.metadata?.name}`.localeCompare(
+          `${b.namespace ?? ''}/${b.object.metadata?.name}`,
+        ),
+      );
+
+    for (const name of names) {
+      if (!selected.some((entry) => entry.object.metadata?.name === name)) {
+        const resource = info.group ? `${info.name}.${info.group}` : info.name;
+        throw commandError(`Error from server (NotFound): ${resource} "${name}" not found`, command);
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Describes where results came from: the files of the resources, or the configured sources if there are none.
+   */
+  private describeSources(index: ManifestIndex, entries: ManifestObject[]): string {
+    const files = [...new Set(entries.map((entry) => entry.source).filter((source): source is string => !!source))];
+    return `source: ${(files.length > 0 ? files : index.sources).map(displayPath).join(', ')}`;
+  }
+
+  private get(index: ManifestIndex, parsed: ParsedCommand, command: string): KubectlTransportResult {
+    const [typeList, ...names] = parsed.positionals;
+    if (!typeList) {
+      throw commandError('error: you must specify the type of resource to get', command);
+    }
+    const kinds = this.resolveKinds(index, typeList, command);
+    const allNamespaces = parsed.flags.get('all-namespaces') === 'true';
+    const namespace = allNamespaces ? undefined : (parsed.flags.get('namespace') ?? DEFAULT_NAMESPACE);
+    const output = parsed.flags.get('output') ?? '';
+
+    const selections = kinds.map((info) => ({
+      info,
+      entries: this.selectObjects(index, info, namespace, names, parsed, command),
+    }));
+    const entries = selections.flatMap((selection) => selection.entries);
+    const source = this.describeSources(index, entries);
+
+    if (output === 'name') {
+      const lines = selections.flatMap(({ info, entries }) =>
+        entries.map((entry) => `${formatKindPrefix(info)}/${entry.object.metadata?.name}`),
+      );
+      return { stdout: lines.length > 0 ? `${lines.join('\n')}\n` : '', stderr: '', command: source };
+    }
+
+    if (output === 'json' || output === 'yaml') {
+      const objects = entries.map((entry) => entry.object);
+      return {
+        stdout: renderObjects(output, objects, names.length === 1 && kinds.length === 1),
+        stderr: '',
+        command: source,
+      };
+    }
+
+    if (output !== '' && output !== 'wide') {
+      throw commandError(`error: output format '${output}' is not supported when reading manifest files`, command);
+    }
+
+    // Without server-side printer columns, tables show names and ages
+    const tables: ResourceTable[] = selections.map(({ info, entries }) => ({
+      info,
+      table: listToTable({ items: entries.map((entry) => entry.object) }),
+    }));
+    const stdout = renderResourceTables(tables, {
+      wide: output === 'wide',
+      withKind: kinds.length > 1,
+      withNamespace: allNamespaces,
+      noHeaders: parsed.flags.get('no-headers') === 'true',
+    });
+    const stderr = stdout ? '' : namespace ? `No resources found in ${namespace} namespace.` : 'No resources found';
+    return { stdout, stderr, command: source };
+  }
+
+  /**
+   * Finds a single pod by name, for logs and describe.
+   */
+  private findPod(index: ManifestIndex, parsed: ParsedCommand, podName: string, command: string): ManifestObject {
+    const namespace = parsed.flags.get('namespace') ?? DEFAULT_NAMESPACE;
+    const pod = index.objects.find(
+      (entry) => entry.info.kind === 'Pod' && entry.namespace === namespace && entry.object.metadata?.name === podName,
+    );
+    if (!pod) {
+      throw commandError(`Error from server (NotFound): pods "${podName}" not found`, command);
+    }
+    return pod;
+  }
+
+  private logs(index: ManifestIndex, parsed: ParsedCommand, command: string): KubectlTransportResult {
+    const [podName] = parsed.positionals;
+    if (!podName) {
+      throw commandError('error: expected POD to be specified', command);
+    }
+    const pod = this.findPod(index, parsed, podName, command);
+    logger.debug(`Pod logs of '${podName}' are not available in manifest files`);
+    return {
+      stdout: '(Pod logs are not available when reading from manifest files)',
+      stderr: '',
+      command: this.describeSources(index, [pod]),
+    };
+  }
+
+  private describe(index: ManifestIndex, parsed: ParsedCommand, command: string): KubectlTransportResult {
+    const [type, podName] = parsed.positionals;
+    if (!['pod', 'pods', 'po'].includes(type ?? '') || !podName) {
+      throw commandError('error: describe is only supported for single pods when reading manifest files', command);
+    }
+    const pod = this.findPod(index, parsed, podName, command);
+    const podObject = pod.object as PodObject;
+
+    // Events about the pod, if the manifests include them
+    const events = index.objects.filter((entry) => {
+      const involvedObject = (entry.object as EventObject).involvedObject;
+      return (
+        entry.info.kind === 'Event' &&
+        entry.namespace === pod.namespace &&
+        involvedObject?.name === podName &&
+        (!involvedObject.uid || !podObject.metadata?.uid || involvedObject.uid === podObject.metadata.uid)
+      );
+    });
+
+    return {
+      stdout: renderPodDescription(
+        { ...podObject, metadata: { ...podObject.metadata, namespace: pod.namespace } },
+        events.map((entry) => entry.object as EventObject),
+      ),
+      stderr: '',
+      command: this.describeSources(index, [pod, ...events]),
+    };
+  }
+}
+
+/**
+ * Creates the transport reading resources from manifest files instead of a cluster.
+ *
+ * @param sources - The files and directories to read.
+ * @returns The manifest transport.
+ */
+export const createManifestTransport = (sources: ManifestSources): KubectlTransport => new ManifestTransport(sources);
@@ -1,45 +1,70 @@
-// Placeholder for functions related to discovering available API resources
+// Functions related to discovering available API resources
 // in the Kubernetes cluster (e.g., using `kubectl api-resources`).
-// This will be needed for more dynamic resource fetching later.
+// Used to build the resource kind registry and by the discovery mode (`--all-types` / `filter.discover`).
 
 import { KubeAggregatorError } from '../../shared/errorHandle.js';
 import { logger } from '../../shared/logger.js';
 import { executeKubectlCommand } from './kubectlWrapper.js';
+import { ResourceKindRegistry, parseApiResourcesWide } from './resourceRegistry.js';
+
+// Which API resources to discover, based on their scope
+export type ApiResourceScope = 'namespaced' | 'cluster' | 'all';
 
 /**
- * Fetches the list of discoverable API resource types in the cluster.
- * Example: ['pods', 'services', 'deployments.apps', ...]
+ * Builds a resource kind registry from `kubectl api-resources -o wide`,
+ * covering kinds, plural and short names and API groups of every type the cluster serves (including CRDs).
  *
  * @param kubeconfigPath - Optional path to a specific kubeconfig file.
  * @param context - Optional specific Kubernetes context to use.
- * @returns A promise resolving with an array of resource type names.
+ * @returns A promise resolving with the registry.
+ * @throws KubeAggregatorError if discovery fails.
  */
-export const getApiResources = async (kubeconfigPath?: string, context?: string): Promise<string[]> => {
-  logger.debug('Discovering API resources...');
-  const args = ['api-resources', '--verbs=list,get', '--namespaced=true', '-o', 'name']; // Focus on namespaced resources we can 'get'
-  const argsNonNamespaced = ['api-resources', '--verbs=list,get', '--namespaced=false', '-o', 'name'];
+export const getResourceKindRegistry = async (
+  kubeconfigPath?: string,
+  context?: string,
+): Promise<ResourceKindRegistry> => {
+  logger.debug('Building resource kind registry from API resources...');
+  const args = ['api-resources', '-o', 'wide'];
 
   try {
-    const { stdout: namespacedOut } = await executeKubectlCommand(args, kubeconfigPath, context);
-    const { stdout: nonNamespacedOut } = await executeKubectlCommand(argsNonNamespaced, kubeconfigPath, context);
-
-    const parseOutput = (stdout: string): string[] =>
-      stdout
-        .split('\n')
-        .map((line) => line.trim())
-        .filter(Boolean);
+    const { stdout } = await executeKubectlCommand(args, kubeconfigPath, context);
+    const kinds = parseApiResourcesWide(stdout);
+    if (kinds.length === 0) {
+      throw new KubeAggregatorError('kubectl api-resources returned no resource types');
+    }
 
-    const namespacedResources = parseOutput(namespacedOut);
-    const nonNamespacedResources = parseOutput(nonNamespacedOut);
-
-    const allResources = [...namespacedResources, ...nonNamespacedResources].sort();
-    logger.info(`Discovered ${allResources.length} API resource types.`);
-    return allResources;
+    logger.debug(`Resource kind registry contains ${kinds.length} API resource types.`);
+    return new ResourceKindRegistry(kinds);
   } catch (error) {
-    logger.error('Failed to discover API resources:', error);
+    logger.debug('Failed to build resource kind registry:', error);
+    if (error instanceof KubeAggregatorError) {
+      throw error;
+    }
     throw new KubeAggregatorError(
       `Failed to discover API resources: ${error instanceof Error ? error.message : 'Unknown error'}`,
       500,
     );
   }
 };
+
+/**
+ * Fetches the list of discoverable API resource types in the cluster.
+ * Only types supporting both the 'list' and 'get' verbs are returned.
+ * Example: ['pods', 'services', 'deployments.apps', 'rollouts.argoproj.io', ...]
+ *
+ * @param kubeconfigPath - Optional path to a specific kubeconfig file.
+ * @param context - Optional specific Kubernetes context to use.
+ * @param scope - Which resources to include: namespaced, cluster-scoped, or both (default).
+ * @returns A promise resolving with an array of canonical resource type names.
+ */
+export const getApiResources = async (
+  kubeconfigPath?: string,
+  context?: string,
+  scope: ApiResourceScope = 'all',
+): Promise<string[]> => {
+  logger.debug(`Discovering API resources (scope: ${scope})...`);
+  const registry = await getResourceKindRegistry(kubeconfigPath, context);
+  const resources = registry.getListableTypes(scope === 'all' ? undefined : scope);
+  logger.info(`Discovered ${resources.length} API resource types.`);
+  return resources;
+};
@@ -4,50 +4,94 @@
 
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
 import { logger } from '../../shared/logger.js';
+import type { ResourceSelectors } from './kubectlWrapper.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry } from './resourceRegistry.js';
 
 // Default set of resource types to use if none specified
 const DEFAULT_RESOURCE_TYPES = [
   'pods',
   'services',
-  'deployments',
+  'deployments.apps',
   'configmaps',
   'secrets',
-  'statefulsets',
-  'daemonsets',
-  'replicasets',
-  'ingresses',
+  'statefulsets.apps',
+  'daemonsets.apps',
+  'replicasets.apps',
+  'ingresses.networking.k8s.io',
   'persistentvolumeclaims',
 ];
 
+/**
+ * Checks whether a resource type name matches a type given in the configuration.
+ * Any alias (plural, singular, short name, kind) matches; an unqualified configured type matches the type
+ * in every API group, so excluding 'events' excludes both 'events' and 'events.events.k8s.io'.
+ *
+ * @param resourceType - The canonical resource type name (e.g., 'deployments.apps').
+ * @param configuredType - The type given in the include/exclude configuration (e.g., 'deploy').
+ * @param registry - Registry used to resolve aliases. Defaults to the built-in kinds.
+ * @returns True if the configured type refers to the resource type.
+ */
+export const matchesResourceType = (
+  resourceType: string,
+  configuredType: string,
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): boolean => {
+  return registry.matches(resourceType, configuredType);
+};
+
 /**
  * Determines the final list of resource types to fetch based on configuration.
+ * Types are returned as canonical, group-qualified names (e.g., 'po' and 'pod' both become 'pods').
+ * When discovered resource types are given, the include list narrows them down instead of replacing them.
  *
  * @param config - The merged configuration object.
  * @param availableResourceTypes - Optional list of all discoverable resource types.
+ * @param registry - Registry used to resolve type aliases. Defaults to the built-in kinds.
  * @returns An array of resource type strings to fetch.
  */
 export const getResourceTypesToFetch = (
   config: KubeAggregatorConfigMerged,
-  availableResourceTypes?: string[], // Optional: Use if discovery is implemented
+  availableResourceTypes?: string[], // Optional: Provided when discovery is enabled
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
 ): string[] => {
   // Ensure filter exists
   const filter = config.filter || {};
 
   // Step 1: Determine the initial set of types to consider
-  // If includeResourceTypes is provided, use it, otherwise use default or discovered types
-  let types = filter.includeResourceTypes?.length
-    ? [...filter.includeResourceTypes] // Create copy to avoid mutations
-    : availableResourceTypes?.length
-      ? [...availableResourceTypes]
-      : [...DEFAULT_RESOURCE_TYPES];
+  let types: string[];
+  if (availableResourceTypes?.length) {
+    // Discovery mode: start from everything the cluster offers, narrowed by the include list if given
+    types = [...availableResourceTypes];
+
+    if (filter.includeResourceTypes?.length) {
+      const includeTypes = filter.includeResourceTypes;
+      types = types.filter((type) => includeTypes.some((included) => registry.matches(type, included)));
+
+      const unknownTypes = includeTypes.filter(
+        (included) => !availableResourceTypes.some((type) => registry.matches(type, included)),
+      );
+      if (unknownTypes.length) {
+        logger.warn(`Some included resource types were not found in the cluster: ${unknownTypes.join(', ')}`);
+      }
+    }
+  } else if (filter.includeResourceTypes?.length) {
+    // Resolve each included type to its canonical name ('all' is a kubectl category and is kept as is)
+    types = filter.includeResourceTypes.map((type) => (type === 'all' ? type : registry.canonicalName(type)));
+  } else {
+    types = [...DEFAULT_RESOURCE_TYPES];
+  }
+
+  // Remove duplicates (e.g., 'po' and 'pods' both included)
+  types = Array.from(new Set(types));
 
   logger.debug(`Initial resource types before exclusions: ${types.join(', ')}`);
 
   // Step 2: Apply exclusions
   if (filter.excludeResourceTypes?.length) {
-    const excludeSet = new Set(filter.excludeResourceTypes);
-    const excludedTypes = types.filter((type) => excludeSet.has(type));
-    types = types.filter((type) => !excludeSet.has(type));
+    const excludeTypes = filter.excludeResourceTypes;
+    const isExcluded = (type: string) => excludeTypes.some((excluded) => registry.matches(type, excluded));
+    const excludedTypes = types.filter(isExcluded);
+    types = types.filter((type) => !isExcluded(type));
 
     if (excludedTypes.length) {
       logger.debug(`Excluded resource types: ${excludedTypes.join(', ')}`);
@@ -64,6 +108,42 @@ export const getResourceTypesToFetch = (
   return types;
 };
 
+/**
+ * Determines the cluster-scoped resource types to collect based on configuration.
+ * Types the cluster does not serve and namespaced types are skipped.
+ *
+ * @param config - The merged configuration object.
+ * @param registry - Registry used to resolve type aliases and scopes. Defaults to the built-in kinds.
+ * @returns An array of canonical cluster-scoped resource types (empty if collection is disabled).
+ */
+export const getClusterResourceTypesToFetch = (
+  config: KubeAggregatorConfigMerged,
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): string[] => {
+  if (config.clusterResources?.enabled === false) {
+    logger.debug('Cluster-scoped resource collection disabled in config');
+    return [];
+  }
+
+  const types: string[] = [];
+  for (const type of config.clusterResources?.resourceTypes ?? []) {
+    const info = registry.resolve(type);
+    if (!info) {
+      logger.debug(`Cluster-scoped resource type '${type}' is not served by the cluster, skipping`);
+      continue;
+    }
+    if (info.namespaced) {
+      logger.warn(`Resource type '${type}' is namespaced and cannot be collected as a cluster-scoped resource`);
+      continue;
+    }
+    types.push(registry.canonicalName(type));
+  }
+
+  const uniqueTypes = Array.from(new Set(types));
+  logger.debug(`Cluster-scoped resource types selected for fetching: ${uniqueTypes.join(', ')}`);
+  return uniqueTypes;
+};
+
 /**
  * Determines the final list of namespaces to query based on configuration.
  *
@@ -116,6 +196,28 @@ export const getNamespacesToQuery = (
   return namespacesToConsider;
 };
 
+/**
+ * Determines the label and field selectors to apply to resource queries based on configuration.
+ * Empty or whitespace-only selectors are ignored.
+ *
+ * @param config - The merged configuration object.
+ * @returns The selectors to pass to kubectl, or undefined if none are configured.
+ */
+export const getResourceSelectors = (config: KubeAggregatorConfigMerged): ResourceSelectors | undefined => {
+  const labelSelector = config.filter?.labelSelector?.trim();
+  const fieldSelector = config.filter?.fieldSelector?.trim();
+
+  if (!labelSelector && !fieldSelector) {
+    return undefined;
+  }
+
+  logger.debug(`Using selectors: label='${labelSelector ?? ''}', field='${fieldSelector ?? ''}'`);
+  return {
+    labelSelector: labelSelector || undefined,
+    fieldSelector: fieldSelector || undefined,
+  };
+};
+
 /**
  * Determines if a pod is in a failing state based on its YAML/JSON representation.
  * A pod is considered "failing" if:
@@ -0,0 +1,122 @@
+// Relationship graph of the resources of a cluster, built from ownerReferences
+// (Deployment -> ReplicaSet -> Pod, CronJob -> Job -> Pod, StatefulSet -> Pod) and from the selectors of
+// Services, NetworkPolicies and PodDisruptionBudgets, plus the scale targets of HorizontalPodAutoscalers.
+
+import type { ResourceGraph, ResourceGraphEdge, ResourceGraphNode } from '../output/outputGeneratorTypes.js';
+import { getResourceTreeKey } from '../output/resourceTreeGenerate.js';
+import type { KubeObject } from './apiTypes.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry, splitApiVersion } from './resourceRegistry.js';
+import { type LabelSelectorObject, matchesLabelSelectorObject } from './selectorMatch.js';
+
+// Resource types taking part in relationships; only these are fetched with their metadata
+export const GRAPH_RESOURCE_TYPES = [
+  'pods',
+  'replicasets.apps',
+  'deployments.apps',
+  'statefulsets.apps',
+  'daemonsets.apps',
+  'jobs.batch',
+  'cronjobs.batch',
+  'services',
+  'networkpolicies.networking.k8s.io',
+  'poddisruptionbudgets.policy',
+  'horizontalpodautoscalers.autoscaling',
+];
+
+/**
+ * Selects the resource types of a namespace that take part in relationships and have resources.
+ *
+ * @param resourcesByKind - Resource names by canonical type, as listed for the namespace.
+ * @returns The types to fetch with their metadata.
+ */
+export const getGraphResourceTypes = (resourcesByKind: Record<string, string[]>): string[] =>
+  GRAPH_RESOURCE_TYPES.filter((type) => (resourcesByKind[type]?.length ?? 0) > 0);
+
+/**
+ * Resolves a kind (with the API version it was referenced with) to its canonical resource type.
+ */
+const resolveResourceType = (registry: ResourceKindRegistry, kind: string, apiVersion?: string): string => {
+  const { group } = splitApiVersion(apiVersion ?? 'v1');
+  return registry.canonicalName(group ? `${kind}.${group}` : kind);
+};
+
+/**
+ * Builds the relationship graph of the given resources.
+ * Owners and scale targets are only linked if they are among the resources themselves.
+ *
+ * @param objects - The resources (with metadata and specs), typically of several namespaces.
+ * @param registry - Registry used to map kinds to canonical resource types.
+ * @returns The nodes (one per resource) and the edges between them.
+ */
+export const buildResourceGraph = (
+  objects: KubeObject[],
+  registry: ResourceKindRegistry = createBuiltinResourceKindRegistry(),
+): ResourceGraph => {
+  const nodes = new Map<string, ResourceGraphNode & { object: KubeObject }>();
+  for (const object of objects) {
+    if (!object.kind || !object.metadata?.name) continue;
+    const resourceType = resolveResourceType(registry, object.kind, object.apiVersion);
+    const namespace = object.metadata.namespace;
+    const id = getResourceTreeKey(namespace, resourceType, object.metadata.name);
+    nodes.set(id, { id, kind: object.kind, name: object.metadata.name, namespace, resourceType, object });
+  }
+
+  const edges: ResourceGraphEdge[] = [];
+  const addEdge = (from: string, to: string, type: ResourceGraphEdge['type']) => {
+    if (from !== to && nodes.has(from) && nodes.has(to)) {
+      edges.push({ from, to, type });
+    }
+  };
+  const pods = [...nodes.values()].filter((node) => node.kind === 'Pod');
+  const selectPods = (node: ResourceGraphNode, selector: LabelSelectorObject) => {
+    for (const pod of pods) {
+      if (pod.namespace === node.namespace && matchesLabelSelectorObject(pod.object.metadata?.labels, selector)) {
+        addEdge(node.id, pod.id, 'selects');
+      }
+    }
+  };
+
+  for (const node of nodes.values()) {
+    const { object } = node;
+
+    // Ownership: owners are namespace-local
+    for (const owner of object.metadata?.ownerReferences ?? []) {
+      const ownerType = resolveResourceType(registry, owner.kind, owner.apiVersion);
+      addEdge(getResourceTreeKey(node.namespace, ownerType, owner.name), node.id, 'owns');
+    }
+
+    const spec = (object.spec ?? {}) as {
+      selector?: Record<string, string> | LabelSelectorObject;
+      podSelector?: LabelSelectorObject;
+      scaleTargetRef?: { apiVersion?: string; kind?: string; name?: string };
+    };
+    switch (node.kind) {
+      case 'Service':
+        // Services without a selector (e.g., ExternalName) do not select pods
+        if (spec.selector && Object.keys(spec.selector).length > 0) {
+          selectPods(node, { matchLabels: spec.selector as Record<string, string> });
+        }
+        break;
+      case 'NetworkPolicy':
+        // An empty pod selector selects every pod of the namespace
+        selectPods(node, spec.podSelector ?? {});
+        break;
+      case 'PodDisruptionBudget':
+        if (spec.selector) {
+          selectPods(node, spec.selector as LabelSelectorObject);
+        }
+        break;
+      case 'HorizontalPodAutoscaler':
+        if (spec.scaleTargetRef?.kind && spec.scaleTargetRef.name) {
+          const targetType = resolveResourceType(registry, spec.scaleTargetRef.kind, spec.scaleTargetRef.apiVersion);
+          addEdge(node.id, getResourceTreeKey(node.namespace, targetType, spec.scaleTargetRef.name), 'scales');
+        }
+        break;
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()].map(({ object, ...node }) => node).sort((a, b) => a.id.localeCompare(b.id)),
+    edges,
+  };
+};
@@ -0,0 +1,298 @@
+// Registry of the resource kinds known to the cluster, built from `kubectl api-resources -o wide`.
+// Maps every way of referring to a type (plural, singular, short names, kind, group-qualified forms)
+// to one canonical, group-qualified name (e.g., 'deployments.apps'), as printed by `kubectl api-resources -o name`.
+
+import { logger } from '../../shared/logger.js';
+
+/**
+ * Describes a single API resource type, as reported by `kubectl api-resources -o wide`.
+ */
+export interface ResourceKindInfo {
+  name: string; // Plural resource name, e.g. 'deployments'
+  singularName: string; // Lowercased kind, e.g. 'deployment'
+  shortNames: string[]; // e.g. ['deploy']
+  group: string; // API group, '' for the core group
+  version: string; // e.g. 'v1'
+  kind: string; // e.g. 'Deployment'
+  namespaced: boolean;
+  verbs: string[]; // e.g. ['get', 'list', 'watch']
+  categories: string[]; // e.g. ['all']
+}
+
+// Verbs assumed for the built-in resource kinds
+const STANDARD_VERBS = ['create', 'delete', 'deletecollection', 'get', 'list', 'patch', 'update', 'watch'];
+
+// Built-in kinds used when discovery is unavailable: [name, shortNames, apiVersion, namespaced, kind, categories]
+const BUILTIN_RESOURCE_KINDS: Array<[string, string, string, boolean, string, string?]> = [
+  ['configmaps', 'cm', 'v1', true, 'ConfigMap'],
+  ['endpoints', 'ep', 'v1', true, 'Endpoints'],
+  ['events', 'ev', 'v1', true, 'Event'],
+  ['limitranges', 'limits', 'v1', true, 'LimitRange'],
+  ['namespaces', 'ns', 'v1', false, 'Namespace'],
+  ['nodes', 'no', 'v1', false, 'Node'],
+  ['persistentvolumeclaims', 'pvc', 'v1', true, 'PersistentVolumeClaim'],
+  ['persistentvolumes', 'pv', 'v1', false, 'PersistentVolume'],
+  ['pods', 'po', 'v1', true, 'Pod', 'all'],
+  ['podtemplates', '', 'v1', true, 'PodTemplate'],
+  ['replicationcontrollers', 'rc', 'v1', true, 'ReplicationController', 'all'],
+  ['resourcequotas', 'quota', 'v1', true, 'ResourceQuota'],
+  ['secrets', '', 'v1', true, 'Secret'],
+  ['serviceaccounts', 'sa', 'v1', true, 'ServiceAccount'],
+  ['services', 'svc', 'v1', true, 'Service', 'all'],
+  ['mutatingwebhookconfigurations', '', 'admissionregistration.k8s.io/v1', false, 'MutatingWebhookConfiguration'],
+  ['validatingwebhookconfigurations', '', 'admissionregistration.k8s.io/v1', false, 'ValidatingWebhookConfiguration'],
+  ['customresourcedefinitions', 'crd,crds', 'apiextensions.k8s.io/v1', false, 'CustomResourceDefinition'],
+  ['controllerrevisions', '', 'apps/v1', true, 'ControllerRevision'],
+  ['daemonsets', 'ds', 'apps/v1', true, 'DaemonSet', 'all'],
+  ['deployments', 'deploy', 'apps/v1', true, 'Deployment', 'all'],
+  ['replicasets', 'rs', 'apps/v1', true, 'ReplicaSet', 'all'],
+  ['statefulsets', 'sts', 'apps/v1', true, 'StatefulSet', 'all'],
+  ['horizontalpodautoscalers', 'hpa', 'autoscaling/v2', true, 'HorizontalPodAutoscaler', 'all'],
+  ['cronjobs', 'cj', 'batch/v1', true, 'CronJob', 'all'],
+  ['jobs', '', 'batch/v1', true, 'Job', 'all'],
+  ['leases', '', 'coordination.k8s.io/v1', true, 'Lease'],
+  ['endpointslices', '', 'discovery.k8s.io/v1', true, 'EndpointSlice'],
+  ['events', 'ev', 'events.k8s.io/v1', true, 'Event'],
+  ['ingressclasses', '', 'networking.k8s.io/v1', false, 'IngressClass'],
+  ['ingresses', 'ing', 'networking.k8s.io/v1', true, 'Ingress'],
+  ['networkpolicies', 'netpol', 'networking.k8s.io/v1', true, 'NetworkPolicy'],
+  ['runtimeclasses', '', 'node.k8s.io/v1', false, 'RuntimeClass'],
+  ['poddisruptionbudgets', 'pdb', 'policy/v1', true, 'PodDisruptionBudget'],
+  ['clusterrolebindings', '', 'rbac.authorization.k8s.io/v1', false, 'ClusterRoleBinding'],
+  ['clusterroles', '', 'rbac.authorization.k8s.io/v1', false, 'ClusterRole'],
+  ['rolebindings', '', 'rbac.authorization.k8s.io/v1', true, 'RoleBinding'],
+  ['roles', '', 'rbac.authorization.k8s.io/v1', true, 'Role'],
+  ['priorityclasses', 'pc', 'scheduling.k8s.io/v1', false, 'PriorityClass'],
+  ['csidrivers', '', 'storage.k8s.io/v1', false, 'CSIDriver'],
+  ['csinodes', '', 'storage.k8s.io/v1', false, 'CSINode'],
+  ['storageclasses', 'sc', 'storage.k8s.io/v1', false, 'StorageClass'],
+  ['volumeattachments', '', 'storage.k8s.io/v1', false, 'VolumeAttachment'],
+];
+
+/**
+ * Splits an apiVersion string (e.g., 'apps/v1' or 'v1') into its group and version.
+ */
+export const splitApiVersion = (apiVersion: string): { group: string; version: string } => {
+  const slashIndex = apiVersion.lastIndexOf('/');
+  return slashIndex >= 0
+    ? { group: apiVersion.substring(0, slashIndex), version: apiVersion.substring(slashIndex + 1) }
+    : { group: '', version: apiVersion };
+};
+
+/**
+ * Best-effort English pluralization for kinds missing from the registry (e.g., 'networkpolicy' -> 'networkpolicies').
+ */
+export const guessPlural = (singular: string): string => {
+  if (/[^aeiou]y$/.test(singular)) {
+    return `${singular.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/.test(singular)) {
+    return `${singular}es`;
+  }
+  return `${singular}s`;
+};
+
+/**
+ * Lookup structure for resource kinds. Resolves any alias of a resource type to its canonical name.
+ */
+export class ResourceKindRegistry {
+  private kinds: ResourceKindInfo[];
+
+  /**
+   * Creates a new registry from a list of resource kinds.
+   *
+   * @param kinds - The resource kinds, in order of preference for ambiguous names (e.g., core 'events' first).
+   */
+  constructor(kinds: ResourceKindInfo[]) {
+    // Prefer the core group for ambiguous names, as kubectl does
+    this.kinds = [...kinds].sort((a, b) => Number(a.group !== '') - Number(b.group !== ''));
+  }
+
+  /**
+   * Returns the canonical, group-qualified name of a resource kind (e.g., 'deployments.apps', 'pods').
+   */
+  static canonicalNameOf(info: ResourceKindInfo): string {
+    return info.group ? `${info.name}.${info.group}` : info.name;
+  }
+
+  /**
+   * Returns all resource kinds in the registry.
+   */
+  getAll(): ResourceKindInfo[] {
+    return [...this.kinds];
+  }
+
+  /**
+   * Resolves a resource type reference to its kind information.
+   * Accepts plural names, singular names, short names and kinds, optionally qualified with the API group
+   * (e.g., 'po', 'pod', 'pods', 'deployment.apps', 'ingress.networking.k8s.io', 'Deployment').
+   *
+   * @param type - The resource type reference.
+   * @returns The matching kind information, or undefined if the type is unknown.
+   */
+  resolve(type: string): ResourceKindInfo | undefined {
+    const reference = type.trim().toLowerCase();
+    if (!reference) {
+      return undefined;
+    }
+
+    const dotIndex = reference.indexOf('.');
+    const name = dotIndex >= 0 ? reference.substring(0, dotIndex) : reference;
+    const group = dotIndex >= 0 ? reference.substring(dotIndex + 1) : undefined;
+
+    return this.kinds.find((info) => (group === undefined || info.group === group) && this.hasAlias(info, name));
+  }
+
+  /**
+   * Returns the canonical name for a resource type reference.
+   * Unknown types are pluralized on a best-effort basis, keeping their group qualifier.
+   *
+   * @param type - The resource type reference (e.g., 'deployment.apps' from `kubectl get -o name`).
+   * @returns The canonical name (e.g., 'deployments.apps').
+   */
+  canonicalName(type: string): string {
+    const info = this.resolve(type);
+    if (info) {
+      return ResourceKindRegistry.canonicalNameOf(info);
+    }
+
+    const reference = type.trim().toLowerCase();
+    const dotIndex = reference.indexOf('.');
+    const name = dotIndex >= 0 ? reference.substring(0, dotIndex) : reference;
+    const suffix = dotIndex >= 0 ? reference.substring(dotIndex) : '';
+    logger.trace(`Unknown resource type '${type}', guessing its plural name`);
+    return `${name.endsWith('s') ? name : guessPlural(name)}${suffix}`;
+  }
+
+  /**
+   * Checks whether a configured type (from include/exclude lists) refers to the given resource type.
+   * An unqualified configured type matches the type in every API group (excluding 'events' excludes both
+   * 'events' and 'events.events.k8s.io'); a group-qualified one only matches that group.
+   * Category names such as 'all' match every type in the category.
+   *
+   * @param resourceType - The canonical resource type name.
+   * @param configuredType - The type given in the configuration (any alias, optionally group-qualified).
+   * @returns True if the configured type refers to the resource type.
+   */
+  matches(resourceType: string, configuredType: string): boolean {
+    const pattern = configuredType.trim().toLowerCase();
+    const info = this.resolve(resourceType);
+
+    if (!info) {
+      // Unknown type: fall back to comparing names
+      const type = resourceType.toLowerCase();
+      return type === pattern || type.split('.')[0] === pattern || this.canonicalName(pattern) === type;
+    }
+
+    if (pattern.includes('.')) {
+      const patternInfo = this.resolve(pattern);
+      return patternInfo !== undefined && patternInfo === info;
+    }
+    // Categories (e.g., 'all') match every member type, like they do for `kubectl get`
+    return this.hasAlias(info, pattern) || info.categories.includes(pattern);
+  }
+
+  /**
+   * Lists the canonical names of all types supporting 'list' and 'get', optionally filtered by scope.
+   *
+   * @param scope - Restrict to namespaced or cluster-scoped types; both if omitted.
+   * @returns Sorted canonical type names.
+   */
+  getListableTypes(scope?: 'namespaced' | 'cluster'): string[] {
+    return this.kinds
+      .filter((info) => info.verbs.includes('list') && info.verbs.includes('get'))
+      .filter((info) => scope === undefined || info.namespaced === (scope === 'namespaced'))
+      .map((info) => ResourceKindRegistry.canonicalNameOf(info))
+      .sort();
+  }
+
+  private hasAlias(info: ResourceKindInfo, name: string): boolean {
+    return (
+      info.name === name ||
+      info.singularName === name ||
+      info.kind.toLowerCase() === name ||
+      info.shortNames.includes(name)
+    );
+  }
+}
+
+/**
+ * Creates a registry of the built-in Kubernetes resource kinds.
+ * Used when `kubectl api-resources` is unavailable; it does not know about CRDs.
+ *
+ * @returns The built-in registry.
+ */
+export const createBuiltinResourceKindRegistry = (): ResourceKindRegistry => {
+  return new ResourceKindRegistry(
+    BUILTIN_RESOURCE_KINDS.map(([name, shortNames, apiVersion, namespaced, kind, categories]) => ({
+      name,
+      singularName: kind.toLowerCase(),
+      shortNames: shortNames ? shortNames.split(',') : [],
+      ...splitApiVersion(apiVersion),
+      kind,
+      namespaced,
+      verbs: STANDARD_VERBS,
+      categories: categories ? categories.split(',') : [],
+    })),
+  );
+};
+
+/**
+ * Parses the output of `kubectl api-resources -o wide` into resource kinds.
+ * Columns are located by their header positions, so empty SHORTNAMES/CATEGORIES cells are handled.
+ * Supports both the comma-separated and the bracketed ('[get list]') verb formats.
+ *
+ * @param stdout - The raw output of `kubectl api-resources -o wide`.
+ * @returns The parsed resource kinds.
+ */
+export const parseApiResourcesWide = (stdout: string): ResourceKindInfo[] => {
+  const lines = stdout.split('\n').filter((line) => line.trim());
+  if (lines.length === 0) {
+    return [];
+  }
+
+  // Locate columns by the start offset of each header
+  const header = lines[0];
+  const columns = Array.from(header.matchAll(/\S+/g)).map((match) => ({ name: match[0], start: match.index ?? 0 }));
+  const getCell = (line: string, columnName: string): string => {
+    const index = columns.findIndex((column) => column.name === columnName);
+    if (index < 0) {
+      return '';
+    }
+    const end = index + 1 < columns.length ? columns[index + 1].start : undefined;
+    return line.substring(columns[index].start, end).trim();
+  };
+
+  const splitList = (value: string): string[] =>
+    value
+      .replace(/^\[|\]$/g, '')
+      .split(/[,\s]+/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  const kinds: ResourceKindInfo[] = [];
+  for (const line of lines.slice(1)) {
+    const name = getCell(line, 'NAME');
+    const kind = getCell(line, 'KIND');
+    // Older kubectl versions print an APIGROUP column (group only) instead of APIVERSION
+    const apiVersion = getCell(line, 'APIVERSION');
+    const groupVersion = apiVersion ? splitApiVersion(apiVersion) : { group: getCell(line, 'APIGROUP'), version: '' };
+    if (!name || !kind) {
+      logger.debug(`Skipping unparsable api-resources line: ${line}`);
+      continue;
+    }
+
+    kinds.push({
+      name,
+      singularName: kind.toLowerCase(),
+      shortNames: splitList(getCell(line, 'SHORTNAMES')),
+      ...groupVersion,
+      kind,
+      namespaced: getCell(line, 'NAMESPACED') === 'true',
+      verbs: splitList(getCell(line, 'VERBS')),
+      categories: splitList(getCell(line, 'CATEGORIES')),
+    });
+  }
+
+  return kinds;
+};
@@ -0,0 +1,126 @@
+// Client-side evaluation of label and field selectors, for resources that are not served by an API server
+// (offline mode). Supports the same syntax as `kubectl get -l` and `--field-selector`.
+
+import type { KubeObject } from './apiTypes.js';
+
+/**
+ * Splits a selector into its requirements at top-level commas (commas inside 'in (a,b)' sets are kept).
+ */
+const splitRequirements = (selector: string): string[] => {
+  const requirements: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of selector) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      requirements.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  requirements.push(current);
+  return requirements.map((requirement) => requirement.trim()).filter(Boolean);
+};
+
+const matchesLabelRequirement = (labels: Record<string, string>, requirement: string): boolean => {
+  // Set-based requirements: 'tier in (web,api)', 'tier notin (cache)'
+  const setMatch = /^([^\s!=]+)\s+(in|notin)\s+\((.*)\)$/.exec(requirement);
+  if (setMatch) {
+    const [, key, operator, valueList] = setMatch;
+    const values = valueList
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const isMember = labels[key] !== undefined && values.includes(labels[key]);
+    return operator === 'in' ? isMember : !isMember;
+  }
+
+  // Equality-based requirements: 'app=web', 'app==web', 'app!=web'
+  const equalityMatch = /^([^\s!=]+)\s*(==|=|!=)\s*(.*)$/.exec(requirement);
+  if (equalityMatch) {
+    const [, key, operator, value] = equalityMatch;
+    return operator === '!=' ? labels[key] !== value.trim() : labels[key] === value.trim();
+  }
+
+  // Existence requirements: 'app', '!app'
+  if (requirement.startsWith('!')) {
+    return labels[requirement.substring(1).trim()] === undefined;
+  }
+  return labels[requirement] !== undefined;
+};
+
+/**
+ * Checks whether labels satisfy a label selector (e.g., 'app=web,tier in (frontend,api),!canary').
+ *
+ * @param labels - The labels of a resource.
+ * @param selector - The label selector.
+ * @returns True if every requirement of the selector is met.
+ */
+export const matchesLabelSelector = (labels: Record<string, string> | undefined, selector: string): boolean => {
+  return splitRequirements(selector).every((requirement) => matchesLabelRequirement(labels ?? {}, requirement));
+};
+
+// Label selector as used in resource specs (e.g., a PodDisruptionBudget's spec.selector)
+export interface LabelSelectorObject {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: Array<{ key: string; operator: string; values?: string[] }>;
+}
+
+/**
+ * Checks whether labels satisfy a structured label selector. An empty selector matches all labels,
+ * as it does for NetworkPolicy pod selectors.
+ *
+ * @param labels - The labels of a resource.
+ * @param selector - The selector with matchLabels and matchExpressions (In, NotIn, Exists, DoesNotExist).
+ * @returns True if every requirement of the selector is met.
+ */
+export const matchesLabelSelectorObject = (
+  labels: Record<string, string> | undefined,
+  selector: LabelSelectorObject,
+): boolean => {
+  const actual = labels ?? {};
+  const labelsMatch = Object.entries(selector.matchLabels ?? {}).every(([key, value]) => actual[key] === value);
+  return (
+    labelsMatch &&
+    (selector.matchExpressions ?? []).every(({ key, operator, values = [] }) => {
+      switch (operator) {
+        case 'In':
+          return actual[key] !== undefined && values.includes(actual[key]);
+        case 'NotIn':
+          return actual[key] === undefined || !values.includes(actual[key]);
+        case 'Exists':
+          return actual[key] !== undefined;
+        case 'DoesNotExist':
+          return actual[key] === undefined;
+        default:
+          return false;
+      }
+    })
+  );
+};
+
+/**
+ * Checks whether a resource satisfies a field selector (e.g., 'status.phase!=Running,spec.nodeName=node-1').
+ * Missing fields compare as empty strings, like on the API server.
+ *
+ * @param object - The resource.
+ * @param selector - The field selector.
+ * @returns True if every requirement of the selector is met.
+ */
+export const matchesFieldSelector = (object: KubeObject, selector: string): boolean => {
+  return splitRequirements(selector).every((requirement) => {
+    const match = /^([^\s!=]+)\s*(==|=|!=)\s*(.*)$/.exec(requirement);
+    if (!match) {
+      return false;
+    }
+    const [, fieldPath, operator, expected] = match;
+    let value: unknown = object;
+    for (const segment of fieldPath.split('.')) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    const actual = value === undefined || value === null ? '' : String(value);
+    return operator === '!=' ? actual !== expected.trim() : actual === expected.trim();
+  });
+};
@@ -0,0 +1,208 @@
+// src/core/output/customTemplate.ts
+// User-supplied Handlebars templates (output.templatePath), rendered against the RenderContext instead of the
+// template of the markdown, xml or plain style. Helpers come from helper modules (output.templateHelpers) in
+// addition to the built-in ones.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import Handlebars from 'handlebars';
+import * as yaml from 'yaml';
+import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import type { RenderContext } from './outputGeneratorTypes.js';
+
+type HelperFunction = (...args: unknown[]) => unknown;
+
+// Handlebars passes an options object as the last argument of every helper call
+const isHelperOptions = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && 'hash' in value && 'data' in value;
+
+/**
+ * Helpers available to every custom template.
+ */
+export const builtinTemplateHelpers: Record<string, HelperFunction> = {
+  // {{{toYaml events}}}: any value of the context as YAML
+  toYaml: (value) => (isHelperOptions(value) ? '' : yaml.stringify(value).trimEnd()),
+  // {{truncate output 2000}}: at most this many characters, with '...' marking the cut
+  truncate: (text, length) => {
+    const content = String(text ?? '');
+    const maxLength = typeof length === 'number' ? length : Number.POSITIVE_INFINITY;
+    return content.length > maxLength ? `${content.slice(0, Math.max(0, maxLength - 3))}...` : content;
+  },
+  // {{{indent output 4}}}: every line indented by this many spaces (2 by default)
+  indent: (text, spaces) => {
+    const prefix = ' '.repeat(typeof spaces === 'number' ? spaces : 2);
+    return String(text ?? '')
+      .split('\n')
+      .map((line) => (line ? `${prefix}${line}` : line))
+      .join('\n');
+  },
+};
+
+// A loaded custom template
+interface CustomTemplate {
+  path: string; // Absolute path of the template file
+  source: string;
+  helperVersions: string; // Modification times of the helper modules, to reload them when they change
+  template: HandlebarsTemplateDelegate<RenderContext>;
+}
+
+// Compiled templates by configuration, as the output may be rendered many times (token budget, split output)
+const templateCache = new Map<string, CustomTemplate>();
+
+/**
+ * Returns the modification time of a helper module, or undefined if it cannot be read (the import reports why).
+ */
+const getModifiedTime = async (absolutePath: string): Promise<number | undefined> => {
+  try {
+    return (await fs.stat(absolutePath)).mtimeMs;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Loads the helpers exported by a helper module: every exported function is registered under its export name.
+ * Node caches imported modules by URL, so the modification time is added to the URL: an edited module is imported
+ * again (e.g., by --watch), while modules it imports itself are not reloaded.
+ *
+ * @param absolutePath - Path to the ES module.
+ * @param modifiedTime - Modification time of the module.
+ * @returns The helpers by name.
+ * @throws {KubeAggregatorError} If the module cannot be imported.
+ */
+const loadHelperModule = async (
+  absolutePath: string,
+  modifiedTime: number | undefined,
+): Promise<Record<string, HelperFunction>> => {
+  const url = pathToFileURL(absolutePath);
+  if (modifiedTime !== undefined) {
+    url.searchParams.set('mtime', String(modifiedTime));
+  }
+  let exports: Record<string, unknown>;
+  try {
+    exports = await import(url.href);
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to load template helpers ${absolutePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  // A default export may also be an object of helpers (e.g., CommonJS modules)
+  const candidates = {
+    ...(exports.default && typeof exports.default === 'object' ? (exports.default as Record<string, unknown>) : {}),
+    ...exports,
+  };
+  const helpers = Object.fromEntries(
+    Object.entries(candidates).filter((entry): entry is [string, HelperFunction] => typeof entry[1] === 'function'),
+  );
+  logger.trace(`Template helpers loaded from ${absolutePath}: ${Object.keys(helpers).join(', ')}`);
+  return helpers;
+};
+
+/**
+ * Converts a Handlebars error into an error pointing at the line of the template.
+ *
+ * @param error - The error thrown while compiling the template.
+ * @param templatePath - The template file.
+ * @param source - The template.
+ * @returns The error to report.
+ */
+export const createTemplateError = (error: unknown, templatePath: string, source: string): KubeAggregatorError => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const { lineNumber, column } = (error ?? {}) as { lineNumber?: number; column?: number };
+  // Syntax errors name their line in the message ('Parse error on line 3:'), structural errors in properties
+  const line = lineNumber ?? Number(/on line (\d+)/.exec(message)?.[1] ?? Number.NaN);
+  if (!Number.isInteger(line)) {
+    return new KubeAggregatorError(`Invalid template ${templatePath}: ${message}`);
+  }
+
+  // The message of a syntax error repeats the line without its breaks; the last line holds the cause
+  const cause = message.startsWith('Parse error') ? message.split('\n').at(-1) : message.replace(/ - \d+:\d+$/, '');
+  const sourceLine = source.split('\n')[line - 1] ?? '';
+  return new KubeAggregatorError(
+    `Invalid template ${templatePath}:${line}${column !== undefined ? `:${column + 1}` : ''}: ${cause}\n` +
+      `  ${line} | ${sourceLine}`,
+  );
+};
+
+/**
+ * Loads and compiles the custom template of the configuration, with the built-in helpers and those of the helper
+ * modules. Compiled templates are cached until the template file or a helper module changes.
+ *
+ * @param config - The merged configuration (output.templatePath, output.templateHelpers).
+ * @returns The compiled template, with its source.
+ * @throws {KubeAggregatorError} If the template or a helper module cannot be loaded, or the template is invalid.
+ */
+const loadCustomTemplate = async (config: KubeAggregatorConfigMerged): Promise<CustomTemplate> => {
+  const templatePath = path.resolve(config.cwd, config.output?.templatePath ?? '');
+  let source: string;
+  try {
+    source = await fs.readFile(templatePath, 'utf8');
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to read template ${templatePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const helperModules = (config.output?.templateHelpers ?? []).map((modulePath) =>
+    path.resolve(config.cwd, modulePath),
+  );
+  const modifiedTimes = await Promise.all(helperModules.map(getModifiedTime));
+  const helperVersions = JSON.stringify(modifiedTimes);
+  const cacheKey = JSON.stringify([templatePath, helperModules]);
+  const cached = templateCache.get(cacheKey);
+  if (cached?.source === source && cached.helperVersions === helperVersions) {
+    return cached;
+  }
+
+  // A separate environment keeps user helpers away from the built-in templates
+  const handlebars = Handlebars.create();
+  handlebars.registerHelper(builtinTemplateHelpers);
+  for (const [index, modulePath] of helperModules.entries()) {
+    handlebars.registerHelper(await loadHelperModule(modulePath, modifiedTimes[index]));
+  }
+
+  // Parse first: Handlebars only compiles on the first render, which would report syntax errors as render errors
+  try {
+    handlebars.parse(source);
+  } catch (error) {
+    throw createTemplateError(error, templatePath, source);
+  }
+  const customTemplate = {
+    path: templatePath,
+    source,
+    helperVersions,
+    template: handlebars.compile<RenderContext>(source),
+  };
+  templateCache.set(cacheKey, customTemplate);
+  logger.debug(`Custom template loaded from ${templatePath}`);
+  return customTemplate;
+};
+
+/**
+ * Renders the output with the custom template of the configuration (output.templatePath).
+ *
+ * @param config - The merged configuration.
+ * @param renderContext - The context documented by RenderContext.
+ * @returns The rendered output, with a final newline.
+ * @throws {KubeAggregatorError} If the template cannot be loaded or rendered.
+ */
+export const renderCustomTemplate = async (
+  config: KubeAggregatorConfigMerged,
+  renderContext: RenderContext,
+): Promise<string> => {
+  const { path: templatePath, source, template } = await loadCustomTemplate(config);
+  try {
+    return `${template(renderContext).trim()}\n`;
+  } catch (error) {
+    // Errors found while compiling (e.g., mismatched blocks) have a location, others (e.g., missing helpers) do not
+    if ((error as { lineNumber?: number } | undefined)?.lineNumber !== undefined) {
+      throw createTemplateError(error, templatePath, source);
+    }
+    throw new KubeAggregatorError(
+      `Failed to render template ${templatePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+};
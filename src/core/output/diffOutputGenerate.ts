@@ -0,0 +1,72 @@
+// src/core/output/diffOutputGenerate.ts
+import Handlebars from 'handlebars';
+import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import { type SnapshotDiff, diffSnapshots, loadSnapshot } from '../diff/snapshotDiff.js';
+import { buildOutputGeneratorContext } from './outputGenerate.js';
+import type { ClusterAggregation, DiffRenderContext } from './outputGeneratorTypes.js';
+import { generateDiffHeader } from './outputStyleDecorate.js';
+import { buildJsonOutputDocument } from './outputStyles/jsonStyle.js';
+import { getMarkdownDiffTemplate } from './outputStyles/markdownStyle.js';
+import { getPlainDiffTemplate } from './outputStyles/plainStyle.js';
+import { getXmlDiffTemplate } from './outputStyles/xmlStyle.js';
+
+/**
+ * Renders the diff report of two aggregations in the configured style: the json style serializes the diff, the
+ * other styles render their diff template.
+ *
+ * @param config - The merged configuration (`output.style`).
+ * @param diff - The differences between the two aggregations.
+ * @returns The report, with a final newline.
+ */
+export const generateDiffOutput = async (config: KubeAggregatorConfigMerged, diff: SnapshotDiff): Promise<string> => {
+  const style = config.output?.style || 'markdown';
+  logger.info(`Generating diff report in ${style} format...`);
+  if (style === 'json') {
+    return `${JSON.stringify(diff, null, 2)}\n`;
+  }
+
+  const renderContext: DiffRenderContext = {
+    generationHeader: generateDiffHeader(diff.before, diff.after, new Date().toISOString()),
+    ...diff,
+    hasChanges: diff.added.length + diff.removed.length + diff.modified.length > 0,
+  };
+  const templateString =
+    style === 'xml' ? getXmlDiffTemplate() : style === 'plain' ? getPlainDiffTemplate() : getMarkdownDiffTemplate();
+  try {
+    return `${Handlebars.compile(templateString)(renderContext).trim()}\n`;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Failed to compile or render the diff template for style '${style}': ${message}`);
+    throw new KubeAggregatorError(`Template rendering failed: ${message}`);
+  }
+};
+
+/**
+ * Compares a saved snapshot with the aggregation just collected (--diff-against).
+ *
+ * @param config - The merged configuration (`diff.against` and `diff.ignoreFields`).
+ * @param clusters - Data collected from each cluster, in order.
+ * @returns The differences from the snapshot to the collected aggregation.
+ */
+export const diffAgainstSnapshot = async (
+  config: KubeAggregatorConfigMerged,
+  clusters: ClusterAggregation[],
+): Promise<SnapshotDiff> => {
+  const snapshotPath = config.diff?.against;
+  if (!snapshotPath) {
+    throw new KubeAggregatorError('The snapshot to compare against is not defined in configuration');
+  }
+  const snapshot = await loadSnapshot(snapshotPath);
+  const current = buildJsonOutputDocument(await buildOutputGeneratorContext(config, clusters));
+  const contexts = clusters.map((cluster) => cluster.context).filter(Boolean);
+  const currentSource =
+    current.source.type === 'offline'
+      ? `manifest files (${current.source.manifests?.join(', ')})`
+      : contexts.length
+        ? `live clusters (${contexts.join(', ')})`
+        : 'live cluster';
+  logger.info(`Comparing ${snapshotPath} with the ${currentSource}...`);
+  return diffSnapshots(snapshot, current, { before: snapshotPath, after: currentSource }, config.diff?.ignoreFields);
+};
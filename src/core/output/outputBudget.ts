@@ -0,0 +1,384 @@
+// Fitting of the output into a token budget (--max-tokens).
+// The document is rendered and measured; while it exceeds the budget, content is trimmed one step at a time in the
+// configured order (least important first). Every trimmed spot records what was elided, so the document says
+// where it is incomplete.
+
+import * as yaml from 'yaml';
+import type { TokenBudgetTrimStep } from '../../config/configSchema.js';
+import { logger } from '../../shared/logger.js';
+import { groupResourceSections } from '../processing/resourceSections.js';
+import type { ClusterSection, NamespaceResourceBlock, ResourceData } from './outputGeneratorTypes.js';
+
+// Lines of the current logs kept by the 'olderLogs' step
+const KEPT_LOG_LINES = 20;
+
+// Events kept per cluster by the 'olderEvents' step
+const KEPT_EVENTS = 10;
+
+// Placeholder replacing the values of elided ConfigMap data
+const ELIDED_VALUE_PLACEHOLDER = '(elided)';
+
+// A Kubernetes resource as parsed from structured output
+type Resource = { kind?: string; spec?: { replicas?: number }; status?: { readyReplicas?: number } } & Record<
+  string,
+  unknown
+>;
+
+// Rendered document and its token count
+export interface MeasuredOutput {
+  output: string;
+  tokens: number;
+}
+
+/**
+ * Applies a transformation to every resource of YAML or JSON output (including list items).
+ * Text output is returned unchanged, as its resources cannot be edited.
+ *
+ * @param output - The fetched output.
+ * @param transform - Returns the changed resource, null to remove it, or undefined to keep it unchanged.
+ * @returns The output and the number of changed or removed resources.
+ */
+const transformResources = (
+  output: string,
+  transform: (resource: Resource) => Resource | null | undefined,
+): { output: string; count: number } => {
+  let count = 0;
+  const apply = (value: unknown): unknown => {
+    if (!value || typeof value !== 'object') return value;
+    const resource = value as Resource;
+    if (Array.isArray(resource.items)) {
+      const items: unknown[] = [];
+      for (const item of resource.items) {
+        const result = apply(item);
+        if (result !== null) items.push(result);
+      }
+      return { ...resource, items };
+    }
+    const result = transform(resource);
+    if (result === undefined) return resource;
+    count++;
+    return result;
+  };
+
+  const trimmed = output.trim();
+  try {
+    if (trimmed.startsWith('{')) {
+      const transformed = apply(JSON.parse(trimmed));
+      return {
+        output: count > 0 ? JSON.stringify(transformed, null, trimmed.includes('\n') ? 2 : undefined) : output,
+        count,
+      };
+    }
+    if (trimmed.includes('apiVersion:')) {
+      const documents = yaml.parseAllDocuments(trimmed);
+      if (documents.some((document) => document.errors.length > 0)) {
+        return { output, count: 0 };
+      }
+      const transformed = documents.map((document) => apply(document.toJS())).filter((document) => document !== null);
+      return {
+        output: count > 0 ? transformed.map((document) => yaml.stringify(document)).join('---\n') : output,
+        count,
+      };
+    }
+  } catch (error) {
+    logger.debug(`Could not parse output for trimming: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return { output, count: 0 };
+};
+
+/**
+ * Removes the rows of healthy ReplicaSets (DESIRED equal to READY) from kubectl table output.
+ */
+const removeHealthyReplicaSetRows = (output: string): { output: string; count: number } => {
+  let header: string[] = [];
+  let count = 0;
+  const lines = output.split('\n').filter((line) => {
+    const columns = line.trim().split(/\s+/);
+    if (columns[0] === 'NAME' || columns[0] === 'NAMESPACE') {
+      header = columns;
+      return true;
+    }
+    const name = columns[header.indexOf('NAME')] ?? '';
+    const desired = columns[header.indexOf('DESIRED')];
+    const ready = columns[header.indexOf('READY')];
+    if (name.startsWith('replicaset.apps/') && desired !== undefined && desired === ready) {
+      count++;
+      return false;
+    }
+    return true;
+  });
+  return { output: lines.join('\n'), count };
+};
+
+/**
+ * Checks whether all desired pods of a ReplicaSet are ready (old ReplicaSets scaled down to zero included).
+ */
+const isHealthyReplicaSet = (resource: Resource): boolean =>
+  (resource.status?.readyReplicas ?? 0) >= (resource.spec?.replicas ?? 1);
+
+/**
+ * Adds a note about elided content to a section or block.
+ */
+const withElided = <T extends { elided?: string[] }>(target: T, note: string): T => ({
+  ...target,
+  elided: [...(target.elided ?? []), note],
+});
+
+/**
+ * Applies a trimming function to the namespace blocks of a section (not the namespaces list).
+ * Per-resource sections are split again from trimmed output, so they show the same content.
+ */
+const mapResourceBlocks = (
+  section: ClusterSection,
+  trim: (block: NamespaceResourceBlock) => NamespaceResourceBlock,
+): ClusterSection => ({
+  ...section,
+  resources: section.resources.map((resource) => {
+    if ((resource as ResourceData).kind) return resource;
+    const block = resource as NamespaceResourceBlock;
+    const trimmed = trim(block);
+    return trimmed.kinds && trimmed.output !== block.output
+      ? { ...trimmed, kinds: groupResourceSections(trimmed.output, trimmed.namespace, section.name) }
+      : trimmed;
+  }),
+});
+
+/**
+ * Pluralizes a count for elision notes (e.g., '1 ConfigMap', '3 ConfigMaps').
+ */
+const countOf = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Keeps the leading items of a JSON list (at least one), in proportion to the ratio with the same margin as lines.
+ *
+ * @param output - The fetched output.
+ * @param ratio - The budget divided by the current token count.
+ * @returns The trimmed list with the number of elided and total items, or undefined if the output is not a JSON
+ * list or has nothing to drop.
+ */
+const trimJsonListItems = (
+  output: string,
+  ratio: number,
+): { output: string; elided: number; total: number } | undefined => {
+  const trimmed = output.trim();
+  if (!trimmed.startsWith('{')) return undefined;
+  let document: Resource;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(document.items)) return undefined;
+  const total = document.items.length;
+  const keep = Math.max(1, Math.floor(total * ratio * 0.9));
+  if (keep >= total) return undefined;
+  return {
+    output: JSON.stringify(
+      { ...document, items: document.items.slice(0, keep) },
+      null,
+      trimmed.includes('\n') ? 2 : undefined,
+    ),
+    elided: total - keep,
+    total,
+  };
+};
+
+// Trimming steps; 'ratio' (the budget divided by the current token count) sizes the last-resort truncation
+const trimSteps: Record<TokenBudgetTrimStep, (section: ClusterSection, ratio: number) => ClusterSection> = {
+  healthyReplicaSets: (section) =>
+    mapResourceBlocks(section, (block) => {
+      const structured = transformResources(block.output, (resource) =>
+        resource.kind === 'ReplicaSet' && isHealthyReplicaSet(resource) ? null : undefined,
+      );
+      const result = structured.count > 0 ? structured : removeHealthyReplicaSetRows(block.output);
+      return result.count > 0
+        ? withElided(
+            { ...block, output: result.output },
+            `${countOf(result.count, 'healthy ReplicaSet')} (all pods ready)`,
+          )
+        : block;
+    }),
+
+  configMapData: (section) =>
+    mapResourceBlocks(section, (block) => {
+      const result = transformResources(block.output, (resource) => {
+        if (resource.kind !== 'ConfigMap' || (!resource.data && !resource.binaryData)) return undefined;
+        const elided = { ...resource };
+        for (const field of ['data', 'binaryData']) {
+          const data = resource[field];
+          if (data && typeof data === 'object') {
+            elided[field] = Object.fromEntries(Object.keys(data).map((key) => [key, ELIDED_VALUE_PLACEHOLDER]));
+          }
+        }
+        return elided;
+      });
+      return result.count > 0
+        ? withElided(
+            { ...block, output: result.output },
+            `the data of ${countOf(result.count, 'ConfigMap')} (keys kept)`,
+          )
+        : block;
+    }),
+
+  previousLogs: (section) => ({
+    ...section,
+    podDiagnostics: section.podDiagnostics?.map((diagnostics) =>
+      diagnostics.prevLogs
+        ? withElided(
+            { ...diagnostics, prevLogs: undefined },
+            `previous logs (${countOf(diagnostics.prevLogs.split('\n').length, 'line')})`,
+          )
+        : diagnostics,
+    ),
+  }),
+
+  normalEvents: (section) => {
+    const events = section.events?.events ?? [];
+    const warnings = events.filter((event) => event.type === 'Warning');
+    if (!section.events || warnings.length === events.length) return section;
+    return {
+      ...mapResourceBlocks(section, (block) => ({
+        ...block,
+        events: block.events?.filter((event) => event.type === 'Warning'),
+      })),
+      events: withElided(
+        { ...section.events, events: warnings },
+        countOf(events.length - warnings.length, 'Normal event'),
+      ),
+    };
+  },
+
+  helmValues: (section) => {
+    const withValues = section.helmReleases?.releases.filter((release) => release.values) ?? [];
+    if (!section.helmReleases || withValues.length === 0) return section;
+    return {
+      ...section,
+      helmReleases: withElided(
+        {
+          ...section.helmReleases,
+          releases: section.helmReleases.releases.map((release) => ({ ...release, values: undefined })),
+        },
+        `the user-supplied values of ${countOf(withValues.length, 'release')}`,
+      ),
+    };
+  },
+
+  olderLogs: (section) => ({
+    ...section,
+    podDiagnostics: section.podDiagnostics?.map((diagnostics) => {
+      const lines = diagnostics.logs.split('\n');
+      return lines.length > KEPT_LOG_LINES
+        ? withElided(
+            { ...diagnostics, logs: lines.slice(-KEPT_LOG_LINES).join('\n') },
+            `${countOf(lines.length - KEPT_LOG_LINES, 'older log line')}`,
+          )
+        : diagnostics;
+    }),
+  }),
+
+  olderEvents: (section) => {
+    const events = section.events?.events ?? [];
+    if (!section.events || events.length <= KEPT_EVENTS) return section;
+    // Events are in chronological order: keep the most recent ones
+    const kept = events.slice(-KEPT_EVENTS);
+    return {
+      ...mapResourceBlocks(section, (block) => ({
+        ...block,
+        events: block.events?.filter((event) => kept.includes(event)),
+      })),
+      events: withElided({ ...section.events, events: kept }, countOf(events.length - kept.length, 'older event')),
+    };
+  },
+
+  clusterResources: (section) => {
+    if (!section.clusterResources?.output) return section;
+    const count = Object.values(section.clusterResources.resourcesByKind).reduce((sum, names) => sum + names.length, 0);
+    return {
+      ...section,
+      clusterResources: withElided(
+        { ...section.clusterResources, output: '' },
+        `the manifests of ${countOf(count, 'cluster-scoped resource')} (listed in the resource overview)`,
+      ),
+    };
+  },
+
+  resourceOutput: (section, ratio) =>
+    mapResourceBlocks(section, (block) => {
+      // Redacted and slimmed JSON lists are on a single line: drop trailing resources instead of lines
+      const list = trimJsonListItems(block.output, ratio);
+      if (list) {
+        return withElided(
+          { ...block, output: list.output },
+          `the last ${list.elided} of ${countOf(list.total, 'resource')}`,
+        );
+      }
+      const lines = block.output.split('\n');
+      // Keep a margin, as the rest of the document is not trimmed
+      const keep = Math.max(1, Math.floor(lines.length * ratio * 0.9));
+      return keep < lines.length
+        ? withElided(
+            { ...block, output: lines.slice(0, keep).join('\n') },
+            `the last ${lines.length - keep} of ${countOf(lines.length, 'output line')}`,
+          )
+        : block;
+    }),
+};
+
+/**
+ * Checks whether a trimming step elided anything from a section.
+ */
+const hasNewElisions = (trimmed: ClusterSection, original: ClusterSection): boolean => {
+  const countElisions = (section: ClusterSection) =>
+    [
+      ...section.resources.map((resource) => (resource as NamespaceResourceBlock).elided),
+      ...(section.podDiagnostics ?? []).map((diagnostics) => diagnostics.elided),
+      section.clusterResources?.elided,
+      section.events?.elided,
+      section.helmReleases?.elided,
+    ].reduce((sum, elided) => sum + (elided?.length ?? 0), 0);
+  return countElisions(trimmed) > countElisions(original);
+};
+
+/**
+ * Trims the cluster sections until the rendered document fits the token budget.
+ * Steps are applied in the given order, each to all clusters, until the document fits.
+ *
+ * @param clusters - The cluster sections (not modified).
+ * @param budget - The maximum number of tokens.
+ * @param trimOrder - The trimming steps, least important content first.
+ * @param measure - Renders cluster sections into the document and counts its tokens.
+ * @returns The rendered document (possibly still over budget if trimming was not enough), the trimmed sections and
+ * the steps applied.
+ */
+export const fitToTokenBudget = async (
+  clusters: ClusterSection[],
+  budget: number,
+  trimOrder: TokenBudgetTrimStep[],
+  measure: (clusters: ClusterSection[]) => Promise<MeasuredOutput>,
+): Promise<MeasuredOutput & { clusters: ClusterSection[]; appliedSteps: TokenBudgetTrimStep[] }> => {
+  let current = clusters;
+  let measured = await measure(current);
+  const appliedSteps: TokenBudgetTrimStep[] = [];
+
+  for (const step of trimOrder) {
+    if (measured.tokens <= budget) break;
+
+    const ratio = budget / measured.tokens;
+    const trimmed = current.map((section) => trimSteps[step](section, ratio));
+    // Skip steps with nothing to trim, to avoid rendering the document again
+    if (!trimmed.some((section, index) => hasNewElisions(section, current[index]))) {
+      continue;
+    }
+    current = trimmed;
+    measured = await measure(current);
+    appliedSteps.push(step);
+    logger.debug(`Trimmed ${step} to fit the token budget: ${measured.tokens.toLocaleString()} tokens`);
+  }
+
+  if (measured.tokens > budget) {
+    logger.warn(
+      `The output still exceeds the token budget after trimming (${measured.tokens.toLocaleString()} > ${budget.toLocaleString()} tokens)`,
+    );
+  }
+  return { ...measured, clusters: current, appliedSteps };
+};
@@ -7,7 +7,23 @@ import Handlebars from 'handlebars';
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
 import { KubeAggregatorError } from '../../shared/errorHandle.js';
 import { logger } from '../../shared/logger.js';
-import type { OutputGeneratorContext, PodDiagnostics, RenderContext } from './outputGeneratorTypes.js';
+import { getEventAnnotations } from '../kubernetes/eventCollector.js';
+import { TokenCounter } from '../tokenCount/tokenCount.js';
+import { renderCustomTemplate } from './customTemplate.js';
+import { fitToTokenBudget } from './outputBudget.js';
+import type {
+  ClusterAggregation,
+  ClusterSection,
+  HelmReleaseSummary,
+  NamespaceResourceBlock,
+  OutputGeneratorContext,
+  OutputPartContents,
+  RenderContext,
+  ResourceData,
+  ResourceEvent,
+  TableOfContents,
+} from './outputGeneratorTypes.js';
+import { getOutputPartPath, splitClusterSections } from './outputSplit.js';
 // Import adapted decorator functions
 import {
   generateHeader,
@@ -17,37 +33,52 @@ import {
   generateSummaryUsageGuidelines,
 } from './outputStyleDecorate.js';
 // Import adapted style templates
+import { generateJsonOutput } from './outputStyles/jsonStyle.js';
 import { getMarkdownTemplate } from './outputStyles/markdownStyle.js';
+import { generateParsableXmlOutput } from './outputStyles/parsableXmlStyle.js';
 import { getPlainTemplate } from './outputStyles/plainStyle.js';
 import { getXmlTemplate } from './outputStyles/xmlStyle.js';
 import { generateResourceTreeString } from './resourceTreeGenerate.js';
 
 /**
  * Creates the context object needed for rendering the output template.
+ * For a part of a split output, only the part's sections are rendered, but the preamble still describes the
+ * whole document.
  */
-const createRenderContext = (outputGeneratorContext: OutputGeneratorContext): RenderContext => {
+const createRenderContext = (
+  outputGeneratorContext: OutputGeneratorContext,
+  part?: { clusters: ClusterSection[]; tableOfContents: TableOfContents },
+): RenderContext => {
   const config = outputGeneratorContext.config;
+  const clusterNames = outputGeneratorContext.clusters
+    .map((cluster) => cluster.name)
+    .filter((name): name is string => !!name);
   return {
     // Generated text based on config and runtime info
-    generationHeader: generateHeader(config, outputGeneratorContext.generationDate),
+    generationHeader: generateHeader(config, outputGeneratorContext.generationDate, clusterNames),
     summaryPurpose: generateSummaryPurpose(),
     summaryFileFormat: generateSummaryFileFormat(),
     summaryUsageGuidelines: generateSummaryUsageGuidelines(config, outputGeneratorContext.instruction),
-    summaryNotes: generateSummaryNotes(config),
+    summaryNotes: generateSummaryNotes(config, clusterNames),
     // Direct data passthrough
-    headerText: undefined, // Not implemented in v1
+    headerText: config.output?.headerText?.trim() || undefined,
     instruction: outputGeneratorContext.instruction,
-    resourceTreeString: outputGeneratorContext.resourceTreeString,
 
-    // Multi-resource data
-    resources: outputGeneratorContext.resources,
-
-    // Pod diagnostics (FRD-6)
-    podDiagnostics: outputGeneratorContext.podDiagnostics,
+    // Resources, cluster-scoped resources and pod diagnostics (FRD-6), grouped by cluster
+    clusters: part?.clusters ?? outputGeneratorContext.clusters,
+    multiCluster: clusterNames.length > 0,
+    hasClusterResources: outputGeneratorContext.clusters.some((cluster) => cluster.clusterResources),
+    hasEvents: outputGeneratorContext.clusters.some((cluster) => cluster.events),
+    hasHelmReleases: outputGeneratorContext.clusters.some((cluster) => cluster.helmReleases),
+    hasResourceSections: outputGeneratorContext.clusters.some((cluster) =>
+      cluster.resources.some((resource) => (resource as NamespaceResourceBlock).kinds),
+    ),
+    tableOfContents: part?.tableOfContents,
 
     // Flags based on config (assuming these options exist or will be added)
     preambleEnabled: true, // Default to true for v1
-    resourceTreeEnabled: true, // Default to true for v1
+    // The overview of a cluster is only in the part holding its first section
+    resourceTreeEnabled: part ? part.clusters.some((cluster) => cluster.resourceTreeString) : true,
     diagnosticsEnabled: config.diagnostics?.includeFailingPods !== false, // Enable if not explicitly disabled
 
     // Legacy fields for backward compatibility, will be deprecated
@@ -58,12 +89,16 @@ const createRenderContext = (outputGeneratorContext: OutputGeneratorContext): Re
 };
 
 /**
- * Compiles and renders the output using Handlebars based on the chosen style.
+ * Compiles and renders the output using Handlebars based on the chosen style, or the custom template if configured.
  */
 const generateHandlebarOutput = async (
   config: KubeAggregatorConfigMerged,
   renderContext: RenderContext,
 ): Promise<string> => {
+  if (config.output?.templatePath) {
+    return renderCustomTemplate(config, renderContext);
+  }
+
   let templateString: string;
   // Ensure config.output and style exist
   const style = config.output?.style || 'markdown';
@@ -96,126 +131,288 @@ const generateHandlebarOutput = async (
   }
 };
 
+// Renderers of the output styles
+interface RenderDeps {
+  generateHandlebarOutput: typeof generateHandlebarOutput;
+  generateJsonOutput: typeof generateJsonOutput;
+  generateParsableXmlOutput: typeof generateParsableXmlOutput;
+}
+
+/**
+ * Renders the output in the configured style: the JSON document is built from the generator context directly,
+ * parsable XML from the render context, and the other styles from their Handlebars template.
+ */
+const renderOutput = async (
+  config: KubeAggregatorConfigMerged,
+  outputGeneratorContext: OutputGeneratorContext,
+  deps: RenderDeps,
+  part?: { clusters: ClusterSection[]; tableOfContents: TableOfContents },
+): Promise<string> => {
+  if (config.output?.style === 'json') {
+    return deps.generateJsonOutput(
+      part ? { ...outputGeneratorContext, clusters: part.clusters } : outputGeneratorContext,
+      part?.tableOfContents,
+    );
+  }
+  const renderContext = createRenderContext(outputGeneratorContext, part);
+  if (config.output?.style === 'xml' && config.output.parsableStyle) {
+    return deps.generateParsableXmlOutput(renderContext);
+  }
+  return deps.generateHandlebarOutput(config, renderContext);
+};
+
+/**
+ * Trims the sections of the clusters until the rendered output fits the configured token budget.
+ *
+ * @returns The rendered output and the trimmed sections.
+ */
+const fitClustersToTokenBudget = async (
+  config: KubeAggregatorConfigMerged,
+  outputGeneratorContext: OutputGeneratorContext,
+  tokenCounter: TokenCounter,
+  deps: RenderDeps,
+): Promise<{ output: string; clusters: ClusterSection[] }> => {
+  const budget = config.tokenCount?.budget ?? Number.POSITIVE_INFINITY;
+  const fitted = await fitToTokenBudget(
+    outputGeneratorContext.clusters,
+    budget,
+    config.tokenCount?.trimOrder ?? [],
+    async (clusters) => {
+      const output = await renderOutput(config, { ...outputGeneratorContext, clusters }, deps);
+      return { output, tokens: tokenCounter.countTokens(output) };
+    },
+  );
+  if (fitted.appliedSteps.length > 0) {
+    logger.info(`Trimmed ${fitted.appliedSteps.join(', ')} to fit the budget of ${budget.toLocaleString()} tokens`);
+  }
+  return fitted;
+};
+
 /**
  * Main function to generate the final output string.
- * Adapted for multi-resource handling with multiple resource types per namespace.
+ * Adapted for multi-resource handling with multiple resource types per namespace,
+ * and for several clusters aggregated into one document.
  */
 export const generateOutput = async (
   config: KubeAggregatorConfigMerged,
-  // --- Data for resources ---
-  namespaceNames: string[], // List of names for the tree
-  namespaceData: { output: string; command: string }, // Output and command for namespaces section
-  // --- Extended for FRD-3 ---
-  resourcesByNamespace?: Record<string, Record<string, string[]>> | Record<string, string[]>, // Map of namespace names to resource types and names
-  fetchedOutputBlocks?:
-    | Array<{ namespace: string; command: string; output: string }>
-    | Record<string, { output: string; command: string }>, // Output data for namespaces
-  // --- Extended for FRD-6 ---
-  podDiagnostics?: PodDiagnostics[], // Diagnostic data for failing pods
+  // --- Data collected from each cluster, in order ---
+  clusters: ClusterAggregation[],
   // --- Dependencies can be injected for testing ---
   deps = {
     buildOutputGeneratorContext,
     generateHandlebarOutput,
-    // generateParsableXmlOutput, // Add later if needed
+    generateJsonOutput,
+    generateParsableXmlOutput,
   },
 ): Promise<string> => {
   const style = config.output?.style || 'markdown';
   logger.info(`Generating output in ${style} format...`);
 
   // Build the main context object containing all data needed for generation
-  const outputGeneratorContext = await deps.buildOutputGeneratorContext(
-    config,
-    namespaceNames,
-    namespaceData,
-    resourcesByNamespace,
-    fetchedOutputBlocks,
-    podDiagnostics,
-  );
+  const outputGeneratorContext = await deps.buildOutputGeneratorContext(config, clusters);
 
-  // Create the specific context needed for Handlebars rendering
-  const renderContext = createRenderContext(outputGeneratorContext);
+  // With a token budget, trim low-priority content until the rendered output fits
+  if (config.tokenCount?.budget) {
+    const tokenCounter = new TokenCounter(config.tokenCount?.encoding || 'o200k_base');
+    try {
+      return (await fitClustersToTokenBudget(config, outputGeneratorContext, tokenCounter, deps)).output;
+    } finally {
+      tokenCounter.free();
+    }
+  }
 
-  // Render the output using the appropriate template
-  // Add parsable style handling later if needed
-  // if (config.output.parsableStyle && config.output.style === 'xml') {
-  //   return deps.generateParsableXmlOutput(renderContext);
-  // }
-  return deps.generateHandlebarOutput(config, renderContext);
+  // Render the output using the appropriate template (or the JSON document, or parsable XML)
+  return renderOutput(config, outputGeneratorContext, deps);
 };
 
 /**
- * Helper function to construct the OutputGeneratorContext.
- * This centralizes the data gathering needed before template rendering.
+ * Generates the output split into parts of at most `output.splitOutput` tokens (--split-output).
+ * Parts are cut at namespace and section boundaries; each one repeats the preamble and carries a table of contents
+ * naming the part that holds each section. A token budget, if set, applies to the whole output before splitting.
+ *
+ * @param config - The merged configuration.
+ * @param clusters - Data collected from each cluster, in order.
+ * @returns The rendered parts, in order.
  */
-export const buildOutputGeneratorContext = async (
+export const generateOutputParts = async (
   config: KubeAggregatorConfigMerged,
-  namespaceNames: string[],
-  namespaceData: { output: string; command: string },
-  resourcesByNamespace?: Record<string, Record<string, string[]>> | Record<string, string[]>,
-  outputData?:
-    | Array<{ namespace: string; command: string; output: string }>
-    | Record<string, { output: string; command: string }>,
-  podDiagnostics?: PodDiagnostics[],
-): Promise<OutputGeneratorContext> => {
-  // For v1, we don't implement instruction files
-  const repositoryInstruction = '';
-
-  // Generate the resource tree string with the appropriate resources
-  // Handle both FRD-3 and backward compatibility with FRD-2
-  const resourceTreeStr = generateResourceTreeString(namespaceNames, resourcesByNamespace);
-
-  // Build the resources array starting with namespaces (global)
-  const resources: (
-    | import('./outputGeneratorTypes').ResourceData
-    | import('./outputGeneratorTypes').NamespaceResourceBlock
-  )[] = [
+  clusters: ClusterAggregation[],
+  deps = {
+    buildOutputGeneratorContext,
+    generateHandlebarOutput,
+    generateJsonOutput,
+    generateParsableXmlOutput,
+  },
+): Promise<string[]> => {
+  const maxTokens = config.output?.splitOutput;
+  if (!maxTokens) {
+    throw new KubeAggregatorError('The maximum number of tokens per part is not defined in configuration');
+  }
+  const style = config.output?.style || 'markdown';
+  logger.info(
+    `Generating output in ${style} format, split into parts of at most ${maxTokens.toLocaleString()} tokens...`,
+  );
+
+  const outputGeneratorContext = await deps.buildOutputGeneratorContext(config, clusters);
+  const tokenCounter = new TokenCounter(config.tokenCount?.encoding || 'o200k_base');
+  try {
+    const sections = config.tokenCount?.budget
+      ? (await fitClustersToTokenBudget(config, outputGeneratorContext, tokenCounter, deps)).clusters
+      : outputGeneratorContext.clusters;
+
+    const fileName = path.basename(config.output?.filePath || 'kubemix-output.md');
+    const renderPart = (partClusters: ClusterSection[], part: number, contents: OutputPartContents[]) =>
+      renderOutput(config, outputGeneratorContext, deps, {
+        clusters: partClusters,
+        tableOfContents: { part, totalParts: contents.length, parts: contents },
+      });
+
+    const parts = await splitClusterSections(
+      sections,
+      maxTokens,
+      (text) => tokenCounter.countTokens(text),
+      async (entries) => tokenCounter.countTokens(await renderPart([], 1, [{ part: 1, file: fileName, entries }])),
+    );
+    const contents = parts.map((part, index) => ({
+      part: index + 1,
+      file: getOutputPartPath(fileName, index + 1),
+      entries: part.entries,
+    }));
+
+    const outputs: string[] = [];
+    for (const [index, part] of parts.entries()) {
+      const output = await renderPart(part.clusters, index + 1, contents);
+      const tokens = tokenCounter.countTokens(output);
+      if (tokens > maxTokens) {
+        logger.warn(
+          `Part ${index + 1} of the output exceeds ${maxTokens.toLocaleString()} tokens (${tokens.toLocaleString()} tokens): ${part.entries.join(', ')} cannot be split further`,
+        );
+      }
+      outputs.push(output);
+    }
+    logger.info(`Split the output into ${outputs.length} ${outputs.length === 1 ? 'part' : 'parts'}`);
+    return outputs;
+  } finally {
+    tokenCounter.free();
+  }
+};
+
+/**
+ * Builds the annotations shown next to resources in the resource tree: the owning Helm release and the events.
+ *
+ * @param helmReleases - The Helm releases of the cluster.
+ * @param events - The recent events of the cluster.
+ * @returns Annotations by resource tree key.
+ */
+const buildResourceAnnotations = (helmReleases: HelmReleaseSummary[], events: ResourceEvent[]): Map<string, string> => {
+  const annotations = new Map<string, string>();
+  for (const release of helmReleases) {
+    for (const key of release.resourceKeys) {
+      annotations.set(key, `helm: ${release.name}`);
+    }
+  }
+  for (const [key, eventSummary] of getEventAnnotations(events)) {
+    const helm = annotations.get(key);
+    annotations.set(key, helm ? `${helm}; events: ${eventSummary}` : `events: ${eventSummary}`);
+  }
+  return annotations;
+};
+
+/**
+ * Builds the output sections of one cluster: its resource tree, resources, cluster-scoped resources and diagnostics.
+ *
+ * @param cluster - The data collected from the cluster.
+ * @returns The cluster's sections.
+ */
+const buildClusterSection = (cluster: ClusterAggregation): ClusterSection => {
+  const events = cluster.events?.events ?? [];
+  const helmReleases = cluster.helmReleases?.releases ?? [];
+
+  // Generate the resource tree string with the appropriate resources, nested by ownership and tagged with their
+  // Helm release and events
+  const resourceTreeString = generateResourceTreeString(
+    cluster.namespaceNames,
+    cluster.resourcesByNamespace,
+    cluster.clusterResources?.resourcesByKind,
+    { resourceAnnotations: buildResourceAnnotations(helmReleases, events), graph: cluster.resourceGraph },
+  );
+
+  // Build the resources array starting with namespaces (global), followed by the non-empty namespace blocks
+  const resources: (ResourceData | NamespaceResourceBlock)[] = [
     {
       kind: 'Namespaces',
-      command: namespaceData.command,
-      output: namespaceData.output,
+      command: cluster.namespaceData.command,
+      output: cluster.namespaceData.output,
     },
+    ...cluster.resourceBlocks
+      .filter((block) => block.output)
+      .map((block) => {
+        // Attach the events of the namespace's resources to its block
+        const blockEvents = events.filter((event) => event.namespace === block.namespace);
+        return blockEvents.length > 0 ? { ...block, events: blockEvents } : block;
+      }),
   ];
 
-  // Handle FRD-3 style (array of namespace resource blocks)
-  if (Array.isArray(outputData)) {
-    // These are namespace resource blocks from FRD-3
-    for (const block of outputData) {
-      if (block.output) {
-        // Add these as namespace resource blocks
-        resources.push(block);
-      }
-    }
+  return {
+    name: cluster.context,
+    namespaceNames: cluster.namespaceNames,
+    resourceTreeString,
+    resources,
+    // Pod diagnostics (FRD-6)
+    podDiagnostics: cluster.podDiagnostics?.length ? cluster.podDiagnostics : undefined,
+    // Cluster-scoped resources (only if anything was fetched)
+    clusterResources: cluster.clusterResources?.output ? cluster.clusterResources : undefined,
+    // Recent events (only if any were found)
+    events: events.length > 0 ? cluster.events : undefined,
+    // Helm releases (only if any were found)
+    helmReleases: helmReleases.length > 0 ? cluster.helmReleases : undefined,
+    // Owner and selector relationships, as structured data for templates
+    resourceGraph: cluster.resourceGraph,
+  };
+};
+
+/**
+ * Reads the instruction file (output.instructionFilePath), whose content is added at the end of the output.
+ *
+ * @param config - The merged configuration object.
+ * @returns The instruction, or an empty string if no instruction file is configured.
+ * @throws {KubeAggregatorError} If the instruction file cannot be read.
+ */
+const readInstruction = async (config: KubeAggregatorConfigMerged): Promise<string> => {
+  const instructionFilePath = config.output?.instructionFilePath;
+  if (!instructionFilePath) {
+    return '';
   }
-  // Handle FRD-2 style (map of namespace to pod output data)
-  else if (outputData && !Array.isArray(outputData)) {
-    // Assume this is the old pod data format from FRD-2
-    for (const namespace of namespaceNames) {
-      const podOutputData = outputData[namespace];
-
-      // Only add if we have YAML data and it's not empty
-      if (podOutputData?.output) {
-        resources.push({
-          kind: 'Pods',
-          namespace,
-          command: podOutputData.command,
-          output: podOutputData.output,
-        });
-      }
-    }
+  const absolutePath = path.resolve(config.cwd, instructionFilePath);
+  try {
+    return (await fs.readFile(absolutePath, 'utf8')).trim();
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to read instruction file ${absolutePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
   }
+};
+
+/**
+ * Helper function to construct the OutputGeneratorContext.
+ * This centralizes the data gathering needed before template rendering.
+ */
+export const buildOutputGeneratorContext = async (
+  config: KubeAggregatorConfigMerged,
+  clusters: ClusterAggregation[],
+): Promise<OutputGeneratorContext> => {
+  const instruction = await readInstruction(config);
+  const firstCluster = clusters[0];
 
   return {
     generationDate: new Date().toISOString(),
-    resourceTreeString: resourceTreeStr,
     config,
-    instruction: repositoryInstruction,
-    // Multi-resource data
-    resources,
-    // Pod diagnostics (FRD-6)
-    podDiagnostics,
-    // Legacy fields for backward compatibility
+    instruction,
+    // Resource tree, resources and diagnostics of each cluster
+    clusters: clusters.map(buildClusterSection),
+    // Legacy fields for backward compatibility (namespaces of the first cluster)
     resourceKind: 'Namespaces',
-    kubectlCommand: namespaceData.command,
-    resourceOutput: namespaceData.output,
+    kubectlCommand: firstCluster?.namespaceData.command,
+    resourceOutput: firstCluster?.namespaceData.output,
   };
 };
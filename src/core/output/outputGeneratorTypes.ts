@@ -1,5 +1,6 @@
 // src/core/output/outputGeneratorTypes.ts
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js'; // Renamed
+import type { ResourceDiff, SnapshotInfo } from '../diff/snapshotDiff.js';
 
 /**
  * Represents a single Kubernetes resource with its metadata and content
@@ -11,6 +12,26 @@ export interface ResourceData {
   output: string; // The output content of the resource
 }
 
+/**
+ * A single resource of a namespace block, rendered with its own heading and anchor.
+ */
+export interface ResourceSection {
+  kind: string; // e.g., 'Deployment'
+  name: string;
+  namespace?: string;
+  anchor: string; // Stable anchor, unique within the document (e.g., 'deployment-payments-api')
+  output: string; // The resource in the fetched format (YAML or JSON), redacted if enabled
+  redacted?: boolean; // Whether values of the resource were redacted
+}
+
+/**
+ * The resources of a namespace block that share a kind, in order of appearance.
+ */
+export interface ResourceKindGroup {
+  kind: string;
+  resources: ResourceSection[];
+}
+
 /**
  * Represents a block of resources for a namespace.
  * Used by FRD-3 to represent multiple resource types fetched at once from a namespace.
@@ -19,6 +40,100 @@ export interface NamespaceResourceBlock {
   namespace: string; // The namespace where these resources were fetched from
   command: string; // The kubectl command used to fetch these resources
   output: string; // The output content containing multiple resource types
+  kinds?: ResourceKindGroup[]; // The output split into resources by kind (YAML and JSON output only)
+  events?: ResourceEvent[]; // Recent events of the resources in this namespace, attached by the output generator
+  elided?: string[]; // Content trimmed to fit the token budget (e.g., '3 healthy ReplicaSets (all pods ready)')
+}
+
+/**
+ * Represents the cluster-scoped resources (nodes, storage classes, RBAC, ...) fetched in a single command.
+ */
+export interface ClusterResourceBlock {
+  command: string; // The kubectl command used to fetch these resources
+  output: string; // The output content containing all cluster-scoped resource types
+  resourcesByKind: Record<string, string[]>; // Resource names by canonical type, for the resource tree
+  elided?: string[]; // Content trimmed to fit the token budget
+}
+
+/**
+ * Represents a Kubernetes event, deduplicated by reason and involved object.
+ * Repeated occurrences are merged: counts are summed and the time range covers all of them.
+ */
+export interface ResourceEvent {
+  namespace?: string; // Namespace of the involved object (undefined for cluster-scoped objects such as nodes)
+  type: string; // 'Warning' or 'Normal'
+  reason: string; // e.g., 'BackOff', 'FailedScheduling'
+  message: string; // Message of the most recent occurrence
+  kind: string; // Kind of the involved object (e.g., 'Pod')
+  name: string; // Name of the involved object
+  resourceType: string; // Canonical resource type of the involved object (e.g., 'pods'), to match the resource tree
+  count: number; // Total number of occurrences
+  firstSeen?: string; // ISO timestamp of the first occurrence
+  lastSeen?: string; // ISO timestamp of the most recent occurrence
+}
+
+/**
+ * Represents the recent events of a cluster, in chronological order.
+ */
+export interface EventsBlock {
+  command: string; // The kubectl command used to fetch the events
+  events: ResourceEvent[];
+  elided?: string[]; // Events trimmed to fit the token budget
+}
+
+/**
+ * Represents a Helm release (its latest revision) as shown in the output.
+ */
+export interface HelmReleaseSummary {
+  name: string;
+  namespace: string;
+  chart: string;
+  chartVersion: string;
+  appVersion?: string;
+  revision: number;
+  status: string; // e.g., 'deployed', 'failed', 'pending-upgrade'
+  updated?: string; // ISO timestamp of the last deployment
+  values?: string; // User-supplied values as YAML, redacted (undefined if omitted or empty)
+  resourceKeys: string[]; // Resource tree keys of the release's resources, to tag them in the tree
+}
+
+/**
+ * Represents the Helm releases of a cluster.
+ */
+export interface HelmReleasesBlock {
+  command: string; // The kubectl command used to fetch the release Secrets
+  releases: HelmReleaseSummary[];
+  elided?: string[]; // Content trimmed to fit the token budget
+}
+
+/**
+ * A resource in the relationship graph.
+ */
+export interface ResourceGraphNode {
+  id: string; // Resource tree key (see getResourceTreeKey)
+  kind: string; // e.g., 'Deployment'
+  name: string;
+  namespace?: string;
+  resourceType: string; // Canonical resource type (e.g., 'deployments.apps')
+}
+
+/**
+ * A relationship between two resources of the graph:
+ * 'owns' follows ownerReferences (Deployment -> ReplicaSet -> Pod), 'selects' links Services, NetworkPolicies
+ * and PodDisruptionBudgets to the pods their selectors match, and 'scales' links HPAs to their scale targets.
+ */
+export interface ResourceGraphEdge {
+  from: string; // Node id of the owner, selecting or scaling resource
+  to: string; // Node id of the owned, selected or scaled resource
+  type: 'owns' | 'selects' | 'scales';
+}
+
+/**
+ * The relationships between the resources of a cluster.
+ */
+export interface ResourceGraph {
+  nodes: ResourceGraphNode[];
+  edges: ResourceGraphEdge[];
 }
 
 /**
@@ -44,14 +159,34 @@ export interface PodDiagnostics {
 
   // Error information if any diagnostic command failed
   error?: string;
+
+  // Logs trimmed to fit the token budget
+  elided?: string[];
 }
 
-// Data context for generating the entire output file
-export interface OutputGeneratorContext {
-  generationDate: string;
+/**
+ * Everything collected from one cluster (kubeconfig context), as passed to the output generator.
+ */
+export interface ClusterAggregation {
+  context?: string; // Context name; only set when several clusters are aggregated into one document
+  namespaceNames: string[]; // Namespaces selected for the resource tree
+  namespaceData: { output: string; command: string }; // Output and command for the namespaces section
+  resourcesByNamespace: Record<string, Record<string, string[]>>; // Resource names by namespace and type
+  resourceBlocks: NamespaceResourceBlock[]; // Fetched output, one block per namespace
+  podDiagnostics?: PodDiagnostics[];
+  clusterResources?: ClusterResourceBlock;
+  events?: EventsBlock; // Recent events, if collected
+  helmReleases?: HelmReleasesBlock; // Helm releases, if decoded
+  resourceGraph?: ResourceGraph; // Owner and selector relationships, if collected
+}
+
+/**
+ * The sections generated for one cluster.
+ */
+export interface ClusterSection {
+  name?: string; // Cluster label (the context name), only set for multi-cluster output
+  namespaceNames?: string[]; // Namespaces selected in the cluster
   resourceTreeString: string; // Represents the overview (e.g., namespace list with multiple resource types)
-  config: KubeAggregatorConfigMerged;
-  instruction: string; // Content from instruction file
 
   // Resources can be a mix of:
   // 1. ResourceData (for global resources like Namespaces)
@@ -61,13 +196,54 @@ export interface OutputGeneratorContext {
   // Diagnostics for failing pods (FRD-6)
   podDiagnostics?: PodDiagnostics[];
 
+  // Cluster-scoped resources (nodes, storage classes, RBAC, ...)
+  clusterResources?: ClusterResourceBlock;
+
+  // Recent events, in chronological order
+  events?: EventsBlock;
+
+  // Helm releases installed into the selected namespaces
+  helmReleases?: HelmReleasesBlock;
+
+  // Owner and selector relationships between the resources (also rendered in resourceTreeString)
+  resourceGraph?: ResourceGraph;
+}
+
+// Data context for generating the entire output file
+export interface OutputGeneratorContext {
+  generationDate: string;
+  config: KubeAggregatorConfigMerged;
+  instruction: string; // Content from instruction file
+
+  // One entry per cluster, in the order they were collected
+  clusters: ClusterSection[];
+
   // --- Legacy fields for backward compatibility, will be deprecated ---
   resourceKind?: string; // e.g., "Namespaces"
   kubectlCommand?: string; // Command used, e.g., "kubectl get namespaces -o json"
   resourceOutput?: string; // The actual output from the command
 }
 
-// Data context specifically for rendering the Handlebars template
+/**
+ * The sections held by one part of a split output.
+ */
+export interface OutputPartContents {
+  part: number; // 1-based part number
+  file: string; // File name of the part
+  entries: string[]; // Sections held by the part (e.g., 'Namespace shop', 'Recent events')
+}
+
+/**
+ * The table of contents rendered in every part of a split output.
+ */
+export interface TableOfContents {
+  part: number; // The part the table is rendered in
+  totalParts: number;
+  parts: OutputPartContents[];
+}
+
+// Data context specifically for rendering the Handlebars template; also the documented context of custom
+// templates (output.templatePath), so renaming or removing fields breaks user templates
 export interface RenderContext {
   readonly generationHeader: string;
   readonly summaryPurpose: string;
@@ -76,15 +252,15 @@ export interface RenderContext {
   readonly summaryNotes: string;
   readonly headerText: string | undefined;
   readonly instruction: string;
-  readonly resourceTreeString: string;
 
-  // Resources can be a mix of:
-  // 1. ResourceData (for global resources like Namespaces)
-  // 2. NamespaceResourceBlock (for per-namespace resources from FRD-3)
-  readonly resources: ReadonlyArray<ResourceData | NamespaceResourceBlock>;
-
-  // Diagnostics for failing pods (FRD-6)
-  readonly podDiagnostics?: ReadonlyArray<PodDiagnostics>;
+  // Resource tree, resources, cluster-scoped resources and diagnostics, grouped by cluster
+  readonly clusters: ReadonlyArray<ClusterSection>;
+  readonly multiCluster: boolean; // Whether several clusters are aggregated (sections are labelled by cluster)
+  readonly hasClusterResources: boolean; // Whether any cluster has a cluster-scoped resources section
+  readonly hasEvents: boolean; // Whether any cluster has a recent events section
+  readonly hasHelmReleases: boolean; // Whether any cluster has a Helm releases section
+  readonly hasResourceSections: boolean; // Whether any namespace block is split into per-resource sections
+  readonly tableOfContents?: TableOfContents; // Parts of a split output and the sections they hold
 
   // --- Flags based on config ---
   readonly preambleEnabled: boolean; // Controls if the summary section is included
@@ -96,3 +272,18 @@ export interface RenderContext {
   readonly kubectlCommand?: string;
   readonly resourceOutput?: string;
 }
+
+/**
+ * Context used to render the diff report of two aggregations (kubemix diff, --diff-against)
+ */
+export interface DiffRenderContext {
+  readonly generationHeader: string;
+  readonly before: SnapshotInfo;
+  readonly after: SnapshotInfo;
+  readonly added: ReadonlyArray<ResourceDiff>;
+  readonly removed: ReadonlyArray<ResourceDiff>;
+  readonly modified: ReadonlyArray<ResourceDiff>;
+  readonly unchangedCount: number;
+  readonly warnings: ReadonlyArray<string>; // Content that could not be compared
+  readonly hasChanges: boolean;
+}
@@ -0,0 +1,174 @@
+// Splitting of the output into several token-bounded parts (--split-output).
+// Parts are cut at namespace and section boundaries. Each part repeats the preamble and carries a table of contents
+// naming the part that holds each namespace, so the parts can be given to a model in sequence.
+
+import path from 'node:path';
+import type { ClusterSection, NamespaceResourceBlock, ResourceData } from './outputGeneratorTypes.js';
+
+// Template text around the content of a section (headings, commands, fences), relative to the content
+const TEMPLATE_OVERHEAD_FACTOR = 1.1;
+
+// A part of the output: the cluster sections restricted to the content it holds
+export interface OutputPart {
+  clusters: ClusterSection[];
+  entries: string[];
+}
+
+// A section (or namespace block) of a cluster that is kept in one piece
+interface SplitUnit {
+  id: string; // '<cluster index>:<section>', e.g. '0:resource:2' or '1:events'
+  label: string;
+  tokens: number;
+}
+
+/**
+ * Returns the path of a part of the output (e.g., 'kubemix-output.2.md' for 'kubemix-output.md').
+ *
+ * @param filePath - The configured output path.
+ * @param part - The 1-based part number.
+ * @returns The path of the part.
+ */
+export const getOutputPartPath = (filePath: string, part: number): string => {
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}.${part}${extension}`;
+};
+
+/**
+ * Lists the units of a cluster section in document order, with their estimated token counts.
+ */
+const listUnits = (
+  section: ClusterSection,
+  clusterIndex: number,
+  countTokens: (text: string) => number,
+): SplitUnit[] => {
+  const prefix = section.name ? `${section.name}: ` : '';
+  const unit = (id: string, label: string, texts: Array<string | undefined>): SplitUnit => ({
+    id: `${clusterIndex}:${id}`,
+    label: `${prefix}${label}`,
+    tokens: Math.ceil(countTokens(texts.filter(Boolean).join('\n')) * TEMPLATE_OVERHEAD_FACTOR),
+  });
+
+  const units = section.resources.map((resource, index) => {
+    const events = ((resource as NamespaceResourceBlock).events ?? []).map((event) => event.message);
+    // The resource overview goes with the first section of its cluster (the namespaces list)
+    if (index === 0) {
+      return unit('resource:0', 'Resource overview and namespaces', [
+        section.resourceTreeString,
+        resource.command,
+        resource.output,
+        ...events,
+      ]);
+    }
+    const label = (resource as ResourceData).kind ?? `Namespace ${resource.namespace}`;
+    return unit(`resource:${index}`, label, [resource.command, resource.output, ...events]);
+  });
+  if (section.clusterResources) {
+    units.push(
+      unit('clusterResources', 'Cluster-scoped resources', [
+        section.clusterResources.command,
+        section.clusterResources.output,
+      ]),
+    );
+  }
+  if (section.helmReleases) {
+    units.push(
+      unit(
+        'helmReleases',
+        'Helm releases',
+        section.helmReleases.releases.map((release) => `${release.namespace}/${release.name}\n${release.values ?? ''}`),
+      ),
+    );
+  }
+  if (section.events) {
+    units.push(
+      unit(
+        'events',
+        'Recent events',
+        section.events.events.map((event) => `${event.reason} ${event.kind}/${event.name}: ${event.message}`),
+      ),
+    );
+  }
+  for (const [index, diagnostics] of (section.podDiagnostics ?? []).entries()) {
+    units.push(
+      unit(`diagnostics:${index}`, `Diagnostics ${diagnostics.namespace}/${diagnostics.podName}`, [
+        diagnostics.description,
+        diagnostics.logs,
+        diagnostics.prevLogs,
+      ]),
+    );
+  }
+  return units;
+};
+
+/**
+ * Restricts a cluster section to the units held by a part, or returns undefined if the part holds none of them.
+ */
+const restrictSection = (
+  section: ClusterSection,
+  clusterIndex: number,
+  ids: Set<string>,
+): ClusterSection | undefined => {
+  const has = (id: string) => ids.has(`${clusterIndex}:${id}`);
+  const resources = section.resources.filter((_, index) => has(`resource:${index}`));
+  const podDiagnostics = section.podDiagnostics?.filter((_, index) => has(`diagnostics:${index}`));
+  const restricted: ClusterSection = {
+    ...section,
+    resourceTreeString: has('resource:0') ? section.resourceTreeString : '',
+    resources,
+    clusterResources: has('clusterResources') ? section.clusterResources : undefined,
+    helmReleases: has('helmReleases') ? section.helmReleases : undefined,
+    events: has('events') ? section.events : undefined,
+    podDiagnostics: podDiagnostics?.length ? podDiagnostics : undefined,
+  };
+  const isEmpty =
+    resources.length === 0 &&
+    !restricted.clusterResources &&
+    !restricted.helmReleases &&
+    !restricted.events &&
+    !restricted.podDiagnostics;
+  return isEmpty ? undefined : restricted;
+};
+
+/**
+ * Distributes the sections of the clusters over parts of at most the given number of tokens.
+ * Sections are kept in document order and never cut; a section larger than a part gets a part of its own.
+ *
+ * @param clusters - The cluster sections.
+ * @param maxTokens - The maximum number of tokens of a part.
+ * @param countTokens - Counts the tokens of a text.
+ * @param measureOverhead - Measures the tokens of a part without sections (preamble and table of contents), given
+ * the entries of the table of contents.
+ * @returns The parts, with the sections they hold.
+ */
+export const splitClusterSections = async (
+  clusters: ClusterSection[],
+  maxTokens: number,
+  countTokens: (text: string) => number,
+  measureOverhead: (entries: string[]) => Promise<number>,
+): Promise<OutputPart[]> => {
+  const units = clusters.flatMap((section, index) => listUnits(section, index, countTokens));
+  const capacity = maxTokens - (await measureOverhead(units.map((unit) => unit.label)));
+
+  const partsUnits: SplitUnit[][] = [[]];
+  let usedTokens = 0;
+  for (const unit of units) {
+    const current = partsUnits[partsUnits.length - 1];
+    if (current.length > 0 && usedTokens + unit.tokens > capacity) {
+      partsUnits.push([unit]);
+      usedTokens = unit.tokens;
+    } else {
+      current.push(unit);
+      usedTokens += unit.tokens;
+    }
+  }
+
+  return partsUnits.map((partUnits) => {
+    const ids = new Set(partUnits.map((unit) => unit.id));
+    return {
+      clusters: clusters
+        .map((section, index) => restrictSection(section, index, ids))
+        .filter((section): section is ClusterSection => !!section),
+      entries: partUnits.map((unit) => unit.label),
+    };
+  });
+};
@@ -10,11 +10,14 @@ interface ContentInfo {
     resourceTypes?: string[];
     labelSelector?: string;
     fieldSelector?: string;
+    clusterResources: boolean;
+    offlineSources?: string[]; // Manifest files and directories read instead of a cluster
   };
   processing: {
     secretsRedacted: boolean;
     diagnosticsEnabled: boolean;
     diagnosticsLogLines?: number;
+    events?: { includeNormal: boolean; sinceMinutes: number }; // Undefined if events are not collected
     // Add other processing flags later
   };
 }
@@ -28,19 +31,33 @@ export const analyzeContent = (config: KubeAggregatorConfigMerged): ContentInfo
       resourceTypes: config.filter?.includeResourceTypes, // Simplified for now
       labelSelector: config.filter?.labelSelector,
       fieldSelector: config.filter?.fieldSelector,
+      clusterResources: config.clusterResources?.enabled !== false, // Default to true
+      offlineSources: [...(config.offline?.directories ?? []), ...(config.offline?.files ?? [])],
     },
     processing: {
       secretsRedacted: config.security?.redactSecrets ?? true, // Default to true
       diagnosticsEnabled: config.diagnostics?.includeFailingPods !== false, // Default to true
       diagnosticsLogLines: config.diagnostics?.podLogTailLines || 50, // Default to 50
+      events:
+        config.events?.enabled !== false
+          ? { includeNormal: config.events?.includeNormal ?? false, sinceMinutes: config.events?.sinceMinutes ?? 60 }
+          : undefined,
     },
   };
 };
 
 // Adapt the header generation based on Kubernetes context
-export const generateHeader = (config: KubeAggregatorConfigMerged, generationDate: string): string => {
+export const generateHeader = (
+  config: KubeAggregatorConfigMerged,
+  generationDate: string,
+  clusterNames: string[] = [],
+): string => {
   const info = analyzeContent(config);
-  let description = 'This file is an aggregated representation of Kubernetes resources from the cluster';
+  let description = info.selection.offlineSources?.length
+    ? 'This file is an aggregated representation of Kubernetes resources read from manifest files'
+    : clusterNames.length > 1
+      ? `This file is an aggregated representation of Kubernetes resources from ${clusterNames.length} clusters (${clusterNames.join(', ')})`
+      : 'This file is an aggregated representation of Kubernetes resources from the cluster';
 
   if (
     !info.selection.allNamespaces ||
@@ -58,6 +75,9 @@ export const generateHeader = (config: KubeAggregatorConfigMerged, generationDat
   if (info.processing.diagnosticsEnabled) {
     processingNotes.push('Diagnostics for failing pods included');
   }
+  if (info.processing.events) {
+    processingNotes.push('Recent events included');
+  }
   // Add other processing notes later
 
   const processingInfo = processingNotes.length > 0 ? `Processing notes: ${processingNotes.join(', ')}.` : '';
@@ -65,6 +85,22 @@ export const generateHeader = (config: KubeAggregatorConfigMerged, generationDat
   return `${description}, generated by KubeAggregator on ${generationDate}.\n${processingInfo}`.trim();
 };
 
+// Header of the diff report of two aggregations
+export const generateDiffHeader = (
+  before: { source: string; generatedAt: string },
+  after: { source: string; generatedAt: string },
+  generationDate: string,
+): string => {
+  const describe = (info: { source: string; generatedAt: string }) =>
+    info.generatedAt ? `${info.source} (collected ${info.generatedAt})` : info.source;
+  return `
+This file lists the changes to Kubernetes resources between two aggregations, generated by KubeAggregator on ${generationDate}.
+Before: ${describe(before)}
+After: ${describe(after)}
+Volatile fields (resource versions, managed fields, status timestamps) are ignored.
+`.trim();
+};
+
 // Adapt the purpose description
 export const generateSummaryPurpose = (): string => {
   return `
@@ -89,20 +125,32 @@ export const generateSummaryUsageGuidelines = (
   config: KubeAggregatorConfigMerged,
   repositoryInstruction: string,
 ): string => {
-  return `
+  const guidelines = `
 - This file contains potentially sensitive cluster configuration details. Handle it securely.
 - Resource definitions might be filtered based on the tool's configuration.
 - When processing this file, use the resource kind, name, and namespace to distinguish
   between different resources.
 `.trim();
+  // The instruction is at the end of the file, after the resources it refers to
+  return repositoryInstruction
+    ? `${guidelines}\n- The Instruction section at the end of this file describes the task to perform with these resources.`
+    : guidelines;
 };
 
 // Adapt notes based on Kubernetes context and filtering
-export const generateSummaryNotes = (config: KubeAggregatorConfigMerged): string => {
+export const generateSummaryNotes = (config: KubeAggregatorConfigMerged, clusterNames: string[] = []): string => {
   const info = analyzeContent(config);
-  const notes: string[] = [
-    '- Resource fetching depends on the Kubernetes context and permissions used to run the tool.',
-  ];
+  const notes: string[] = info.selection.offlineSources?.length
+    ? [
+        `- Resources were read from manifest files (${info.selection.offlineSources.join(', ')}), not from a live cluster.`,
+        '- Commands name the source files of each section; pod logs are not available.',
+      ]
+    : ['- Resource fetching depends on the Kubernetes context and permissions used to run the tool.'];
+  if (clusterNames.length > 1) {
+    notes.push(
+      `- Resources from several kubeconfig contexts are included (${clusterNames.join(', ')}); compare clusters by the cluster label of each section.`,
+    );
+  }
 
   // Selection notes
   const filter = config.filter || {};
@@ -118,6 +166,10 @@ export const generateSummaryNotes = (config: KubeAggregatorConfigMerged): string
     notes.push(`- Namespaces excluded: ${filter.excludeNamespaces.join(', ')}`);
   }
 
+  if (filter.discover) {
+    notes.push('- Resource types were discovered from the cluster API, including custom resources (CRDs).');
+  }
+
   if (info.selection.resourceTypes?.length) {
     notes.push(`- Included resource types: ${info.selection.resourceTypes.join(', ')}`);
   }
@@ -133,6 +185,18 @@ export const generateSummaryNotes = (config: KubeAggregatorConfigMerged): string
     notes.push(`- Resources filtered by field selector: ${info.selection.fieldSelector}`);
   }
 
+  if (info.selection.clusterResources) {
+    const clusterTypes = config.clusterResources?.resourceTypes;
+    notes.push(
+      clusterTypes?.length
+        ? `- Cluster-scoped resource types included: ${clusterTypes.join(', ')}`
+        : '- Cluster-scoped resources included.',
+    );
+    if (info.selection.labelSelector || info.selection.fieldSelector) {
+      notes.push('- Selectors are not applied to cluster-scoped resources.');
+    }
+  }
+
   // Processing notes
   if (info.processing.diagnosticsEnabled) {
     notes.push(
@@ -141,9 +205,33 @@ export const generateSummaryNotes = (config: KubeAggregatorConfigMerged): string
   } else {
     notes.push('- Diagnostics for failing pods disabled');
   }
+  if (config.helm?.enabled !== false) {
+    const valuesNote =
+      config.helm?.includeValues === false
+        ? 'user-supplied values are omitted'
+        : info.processing.secretsRedacted
+          ? 'credentials in user-supplied values are redacted'
+          : 'user-supplied values are included without redaction';
+    notes.push(`- Helm releases were decoded from their release Secrets; ${valuesNote}.`);
+  }
+  if (info.processing.events) {
+    notes.push(
+      `- ${info.processing.events.includeNormal ? 'Warning and Normal' : 'Warning'} events of the last ${info.processing.events.sinceMinutes} minutes are included, deduplicated by reason and object (counts are summed).`,
+    );
+  }
   if (info.processing.secretsRedacted) {
     notes.push('- Sensitive data within Secret resources has been redacted.');
   }
+  if (config.tokenCount?.budget) {
+    notes.push(
+      `- The output is limited to ${config.tokenCount.budget.toLocaleString()} tokens: low-priority content is trimmed first, and every trimmed spot is marked "Elided to fit the token budget".`,
+    );
+  }
+  if (config.output?.splitOutput) {
+    notes.push(
+      `- The output is split into several files of at most ${config.output.splitOutput.toLocaleString()} tokens each, cut at namespace and section boundaries; the table of contents names the part holding each section.`,
+    );
+  }
 
   return notes.join('\n');
 };
@@ -0,0 +1,308 @@
+// src/core/output/outputStyles/jsonStyle.ts
+// Structured JSON output for tooling and RAG pipelines. Unlike the other styles, it is built from the generator
+// context directly instead of a Handlebars template: fetched YAML and JSON output is parsed into resource objects.
+// The document is described by schemas/output.schema.json; bump JSON_OUTPUT_SCHEMA_VERSION with every change to it.
+
+import * as yaml from 'yaml';
+import { logger } from '../../../shared/logger.js';
+import { SECRET_REDACTION_PLACEHOLDER } from '../../processing/resourceProcessor.js';
+import type {
+  ClusterSection,
+  HelmReleaseSummary,
+  NamespaceResourceBlock,
+  OutputGeneratorContext,
+  PodDiagnostics,
+  ResourceData,
+  ResourceEvent,
+  ResourceGraphEdge,
+  TableOfContents,
+} from '../outputGeneratorTypes.js';
+
+// Version of the document structure (major: incompatible changes, minor: additions)
+export const JSON_OUTPUT_SCHEMA_VERSION = '1.1';
+
+// A resource parsed from the fetched output
+export interface JsonOutputResource {
+  kind: string;
+  apiVersion?: string;
+  name: string;
+  namespace?: string; // Undefined for cluster-scoped resources
+  labels: Record<string, string>;
+  manifest: Record<string, unknown>; // The full resource, as fetched (redacted and slimmed if enabled)
+}
+
+// Output that could not be parsed into resources (kubectl tables, or output truncated to fit a token budget)
+export interface JsonOutputRawBlock {
+  namespace?: string;
+  command: string;
+  output: string;
+}
+
+// A resource referenced by a relationship
+export interface JsonOutputResourceRef {
+  kind: string;
+  name: string;
+  namespace?: string;
+}
+
+// An owner, selector or scaling relationship between two resources
+export interface JsonOutputRelationship {
+  type: ResourceGraphEdge['type'];
+  from: JsonOutputResourceRef;
+  to: JsonOutputResourceRef;
+}
+
+// Resource, event and diagnostics counts of a cluster or of the whole document
+export interface JsonOutputCounts {
+  namespaces: number;
+  resources: number;
+  resourcesByKind: Record<string, number>;
+  events: number;
+  podDiagnostics: number;
+}
+
+// Everything collected from one cluster
+export interface JsonOutputCluster {
+  context: string | null; // Kubeconfig context; null unless several clusters are aggregated
+  namespaces: string[];
+  commands: string[]; // The commands used to fetch the resources
+  resources: JsonOutputResource[]; // Namespaced resources, and the namespaces themselves
+  clusterResources: JsonOutputResource[]; // Cluster-scoped resources (nodes, storage classes, RBAC, ...)
+  rawOutputs: JsonOutputRawBlock[];
+  relationships: JsonOutputRelationship[];
+  events: ResourceEvent[];
+  helmReleases: Omit<HelmReleaseSummary, 'resourceKeys'>[];
+  podDiagnostics: PodDiagnostics[];
+  elided: string[]; // Content trimmed to fit the token budget
+  counts: JsonOutputCounts;
+}
+
+// The JSON output document
+export interface JsonOutputDocument {
+  schemaVersion: string;
+  generator: { name: 'kubemix'; generatedAt: string };
+  source: { type: 'cluster' | 'offline'; manifests?: string[] };
+  filters: {
+    namespaces?: string[];
+    excludeNamespaces?: string[];
+    includeResourceTypes?: string[];
+    excludeResourceTypes?: string[];
+    labelSelector?: string;
+    fieldSelector?: string;
+  };
+  redaction: { secretsRedacted: boolean; placeholder: string; redactedSecrets: number };
+  counts: JsonOutputCounts & { clusters: number };
+  clusters: JsonOutputCluster[];
+  part?: TableOfContents; // Only set when the output is split into parts
+  headerText?: string; // output.headerText, if set (since 1.1)
+  instruction?: string; // Content of output.instructionFilePath, if set (since 1.1)
+}
+
+// A Kubernetes object as found in fetched output
+type KubeObject = {
+  kind?: string;
+  apiVersion?: string;
+  metadata?: { name?: string; namespace?: string; labels?: Record<string, string> };
+  items?: unknown[];
+} & Record<string, unknown>;
+
+/**
+ * Parses fetched YAML or JSON output into resources, flattening lists.
+ *
+ * @param output - The fetched output.
+ * @param namespace - The namespace the output was fetched from, for resources that do not name it.
+ * @returns The resources, or undefined if the output is not YAML or JSON (e.g., a kubectl table).
+ */
+export const parseResources = (output: string, namespace?: string): JsonOutputResource[] | undefined => {
+  const trimmed = output.trim();
+  let documents: unknown[];
+  try {
+    if (trimmed.startsWith('{')) {
+      documents = [JSON.parse(trimmed)];
+    } else if (trimmed.includes('apiVersion:')) {
+      const parsed = yaml.parseAllDocuments(trimmed);
+      if (parsed.some((document) => document.errors.length > 0)) return undefined;
+      documents = parsed.map((document) => document.toJS());
+    } else {
+      return undefined;
+    }
+  } catch (error) {
+    logger.debug(`Keeping unparsable output as text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return undefined;
+  }
+
+  const toResources = (values: unknown[]): JsonOutputResource[] =>
+    values.flatMap((value) => {
+      if (!value || typeof value !== 'object') return [];
+      const object = value as KubeObject;
+      if (Array.isArray(object.items)) return toResources(object.items);
+      return [
+        {
+          kind: object.kind ?? 'Unknown',
+          apiVersion: object.apiVersion,
+          name: object.metadata?.name ?? '',
+          namespace: object.metadata?.namespace ?? (object.kind === 'Namespace' ? undefined : namespace),
+          labels: object.metadata?.labels ?? {},
+          manifest: object,
+        },
+      ];
+    });
+  return toResources(documents);
+};
+
+/**
+ * Counts resources by kind.
+ */
+const countByKind = (resources: JsonOutputResource[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const resource of resources) {
+    counts[resource.kind] = (counts[resource.kind] ?? 0) + 1;
+  }
+  return counts;
+};
+
+/**
+ * Builds the JSON representation of a cluster section.
+ */
+const buildJsonCluster = (section: ClusterSection): JsonOutputCluster => {
+  const resources: JsonOutputResource[] = [];
+  const clusterResources: JsonOutputResource[] = [];
+  const rawOutputs: JsonOutputRawBlock[] = [];
+  const elided: string[] = [];
+  const addOutput = (
+    block: { namespace?: string; command: string; output: string; elided?: string[] },
+    target: JsonOutputResource[],
+  ) => {
+    const parsed = parseResources(block.output, block.namespace);
+    if (parsed) {
+      target.push(...parsed);
+    } else if (block.output.trim()) {
+      rawOutputs.push({ namespace: block.namespace, command: block.command, output: block.output });
+    }
+    elided.push(...(block.elided ?? []).map((note) => (block.namespace ? `${block.namespace}: ${note}` : note)));
+  };
+
+  for (const resource of section.resources) {
+    addOutput(resource as ResourceData | NamespaceResourceBlock, resources);
+  }
+  if (section.clusterResources) {
+    addOutput(section.clusterResources, clusterResources);
+  }
+  elided.push(...(section.events?.elided ?? []), ...(section.helmReleases?.elided ?? []));
+  for (const diagnostics of section.podDiagnostics ?? []) {
+    elided.push(
+      ...(diagnostics.elided ?? []).map((note) => `${diagnostics.namespace}/${diagnostics.podName}: ${note}`),
+    );
+  }
+
+  // Relationships name their resources instead of using the internal node ids
+  const nodes = new Map((section.resourceGraph?.nodes ?? []).map((node) => [node.id, node]));
+  const toRef = (id: string): JsonOutputResourceRef | undefined => {
+    const node = nodes.get(id);
+    return node ? { kind: node.kind, name: node.name, namespace: node.namespace } : undefined;
+  };
+  const relationships = (section.resourceGraph?.edges ?? []).flatMap((edge) => {
+    const from = toRef(edge.from);
+    const to = toRef(edge.to);
+    return from && to ? [{ type: edge.type, from, to }] : [];
+  });
+
+  const events = section.events?.events ?? [];
+  const podDiagnostics = (section.podDiagnostics ?? []).map(({ elided: _, ...diagnostics }) => diagnostics);
+  const namespaces =
+    section.namespaceNames ??
+    section.resources.flatMap((resource) => ((resource as ResourceData).kind ? [] : [resource.namespace as string]));
+  const allResources = [...resources, ...clusterResources];
+
+  return {
+    context: section.name ?? null,
+    namespaces,
+    commands: [...section.resources.map((resource) => resource.command), section.clusterResources?.command].filter(
+      (command): command is string => !!command,
+    ),
+    resources,
+    clusterResources,
+    rawOutputs,
+    relationships,
+    events,
+    helmReleases: (section.helmReleases?.releases ?? []).map(({ resourceKeys: _, ...release }) => release),
+    podDiagnostics,
+    elided,
+    counts: {
+      namespaces: namespaces.length,
+      resources: allResources.length,
+      resourcesByKind: countByKind(allResources),
+      events: events.length,
+      podDiagnostics: podDiagnostics.length,
+    },
+  };
+};
+
+/**
+ * Builds the JSON output document from the generator context.
+ *
+ * @param outputGeneratorContext - The clusters and configuration to render.
+ * @param tableOfContents - The parts of a split output, if the output is split.
+ * @returns The document.
+ */
+export const buildJsonOutputDocument = (
+  outputGeneratorContext: OutputGeneratorContext,
+  tableOfContents?: TableOfContents,
+): JsonOutputDocument => {
+  const { config } = outputGeneratorContext;
+  const clusters = outputGeneratorContext.clusters.map(buildJsonCluster);
+  const secretsRedacted = config.security?.redactSecrets !== false;
+  const manifests = [...(config.offline?.directories ?? []), ...(config.offline?.files ?? [])];
+
+  const totalsByKind: Record<string, number> = {};
+  for (const cluster of clusters) {
+    for (const [kind, count] of Object.entries(cluster.counts.resourcesByKind)) {
+      totalsByKind[kind] = (totalsByKind[kind] ?? 0) + count;
+    }
+  }
+  const sum = (count: (cluster: JsonOutputCluster) => number) =>
+    clusters.reduce((total, cluster) => total + count(cluster), 0);
+
+  return {
+    schemaVersion: JSON_OUTPUT_SCHEMA_VERSION,
+    generator: { name: 'kubemix', generatedAt: outputGeneratorContext.generationDate },
+    source: manifests.length ? { type: 'offline', manifests } : { type: 'cluster' },
+    filters: {
+      namespaces: config.filter?.namespaces,
+      excludeNamespaces: config.filter?.excludeNamespaces,
+      includeResourceTypes: config.filter?.includeResourceTypes,
+      excludeResourceTypes: config.filter?.excludeResourceTypes,
+      labelSelector: config.filter?.labelSelector,
+      fieldSelector: config.filter?.fieldSelector,
+    },
+    redaction: {
+      secretsRedacted,
+      placeholder: SECRET_REDACTION_PLACEHOLDER,
+      redactedSecrets: secretsRedacted ? (totalsByKind.Secret ?? 0) : 0,
+    },
+    counts: {
+      clusters: clusters.length,
+      namespaces: sum((cluster) => cluster.counts.namespaces),
+      resources: sum((cluster) => cluster.counts.resources),
+      resourcesByKind: totalsByKind,
+      events: sum((cluster) => cluster.counts.events),
+      podDiagnostics: sum((cluster) => cluster.counts.podDiagnostics),
+    },
+    clusters,
+    part: tableOfContents,
+    headerText: config.output?.headerText?.trim() || undefined,
+    instruction: outputGeneratorContext.instruction || undefined,
+  };
+};
+
+/**
+ * Generates the JSON output document (style 'json') from the generator context.
+ *
+ * @param outputGeneratorContext - The clusters and configuration to render.
+ * @param tableOfContents - The parts of a split output, if the output is split.
+ * @returns The document, serialized with a final newline.
+ */
+export const generateJsonOutput = (
+  outputGeneratorContext: OutputGeneratorContext,
+  tableOfContents?: TableOfContents,
+): string => `${JSON.stringify(buildJsonOutputDocument(outputGeneratorContext, tableOfContents), null, 2)}\n`;
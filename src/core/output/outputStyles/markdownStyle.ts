@@ -18,6 +18,21 @@ export const getMarkdownTemplate = () => {
   a. A header indicating the resource type (e.g., ## Resource: Namespaces)
   b. The exact kubectl command used to fetch the resource.
   c. The full output of the command in a code block.
+{{#if hasResourceSections}}
+- YAML and JSON output is split into one section per resource, grouped by kind under its namespace (e.g., "#### Deployment payments/api"), each with a stable anchor (e.g., #deployment-payments-api). Sections with redacted Secret values are marked "(values redacted)".
+{{/if}}
+{{#if hasClusterResources}}
+- Cluster-scoped resources (nodes, storage classes, RBAC, ...) are listed in their own section after the namespaced resources.
+{{/if}}
+{{#if hasHelmReleases}}
+- Helm releases are listed with their chart, revision, status and user-supplied values in a "Helm Releases" section; the resource overview tags each resource with its release.
+{{/if}}
+{{#if hasEvents}}
+- Recent events, deduplicated by reason and object, follow the resources of their namespace and are listed chronologically in a "Recent Events" section; the resource overview notes the events of each resource.
+{{/if}}
+{{#if multiCluster}}
+- Several clusters are included: the overview, resources and diagnostics are grouped under a "Cluster: <context>" heading per cluster, and every section names its cluster.
+{{/if}}
 {{#if diagnosticsEnabled}}
 5. Diagnostics section for failing pods (if any were found), including:
   a. Detailed description output with status and events.
@@ -38,52 +53,161 @@ export const getMarkdownTemplate = () => {
 </user_provided_header>
 {{/if}}
 
+{{/if}}
+{{#if tableOfContents}}
+# Table of Contents
+This output is split into {{tableOfContents.totalParts}} parts; this is part {{tableOfContents.part}}.
+{{#each tableOfContents.parts}}
+- Part {{this.part}} ({{this.file}}): {{#each this.entries}}{{#unless @first}}, {{/unless}}{{{this}}}{{/each}}
+{{/each}}
+
 {{/if}}
 {{#if resourceTreeEnabled}}
 # Cluster Resource Overview
+{{#each clusters}}
+{{#if this.resourceTreeString}}
+{{#if this.name}}
+## Cluster: {{this.name}}
+{{/if}}
 \`\`\`
-{{{resourceTreeString}}}
+{{{this.resourceTreeString}}}
 \`\`\`
 {{/if}}
+{{/each}}
+{{/if}}
+
+{{#each clusters}}
+{{#if this.name}}
+# Cluster: {{this.name}}
 
+{{/if}}
 # Resources
 
-{{#each resources}}
+{{#each this.resources}}
 {{#if this.kind}}
   {{!-- This is a single resource type (e.g., Namespaces) --}}
   {{#if this.namespace}}
-  ## Resource: {{this.kind}} (Namespace: {{this.namespace}})
+  ## Resource: {{this.kind}} (Namespace: {{this.namespace}}{{#if ../name}}, Cluster: {{../name}}{{/if}})
   {{else}}
-  ## Resource: {{this.kind}}
+  ## Resource: {{this.kind}}{{#if ../name}} (Cluster: {{../name}}){{/if}}
   {{/if}}
 {{else}}
   {{!-- This is a namespace block (FRD-3) with multiple resource types --}}
-  ## Resources in Namespace: {{this.namespace}}
+  ## Resources in Namespace: {{this.namespace}}{{#if ../name}} (Cluster: {{../name}}){{/if}}
 {{/if}}
 \`\`\`bash
 # Command used to generate the output below:
 {{{this.command}}}
 \`\`\`
 
+{{#if this.kinds}}
+{{#each this.kinds}}
+### {{this.kind}}
+
+{{#each this.resources}}
+<a id="{{this.anchor}}"></a>
+#### {{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.redacted}} (values redacted){{/if}}
 \`\`\`
 {{{this.output}}}
 \`\`\`
 
 {{/each}}
-
-{{!-- Diagnostics Section for Failing Pods --}}
-{{#if diagnosticsEnabled}}
-{{#if podDiagnostics}}
-# Diagnostics for Failing Resources
+{{/each}}
 {{else}}
-{{!-- No failing pods found, but diagnostics is enabled --}}
+\`\`\`
+{{{this.output}}}
+\`\`\`
+
+{{/if}}
+{{#if this.elided}}
+> Elided to fit the token budget: {{#each this.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}
+
+{{/if}}
+{{#if this.events}}
+**Events:**
+{{#each this.events}}
+- {{this.lastSeen}} {{this.type}} {{this.reason}} on {{this.kind}}/{{this.name}} (x{{this.count}}): {{{this.message}}}
+{{/each}}
+
+{{/if}}
+{{/each}}
+
+{{!-- Cluster-Scoped Resources Section --}}
+{{#if this.clusterResources}}
+# Cluster-Scoped Resources{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+\`\`\`bash
+# Command used to generate the output below:
+{{{this.clusterResources.command}}}
+\`\`\`
+
+\`\`\`
+{{{this.clusterResources.output}}}
+\`\`\`
+
+{{#if this.clusterResources.elided}}
+> Elided to fit the token budget: {{#each this.clusterResources.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}
+
+{{/if}}
+{{/if}}
+{{!-- Helm Releases Section --}}
+{{#if this.helmReleases}}
+# Helm Releases{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+\`\`\`bash
+# Command used to find the releases (decoded locally from the release Secrets):
+{{{this.helmReleases.command}}}
+\`\`\`
+
+{{#if this.helmReleases.elided}}
+> Elided to fit the token budget: {{#each this.helmReleases.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}
+
+{{/if}}
+{{#each this.helmReleases.releases}}
+## Release: {{this.namespace}}/{{this.name}}{{#if ../name}} (Cluster: {{../name}}){{/if}}
+- Chart: {{this.chart}} {{this.chartVersion}}
+{{#if this.appVersion}}
+- App version: {{this.appVersion}}
+{{/if}}
+- Revision: {{this.revision}}
+- Status: {{this.status}}
+{{#if this.updated}}
+- Last deployed: {{this.updated}}
 {{/if}}
-{{#if podDiagnostics}}
+{{#if this.values}}
 
-{{#each podDiagnostics}}
+User-supplied values:
+\`\`\`yaml
+{{{this.values}}}
+\`\`\`
+{{/if}}
+
+{{/each}}
+{{/if}}
+{{!-- Recent Events Section --}}
+{{#if this.events}}
+# Recent Events{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+\`\`\`bash
+# Command used to generate the events below:
+{{{this.events.command}}}
+\`\`\`
+
+{{#each this.events.events}}
+- {{this.lastSeen}} {{this.type}} {{this.reason}} on {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.kind}}/{{this.name}} (x{{this.count}}{{#if this.firstSeen}}, first seen {{this.firstSeen}}{{/if}}): {{{this.message}}}
+{{/each}}
+
+{{#if this.events.elided}}
+> Elided to fit the token budget: {{#each this.events.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}
+
+{{/if}}
+{{/if}}
+{{!-- Diagnostics Section for Failing Pods --}}
+{{#if @root.diagnosticsEnabled}}
+{{#if this.podDiagnostics}}
+# Diagnostics for Failing Resources{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+
+{{#each this.podDiagnostics}}
 ---
 
-### Pod: {{this.namespace}}/{{this.podName}}
+### Pod: {{this.namespace}}/{{this.podName}}{{#if ../name}} (Cluster: {{../name}}){{/if}}
 
 {{#if this.error}}
 **Note:** Error occurred during diagnostics: {{this.error}}
@@ -118,9 +242,14 @@ export const getMarkdownTemplate = () => {
 \`\`\`
 {{/if}}
 
+{{#if this.elided}}
+> Elided to fit the token budget: {{#each this.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}
+
+{{/if}}
 {{/each}}
 {{/if}}
 {{/if}}
+{{/each}}
 
 {{#if instruction}}
 # Instruction
@@ -131,5 +260,70 @@ export const getMarkdownTemplate = () => {
 `;
 };
 
+// Template of the diff report of two aggregations (kubemix diff, --diff-against)
+export const getMarkdownDiffTemplate = () => {
+  return /* md */ `
+{{{generationHeader}}}
+
+# Summary of Changes
+- Added: {{added.length}}
+- Removed: {{removed.length}}
+- Modified: {{modified.length}}
+- Unchanged: {{unchangedCount}}
+
+Changed fields are listed in diff notation: \`-\` lines hold the value before, \`+\` lines the value after. Field paths use \`[name=...]\` for list items matched by name and \`[n]\` for list positions.
+{{#each warnings}}
+> Not compared: {{{this}}}
+{{/each}}
+{{#unless hasChanges}}
+
+No resources were added, removed or modified.
+{{/unless}}
+{{#if modified.length}}
+
+# Modified Resources
+{{#each modified}}
+
+<a id="{{this.anchor}}"></a>
+## {{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+\`\`\`diff
+{{#each this.changes}}
+{{#if this.before}}
+- {{{this.path}}}: {{{this.before}}}
+{{/if}}
+{{#if this.after}}
++ {{{this.path}}}: {{{this.after}}}
+{{/if}}
+{{/each}}
+\`\`\`
+{{/each}}
+{{/if}}
+{{#if added.length}}
+
+# Added Resources
+{{#each added}}
+
+<a id="added-{{this.anchor}}"></a>
+## {{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+\`\`\`yaml
+{{{this.manifest}}}
+\`\`\`
+{{/each}}
+{{/if}}
+{{#if removed.length}}
+
+# Removed Resources
+{{#each removed}}
+
+<a id="removed-{{this.anchor}}"></a>
+## {{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+\`\`\`yaml
+{{{this.manifest}}}
+\`\`\`
+{{/each}}
+{{/if}}
+`;
+};
+
 // Register helpers if needed (e.g., for formatting output or commands)
 // Handlebars.registerHelper('formatOutput', (outputContent) => { ... });
@@ -0,0 +1,268 @@
+// src/core/output/outputStyles/parsableXmlStyle.ts
+// Well-formed XML output for downstream parsers (output.parsableStyle with the xml style).
+// Unlike the xml template, the document has a single root element, every text and attribute value is escaped, CDATA
+// sections cannot be terminated by their content, and YAML or JSON output is split into one element per resource
+// with kind, name, namespace and command attributes.
+
+import * as yaml from 'yaml';
+import type {
+  ClusterSection,
+  NamespaceResourceBlock,
+  PodDiagnostics,
+  RenderContext,
+  ResourceData,
+  ResourceEvent,
+  ResourceKindGroup,
+} from '../outputGeneratorTypes.js';
+import { parseResources } from './jsonStyle.js';
+
+// Characters that are not allowed in XML 1.0 documents, even escaped (control characters other than tab, LF, CR)
+const INVALID_XML_CHARACTERS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/**
+ * Escapes text for use in XML character data or attribute values.
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Wraps text in a CDATA section, splitting it where the text itself contains the ']]>' terminator.
+ */
+const cdata = (text: string): string =>
+  `<![CDATA[${text.replace(INVALID_XML_CHARACTERS, '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * Renders the attributes of an element, leaving out undefined values.
+ */
+const attributes = (values: Record<string, string | number | undefined>): string =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+
+/**
+ * Renders an element with escaped text content, or an empty element if there is no text.
+ */
+const textElement = (
+  name: string,
+  text: string | undefined,
+  elementAttributes: Record<string, string | number | undefined> = {},
+): string =>
+  text
+    ? `<${name}${attributes(elementAttributes)}>${escapeXml(text)}</${name}>`
+    : `<${name}${attributes(elementAttributes)}/>`;
+
+/**
+ * Renders an element with CDATA content.
+ */
+const cdataElement = (
+  name: string,
+  text: string,
+  elementAttributes: Record<string, string | number | undefined> = {},
+): string => `<${name}${attributes(elementAttributes)}>${cdata(text)}</${name}>`;
+
+/**
+ * Renders the notes about content trimmed to fit the token budget.
+ */
+const renderElided = (elided: string[] | undefined): string[] =>
+  (elided ?? []).map((note) => textElement('elided', `Elided to fit the token budget: ${note}`));
+
+/**
+ * Renders fetched output: one resource element per resource of YAML or JSON output, or a single output element for
+ * output that cannot be split (kubectl tables).
+ */
+const renderFetchedOutput = (block: {
+  kind?: string;
+  namespace?: string;
+  command: string;
+  output: string;
+  kinds?: ResourceKindGroup[];
+}): string[] => {
+  // Namespace blocks split into per-resource sections also carry their anchors as ids
+  if (block.kinds) {
+    return block.kinds.flatMap((group) =>
+      group.resources.map((resource) =>
+        cdataElement('resource', resource.output, {
+          kind: resource.kind,
+          name: resource.name,
+          namespace: resource.namespace,
+          command: block.command,
+          id: resource.anchor,
+          redacted: resource.redacted ? 'true' : undefined,
+        }),
+      ),
+    );
+  }
+  const resources = parseResources(block.output, block.namespace);
+  if (!resources) {
+    return [
+      cdataElement('output', block.output, { kind: block.kind, namespace: block.namespace, command: block.command }),
+    ];
+  }
+  const isJson = block.output.trim().startsWith('{');
+  return resources.map((resource) =>
+    cdataElement(
+      'resource',
+      isJson ? JSON.stringify(resource.manifest, null, 2) : yaml.stringify(resource.manifest).trimEnd(),
+      { kind: resource.kind, name: resource.name, namespace: resource.namespace, command: block.command },
+    ),
+  );
+};
+
+/**
+ * Renders an event as an element with its attributes and message.
+ */
+const renderEvent = (event: ResourceEvent): string =>
+  textElement('event', event.message, {
+    type: event.type,
+    reason: event.reason,
+    kind: event.kind,
+    name: event.name,
+    namespace: event.namespace,
+    count: event.count,
+    first_seen: event.firstSeen,
+    last_seen: event.lastSeen,
+  });
+
+/**
+ * Renders the diagnostics of a failing pod.
+ */
+const renderDiagnostics = (diagnostics: PodDiagnostics): string[] => [
+  `<pod_diagnostics${attributes({ namespace: diagnostics.namespace, pod: diagnostics.podName })}>`,
+  cdataElement('description', diagnostics.description, { command: diagnostics.describeCommand }),
+  cdataElement('logs', diagnostics.logs, { command: diagnostics.logsCommand }),
+  ...(diagnostics.prevLogs !== undefined
+    ? [cdataElement('previous_logs', diagnostics.prevLogs, { command: diagnostics.prevLogsCommand })]
+    : []),
+  ...(diagnostics.error ? [textElement('error', diagnostics.error)] : []),
+  ...renderElided(diagnostics.elided),
+  '</pod_diagnostics>',
+];
+
+/**
+ * Renders the sections of a cluster.
+ */
+const renderCluster = (section: ClusterSection, renderContext: RenderContext): string[] => {
+  const lines = [`<cluster${attributes({ name: section.name })}>`];
+
+  if (renderContext.resourceTreeEnabled && section.resourceTreeString) {
+    lines.push(cdataElement('resource_overview', section.resourceTreeString));
+  }
+
+  lines.push('<resources>');
+  for (const resource of section.resources) {
+    if ((resource as ResourceData).kind) {
+      lines.push(...renderFetchedOutput(resource));
+      continue;
+    }
+    const block = resource as NamespaceResourceBlock;
+    lines.push(
+      `<namespace${attributes({ name: block.namespace })}>`,
+      ...renderFetchedOutput(block),
+      ...(block.events?.length ? ['<events>', ...block.events.map(renderEvent), '</events>'] : []),
+      ...renderElided(block.elided),
+      '</namespace>',
+    );
+  }
+  lines.push('</resources>');
+
+  if (section.clusterResources) {
+    lines.push(
+      '<cluster_scoped_resources>',
+      ...(section.clusterResources.output ? renderFetchedOutput(section.clusterResources) : []),
+      ...renderElided(section.clusterResources.elided),
+      '</cluster_scoped_resources>',
+    );
+  }
+
+  if (section.helmReleases) {
+    lines.push(`<helm_releases${attributes({ command: section.helmReleases.command })}>`);
+    for (const release of section.helmReleases.releases) {
+      const releaseAttributes = attributes({
+        name: release.name,
+        namespace: release.namespace,
+        chart: release.chart,
+        chart_version: release.chartVersion,
+        app_version: release.appVersion,
+        revision: release.revision,
+        status: release.status,
+        updated: release.updated,
+      });
+      lines.push(
+        release.values
+          ? `<helm_release${releaseAttributes}>${cdataElement('values', release.values)}</helm_release>`
+          : `<helm_release${releaseAttributes}/>`,
+      );
+    }
+    lines.push(...renderElided(section.helmReleases.elided), '</helm_releases>');
+  }
+
+  if (section.events) {
+    lines.push(
+      `<recent_events${attributes({ command: section.events.command })}>`,
+      ...section.events.events.map(renderEvent),
+      ...renderElided(section.events.elided),
+      '</recent_events>',
+    );
+  }
+
+  if (renderContext.diagnosticsEnabled && section.podDiagnostics?.length) {
+    lines.push('<diagnostics>', ...section.podDiagnostics.flatMap(renderDiagnostics), '</diagnostics>');
+  }
+
+  lines.push('</cluster>');
+  return lines;
+};
+
+/**
+ * Generates the parsable XML output: a well-formed document with a single kubemix root element.
+ *
+ * @param renderContext - The context also used to render the templates.
+ * @returns The XML document, with a final newline.
+ */
+export const generateParsableXmlOutput = (renderContext: RenderContext): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kubemix>',
+    textElement('header', renderContext.generationHeader),
+  ];
+
+  if (renderContext.preambleEnabled) {
+    lines.push(
+      '<cluster_summary>',
+      textElement('purpose', renderContext.summaryPurpose),
+      textElement('file_format', renderContext.summaryFileFormat),
+      textElement('usage_guidelines', renderContext.summaryUsageGuidelines),
+      textElement('notes', renderContext.summaryNotes),
+      ...(renderContext.headerText ? [textElement('user_provided_header', renderContext.headerText)] : []),
+      '</cluster_summary>',
+    );
+  }
+
+  const tableOfContents = renderContext.tableOfContents;
+  if (tableOfContents) {
+    lines.push(
+      `<table_of_contents${attributes({ part: tableOfContents.part, total_parts: tableOfContents.totalParts })}>`,
+      ...tableOfContents.parts.map((part) =>
+        textElement('part', part.entries.join(', '), { number: part.part, file: part.file }),
+      ),
+      '</table_of_contents>',
+    );
+  }
+
+  for (const section of renderContext.clusters) {
+    lines.push(...renderCluster(section, renderContext));
+  }
+
+  if (renderContext.instruction) {
+    lines.push(textElement('instruction', renderContext.instruction));
+  }
+  lines.push('</kubemix>');
+  return `${lines.join('\n')}\n`;
+};
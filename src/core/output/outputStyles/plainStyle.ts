@@ -27,6 +27,21 @@ File Format:
   d. Another separator line
   e. The full output of the command
   f. A blank line
+{{#if hasResourceSections}}
+- YAML and JSON output is split into one section per resource, grouped by kind under its namespace (e.g., "--- Deployment payments/api ---"). Sections with redacted Secret values are marked "(values redacted)".
+{{/if}}
+{{#if hasClusterResources}}
+- Cluster-scoped resources (nodes, storage classes, RBAC, ...) are listed in their own section after the resources.
+{{/if}}
+{{#if hasHelmReleases}}
+- Helm releases are listed with their chart, revision, status and user-supplied values in a Helm Releases section.
+{{/if}}
+{{#if hasEvents}}
+- Recent events, deduplicated by reason and object, follow the resources of their namespace and are listed chronologically in a Recent Events section.
+{{/if}}
+{{#if multiCluster}}
+- Several clusters are included: the overview, resources and cluster-scoped sections are repeated per cluster, labelled with the kubeconfig context.
+{{/if}}
 
 Usage Guidelines:
 -----------------
@@ -43,37 +58,121 @@ User Provided Header:
 {{{headerText}}}
 {{/if}}
 
+{{/if}}
+{{#if tableOfContents}}
+${PLAIN_LONG_SEPARATOR}
+Table of Contents (part {{tableOfContents.part}} of {{tableOfContents.totalParts}})
+${PLAIN_LONG_SEPARATOR}
+{{#each tableOfContents.parts}}
+Part {{this.part}} ({{this.file}}): {{#each this.entries}}{{#unless @first}}, {{/unless}}{{{this}}}{{/each}}
+{{/each}}
+
 {{/if}}
 {{#if resourceTreeEnabled}}
+{{#each clusters}}
+{{#if this.resourceTreeString}}
 ${PLAIN_LONG_SEPARATOR}
-Cluster Resource Overview
+Cluster Resource Overview{{#if this.name}} (Cluster: {{this.name}}){{/if}}
 ${PLAIN_LONG_SEPARATOR}
-{{{resourceTreeString}}}
+{{{this.resourceTreeString}}}
+
+{{/if}}
+{{/each}}
+{{/if}}
+{{#each clusters}}
+${PLAIN_LONG_SEPARATOR}
+Resources{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+${PLAIN_LONG_SEPARATOR}
+
+{{#each this.resources}}
+${PLAIN_SEPARATOR}
+{{#if this.kind}}
+Resource: {{this.kind}}
+{{else}}
+Resources in Namespace: {{this.namespace}}
+{{/if}}
+Command Used: {{{this.command}}}
+${PLAIN_SEPARATOR}
+{{#if this.kinds}}
+{{#each this.kinds}}
+Kind: {{this.kind}}
+
+{{#each this.resources}}
+--- {{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.redacted}} (values redacted){{/if}} ---
+{{{this.output}}}
+
+{{/each}}
+{{/each}}
+{{else}}
+{{{this.output}}}
+
+{{/if}}
+{{#if this.elided}}
+[Elided to fit the token budget: {{#each this.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}]
 
 {{/if}}
+{{#if this.events}}
+Events:
+{{#each this.events}}
+- {{this.lastSeen}} {{this.type}} {{this.reason}} on {{this.kind}}/{{this.name}} (x{{this.count}}): {{{this.message}}}
+{{/each}}
+
+{{/if}}
+{{/each}}
+
+{{#if this.clusterResources}}
 ${PLAIN_LONG_SEPARATOR}
-Resources
+Cluster-Scoped Resources{{#if this.name}} (Cluster: {{this.name}}){{/if}}
 ${PLAIN_LONG_SEPARATOR}
 
 ${PLAIN_SEPARATOR}
-Resource: {{resourceKind}}
-Command Used: {{{kubectlCommand}}}
+Command Used: {{{this.clusterResources.command}}}
 ${PLAIN_SEPARATOR}
-{{{resourceOutput}}}
+{{{this.clusterResources.output}}}
 
+{{#if this.clusterResources.elided}}
+[Elided to fit the token budget: {{#each this.clusterResources.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}]
 
-{{!-- Placeholder for iterating over multiple resource types later --}}
-{{!--
-{{#each resources}}
+{{/if}}
+{{/if}}
+{{#if this.helmReleases}}
+${PLAIN_LONG_SEPARATOR}
+Helm Releases{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+${PLAIN_LONG_SEPARATOR}
+Command Used: {{{this.helmReleases.command}}}
+
+{{#if this.helmReleases.elided}}
+[Elided to fit the token budget: {{#each this.helmReleases.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}]
+
+{{/if}}
+{{#each this.helmReleases.releases}}
 ${PLAIN_SEPARATOR}
-Resource: {{this.kind}} ({{this.metadata.name}}{{#if this.metadata.namespace}} in {{this.metadata.namespace}}{{/if}})
-Command Used: {{{this.command}}}
+Release: {{this.namespace}}/{{this.name}}
+Chart: {{this.chart}} {{this.chartVersion}}{{#if this.appVersion}} (app version {{this.appVersion}}){{/if}}
+Revision: {{this.revision}}, Status: {{this.status}}{{#if this.updated}}, Last deployed: {{this.updated}}{{/if}}
 ${PLAIN_SEPARATOR}
-{{{this.output}}}
+{{#if this.values}}
+{{{this.values}}}
+{{/if}}
 
 {{/each}}
---}}
+{{/if}}
+{{#if this.events}}
+${PLAIN_LONG_SEPARATOR}
+Recent Events{{#if this.name}} (Cluster: {{this.name}}){{/if}}
+${PLAIN_LONG_SEPARATOR}
+Command Used: {{{this.events.command}}}
+
+{{#each this.events.events}}
+- {{this.lastSeen}} {{this.type}} {{this.reason}} on {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.kind}}/{{this.name}} (x{{this.count}}): {{{this.message}}}
+{{/each}}
 
+{{#if this.events.elided}}
+[Elided to fit the token budget: {{#each this.events.elided}}{{#unless @first}}; {{/unless}}{{{this}}}{{/each}}]
+
+{{/if}}
+{{/if}}
+{{/each}}
 {{#if instruction}}
 ${PLAIN_LONG_SEPARATOR}
 Instruction
@@ -86,3 +185,73 @@ End of Kubernetes Resource Aggregation
 ${PLAIN_LONG_SEPARATOR}
 `;
 };
+
+// Template of the diff report of two aggregations (kubemix diff, --diff-against)
+export const getPlainDiffTemplate = () => {
+  return `
+{{{generationHeader}}}
+
+${PLAIN_LONG_SEPARATOR}
+Summary of Changes
+${PLAIN_LONG_SEPARATOR}
+Added: {{added.length}}
+Removed: {{removed.length}}
+Modified: {{modified.length}}
+Unchanged: {{unchangedCount}}
+
+Changed fields are listed in diff notation: "-" lines hold the value before, "+" lines the value after. Field paths use [name=...] for list items matched by name and [n] for list positions.
+{{#each warnings}}
+[Not compared: {{{this}}}]
+{{/each}}
+{{#unless hasChanges}}
+
+No resources were added, removed or modified.
+{{/unless}}
+{{#if modified.length}}
+
+${PLAIN_LONG_SEPARATOR}
+Modified Resources
+${PLAIN_LONG_SEPARATOR}
+{{#each modified}}
+
+${PLAIN_SEPARATOR}
+{{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+${PLAIN_SEPARATOR}
+{{#each this.changes}}
+{{#if this.before}}
+- {{{this.path}}}: {{{this.before}}}
+{{/if}}
+{{#if this.after}}
++ {{{this.path}}}: {{{this.after}}}
+{{/if}}
+{{/each}}
+{{/each}}
+{{/if}}
+{{#if added.length}}
+
+${PLAIN_LONG_SEPARATOR}
+Added Resources
+${PLAIN_LONG_SEPARATOR}
+{{#each added}}
+
+${PLAIN_SEPARATOR}
+{{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+${PLAIN_SEPARATOR}
+{{{this.manifest}}}
+{{/each}}
+{{/if}}
+{{#if removed.length}}
+
+${PLAIN_LONG_SEPARATOR}
+Removed Resources
+${PLAIN_LONG_SEPARATOR}
+{{#each removed}}
+
+${PLAIN_SEPARATOR}
+{{this.kind}} {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.name}}{{#if this.cluster}} (Cluster: {{this.cluster}}){{/if}}
+${PLAIN_SEPARATOR}
+{{{this.manifest}}}
+{{/each}}
+{{/if}}
+`;
+};
@@ -18,6 +18,21 @@ export const getXmlTemplate = () => {
     - Resource kind, name, and namespace as attributes.
     - The kubectl command used to fetch the resource.
     - The full output of the resource.
+  {{#if hasResourceSections}}
+  - YAML and JSON output is split into one manifest per resource, grouped by kind, with kind, name, namespace and id attributes (the id is stable across runs). Manifests with redacted Secret values have a redacted="true" attribute.
+  {{/if}}
+  {{#if hasClusterResources}}
+  - Cluster-scoped resources (nodes, storage classes, RBAC, ...) are listed in the cluster_scoped_resources section.
+  {{/if}}
+  {{#if hasHelmReleases}}
+  - Helm releases are listed in the helm_releases section with their chart, revision, status and user-supplied values.
+  {{/if}}
+  {{#if hasEvents}}
+  - Recent events, deduplicated by reason and object, are attached to the resources of their namespace and listed chronologically in the recent_events section.
+  {{/if}}
+  {{#if multiCluster}}
+  - Several clusters are included: every section carries a cluster attribute naming the kubeconfig context it was collected from.
+  {{/if}}
   </file_format>
 
   <usage_guidelines>
@@ -39,47 +54,133 @@ export const getXmlTemplate = () => {
   </cluster_summary>
   {{/if}}
 
+  {{#if tableOfContents}}
+  <table_of_contents part="{{tableOfContents.part}}" total_parts="{{tableOfContents.totalParts}}">
+  {{#each tableOfContents.parts}}
+  <part number="{{this.part}}" file="{{this.file}}">{{#each this.entries}}{{#unless @first}}, {{/unless}}{{this}}{{/each}}</part>
+  {{/each}}
+  </table_of_contents>
+  {{/if}}
+
   {{#if resourceTreeEnabled}}
-  <cluster_resource_overview>
-  {{{resourceTreeString}}}
+  {{#each clusters}}
+  {{#if this.resourceTreeString}}
+  <cluster_resource_overview{{#if this.name}} cluster="{{this.name}}"{{/if}}>
+  {{{this.resourceTreeString}}}
   </cluster_resource_overview>
   {{/if}}
+  {{/each}}
+  {{/if}}
 
-  <resources>
+  {{#each clusters}}
+  <resources{{#if this.name}} cluster="{{this.name}}"{{/if}}>
   This section contains the output of the aggregated Kubernetes resources.
 
-  <resource kind="{{resourceKind}}">
+  {{#each this.resources}}
+  <resource{{#if this.kind}} kind="{{this.kind}}"{{/if}}{{#if this.namespace}} namespace="{{this.namespace}}"{{/if}}>
     <command_used>
       <![CDATA[
-  {{{kubectlCommand}}}
+  {{{this.command}}}
       ]]>
     </command_used>
+    {{#if this.kinds}}
+    {{#each this.kinds}}
+    <kind name="{{this.kind}}">
+    {{#each this.resources}}
+    <manifest kind="{{this.kind}}" name="{{this.name}}"{{#if this.namespace}} namespace="{{this.namespace}}"{{/if}} id="{{this.anchor}}"{{#if this.redacted}} redacted="true"{{/if}}>
+      <![CDATA[
+  {{{this.output}}}
+      ]]>
+    </manifest>
+    {{/each}}
+    </kind>
+    {{/each}}
+    {{else}}
     <manifest>
       <![CDATA[
-  {{{resourceOutput}}}
+  {{{this.output}}}
       ]]>
     </manifest>
+    {{/if}}
+    {{#if this.elided}}
+    <elided>Elided to fit the token budget: {{#each this.elided}}{{#unless @first}}; {{/unless}}{{this}}{{/each}}</elided>
+    {{/if}}
+    {{#if this.events}}
+    <events>
+      <![CDATA[
+  {{#each this.events}}
+  {{this.lastSeen}} {{this.type}} {{this.reason}} on {{this.kind}}/{{this.name}} (x{{this.count}}): {{{this.message}}}
+  {{/each}}
+      ]]>
+    </events>
+    {{/if}}
   </resource>
+  {{/each}}
 
-  {{!-- Placeholder for iterating over multiple resource types later --}}
-  {{!--
-  {{#each resources}}
-  <resource kind="{{this.kind}}" name="{{this.metadata.name}}" {{#if this.metadata.namespace}}namespace="{{this.metadata.namespace}}"{{/if}}>
+  </resources>
+
+  {{#if this.clusterResources}}
+  <cluster_scoped_resources{{#if this.name}} cluster="{{this.name}}"{{/if}}>
     <command_used>
       <![CDATA[
-  {{{this.command}}}
+  {{{this.clusterResources.command}}}
       ]]>
     </command_used>
     <manifest>
       <![CDATA[
-  {{{this.output}}}
+  {{{this.clusterResources.output}}}
       ]]>
     </manifest>
-  </resource>
-  {{/each}}
-  --}}
+    {{#if this.clusterResources.elided}}
+    <elided>Elided to fit the token budget: {{#each this.clusterResources.elided}}{{#unless @first}}; {{/unless}}{{this}}{{/each}}</elided>
+    {{/if}}
+  </cluster_scoped_resources>
+  {{/if}}
 
-  </resources>
+  {{#if this.helmReleases}}
+  <helm_releases{{#if this.name}} cluster="{{this.name}}"{{/if}}>
+    <command_used>
+      <![CDATA[
+  {{{this.helmReleases.command}}}
+      ]]>
+    </command_used>
+    {{#if this.helmReleases.elided}}
+    <elided>Elided to fit the token budget: {{#each this.helmReleases.elided}}{{#unless @first}}; {{/unless}}{{this}}{{/each}}</elided>
+    {{/if}}
+    {{#each this.helmReleases.releases}}
+    <helm_release name="{{this.name}}" namespace="{{this.namespace}}" chart="{{this.chart}}" chart_version="{{this.chartVersion}}"{{#if this.appVersion}} app_version="{{this.appVersion}}"{{/if}} revision="{{this.revision}}" status="{{this.status}}"{{#if this.updated}} updated="{{this.updated}}"{{/if}}>
+      {{#if this.values}}
+      <values>
+        <![CDATA[
+  {{{this.values}}}
+        ]]>
+      </values>
+      {{/if}}
+    </helm_release>
+    {{/each}}
+  </helm_releases>
+  {{/if}}
+
+  {{#if this.events}}
+  <recent_events{{#if this.name}} cluster="{{this.name}}"{{/if}}>
+    <command_used>
+      <![CDATA[
+  {{{this.events.command}}}
+      ]]>
+    </command_used>
+    <events>
+      <![CDATA[
+  {{#each this.events.events}}
+  {{this.lastSeen}} {{this.type}} {{this.reason}} on {{#if this.namespace}}{{this.namespace}}/{{/if}}{{this.kind}}/{{this.name}} (x{{this.count}}): {{{this.message}}}
+  {{/each}}
+      ]]>
+    </events>
+    {{#if this.events.elided}}
+    <elided>Elided to fit the token budget: {{#each this.events.elided}}{{#unless @first}}; {{/unless}}{{this}}{{/each}}</elided>
+    {{/if}}
+  </recent_events>
+  {{/if}}
+  {{/each}}
 
   {{#if instruction}}
   <instruction>
@@ -90,3 +191,64 @@ export const getXmlTemplate = () => {
   {{!-- End of Kubernetes Resource Aggregation --}}
   `;
 };
+
+// Template of the diff report of two aggregations (kubemix diff, --diff-against)
+export const getXmlDiffTemplate = () => {
+  return /* xml */ `
+  {{{generationHeader}}}
+
+  <change_summary added="{{added.length}}" removed="{{removed.length}}" modified="{{modified.length}}" unchanged="{{unchangedCount}}">
+  Each modified resource lists its changed fields: the before and after values are compact JSON, and field paths use [name=...] for list items matched by name and [n] for list positions.
+  {{#each warnings}}
+  <not_compared>{{this}}</not_compared>
+  {{/each}}
+  </change_summary>
+
+  {{#if modified.length}}
+  <modified_resources>
+  {{#each modified}}
+  <resource kind="{{this.kind}}" name="{{this.name}}"{{#if this.namespace}} namespace="{{this.namespace}}"{{/if}}{{#if this.cluster}} cluster="{{this.cluster}}"{{/if}} id="{{this.anchor}}">
+    {{#each this.changes}}
+    <change path="{{this.path}}" type="{{this.type}}">
+      {{#if this.before}}
+      <before><![CDATA[{{{this.before}}}]]></before>
+      {{/if}}
+      {{#if this.after}}
+      <after><![CDATA[{{{this.after}}}]]></after>
+      {{/if}}
+    </change>
+    {{/each}}
+  </resource>
+  {{/each}}
+  </modified_resources>
+  {{/if}}
+
+  {{#if added.length}}
+  <added_resources>
+  {{#each added}}
+  <resource kind="{{this.kind}}" name="{{this.name}}"{{#if this.namespace}} namespace="{{this.namespace}}"{{/if}}{{#if this.cluster}} cluster="{{this.cluster}}"{{/if}} id="{{this.anchor}}">
+    <manifest>
+      <![CDATA[
+  {{{this.manifest}}}
+      ]]>
+    </manifest>
+  </resource>
+  {{/each}}
+  </added_resources>
+  {{/if}}
+
+  {{#if removed.length}}
+  <removed_resources>
+  {{#each removed}}
+  <resource kind="{{this.kind}}" name="{{this.name}}"{{#if this.namespace}} namespace="{{this.namespace}}"{{/if}}{{#if this.cluster}} cluster="{{this.cluster}}"{{/if}} id="{{this.anchor}}">
+    <manifest>
+      <![CDATA[
+  {{{this.manifest}}}
+      ]]>
+    </manifest>
+  </resource>
+  {{/each}}
+  </removed_resources>
+  {{/if}}
+  `;
+};
@@ -1,19 +1,195 @@
 import path from 'node:path'; // Keep for potential future use with nested resources
+import type { ResourceGraph, ResourceGraphEdge, ResourceGraphNode } from './outputGeneratorTypes.js';
+
+// Label of the tree branch holding cluster-scoped resources
+const CLUSTER_SCOPED_BRANCH = '(cluster-scoped)';
+
+// Define a consistent order for resource kinds for improved readability
+const resourceKindDisplayOrder = [
+  'configmaps',
+  'deployments.apps',
+  'pods',
+  'secrets',
+  'services',
+  // Add more kinds here as needed in the desired order
+];
+
+/**
+ * Builds the key identifying a resource in the tree, for annotations (e.g., events, Helm releases).
+ *
+ * @param namespace - The namespace of the resource (undefined for cluster-scoped resources).
+ * @param resourceType - The canonical resource type (e.g., 'pods').
+ * @param name - The resource name.
+ * @returns The key.
+ */
+export const getResourceTreeKey = (namespace: string | undefined, resourceType: string, name: string): string =>
+  `${namespace ?? ''}/${resourceType}/${name}`;
+
+// Maximum number of selected resources listed per relationship line
+const MAX_LINKED_RESOURCES = 5;
+
+// Annotations and relationships shown in the tree
+interface TreeDecorations {
+  resourceAnnotations?: Map<string, string>; // Annotations by resource key, appended to the resource names
+  graph?: ResourceGraph; // Relationships: owned resources are nested below their owners
+}
+
+// Relationships of the graph indexed by node id
+interface GraphIndex {
+  nodes: Map<string, ResourceGraphNode>;
+  owned: Map<string, string[]>; // Owner id -> owned ids
+  links: Map<string, ResourceGraphEdge[]>; // Selecting/scaling id -> 'selects' and 'scales' edges
+  ownedIds: Set<string>; // Ids of resources shown below their owner
+}
+
+const indexGraph = (graph: ResourceGraph): GraphIndex => {
+  const index: GraphIndex = {
+    nodes: new Map(graph.nodes.map((node) => [node.id, node])),
+    owned: new Map(),
+    links: new Map(),
+    ownedIds: new Set(),
+  };
+  for (const edge of graph.edges) {
+    if (edge.type === 'owns') {
+      index.owned.set(edge.from, [...(index.owned.get(edge.from) ?? []), edge.to]);
+      index.ownedIds.add(edge.to);
+    } else {
+      index.links.set(edge.from, [...(index.links.get(edge.from) ?? []), edge]);
+    }
+  }
+  return index;
+};
+
+/**
+ * Appends the relationships of a resource below it: owned resources (recursively) and selected or scaled resources.
+ */
+const appendRelationships = (
+  treeLines: string[],
+  id: string,
+  indent: string,
+  index: GraphIndex,
+  resourceAnnotations: Map<string, string> | undefined,
+  visited: Set<string>,
+): void => {
+  visited.add(id);
+
+  const formatNode = (nodeId: string) => {
+    const node = index.nodes.get(nodeId);
+    return node ? `${node.resourceType}/${node.name}` : nodeId;
+  };
+
+  for (const ownedId of [...(index.owned.get(id) ?? [])].sort((a, b) => a.localeCompare(b))) {
+    if (visited.has(ownedId)) continue;
+    const annotation = resourceAnnotations?.get(ownedId);
+    treeLines.push(`${indent}${formatNode(ownedId)}${annotation ? `  (${annotation})` : ''}`);
+    appendRelationships(treeLines, ownedId, `${indent}  `, index, resourceAnnotations, visited);
+  }
+
+  for (const type of ['selects', 'scales'] as const) {
+    const targets = (index.links.get(id) ?? [])
+      .filter((edge) => edge.type === type)
+      .map((edge) => formatNode(edge.to))
+      .sort((a, b) => a.localeCompare(b));
+    if (targets.length === 0) continue;
+    const shown = targets.slice(0, MAX_LINKED_RESOURCES).join(', ');
+    const more = targets.length > MAX_LINKED_RESOURCES ? ` (+${targets.length - MAX_LINKED_RESOURCES} more)` : '';
+    treeLines.push(`${indent}-> ${type} ${shown}${more}`);
+  }
+};
+
+/**
+ * Appends the resource kinds and their resource names to the tree lines, indented below their parent.
+ * With a relationship graph, owned resources are nested below their owners instead of their own kind.
+ *
+ * @param treeLines - The tree lines to append to.
+ * @param resourcesByKind - A record mapping resource kinds to resource names.
+ * @param namespace - The namespace of the resources (undefined for cluster-scoped resources).
+ * @param decorations - Optional annotations and relationships of the resources.
+ */
+const appendResourceKinds = (
+  treeLines: string[],
+  resourcesByKind: Record<string, string[]>,
+  namespace?: string,
+  decorations: TreeDecorations = {},
+): void => {
+  const { resourceAnnotations } = decorations;
+  const index = decorations.graph ? indexGraph(decorations.graph) : undefined;
+  const isShownBelowOwner = (kind: string, resource: string) =>
+    index?.ownedIds.has(getResourceTreeKey(namespace, kind, resource)) ?? false;
+
+  // Determine which resource kinds exist (and have resources that are not shown below their owner)
+  const existingKinds = Object.keys(resourcesByKind).filter(
+    (kind) =>
+      Array.isArray(resourcesByKind[kind]) &&
+      resourcesByKind[kind].some((resource) => !isShownBelowOwner(kind, resource)),
+  );
+
+  // Sort resource kinds based on the predefined order and then alphabetically for any not in the predefined list
+  const sortedKinds = existingKinds.sort((a, b) => {
+    const indexA = resourceKindDisplayOrder.indexOf(a);
+    const indexB = resourceKindDisplayOrder.indexOf(b);
+
+    // If both are in the order list, use that order
+    if (indexA >= 0 && indexB >= 0) {
+      return indexA - indexB;
+    }
+
+    // If only one is in the order list, prioritize it
+    if (indexA >= 0) return -1;
+    if (indexB >= 0) return 1;
+
+    // Otherwise, sort alphabetically
+    return a.localeCompare(b);
+  });
+
+  // Add each resource kind and its resources
+  for (const kind of sortedKinds) {
+    // Sort resources alphabetically
+    const sortedResources = resourcesByKind[kind]
+      .filter((resource) => !isShownBelowOwner(kind, resource))
+      .sort((a, b) => a.localeCompare(b));
+
+    // Add kind header with proper indentation
+    treeLines.push(`  ${kind}:`);
+
+    // Add each resource with indentation, followed by its relationships
+    for (const resource of sortedResources) {
+      const key = getResourceTreeKey(namespace, kind, resource);
+      const annotation = resourceAnnotations?.get(key);
+      treeLines.push(annotation ? `    ${resource}  (${annotation})` : `    ${resource}`);
+      if (index) {
+        appendRelationships(treeLines, key, '      ', index, resourceAnnotations, new Set());
+      }
+    }
+  }
+};
 
 /**
  * Generates a hierarchical string representation of the cluster resource tree,
- * showing namespaces and multiple resource types within each namespace.
+ * showing cluster-scoped resources, namespaces and multiple resource types within each namespace.
  *
  * @param namespaces - An array of namespace names.
  * @param resourcesByNamespace - A record mapping namespace names to records of resource kinds and their names.
+ * @param clusterResourcesByKind - Optional record mapping cluster-scoped resource kinds to their names.
+ * @param decorations - Optional annotations by resource key (see getResourceTreeKey) shown next to resources,
+ *   and the relationship graph used to nest owned resources below their owners.
  * @returns A string representing the hierarchical resource tree.
  */
 export const generateResourceTreeString = (
   namespaces: string[],
   resourcesByNamespace?: Record<string, Record<string, string[]>> | Record<string, string[]>,
+  clusterResourcesByKind?: Record<string, string[]>,
+  decorations: TreeDecorations = {},
 ): string => {
+  // Cluster-scoped resources get their own branch above the namespaces
+  const clusterLines: string[] = [];
+  if (clusterResourcesByKind && Object.values(clusterResourcesByKind).some((names) => names.length > 0)) {
+    clusterLines.push(CLUSTER_SCOPED_BRANCH);
+    appendResourceKinds(clusterLines, clusterResourcesByKind, undefined, decorations);
+  }
+
   if (!namespaces || namespaces.length === 0) {
-    return '(No namespaces found or retrieved)';
+    return [...clusterLines, '(No namespaces found or retrieved)'].join('\n');
   }
 
   // Sorting alphabetically for consistent output.
@@ -21,7 +197,7 @@ export const generateResourceTreeString = (
 
   // If no resources data is provided, fall back to a simple namespace list
   if (!resourcesByNamespace) {
-    return sortedNamespaces.join('\n');
+    return [...clusterLines, ...sortedNamespaces].join('\n');
   }
 
   // Handle legacy podsByNamespace format for backward compatibility
@@ -46,73 +222,14 @@ export const generateResourceTreeString = (
   }
 
   // Build the hierarchical tree with resources under namespaces
-  const treeLines: string[] = [];
-
-  // Define a consistent order for resource kinds for improved readability
-  const resourceKindDisplayOrder = [
-    'configmaps',
-    'deployments',
-    'pods',
-    'secrets',
-    'services',
-    // Add more kinds here as needed in the desired order
-  ];
+  const treeLines: string[] = [...clusterLines];
 
   for (const namespace of sortedNamespaces) {
     // Add the namespace as a top-level item
     treeLines.push(namespace);
 
-    // Get resources for this namespace
-    const namespaceResources = typedResourcesByNamespace[namespace] || {};
-
-    // Determine which resource kinds exist in this namespace
-    const existingKinds = Object.keys(namespaceResources).filter(
-      (kind) => Array.isArray(namespaceResources[kind]) && namespaceResources[kind].length > 0,
-    );
-
-    if (existingKinds.length === 0) {
-      // If no resources found for this namespace, add an empty entry
-      continue;
-    }
-
-    // Sort resource kinds based on the predefined order and then alphabetically for any not in the predefined list
-    const sortedKinds = existingKinds.sort((a, b) => {
-      const indexA = resourceKindDisplayOrder.indexOf(a);
-      const indexB = resourceKindDisplayOrder.indexOf(b);
-
-      // If both are in the order list, use that order
-      if (indexA >= 0 && indexB >= 0) {
-        return indexA - indexB;
-      }
-
-      // If only one is in the order list, prioritize it
-      if (indexA >= 0) return -1;
-      if (indexB >= 0) return 1;
-
-      // Otherwise, sort alphabetically
-      return a.localeCompare(b);
-    });
-
-    // Add each resource kind and its resources
-    for (const kind of sortedKinds) {
-      const resources = namespaceResources[kind] || [];
-
-      if (resources.length > 0) {
-        // Sort resources alphabetically
-        const sortedResources = [...resources].sort((a, b) => a.localeCompare(b));
-
-        // Add kind header with proper indentation
-        treeLines.push(`  ${kind}:`);
-
-        // Add each resource with indentation
-        for (const resource of sortedResources) {
-          treeLines.push(`    ${resource}`);
-        }
-      } else {
-        // For kinds with no resources (shouldn't happen given our filter above)
-        treeLines.push(`  ${kind}:  # none`);
-      }
-    }
+    // Add the resources of this namespace, if any
+    appendResourceKinds(treeLines, typedResourcesByNamespace[namespace] || {}, namespace, decorations);
   }
 
   return treeLines.join('\n');
@@ -4,65 +4,271 @@ import * as yaml from 'yaml';
 import type { AggregationResult } from '../cli/actions/namespaceAction.js'; // Use the result type defined in the action
 // --- Adapted Kubernetes Config/Types ---
 import type { KubeAggregatorConfigMerged } from '../config/configSchema.js'; // Renamed
+import { calculateTokenBreakdown } from './tokenCount/tokenBreakdown.js';
 import { TokenCounter } from './tokenCount/tokenCount.js';
 
 // --- Adapted Kubernetes Core Modules ---
+import type { KubeObject } from './kubernetes/apiTypes.js';
+import * as eventCollector from './kubernetes/eventCollector.js';
+import * as helmRelease from './kubernetes/helmRelease.js';
+import * as kubeconfig from './kubernetes/kubeconfig.js';
+import * as kubectlRetry from './kubernetes/kubectlRetry.js';
+import * as kubectlTransport from './kubernetes/kubectlTransport.js';
 import * as kubectlWrapper from './kubernetes/kubectlWrapper.js';
+import * as manifestTransport from './kubernetes/manifestTransport.js';
+import * as resourceDiscovery from './kubernetes/resourceDiscovery.js';
 import * as resourceFilter from './kubernetes/resourceFilter.js';
+import * as resourceGraph from './kubernetes/resourceGraph.js';
+import { type ResourceKindRegistry, createBuiltinResourceKindRegistry } from './kubernetes/resourceRegistry.js';
+import * as diffOutputGenerator from './output/diffOutputGenerate.js';
 import * as outputGenerator from './output/outputGenerate.js';
-import type { PodDiagnostics } from './output/outputGeneratorTypes.js';
+import type {
+  ClusterAggregation,
+  ClusterResourceBlock,
+  EventsBlock,
+  HelmReleasesBlock,
+  NamespaceResourceBlock,
+  PodDiagnostics,
+} from './output/outputGeneratorTypes.js';
 import * as clipboardCopier from './packager/copyToClipboardIfEnabled.js'; // Assuming adapted version
 // import * as metricsCalculator from './metrics/calculateMetrics.js'; // Keep commented for now
 import * as outputWriter from './packager/writeOutputToDisk.js'; // Assuming adapted version
-import { processJsonResourceManifest, processResourceManifest } from './processing/resourceProcessor.js';
+import * as stdoutWriter from './packager/writeOutputToStdout.js';
+import {
+  processJsonResourceManifest,
+  processResourceManifest,
+  redactSensitiveValues,
+  slimJsonResourceManifest,
+  slimResourceManifest,
+} from './processing/resourceProcessor.js';
+import { groupResourceSections } from './processing/resourceSections.js';
+import * as snapshotBundle from './snapshot/snapshotBundle.js';
 
 // Use 'all' to fetch all common resource types at once
 const resourceTypeAll = 'all';
 
 // --- Shared Modules ---
+import { mapWithConcurrency } from '../shared/concurrency.js';
+import { KubeAggregatorError } from '../shared/errorHandle.js';
 import { logger } from '../shared/logger.js';
 import type { ProgressCallback } from '../shared/types.js';
 import { isPodFailing } from './kubernetes/resourceFilter.js';
 
 /**
- * Orchestrates the process of aggregating Kubernetes resources.
- * Fetches namespaces and multiple resource types per namespace,
- * generates output, and writes to disk/clipboard.
+ * Determines the format of fetched kubectl output from the command actually used (and the content itself),
+ * as commands may not use the configured format.
  *
+ * @param data - The fetched output and the command used to fetch it.
+ * @param outputFormat - The output format from the configuration.
+ * @returns The detected format.
+ */
+const detectFetchedFormat = (
+  data: { output: string; command: string },
+  outputFormat: 'text' | 'yaml' | 'json',
+): 'text' | 'yaml' | 'json' => {
+  // Determine actual output format from command rather than config setting
+  let actualFormat = outputFormat;
+
+  // Check the command for the actual format used - more comprehensive checks
+  const cmdStr = data.command.toLowerCase();
+  if (cmdStr.includes(' -o yaml') || cmdStr.includes(' --output=yaml') || cmdStr.includes(' --output yaml')) {
+    actualFormat = 'yaml';
+  } else if (cmdStr.includes(' -o json') || cmdStr.includes(' --output=json') || cmdStr.includes(' --output json')) {
+    actualFormat = 'json';
+  }
+
+  // Debug logging to help diagnose format issues
+  logger.debug(`Command used: "${data.command}"`);
+  logger.debug(`Output format from config: ${outputFormat}, detected format: ${actualFormat}`);
+  logger.debug(`Output size before processing: ${data.output.length} chars`);
+
+  // Extra verification check for YAML content
+  if (data.output.trim().startsWith('apiVersion:') || data.output.includes('\napiVersion:')) {
+    logger.debug('Output appears to be YAML based on content inspection');
+    if (actualFormat !== 'yaml') {
+      logger.warn('Content appears to be YAML but format detection says otherwise, forcing YAML processing');
+      actualFormat = 'yaml';
+    }
+  }
+  return actualFormat;
+};
+
+/**
+ * Redacts secrets in fetched kubectl output, based on the output format actually used by the command.
+ * Text output cannot be redacted and is returned unchanged.
+ *
+ * @param data - The fetched output and the command used to fetch it.
+ * @param outputFormat - The output format from the configuration.
  * @param config - The merged configuration object.
- * @param progressCallback - Optional callback for reporting progress.
- * @param deps - Dependency injection for testing.
- * @returns A promise resolving with aggregation metrics.
+ * @param label - Description of the output for log messages (e.g., "namespace 'default'").
+ * @returns The processed output.
  */
-export const aggregateResources = async (
+const redactFetchedOutput = (
+  data: { output: string; command: string },
+  outputFormat: 'text' | 'yaml' | 'json',
   config: KubeAggregatorConfigMerged,
-  progressCallback: ProgressCallback = () => {},
-  // Inject dependencies for easier testing
-  deps = {
-    getNamespaceNames: kubectlWrapper.getNamespaceNames,
-    getNamespacesOutput: kubectlWrapper.getNamespacesOutput,
-    getResourcesByName: kubectlWrapper.getResourcesByName,
-    getResourcesOutput: kubectlWrapper.getResourcesOutput,
-    describePod: kubectlWrapper.describePod,
-    getPodLogs: kubectlWrapper.getPodLogs,
-    generateOutput: outputGenerator.generateOutput,
-    writeOutputToDisk: outputWriter.writeOutputToDisk,
-    copyToClipboardIfEnabled: clipboardCopier.copyToClipboardIfEnabled,
-    // calculateMetrics: metricsCalculator.calculateMetrics, // Add later if needed
-  },
-): Promise<AggregationResult> => {
-  logger.info('Starting Kubernetes resource aggregation...');
+  label: string,
+): string => {
+  const actualFormat = detectFetchedFormat(data, outputFormat);
+  if (actualFormat === 'yaml') {
+    logger.debug(`Redacting secrets in YAML output for ${label}...`);
+    return processResourceManifest(data.output, config);
+  }
+  if (actualFormat === 'json') {
+    logger.debug(`Redacting secrets in JSON output for ${label}...`);
+    return processJsonResourceManifest(data.output, config);
+  }
+  logger.debug(`No redaction available for '${actualFormat}' format (text format redaction not supported)`);
+  return data.output;
+};
+
+/**
+ * Removes noise fields from fetched kubectl output in slim mode, based on the output format actually used.
+ * Text output has no such fields and is returned unchanged.
+ *
+ * @param data - The fetched output and the command used to fetch it.
+ * @param outputFormat - The output format from the configuration.
+ * @param config - The merged configuration object.
+ * @param label - Description of the output for log messages (e.g., "namespace 'default'").
+ * @returns The processed output.
+ */
+const slimFetchedOutput = (
+  data: { output: string; command: string },
+  outputFormat: 'text' | 'yaml' | 'json',
+  config: KubeAggregatorConfigMerged,
+  label: string,
+): string => {
+  const actualFormat = detectFetchedFormat(data, outputFormat);
+  if (actualFormat === 'text') {
+    return data.output;
+  }
+  logger.debug(`Removing noise fields from ${actualFormat.toUpperCase()} output for ${label}...`);
+  return actualFormat === 'yaml'
+    ? slimResourceManifest(data.output, config)
+    : slimJsonResourceManifest(data.output, config);
+};
+
+// Dependencies of the aggregation, injected for easier testing
+const defaultDeps = {
+  useKubectlTransport: kubectlTransport.useKubectlTransport,
+  setKubectlTransport: kubectlTransport.setKubectlTransport,
+  createManifestTransport: manifestTransport.createManifestTransport,
+  configureKubectlRequests: kubectlRetry.configureKubectlRequests,
+  getKubeconfigContextNames: kubeconfig.getKubeconfigContextNames,
+  getNamespaceNames: kubectlWrapper.getNamespaceNames,
+  getNamespacesOutput: kubectlWrapper.getNamespacesOutput,
+  getResourcesByName: kubectlWrapper.getResourcesByName,
+  getResourcesOutput: kubectlWrapper.getResourcesOutput,
+  getResourceKindRegistry: resourceDiscovery.getResourceKindRegistry,
+  getClusterResourcesByName: kubectlWrapper.getClusterResourcesByName,
+  getClusterResourcesOutput: kubectlWrapper.getClusterResourcesOutput,
+  describePod: kubectlWrapper.describePod,
+  getPodLogs: kubectlWrapper.getPodLogs,
+  getEvents: kubectlWrapper.getEvents,
+  getHelmReleaseSecrets: kubectlWrapper.getHelmReleaseSecrets,
+  getResourceObjects: kubectlWrapper.getResourceObjects,
+  generateOutput: outputGenerator.generateOutput,
+  generateOutputParts: outputGenerator.generateOutputParts,
+  diffAgainstSnapshot: diffOutputGenerator.diffAgainstSnapshot,
+  generateDiffOutput: diffOutputGenerator.generateDiffOutput,
+  writeOutputToDisk: outputWriter.writeOutputToDisk,
+  writeOutputToStdout: stdoutWriter.writeOutputToStdout,
+  writeSnapshotBundle: snapshotBundle.writeSnapshotBundle,
+  copyToClipboardIfEnabled: clipboardCopier.copyToClipboardIfEnabled,
+  // calculateMetrics: metricsCalculator.calculateMetrics, // Add later if needed
+};
+
+type AggregationDeps = typeof defaultDeps;
+
+// Data collected from one cluster, with its counts for the summary
+interface ClusterCollection {
+  aggregation: ClusterAggregation;
+  namespaceCount: number;
+  resourceCounts: Record<string, number>;
+  eventCount: number;
+  slimmedOutputs: Array<{ original: string; slimmed: string }>; // Outputs changed by slim mode, for its savings
+}
+
+/**
+ * Checks whether resources are read from manifest files instead of a cluster.
+ */
+const isOffline = (config: KubeAggregatorConfigMerged): boolean =>
+  !!(config.offline?.directories?.length || config.offline?.files?.length);
+
+/**
+ * Determines the kubeconfig contexts to aggregate: all contexts of the kubeconfig, the listed contexts,
+ * or the single configured context (undefined meaning the current context).
+ *
+ * @param config - The merged configuration object.
+ * @param deps - The aggregation dependencies.
+ * @returns The contexts, in collection order.
+ */
+const resolveContexts = async (
+  config: KubeAggregatorConfigMerged,
+  deps: AggregationDeps,
+): Promise<Array<string | undefined>> => {
+  const kubernetesConfig = config.kubernetes;
+  if (isOffline(config)) {
+    if (kubernetesConfig?.allContexts || kubernetesConfig?.contexts?.length) {
+      logger.warn('Contexts are ignored in offline mode: manifest files are aggregated as a single cluster');
+    }
+    return [undefined];
+  }
+
+  if (kubernetesConfig?.allContexts) {
+    const contexts = await deps.getKubeconfigContextNames(kubernetesConfig.kubeconfigPath);
+    if (contexts.length === 0) {
+      throw new KubeAggregatorError('No contexts found in the kubeconfig');
+    }
+    return contexts;
+  }
+  if (kubernetesConfig?.contexts?.length) {
+    return [...new Set(kubernetesConfig.contexts)];
+  }
+  return [kubernetesConfig?.context];
+};
+
+/**
+ * Collects namespaces, resources, cluster-scoped resources and pod diagnostics from one cluster.
+ *
+ * @param config - The merged configuration object.
+ * @param context - The kubeconfig context of the cluster (undefined for the current context).
+ * @param labelled - Whether the cluster is labelled with its context in the output (multi-cluster runs).
+ * @param progressCallback - Callback for reporting progress.
+ * @param deps - The aggregation dependencies.
+ * @returns The data collected from the cluster.
+ */
+const collectCluster = async (
+  config: KubeAggregatorConfigMerged,
+  context: string | undefined,
+  labelled: boolean,
+  progressCallback: ProgressCallback,
+  deps: AggregationDeps,
+): Promise<ClusterCollection> => {
+  const clusterLabel = labelled ? ` from cluster '${context}'` : '';
 
   // --- 1. Fetch Kubernetes Namespace Data ---
-  progressCallback('Fetching Kubernetes namespaces...');
+  progressCallback(`Fetching Kubernetes namespaces${clusterLabel}...`);
   logger.debug('Extracting Kubernetes config for kubectl calls...');
   const kubeconfigPath = config.kubernetes?.kubeconfigPath;
-  const context = config.kubernetes?.context;
 
   let namespaceNames: string[];
   let namespaceData: { output: string; command: string };
   const outputFormat = config.kubernetes?.outputFormat || 'text';
 
+  // In slim mode, noise fields are removed before redaction; the original outputs are kept to report the savings
+  const slimmedOutputs: ClusterCollection['slimmedOutputs'] = [];
+  const slimOutput = (data: { output: string; command: string }, label: string): string => {
+    if (!config.slim?.enabled || !data.output) {
+      return data.output;
+    }
+    const slimmed = slimFetchedOutput(data, outputFormat, config, label);
+    if (slimmed !== data.output) {
+      slimmedOutputs.push({ original: data.output, slimmed });
+    }
+    return slimmed;
+  };
+
   try {
     // Fetch all namespace names first
     const allNamespaceNames = await deps.getNamespaceNames(kubeconfigPath, context);
@@ -75,47 +281,11 @@ export const aggregateResources = async (
     // Fetch the namespace output in the specified format
     namespaceData = await deps.getNamespacesOutput(kubeconfigPath, context, outputFormat);
 
-    // Process the namespace output to redact any secrets if needed
+    // Process the namespace output to remove noise fields and redact any secrets if needed
+    namespaceData.output = slimOutput(namespaceData, 'namespaces');
     if (namespaceData.output) {
       if (config.security?.redactSecrets) {
-        // Determine actual output format from command rather than config setting
-        let actualFormat = outputFormat;
-
-        // Check the command for the actual format used - more comprehensive checks
-        const cmdStr = namespaceData.command.toLowerCase();
-        if (cmdStr.includes(' -o yaml') || cmdStr.includes(' --output=yaml') || cmdStr.includes(' --output yaml')) {
-          actualFormat = 'yaml';
-        } else if (
-          cmdStr.includes(' -o json') ||
-          cmdStr.includes(' --output=json') ||
-          cmdStr.includes(' --output json')
-        ) {
-          actualFormat = 'json';
-        }
-
-        // Debug logging to help diagnose format issues
-        logger.debug(`Command used: "${namespaceData.command}"`);
-        logger.debug(`Output format from config: ${outputFormat}, detected format: ${actualFormat}`);
-        logger.debug(`Output size before processing: ${namespaceData.output.length} chars`);
-
-        // Extra verification check for YAML content
-        if (namespaceData.output.trim().startsWith('apiVersion:') || namespaceData.output.includes('\napiVersion:')) {
-          logger.debug('Output appears to be YAML based on content inspection');
-          if (actualFormat !== 'yaml') {
-            logger.warn('Content appears to be YAML but format detection says otherwise, forcing YAML processing');
-            actualFormat = 'yaml';
-          }
-        }
-
-        if (actualFormat === 'yaml') {
-          logger.debug('Redacting secrets in YAML output for namespaces...');
-          namespaceData.output = processResourceManifest(namespaceData.output, config);
-        } else if (actualFormat === 'json') {
-          logger.debug('Redacting secrets in JSON output for namespaces...');
-          namespaceData.output = processJsonResourceManifest(namespaceData.output, config);
-        } else {
-          logger.debug(`No redaction available for '${actualFormat}' format (text format redaction not supported)`);
-        }
+        namespaceData.output = redactFetchedOutput(namespaceData, outputFormat, config, 'namespaces');
       } else {
         logger.debug('Secret redaction disabled in config, skipping redaction for namespaces');
       }
@@ -126,133 +296,181 @@ export const aggregateResources = async (
     throw error;
   }
 
+  // --- 1b. Discover Resource Kinds ---
+  // Build the resource kind registry from the cluster's API resources (including CRDs), so kinds, counts,
+  // the resource tree and include/exclude filters all use canonical, group-qualified type names
+  progressCallback(`Discovering API resource types${clusterLabel}...`);
+  let registry: ResourceKindRegistry;
+  try {
+    registry = await deps.getResourceKindRegistry(kubeconfigPath, context);
+  } catch (error) {
+    // Fall back to the built-in kinds rather than failing the whole run
+    logger.warn(
+      `Resource type discovery failed, falling back to built-in resource types: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+    registry = createBuiltinResourceKindRegistry();
+  }
+
+  // Track resource counts by type - will be populated based on what we find
+  const totalResourceCounts: Record<string, number> = {};
+
+  // --- 1c. Fetch Cluster-Scoped Resources ---
+  // Nodes, persistent volumes, storage classes, RBAC, ... explain why pods are unschedulable or PVCs are Pending.
+  // Selectors are not applied here: they scope the workloads, not the cluster they run on.
+  let clusterResources: ClusterResourceBlock | undefined;
+  const clusterResourceTypes = resourceFilter.getClusterResourceTypesToFetch(config, registry);
+  if (clusterResourceTypes.length > 0) {
+    progressCallback(`Fetching cluster-scoped resources${clusterLabel}...`);
+    logger.info(`Fetching cluster-scoped resources: ${clusterResourceTypes.join(', ')}`);
+
+    const clusterResourcesByKind = await deps.getClusterResourcesByName(
+      clusterResourceTypes,
+      kubeconfigPath,
+      context,
+      registry,
+    );
+    for (const [kind, resources] of Object.entries(clusterResourcesByKind)) {
+      totalResourceCounts[kind] = (totalResourceCounts[kind] ?? 0) + resources.length;
+    }
+
+    if (Object.values(clusterResourcesByKind).some((resources) => resources.length > 0)) {
+      const clusterData = await deps.getClusterResourcesOutput(
+        clusterResourceTypes,
+        kubeconfigPath,
+        context,
+        outputFormat,
+      );
+      clusterData.output = slimOutput(clusterData, 'cluster-scoped resources');
+      if (clusterData.output && config.security?.redactSecrets) {
+        clusterData.output = redactFetchedOutput(clusterData, outputFormat, config, 'cluster-scoped resources');
+      }
+      clusterResources = { ...clusterData, resourcesByKind: clusterResourcesByKind };
+    } else {
+      logger.debug('No cluster-scoped resources found, skipping cluster resource fetch.');
+    }
+  }
+
   // --- 2. Fetch Resource Data for Each Namespace ---
-  progressCallback('Fetching resources for each namespace...');
+  progressCallback(`Fetching resources for each namespace${clusterLabel}...`);
   logger.info('Starting to fetch all resources for each namespace...');
 
   // Initialize data structures to store resource information
   const resourcesByNamespace: Record<string, Record<string, string[]>> = {};
-  const fetchedOutputBlocks: Array<{ namespace: string; command: string; output: string }> = [];
+  const fetchedOutputBlocks: NamespaceResourceBlock[] = [];
 
-  // Track resource counts by type - will be populated based on what we find
-  const totalResourceCounts: Record<string, number> = {};
+  // In discovery mode, fetch every listable namespaced type the cluster serves
+  const discoveredResourceTypes = config.filter?.discover ? registry.getListableTypes('namespaced') : undefined;
 
   // Get the resource types to fetch based on configuration
-  const resourceTypes = resourceFilter.getResourceTypesToFetch(config);
+  const resourceTypes = resourceFilter.getResourceTypesToFetch(config, discoveredResourceTypes, registry);
   logger.info(`Will fetch the following resource types: ${resourceTypes.join(', ')}`);
 
-  // Use Promise.all to fetch resource data for all namespaces concurrently for better performance
-  await Promise.all(
-    namespaceNames.map(async (namespace) => {
-      try {
-        // Get resource names by kind for the namespace using filtered resource types
-        // Use resourceTypeAll for discovery if the types include "all", otherwise use specific types
-        const typesToFetch = resourceTypes.includes('all') ? [resourceTypeAll] : resourceTypes;
-        const resourcesByKind = await deps.getResourcesByName(namespace, typesToFetch, kubeconfigPath, context);
-
-        // Store for the tree view
-        resourcesByNamespace[namespace] = resourcesByKind;
-
-        // Count resources by type
-        for (const [kind, resources] of Object.entries(resourcesByKind)) {
-          // Initialize the counter for this kind if needed
-          if (totalResourceCounts[kind] === undefined) {
-            totalResourceCounts[kind] = 0;
-          }
-          totalResourceCounts[kind] += resources.length;
-        }
-
-        // Get combined output for the filtered resource types in this namespace
-        const hasAnyResources = Object.values(resourcesByKind).some((resources) => resources.length > 0);
+  // Label/field selectors are applied to both name discovery and manifest fetch, so the resource tree,
+  // the manifests and the failing pods picked for diagnostics all describe the same set of resources
+  const selectors = resourceFilter.getResourceSelectors(config);
+  if (selectors) {
+    logger.info(
+      `Filtering resources by selectors: ${[selectors.labelSelector, selectors.fieldSelector].filter(Boolean).join(', ')}`,
+    );
+  }
 
-        if (hasAnyResources) {
-          logger.debug(`Fetching ${outputFormat} output for filtered resources in namespace '${namespace}'...`);
-          const resourceData = await deps.getResourcesOutput(
-            namespace,
-            typesToFetch,
-            kubeconfigPath,
-            context,
-            outputFormat,
-          );
-
-          // Only add if we got valid output data back
-          if (resourceData.output) {
-            // Process the output to redact secrets if needed based on the format
-            let processedOutput = resourceData.output;
-
-            if (config.security?.redactSecrets) {
-              // Determine actual output format from command rather than config setting
-              let actualFormat = outputFormat;
-
-              // Check the command for the actual format used - more comprehensive checks
-              const cmdStr = resourceData.command.toLowerCase();
-              if (
-                cmdStr.includes(' -o yaml') ||
-                cmdStr.includes(' --output=yaml') ||
-                cmdStr.includes(' --output yaml')
-              ) {
-                actualFormat = 'yaml';
-              } else if (
-                cmdStr.includes(' -o json') ||
-                cmdStr.includes(' --output=json') ||
-                cmdStr.includes(' --output json')
-              ) {
-                actualFormat = 'json';
-              }
+  // Resources with their metadata, for the owner and selector relationships shown in the tree
+  const buildGraph = config.output?.resourceGraph !== false;
+  const graphObjects: KubeObject[] = [];
+
+  // Fetch resource data for several namespaces concurrently, bounded to avoid API server throttling
+  const concurrency = config.kubernetes?.concurrency ?? 5;
+  logger.debug(`Fetching namespaces with a concurrency of ${concurrency}`);
+  await mapWithConcurrency(namespaceNames, concurrency, async (namespace) => {
+    try {
+      // Get resource names by kind for the namespace using filtered resource types
+      // Use resourceTypeAll for discovery if the types include "all", otherwise use specific types
+      const typesToFetch = resourceTypes.includes('all') ? [resourceTypeAll] : resourceTypes;
+      const resourcesByKind = await deps.getResourcesByName(
+        namespace,
+        typesToFetch,
+        kubeconfigPath,
+        context,
+        selectors,
+        registry,
+      );
+
+      // Store for the tree view
+      resourcesByNamespace[namespace] = resourcesByKind;
+
+      // Count resources by type
+      for (const [kind, resources] of Object.entries(resourcesByKind)) {
+        // Initialize the counter for this kind if needed
+        if (totalResourceCounts[kind] === undefined) {
+          totalResourceCounts[kind] = 0;
+        }
+        totalResourceCounts[kind] += resources.length;
+      }
 
-              // Debug logging to help diagnose format issues
-              logger.debug(`Command used: "${resourceData.command}"`);
-              logger.debug(`Output format from config: ${outputFormat}, detected format: ${actualFormat}`);
-              logger.debug(`Output size before processing: ${resourceData.output.length} chars`);
-
-              // Extra verification check for YAML content
-              if (
-                resourceData.output.trim().startsWith('apiVersion:') ||
-                resourceData.output.includes('\napiVersion:')
-              ) {
-                logger.debug('Output appears to be YAML based on content inspection');
-                if (actualFormat !== 'yaml') {
-                  logger.warn(
-                    'Content appears to be YAML but format detection says otherwise, forcing YAML processing',
-                  );
-                  actualFormat = 'yaml';
-                }
-              }
+      // Fetch the resources taking part in relationships, if there are any
+      const graphTypes = buildGraph ? resourceGraph.getGraphResourceTypes(resourcesByKind) : [];
+      if (graphTypes.length > 0) {
+        graphObjects.push(
+          ...(await deps.getResourceObjects(namespace, graphTypes, kubeconfigPath, context, selectors)),
+        );
+      }
 
-              // We already have this debug log higher up
-
-              if (actualFormat === 'yaml') {
-                logger.debug(`Redacting secrets in YAML output for namespace '${namespace}'...`);
-                processedOutput = processResourceManifest(processedOutput, config);
-              } else if (actualFormat === 'json') {
-                logger.debug(`Redacting secrets in JSON output for namespace '${namespace}'...`);
-                processedOutput = processJsonResourceManifest(processedOutput, config);
-              } else {
-                logger.debug(
-                  `No redaction available for '${actualFormat}' format (text format redaction not supported)`,
-                );
-              }
-            } else {
-              logger.debug('Secret redaction disabled in config, skipping redaction');
-            }
+      // Get combined output for the filtered resource types in this namespace
+      const hasAnyResources = Object.values(resourcesByKind).some((resources) => resources.length > 0);
+
+      if (hasAnyResources) {
+        logger.debug(`Fetching ${outputFormat} output for filtered resources in namespace '${namespace}'...`);
+        // Only the types that matched are fetched, as a type that is forbidden, unavailable or rejects the field
+        // selector would fail the whole request ('all' is expanded by kubectl)
+        const outputTypes = typesToFetch.includes(resourceTypeAll)
+          ? typesToFetch
+          : Object.keys(resourcesByKind).filter((kind) => resourcesByKind[kind].length > 0);
+        const resourceData = await deps.getResourcesOutput(
+          namespace,
+          outputTypes,
+          kubeconfigPath,
+          context,
+          outputFormat,
+          selectors,
+        );
 
-            fetchedOutputBlocks.push({
-              namespace,
-              command: resourceData.command,
-              output: processedOutput,
-            });
+        // Only add if we got valid output data back
+        if (resourceData.output) {
+          // Process the output to remove noise fields and redact secrets if needed based on the format
+          let processedOutput = slimOutput(resourceData, `namespace '${namespace}'`);
+
+          if (config.security?.redactSecrets) {
+            processedOutput = redactFetchedOutput(
+              { ...resourceData, output: processedOutput },
+              outputFormat,
+              config,
+              `namespace '${namespace}'`,
+            );
+          } else {
+            logger.debug('Secret redaction disabled in config, skipping redaction');
           }
-        } else {
-          logger.debug(`No resources found in namespace '${namespace}', skipping resource fetch.`);
+
+          fetchedOutputBlocks.push({
+            namespace,
+            command: resourceData.command,
+            output: processedOutput,
+            // Split lists into individual resources, grouped by kind, each with its own section in the output
+            kinds:
+              config.output?.resourceSections !== false
+                ? groupResourceSections(processedOutput, namespace, labelled ? context : undefined)
+                : undefined,
+          });
         }
-      } catch (error) {
-        // Log error but continue with other namespaces (error resilience as per AC #10)
-        logger.warn(`Error fetching resource data for namespace '${namespace}':`, error);
-        // Initialize with empty objects for namespaces with errors
-        resourcesByNamespace[namespace] = {};
+      } else {
+        logger.debug(`No resources found in namespace '${namespace}', skipping resource fetch.`);
       }
-    }),
-  );
+    } catch (error) {
+      // Log error but continue with other namespaces (error resilience as per AC #10)
+      logger.warn(`Error fetching resource data for namespace '${namespace}':`, error);
+      // Initialize with empty objects for namespaces with errors
+      resourcesByNamespace[namespace] = {};
+    }
+  });
 
   // Log resource counts
   const resourceSummary = Object.entries(totalResourceCounts)
@@ -260,14 +478,84 @@ export const aggregateResources = async (
     .map(([kind, count]) => `${count} ${kind}`)
     .join(', ');
 
-  logger.info(`Completed resource data fetch. Found ${resourceSummary} across ${namespaceNames.length} namespaces.`);
+  logger.info(
+    `Completed resource data fetch${clusterLabel}. Found ${resourceSummary} across ${namespaceNames.length} namespaces.`,
+  );
+
+  // Ownership (Deployment -> ReplicaSet -> Pod) and selector relationships between the fetched resources
+  const graph = graphObjects.length > 0 ? resourceGraph.buildResourceGraph(graphObjects, registry) : undefined;
+  if (graph) {
+    logger.debug(`Built a resource graph of ${graph.nodes.length} nodes and ${graph.edges.length} edges.`);
+  }
+
+  // With a namespace filter, events and Helm releases are listed in the selected namespaces only rather than across
+  // the cluster, which also works with namespace-scoped permissions
+  const listedNamespaces = config.filter?.namespaces?.length ? namespaceNames : undefined;
+
+  // --- 2b. Collect Recent Events ---
+  // Warning events (optionally Normal ones) of the selected namespaces, deduplicated by reason and object
+  let events: EventsBlock | undefined;
+  if (config.events?.enabled !== false) {
+    progressCallback(`Collecting recent events${clusterLabel}...`);
+    const includeNormal = config.events?.includeNormal ?? false;
+    const eventsData = await deps.getEvents(includeNormal, kubeconfigPath, context, listedNamespaces);
+    let summarized = eventCollector.summarizeEvents(
+      eventsData.events,
+      {
+        includeNormal,
+        sinceMinutes: config.events?.sinceMinutes ?? 60,
+        maxEvents: config.events?.maxEvents ?? 100,
+        namespaces: namespaceNames,
+        // Manifest files were captured in the past, so their window ends at their most recent event
+        now: isOffline(config) ? undefined : new Date(),
+      },
+      registry,
+    );
+    // With selectors, only keep the events of the selected namespaced resources
+    if (selectors) {
+      summarized = summarized.filter(
+        (event) =>
+          !event.namespace || resourcesByNamespace[event.namespace]?.[event.resourceType]?.includes(event.name),
+      );
+    }
+    logger.info(`Collected ${summarized.length} recent events${clusterLabel}.`);
+    events = { command: eventsData.command, events: summarized };
+  } else {
+    logger.debug('Events collection disabled in config, skipping events');
+  }
+
+  // --- 2c. Decode Helm Releases ---
+  // Helm release Secrets are redacted in the resources, so releases are decoded from them locally
+  let helmReleases: HelmReleasesBlock | undefined;
+  if (config.helm?.enabled !== false) {
+    progressCallback(`Decoding Helm releases${clusterLabel}...`);
+    const helmData = await deps.getHelmReleaseSecrets(kubeconfigPath, context, listedNamespaces);
+    const releases = helmRelease.decodeHelmReleases(helmData.secrets, namespaceNames, registry);
+    logger.info(`Found ${releases.length} Helm releases${clusterLabel}.`);
+    helmReleases = {
+      command: helmData.command,
+      releases: releases.map(({ values, ...release }) => {
+        // User-supplied values go through the same redaction rules as the manifests
+        const redactedValues = redactSensitiveValues(values, config);
+        return {
+          ...release,
+          values:
+            config.helm?.includeValues !== false && Object.keys(redactedValues).length > 0
+              ? yaml.stringify(redactedValues).trimEnd()
+              : undefined,
+        };
+      }),
+    };
+  } else {
+    logger.debug('Helm release decoding disabled in config, skipping Helm releases');
+  }
 
   // --- 3. Find Failing Pods & Gather Diagnostics (FRD-6) ---
   const podDiagnostics: PodDiagnostics[] = [];
 
   // Only do this if diagnostics are enabled in the config
   if (config.diagnostics?.includeFailingPods !== false) {
-    progressCallback('Checking for failing pods and gathering diagnostics...');
+    progressCallback(`Checking for failing pods and gathering diagnostics${clusterLabel}...`);
     logger.info('Identifying failing pods for diagnostics...');
 
     // Look through all fetched output blocks to find pod manifests
@@ -280,14 +568,8 @@ export const aggregateResources = async (
       if (!output) continue;
 
       // Skip if the output doesn't appear to be a format we can parse
-      // First, check the output format based on the command
-      let outputFormat: 'yaml' | 'json' | 'text' = 'text';
-
-      if (resourceBlock.command.includes(' -o yaml') || resourceBlock.command.includes(' --output=yaml')) {
-        outputFormat = 'yaml';
-      } else if (resourceBlock.command.includes(' -o json') || resourceBlock.command.includes(' --output=json')) {
-        outputFormat = 'json';
-      } else {
+      // All blocks were fetched in the configured output format (the command may name manifest files instead)
+      if (outputFormat === 'text') {
         // Skip formats we can't reliably parse
         logger.debug(
           `Skipping diagnostic check for '${namespace}' due to unprocessable output format: ${outputFormat}`,
@@ -415,6 +697,54 @@ export const aggregateResources = async (
     logger.debug('Pod diagnostics disabled in config, skipping diagnostics');
   }
 
+  return {
+    aggregation: {
+      context: labelled ? context : undefined,
+      namespaceNames,
+      namespaceData,
+      resourcesByNamespace,
+      resourceBlocks: fetchedOutputBlocks,
+      podDiagnostics: podDiagnostics.length > 0 ? podDiagnostics : undefined,
+      clusterResources,
+      events,
+      helmReleases,
+      resourceGraph: graph,
+    },
+    namespaceCount: namespaceNames.length,
+    eventCount: events?.events.length ?? 0,
+    resourceCounts: totalResourceCounts,
+    slimmedOutputs,
+  };
+};
+
+/**
+ * Generates the output from the data collected from each cluster, writes it to disk/clipboard and calculates the
+ * metrics of the run.
+ *
+ * @param config - The merged configuration object.
+ * @param collections - The data collected from each cluster, in order.
+ * @param multiCluster - Whether several clusters were selected.
+ * @param progressCallback - Callback for reporting progress.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise resolving with aggregation metrics.
+ */
+const writeAggregationOutput = async (
+  config: KubeAggregatorConfigMerged,
+  collections: Array<ClusterCollection & { context?: string }>,
+  multiCluster: boolean,
+  progressCallback: ProgressCallback,
+  deps: AggregationDeps,
+): Promise<AggregationResult> => {
+  // Totals across all clusters
+  const totalResourceCounts: Record<string, number> = {};
+  for (const { resourceCounts } of collections) {
+    for (const [kind, count] of Object.entries(resourceCounts)) {
+      totalResourceCounts[kind] = (totalResourceCounts[kind] ?? 0) + count;
+    }
+  }
+  const namespaceCount = collections.reduce((sum, collection) => sum + collection.namespaceCount, 0);
+  const eventCount = collections.reduce((sum, collection) => sum + collection.eventCount, 0);
+
   // --- 4. Generate Output String ---
   progressCallback('Generating output file content...');
   const style = config.output?.style || 'markdown';
@@ -423,16 +753,26 @@ export const aggregateResources = async (
   // Initialize token counter
   const tokenCounter = new TokenCounter(config.tokenCount?.encoding || 'o200k_base');
 
-  let outputString: string;
+  // With --diff-against, the output is the diff report against a snapshot; with --split-output, the output is
+  // generated as several token-bounded parts
+  let outputParts: string[];
+  let diffCounts: AggregationResult['diffCounts'];
   try {
-    outputString = await deps.generateOutput(
-      config,
-      namespaceNames,
-      namespaceData,
-      resourcesByNamespace,
-      fetchedOutputBlocks,
-      podDiagnostics.length > 0 ? podDiagnostics : undefined,
-    );
+    const aggregations = collections.map((collection) => collection.aggregation);
+    if (config.diff?.against) {
+      const diff = await deps.diffAgainstSnapshot(config, aggregations);
+      diffCounts = {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        modified: diff.modified.length,
+        unchanged: diff.unchangedCount,
+      };
+      outputParts = [await deps.generateDiffOutput(config, diff)];
+    } else {
+      outputParts = config.output?.splitOutput
+        ? await deps.generateOutputParts(config, aggregations)
+        : [await deps.generateOutput(config, aggregations)];
+    }
   } catch (error) {
     logger.error('Failed to generate output content.', error);
     // Free token counter resources
@@ -440,7 +780,8 @@ export const aggregateResources = async (
     throw error; // Propagate
   }
 
-  // Calculate metrics on the output
+  // Calculate metrics on the output (all parts together)
+  const outputString = outputParts.join('\n');
   const totalCharacters = outputString.length;
   let totalTokens = 0;
 
@@ -454,25 +795,58 @@ export const aggregateResources = async (
     // Non-critical error, continue with process
   }
 
+  // Tokens by namespace, kind and individual resource or log block, to show what makes the output large
+  let tokenBreakdown: ReturnType<typeof calculateTokenBreakdown> | undefined;
+  try {
+    tokenBreakdown = calculateTokenBreakdown(
+      collections.map((collection) => collection.aggregation),
+      (text) => tokenCounter.countTokens(text),
+      config.tokenCount?.topConsumersLength ?? 5,
+    );
+  } catch (error) {
+    logger.warn('Failed to calculate the token breakdown:', error);
+  }
+
+  // Tokens saved by slim mode, comparing the fetched outputs before and after removing noise fields
+  let slimTokensSaved: number | undefined;
+  if (config.slim?.enabled) {
+    slimTokensSaved = 0;
+    try {
+      for (const { original, slimmed } of collections.flatMap((collection) => collection.slimmedOutputs)) {
+        slimTokensSaved += tokenCounter.countTokens(original) - tokenCounter.countTokens(slimmed);
+      }
+      logger.debug(`Slim mode saved ${slimTokensSaved.toLocaleString()} tokens`);
+    } catch (error) {
+      logger.warn('Failed to calculate the tokens saved by slim mode:', error);
+    }
+  }
+
   logger.trace(
     `Generated output string length: ${totalCharacters.toLocaleString()} chars, ~${totalTokens.toLocaleString()} tokens`,
   );
 
-  // --- 5. Write Output to Disk ---
-  const filePath = config.output?.filePath || 'kubemix-output.md';
+  // --- 5. Write Output to Disk (or stdout) ---
+  const filePath = config.output?.stdout ? 'stdout' : config.output?.filePath || 'kubemix-output.md';
   progressCallback(`Writing output to ${filePath}...`);
+  let outputFiles: string[] = [];
   try {
-    await deps.writeOutputToDisk(outputString, config);
-    logger.info(`Output successfully written to ${filePath}`);
+    if (config.output?.stdout) {
+      await deps.writeOutputToStdout(outputParts);
+      logger.info('Output successfully written to stdout');
+    } else {
+      outputFiles = await deps.writeOutputToDisk(outputParts, config);
+      logger.info(`Output successfully written to ${outputFiles.join(', ')}`);
+    }
   } catch (error) {
     logger.error(`Failed to write output file to ${filePath}`, error);
     throw error; // Propagate
   }
 
   // --- 6. Copy to Clipboard (Optional) ---
-  // Assuming the adapted function checks config.output.copyToClipboard
+  // The function checks config.output.copyToClipboard
+  let clipboardMethod: string | undefined;
   try {
-    await deps.copyToClipboardIfEnabled(outputString, progressCallback, config);
+    clipboardMethod = await deps.copyToClipboardIfEnabled(outputString, progressCallback, config);
   } catch (error) {
     // Log clipboard error but don't fail the whole process
     logger.warn(`Failed to copy output to clipboard: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -489,19 +863,35 @@ export const aggregateResources = async (
   const secretsFound = config.security?.redactSecrets === true;
 
   const metrics: AggregationResult = {
-    namespaceCount: namespaceNames.length,
+    namespaceCount,
     resourceCounts: totalResourceCounts,
+    eventCount: config.events?.enabled !== false ? eventCount : undefined,
     totalResourceCount: totalResources,
+    // Per-cluster counts, for multi-cluster runs
+    clusters: multiCluster
+      ? collections.map((collection) => ({
+          context: collection.context ?? '',
+          namespaceCount: collection.namespaceCount,
+          resourceCounts: collection.resourceCounts,
+          totalResourceCount: Object.values(collection.resourceCounts).reduce((sum, count) => sum + count, 0),
+          eventCount: collection.eventCount,
+        }))
+      : undefined,
     // Add token counting metrics (FRD-7)
     totalCharacters,
     totalTokens,
+    outputFiles: outputFiles.length > 1 ? outputFiles : undefined,
+    clipboardMethod,
+    slimTokensSaved,
+    diffCounts,
+    tokensByNamespace: tokenBreakdown?.byNamespace,
+    tokensByKind: tokenBreakdown?.byKind,
+    topTokenConsumers: tokenBreakdown?.topConsumers,
     secretsFound,
   };
   logger.trace('Calculated metrics:', metrics);
 
   // --- 8. Return Result ---
-  logger.info('Kubernetes resource aggregation finished.');
-
   // Free token counter resources
   try {
     tokenCounter.free();
@@ -511,3 +901,202 @@ export const aggregateResources = async (
 
   return metrics;
 };
+
+// The metrics of an aggregation, with the data collected from each cluster (e.g., to compare watch iterations)
+export interface AggregationRun {
+  metrics: AggregationResult;
+  aggregations: ClusterAggregation[];
+}
+
+/**
+ * Orchestrates the process of aggregating Kubernetes resources.
+ * Fetches namespaces and multiple resource types per namespace from each selected cluster,
+ * generates output, and writes to disk/clipboard.
+ *
+ * @param config - The merged configuration object.
+ * @param progressCallback - Optional callback for reporting progress.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise resolving with aggregation metrics.
+ */
+export const aggregateResources = async (
+  config: KubeAggregatorConfigMerged,
+  progressCallback: ProgressCallback = () => {},
+  // Inject dependencies for easier testing
+  deps: AggregationDeps = defaultDeps,
+): Promise<AggregationResult> => (await runAggregation(config, progressCallback, deps)).metrics;
+
+/**
+ * Aggregates Kubernetes resources like aggregateResources, and also returns the data collected from each cluster.
+ *
+ * @param config - The merged configuration object.
+ * @param progressCallback - Optional callback for reporting progress.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise resolving with aggregation metrics and the collected data.
+ */
+export const runAggregation = async (
+  config: KubeAggregatorConfigMerged,
+  progressCallback: ProgressCallback = () => {},
+  deps: AggregationDeps = defaultDeps,
+): Promise<AggregationRun> => {
+  logger.info('Starting Kubernetes resource aggregation...');
+
+  // Select how Kubernetes requests are made (kubectl processes, direct API calls, or manifest files when offline)
+  if (config.offline && isOffline(config)) {
+    logger.info('Offline mode: reading resources from manifest files instead of a cluster');
+    deps.setKubectlTransport(deps.createManifestTransport(config.offline));
+  } else {
+    deps.useKubectlTransport(config.kubernetes?.transport);
+  }
+  // Apply the request timeout and retry settings, and start counting requests for the summary
+  deps.configureKubectlRequests({
+    timeoutMs: (config.kubernetes?.requestTimeout ?? 60) * 1000,
+    maxRetries: config.kubernetes?.retries ?? 3,
+  });
+  kubectlRetry.resetKubectlRequestStats();
+  if (config.slim?.enabled && (config.kubernetes?.outputFormat ?? 'text') === 'text') {
+    logger.warn('Slim mode only applies to YAML and JSON manifests; use --format yaml or --format json');
+  }
+
+  // --- 1-3. Collect Each Cluster in Turn ---
+  const contexts = await resolveContexts(config, deps);
+  const multiCluster = contexts.length > 1;
+  if (multiCluster) {
+    logger.info(`Aggregating ${contexts.length} clusters: ${contexts.join(', ')}`);
+  }
+
+  const collections: Array<ClusterCollection & { context?: string }> = [];
+  for (const context of contexts) {
+    try {
+      collections.push({ context, ...(await collectCluster(config, context, multiCluster, progressCallback, deps)) });
+    } catch (error) {
+      // A single cluster must succeed; with several, an unreachable cluster is skipped rather than failing the run
+      if (!multiCluster) {
+        throw error;
+      }
+      logger.warn(`Skipping cluster '${context}': ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  if (collections.length === 0) {
+    throw new KubeAggregatorError(`None of the clusters could be aggregated: ${contexts.join(', ')}`);
+  }
+
+  // Persist what was collected, so that it can be rendered again without the cluster
+  if (config.output?.saveSnapshot) {
+    progressCallback(`Saving snapshot to ${config.output.saveSnapshot}...`);
+    const snapshotPath = await deps.writeSnapshotBundle(
+      snapshotBundle.createSnapshotBundle(config, collections),
+      config.output.saveSnapshot,
+      config.cwd,
+    );
+    logger.info(`Snapshot successfully written to ${snapshotPath}`);
+  }
+
+  const metrics = await writeAggregationOutput(config, collections, multiCluster, progressCallback, deps);
+  logger.info('Kubernetes resource aggregation finished.');
+  return {
+    metrics: { ...metrics, requestStats: kubectlRetry.getKubectlRequestStats() },
+    aggregations: collections.map((collection) => collection.aggregation),
+  };
+};
+
+/**
+ * Applies the processing settings of a render to the outputs of a snapshot cluster: slim mode and redaction (if the
+ * snapshot was collected without them), Helm values, and per-resource sections.
+ *
+ * @param config - The merged configuration of the render, with the collection settings of the bundle.
+ * @param cluster - The snapshot cluster.
+ * @param bundle - The bundle the cluster comes from.
+ * @returns The cluster collection to render.
+ */
+const reprocessSnapshotCluster = (
+  config: KubeAggregatorConfigMerged,
+  cluster: snapshotBundle.SnapshotCluster,
+  bundle: snapshotBundle.SnapshotBundle,
+): ClusterCollection & { context?: string } => {
+  const { aggregation } = cluster;
+  const outputFormat = config.kubernetes?.outputFormat || 'text';
+  const slim = config.slim?.enabled === true && !bundle.slimmed;
+  const redact = config.security?.redactSecrets !== false && !bundle.secretsRedacted;
+
+  const slimmedOutputs: ClusterCollection['slimmedOutputs'] = [];
+  const processOutput = (data: { output: string; command: string }, label: string): string => {
+    let output = data.output;
+    if (slim && output) {
+      const slimmed = slimFetchedOutput(data, outputFormat, config, label);
+      if (slimmed !== output) {
+        slimmedOutputs.push({ original: output, slimmed });
+        output = slimmed;
+      }
+    }
+    return redact && output ? redactFetchedOutput({ ...data, output }, outputFormat, config, label) : output;
+  };
+
+  const resourceBlocks = aggregation.resourceBlocks.map((block) => {
+    const output = processOutput(block, `namespace '${block.namespace}'`);
+    return {
+      ...block,
+      output,
+      kinds:
+        config.output?.resourceSections !== false
+          ? groupResourceSections(output, block.namespace, aggregation.context)
+          : undefined,
+    };
+  });
+  const helmReleases = aggregation.helmReleases && {
+    ...aggregation.helmReleases,
+    releases: aggregation.helmReleases.releases.map((release) => {
+      if (!release.values || config.helm?.includeValues === false) {
+        return { ...release, values: undefined };
+      }
+      return redact
+        ? { ...release, values: yaml.stringify(redactSensitiveValues(yaml.parse(release.values), config)).trimEnd() }
+        : release;
+    }),
+  };
+
+  return {
+    context: aggregation.context,
+    aggregation: {
+      ...aggregation,
+      namespaceData: {
+        ...aggregation.namespaceData,
+        output: processOutput(aggregation.namespaceData, 'namespaces'),
+      },
+      resourceBlocks,
+      clusterResources: aggregation.clusterResources && {
+        ...aggregation.clusterResources,
+        output: processOutput(aggregation.clusterResources, 'cluster-scoped resources'),
+      },
+      helmReleases,
+    },
+    namespaceCount: cluster.namespaceCount,
+    resourceCounts: cluster.resourceCounts,
+    eventCount: cluster.eventCount,
+    slimmedOutputs,
+  };
+};
+
+/**
+ * Renders a snapshot bundle (kubemix render) without cluster access: the output style, slim mode, token budget
+ * and other output settings come from the configuration, the collection settings (filters, output format, ...)
+ * from the bundle.
+ *
+ * @param config - The merged configuration object, with the collection settings of the bundle applied.
+ * @param bundle - The snapshot bundle to render.
+ * @param progressCallback - Optional callback for reporting progress.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise resolving with aggregation metrics.
+ */
+export const renderSnapshot = async (
+  config: KubeAggregatorConfigMerged,
+  bundle: snapshotBundle.SnapshotBundle,
+  progressCallback: ProgressCallback = () => {},
+  deps: AggregationDeps = defaultDeps,
+): Promise<AggregationResult> => {
+  logger.info(`Rendering snapshot collected on ${bundle.createdAt}...`);
+  const collections = bundle.clusters.map((cluster) => reprocessSnapshotCluster(config, cluster, bundle));
+  const multiCluster = collections.some((collection) => collection.context);
+  const metrics = await writeAggregationOutput(config, collections, multiCluster, progressCallback, deps);
+  logger.info('Snapshot rendering finished.');
+  return metrics;
+};
@@ -1,27 +1,128 @@
 // src/core/packager/copyToClipboardIfEnabled.ts
+import { spawn } from 'node:child_process';
+import process from 'node:process';
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
 import { logger } from '../../shared/logger.js';
 import type { ProgressCallback } from '../../shared/types.js';
 
+// Clipboard commands are abandoned after this long (e.g., an X server that does not answer)
+const CLIPBOARD_COMMAND_TIMEOUT_MS = 10_000;
+
+// A command that copies its standard input to the clipboard
+export interface ClipboardCommand {
+  command: string;
+  args: string[];
+}
+
+// Dependencies of the clipboard copy, injected for easier testing
+const defaultDeps = {
+  platform: process.platform as NodeJS.Platform,
+  env: process.env,
+  runClipboardCommand: (command: ClipboardCommand, input: string): Promise<void> =>
+    new Promise((resolve, reject) => {
+      // Output is ignored: wl-copy and xclip stay in the background to serve the clipboard, holding inherited pipes
+      const child = spawn(command.command, command.args, {
+        stdio: ['pipe', 'ignore', 'ignore'],
+        timeout: CLIPBOARD_COMMAND_TIMEOUT_MS,
+      });
+      child.on('error', reject);
+      child.on('exit', (code, signal) =>
+        code === 0 ? resolve() : reject(new Error(`${command.command} exited with ${signal ?? `code ${code}`}`)),
+      );
+      child.stdin.on('error', () => {}); // Reported by the exit or error event
+      child.stdin.end(input);
+    }),
+  terminal: process.stdout as { isTTY?: boolean; write: (data: string) => unknown },
+};
+
+/**
+ * Lists the clipboard commands to try on a platform, most specific first.
+ *
+ * @param platform - The platform (process.platform).
+ * @param env - The environment variables.
+ * @returns The commands to try in order.
+ */
+export const getClipboardCommands = (platform: NodeJS.Platform, env: NodeJS.ProcessEnv): ClipboardCommand[] => {
+  if (platform === 'darwin') {
+    return [{ command: 'pbcopy', args: [] }];
+  }
+  if (platform === 'win32') {
+    return [{ command: 'clip.exe', args: [] }];
+  }
+  return [
+    ...(env.WAYLAND_DISPLAY ? [{ command: 'wl-copy', args: [] }] : []),
+    ...(env.DISPLAY
+      ? [
+          { command: 'xclip', args: ['-selection', 'clipboard'] },
+          { command: 'xsel', args: ['--clipboard', '--input'] },
+        ]
+      : []),
+    { command: 'clip.exe', args: [] }, // Windows clipboard from WSL
+  ];
+};
+
+/**
+ * Builds the OSC 52 escape sequence, which asks the terminal to set the clipboard; it also works over SSH.
+ * Inside tmux, the sequence is wrapped so that tmux passes it through to the terminal.
+ *
+ * @param content - The content to copy.
+ * @param env - The environment variables.
+ * @returns The escape sequence.
+ */
+export const buildOsc52Sequence = (content: string, env: NodeJS.ProcessEnv): string => {
+  const sequence = `\x1b]52;c;${Buffer.from(content, 'utf8').toString('base64')}\x07`;
+  return env.TMUX ? `\x1bPtmux;${sequence.replaceAll('\x1b', '\x1b\x1b')}\x1b\\` : sequence;
+};
+
 /**
- * Copies the output string to the clipboard if enabled in config.
- * For now, this is a placeholder implementation as clipboard functionality
- * is not required in the initial version.
+ * Copies the output string to the clipboard if enabled in config (output.copyToClipboard).
+ * The first available clipboard tool is used (wl-copy, xclip, xsel, pbcopy or clip.exe); without one, the
+ * terminal is asked to copy it with OSC 52.
  *
  * @param outputString - The content to potentially copy to clipboard.
  * @param progressCallback - Callback for reporting progress.
  * @param config - The merged configuration.
- * @returns A promise that resolves when the operation is complete.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise that resolves with the clipboard tool used, or undefined if copying is disabled.
+ * @throws {KubeAggregatorError} If no clipboard tool is available and the output is not a terminal.
  */
 export const copyToClipboardIfEnabled = async (
   outputString: string,
   progressCallback: ProgressCallback,
   config: KubeAggregatorConfigMerged,
-): Promise<void> => {
-  // In the future, check config.output.copyToClipboard or similar flag
-  // For now, do nothing as clipboard copying is not in initial requirements
-  logger.trace('Clipboard copy functionality not implemented yet');
+  deps = defaultDeps,
+): Promise<string | undefined> => {
+  if (!config.output?.copyToClipboard) {
+    return undefined;
+  }
+
+  progressCallback('Copying output to clipboard...');
+  const maxCharacters = config.output.clipboardMaxCharacters;
+  if (maxCharacters && outputString.length > maxCharacters) {
+    logger.warn(
+      `The output has ${outputString.length.toLocaleString()} characters, more than the ${maxCharacters.toLocaleString()} expected to fit where it is pasted; consider --max-tokens or --split-output`,
+    );
+  }
+
+  const failures: string[] = [];
+  for (const command of getClipboardCommands(deps.platform, deps.env)) {
+    try {
+      await deps.runClipboardCommand(command, outputString);
+      logger.trace(`Output copied to clipboard with ${command.command}`);
+      return command.command;
+    } catch (error) {
+      failures.push(`${command.command}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  logger.trace('Clipboard commands failed:', failures);
 
-  // Return immediately - no clipboard functionality for now
-  return Promise.resolve();
+  // Remote terminals (SSH) have no clipboard tool, but the local terminal may set its clipboard
+  if (deps.terminal.isTTY) {
+    deps.terminal.write(buildOsc52Sequence(outputString, deps.env));
+    return 'OSC 52';
+  }
+  throw new KubeAggregatorError(
+    'No clipboard tool found (wl-copy, xclip, xsel, pbcopy or clip.exe), and the output is not a terminal (OSC 52)',
+  );
 };
@@ -1,38 +1,87 @@
 // src/core/packager/writeOutputToDisk.ts
-import { mkdir, writeFile } from 'node:fs/promises';
+import { mkdir, rename, rm, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
 import { KubeAggregatorError } from '../../shared/errorHandle.js';
 import { logger } from '../../shared/logger.js';
+import { getOutputPartPath } from '../output/outputSplit.js';
+
+// Number of parts written by this process, by absolute output path (0 for an output written as a single file)
+const writtenPartCounts = new Map<string, number>();
 
 /**
  * Writes the generated output to disk at the specified path.
  * Creates any necessary directories in the process.
+ * An output split into several parts is written to numbered files (e.g., kubemix-output.1.md, kubemix-output.2.md).
+ * Each file is written to a temporary file and renamed, so that readers (e.g., an editor, or an AI assistant while
+ * --watch rewrites the output) never see a partially written file. When an output that this process split into
+ * more parts is rewritten (--watch), the parts it no longer has are removed, so that they are not mistaken for parts
+ * of the new output; other files are never removed.
  *
- * @param outputString - The content to write to the file.
+ * @param output - The content to write to the file, or the parts of a split output.
  * @param config - The merged configuration object containing the output path.
- * @returns A promise that resolves when the file is written.
+ * @returns A promise that resolves to the paths of the written files, as configured (not resolved).
  */
-export const writeOutputToDisk = async (outputString: string, config: KubeAggregatorConfigMerged): Promise<void> => {
+export const writeOutputToDisk = async (
+  output: string | string[],
+  config: KubeAggregatorConfigMerged,
+): Promise<string[]> => {
   // Ensure output exists and has a filePath
   if (!config.output || !config.output.filePath) {
     throw new KubeAggregatorError('Output file path is not defined in configuration');
   }
 
   const outputPath = config.output.filePath;
-  const absoluteOutputPath = path.isAbsolute(outputPath) ? outputPath : path.resolve(config.cwd, outputPath);
-
-  try {
-    // Create the output directory if it doesn't exist
-    const outputDir = path.dirname(absoluteOutputPath);
-    await mkdir(outputDir, { recursive: true });
-
-    // Write the output file
-    await writeFile(absoluteOutputPath, outputString, 'utf8');
-    logger.debug(`Output written to: ${absoluteOutputPath}`);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error(`Failed to write output to ${absoluteOutputPath}: ${message}`);
-    throw new KubeAggregatorError(`Failed to write output file: ${message}`);
+  // A single part is written to the configured path itself
+  const files =
+    Array.isArray(output) && output.length > 1
+      ? output.map((content, index) => ({ filePath: getOutputPartPath(outputPath, index + 1), content }))
+      : [{ filePath: outputPath, content: Array.isArray(output) ? (output[0] ?? '') : output }];
+
+  const resolveOutputPath = (filePath: string) =>
+    path.isAbsolute(filePath) ? filePath : path.resolve(config.cwd, filePath);
+
+  for (const { filePath, content } of files) {
+    const absoluteOutputPath = resolveOutputPath(filePath);
+
+    try {
+      // Create the output directory if it doesn't exist
+      const outputDir = path.dirname(absoluteOutputPath);
+      await mkdir(outputDir, { recursive: true });
+
+      // Write the output file atomically: a rename within the directory replaces the previous file at once
+      const temporaryPath = `${absoluteOutputPath}.${process.pid}.tmp`;
+      try {
+        await writeFile(temporaryPath, content, 'utf8');
+        await rename(temporaryPath, absoluteOutputPath);
+      } catch (error) {
+        await rm(temporaryPath, { force: true });
+        throw error;
+      }
+      logger.debug(`Output written to: ${absoluteOutputPath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to write output to ${absoluteOutputPath}: ${message}`);
+      throw new KubeAggregatorError(`Failed to write output file: ${message}`);
+    }
+  }
+
+  // Remove the parts of an earlier split output of this process that the new output no longer has
+  const absoluteOutputPath = resolveOutputPath(outputPath);
+  const writtenParts = files.length > 1 ? files.length : 0;
+  const previousParts = writtenPartCounts.get(absoluteOutputPath) ?? 0;
+  for (let part = writtenParts + 1; part <= previousParts; part++) {
+    const stalePartPath = resolveOutputPath(getOutputPartPath(outputPath, part));
+    try {
+      await rm(stalePartPath, { force: true });
+      logger.debug(`Removed leftover output part: ${stalePartPath}`);
+    } catch (error) {
+      logger.warn(
+        `Failed to remove leftover output part ${stalePartPath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
   }
+  writtenPartCounts.set(absoluteOutputPath, writtenParts);
+
+  return files.map((file) => file.filePath);
 };
@@ -0,0 +1,30 @@
+// src/core/packager/writeOutputToStdout.ts
+import process from 'node:process';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+
+/**
+ * Writes the generated output to stdout (--stdout), for piping into another command.
+ * The parts of a split output are written one after the other.
+ * A reader that stops early (e.g., `| head`) is not an error.
+ *
+ * @param output - The content to write, or the parts of a split output.
+ * @param stdout - The stream to write to (injected for testing).
+ * @returns A promise that resolves once the output has been handed to the stream.
+ */
+export const writeOutputToStdout = (
+  output: string | string[],
+  stdout: NodeJS.WritableStream = process.stdout,
+): Promise<void> => {
+  const content = Array.isArray(output) ? output.join('\n') : output;
+  return new Promise((resolve, reject) => {
+    stdout.write(content.endsWith('\n') ? content : `${content}\n`, (error) => {
+      if (!error || (error as NodeJS.ErrnoException).code === 'EPIPE') {
+        if (error) logger.debug('stdout was closed before the whole output was read');
+        resolve();
+      } else {
+        reject(new KubeAggregatorError(`Failed to write output to stdout: ${error.message}`));
+      }
+    });
+  });
+};
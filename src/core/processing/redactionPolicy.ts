@@ -0,0 +1,45 @@
+// src/core/processing/redactionPolicy.ts
+// Which values hold credentials, judged by the name of their key (security.redactKeys). Besides Secret data, the
+// policy applies to Helm values, and to ConfigMap data and container environment variables when enabled
+// (security.redactManifestKeys), as their keys are more often ordinary settings (e.g., DISABLE_AUTH).
+
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../config/configSchema.js';
+
+// Decides whether the value under a key is a credential
+export interface RedactionPolicy {
+  isSensitiveKey: (key: string) => boolean;
+  includeManifests: boolean; // Whether ConfigMap data and container environment variables are redacted too
+}
+
+/**
+ * Normalizes a key name or pattern: case, '-' and '_' are ignored, so 'apiKey', 'api-key' and 'API_KEY' are alike.
+ */
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+/**
+ * Creates the redaction policy of the configuration.
+ * Patterns match whole key names, ignoring case, '-' and '_'; '*' matches any characters
+ * (e.g., '*password*' matches 'DB_PASSWORD_FILE', '*.key' matches 'tls.key').
+ *
+ * @param config - The merged configuration (security.redactKeys, the defaults if unset, and
+ * security.redactManifestKeys).
+ * @returns The policy.
+ */
+export const createRedactionPolicy = (config: KubeAggregatorConfigMerged): RedactionPolicy => {
+  const patterns = (config.security?.redactKeys ?? defaultConfig.security.redactKeys).map(
+    (pattern) =>
+      new RegExp(
+        `^${normalizeKey(pattern)
+          .split('*')
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('.*')}$`,
+      ),
+  );
+  return {
+    isSensitiveKey: (key) => {
+      const normalizedKey = normalizeKey(key);
+      return patterns.some((pattern) => pattern.test(normalizedKey));
+    },
+    includeManifests: config.security?.redactManifestKeys === true,
+  };
+};
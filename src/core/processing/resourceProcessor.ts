@@ -3,11 +3,59 @@
 import * as yaml from 'yaml';
 import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
 import { logger } from '../../shared/logger.js';
+import { type RedactionPolicy, createRedactionPolicy } from './redactionPolicy.js';
 
 /**
  * Placeholder string used to replace secret values
  */
-const SECRET_REDACTION_PLACEHOLDER = '*****';
+export const SECRET_REDACTION_PLACEHOLDER = '*****';
+
+/**
+ * Redacts credentials outside of Secret data in a resource, by key name (see redactionPolicy.ts): ConfigMap data
+ * entries and container environment variables (name/value pairs), if the policy includes manifests. The resource is
+ * modified in place.
+ *
+ * @param resource - The resource, as parsed from YAML or JSON.
+ * @param policy - The redaction policy.
+ * @returns Whether anything was redacted.
+ */
+const redactSensitiveFields = (resource: Record<string, unknown>, policy: RedactionPolicy): boolean => {
+  if (!policy.includeManifests) return false;
+  let redacted = false;
+  const redactEntry = (object: Record<string, unknown>, key: string) => {
+    if (object[key] !== undefined && object[key] !== null && object[key] !== SECRET_REDACTION_PLACEHOLDER) {
+      object[key] = SECRET_REDACTION_PLACEHOLDER;
+      redacted = true;
+    }
+  };
+
+  if (resource.kind === 'ConfigMap' && resource.data && typeof resource.data === 'object') {
+    const data = resource.data as Record<string, unknown>;
+    for (const key of Object.keys(data).filter(policy.isSensitiveKey)) {
+      redactEntry(data, key);
+    }
+  }
+
+  // Environment variables of containers, wherever they are (pods, pod templates, job templates, ...)
+  const visit = (value: unknown, key?: string): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const variable = item as Record<string, unknown> | null;
+        if (key === 'env' && typeof variable?.name === 'string' && policy.isSensitiveKey(variable.name)) {
+          redactEntry(variable, 'value');
+        } else {
+          visit(item);
+        }
+      }
+    } else if (value && typeof value === 'object') {
+      for (const [entryKey, entryValue] of Object.entries(value)) {
+        visit(entryValue, entryKey);
+      }
+    }
+  };
+  visit(resource.spec, 'spec');
+  return redacted;
+};
 
 /**
  * Processes YAML content containing Kubernetes resources, applying redaction rules
@@ -55,6 +103,7 @@ export const processResourceManifest = (yamlString: string, config: KubeAggregat
     let hasProcessedSecrets = false;
     let documentCount = 0;
     let secretCount = 0;
+    const policy = createRedactionPolicy(config);
 
     for (const doc of documents) {
       documentCount++;
@@ -85,6 +134,10 @@ export const processResourceManifest = (yamlString: string, config: KubeAggregat
           } else {
             logger.debug('Found Secret resource without data field, nothing to redact');
           }
+        } else if (json && typeof json === 'object' && redactSensitiveFields(json, policy)) {
+          // Credentials in ConfigMaps and environment variables, found by key name
+          yamlDoc.contents = yaml.parseDocument(yaml.stringify(json)).contents;
+          hasProcessedSecrets = true;
         }
 
         // If this document has items, process them recursively
@@ -184,6 +237,7 @@ export const processJsonResourceManifest = (jsonString: string, config: KubeAggr
     // Check if it's a list of items or a single resource
     let hasProcessedSecrets = false;
     let secretCount = 0;
+    const policy = createRedactionPolicy(config);
 
     if (resourceData.items && Array.isArray(resourceData.items)) {
       // It's a list - process each item
@@ -204,6 +258,8 @@ export const processJsonResourceManifest = (jsonString: string, config: KubeAggr
           } else {
             logger.debug('Found Secret resource without data field, nothing to redact');
           }
+        } else if (item && typeof item === 'object' && redactSensitiveFields(item, policy)) {
+          hasProcessedSecrets = true;
         }
       }
     } else if (resourceData.kind === 'Secret') {
@@ -220,6 +276,8 @@ export const processJsonResourceManifest = (jsonString: string, config: KubeAggr
       } else {
         logger.debug('Found a single Secret without data field, nothing to redact');
       }
+    } else if (redactSensitiveFields(resourceData, policy)) {
+      hasProcessedSecrets = true;
     } else {
       logger.debug(`No secrets found in JSON (kind: ${resourceData.kind || 'unknown'})`);
     }
@@ -248,6 +306,268 @@ export const processJsonResourceManifest = (jsonString: string, config: KubeAggr
   }
 };
 
+/**
+ * Redacts credentials in configuration values such as Helm values, applying the same rules as to manifests:
+ * the data of embedded Secret objects is redacted, and so is everything under a credential key of the redaction
+ * policy (security.redactKeys), including array items and nested values.
+ *
+ * @param values - The values to process (not modified).
+ * @param config - The merged configuration object
+ * @returns A copy of the values with credentials redacted, or the values themselves if redaction is disabled
+ */
+export const redactSensitiveValues = (
+  values: Record<string, unknown>,
+  config: KubeAggregatorConfigMerged,
+): Record<string, unknown> => {
+  if (!config.security?.redactSecrets) {
+    return values;
+  }
+  const policy = createRedactionPolicy(config);
+
+  // Values under a credential key are redacted at any depth; booleans (e.g., 'auth.enabled') are kept
+  const redact = (value: unknown, sensitive: boolean): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, sensitive));
+    }
+    if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      const isSecret = object.kind === 'Secret';
+      return Object.fromEntries(
+        Object.entries(object).map(([entryKey, entryValue]) => {
+          // Embedded Secrets (e.g., in 'extraObjects') have all their data redacted, like fetched Secrets
+          if (
+            isSecret &&
+            (entryKey === 'data' || entryKey === 'stringData') &&
+            entryValue &&
+            typeof entryValue === 'object'
+          ) {
+            return [
+              entryKey,
+              Object.fromEntries(Object.keys(entryValue).map((dataKey) => [dataKey, SECRET_REDACTION_PLACEHOLDER])),
+            ];
+          }
+          return [entryKey, redact(entryValue, sensitive || policy.isSensitiveKey(entryKey))];
+        }),
+      );
+    }
+    if (sensitive && value !== null && value !== '' && typeof value !== 'boolean') {
+      return SECRET_REDACTION_PLACEHOLDER;
+    }
+    return value;
+  };
+
+  return redact(values, false) as Record<string, unknown>;
+};
+
+// --- Slim Mode ---
+
+// Values the API server fills in when a pod spec leaves them out; listing them only costs tokens
+const POD_SPEC_DEFAULTS: Record<string, unknown> = {
+  dnsPolicy: 'ClusterFirst',
+  restartPolicy: 'Always',
+  schedulerName: 'default-scheduler',
+  securityContext: {},
+  terminationGracePeriodSeconds: 30,
+  enableServiceLinks: true,
+  preemptionPolicy: 'PreemptLowerPriority',
+  priority: 0,
+  'containers.*.terminationMessagePath': '/dev/termination-log',
+  'containers.*.terminationMessagePolicy': 'File',
+  'containers.*.resources': {},
+  'initContainers.*.terminationMessagePath': '/dev/termination-log',
+  'initContainers.*.terminationMessagePolicy': 'File',
+  'initContainers.*.resources': {},
+};
+
+/**
+ * Prefixes the pod spec defaults with the path of the pod spec within a resource.
+ */
+const podSpecDefaultsAt = (prefix: string): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(POD_SPEC_DEFAULTS).map(([path, value]) => [`${prefix}.${path}`, value]));
+
+// Default-valued fields by kind, removed when `slim.removeDefaults` is set
+const DEFAULT_VALUED_FIELDS: Record<string, Record<string, unknown>> = {
+  Pod: podSpecDefaultsAt('spec'),
+  Deployment: {
+    ...podSpecDefaultsAt('spec.template.spec'),
+    'spec.progressDeadlineSeconds': 600,
+    'spec.revisionHistoryLimit': 10,
+    'spec.strategy': { type: 'RollingUpdate', rollingUpdate: { maxSurge: '25%', maxUnavailable: '25%' } },
+  },
+  ReplicaSet: podSpecDefaultsAt('spec.template.spec'),
+  StatefulSet: {
+    ...podSpecDefaultsAt('spec.template.spec'),
+    'spec.podManagementPolicy': 'OrderedReady',
+    'spec.revisionHistoryLimit': 10,
+    'spec.updateStrategy': { type: 'RollingUpdate', rollingUpdate: { partition: 0 } },
+  },
+  DaemonSet: {
+    ...podSpecDefaultsAt('spec.template.spec'),
+    'spec.revisionHistoryLimit': 10,
+    'spec.updateStrategy': { type: 'RollingUpdate', rollingUpdate: { maxSurge: 0, maxUnavailable: 1 } },
+  },
+  Job: podSpecDefaultsAt('spec.template.spec'),
+  CronJob: podSpecDefaultsAt('spec.jobTemplate.spec.template.spec'),
+  Service: {
+    'spec.sessionAffinity': 'None',
+    'spec.internalTrafficPolicy': 'Cluster',
+    'spec.ipFamilyPolicy': 'SingleStack',
+    'spec.ports.*.protocol': 'TCP',
+  },
+};
+
+/**
+ * Splits a field path into its keys: keys are separated by dots, `*` matches every array item or map entry,
+ * and keys containing dots are written in brackets (e.g., 'metadata.annotations[kubectl.kubernetes.io/x]').
+ */
+const parseFieldPath = (path: string): string[] =>
+  [...path.matchAll(/\[([^\]]+)\]|[^.[\]]+/g)].map((match) => match[1] ?? match[0]);
+
+/**
+ * Compares two JSON values structurally.
+ */
+const isJsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aEntries = Object.entries(a);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aEntries.length === Object.keys(bRecord).length &&
+    aEntries.every(([key, value]) => key in bRecord && isJsonEqual(value, bRecord[key]))
+  );
+};
+
+/**
+ * Removes the field at a path (optionally only if it holds the given value).
+ * Maps left empty by the removal (e.g., annotations) are removed as well.
+ *
+ * @returns The number of fields removed.
+ */
+const removeField = (target: unknown, keys: string[], expected?: { value: unknown }): number => {
+  if (!target || typeof target !== 'object' || keys.length === 0) return 0;
+  const [key, ...rest] = keys;
+  const container = target as Record<string, unknown>;
+  const childKeys = key === '*' ? Object.keys(container) : key in container ? [key] : [];
+
+  let removed = 0;
+  for (const childKey of childKeys) {
+    const child = container[childKey];
+    if (rest.length === 0) {
+      if (!expected || isJsonEqual(child, expected.value)) {
+        delete container[childKey];
+        removed++;
+      }
+      continue;
+    }
+    const removedInChild = removeField(child, rest, expected);
+    removed += removedInChild;
+    if (removedInChild > 0 && child && typeof child === 'object' && Object.keys(child).length === 0) {
+      delete container[childKey];
+    }
+  }
+  return removed;
+};
+
+/**
+ * Removes the fields at the given paths from a resource (same path syntax as `slim.removeFields`).
+ * The resource is modified in place.
+ *
+ * @param object - The resource, as parsed from JSON or YAML.
+ * @param paths - The field paths to remove (e.g., 'metadata.resourceVersion', 'status.conditions.*.lastProbeTime').
+ * @returns The number of fields removed.
+ */
+export const removeFieldPaths = (object: unknown, paths: string[]): number =>
+  paths.reduce((removed, path) => removed + removeField(object, parseFieldPath(path)), 0);
+
+/**
+ * Removes noise fields (managed fields, last-applied configuration, resource versions, ...) from a resource,
+ * and from the items of lists. The resource is modified in place.
+ *
+ * @param object - The resource or list of resources, as parsed from JSON or YAML.
+ * @param config - The merged configuration object (`slim.removeFields` and `slim.removeDefaults`).
+ * @returns The number of fields removed.
+ */
+export const slimKubeObject = (object: unknown, config: KubeAggregatorConfigMerged): number => {
+  if (!object || typeof object !== 'object') return 0;
+  const resource = object as { kind?: string; items?: unknown[] };
+
+  let removed = 0;
+  if (Array.isArray(resource.items)) {
+    for (const item of resource.items) {
+      removed += slimKubeObject(item, config);
+    }
+  }
+
+  const removeFields = config.slim?.removeFields ?? {};
+  for (const path of [...(removeFields['*'] ?? []), ...((resource.kind && removeFields[resource.kind]) || [])]) {
+    removed += removeField(resource, parseFieldPath(path));
+  }
+  if (config.slim?.removeDefaults !== false && resource.kind) {
+    for (const [path, value] of Object.entries(DEFAULT_VALUED_FIELDS[resource.kind] ?? {})) {
+      removed += removeField(resource, parseFieldPath(path), { value });
+    }
+  }
+  return removed;
+};
+
+/**
+ * Processes YAML content containing Kubernetes resources, removing noise fields in slim mode.
+ *
+ * @param yamlString - The YAML string to process, potentially containing multiple resources
+ * @param config - The merged configuration object
+ * @returns The slimmed YAML string, or the original string if nothing was removed
+ */
+export const slimResourceManifest = (yamlString: string, config: KubeAggregatorConfigMerged): string => {
+  if (!yamlString || !config.slim?.enabled) {
+    return yamlString;
+  }
+
+  try {
+    const documents = yaml.parseAllDocuments(yamlString);
+    if (documents.some((doc) => doc.errors?.length)) {
+      logger.warn('Skipping slim mode for YAML content that cannot be parsed');
+      return yamlString;
+    }
+
+    let removed = 0;
+    const objects = documents.map((doc) => {
+      const object = doc.toJS();
+      removed += slimKubeObject(object, config);
+      return object;
+    });
+    logger.debug(`Slim mode removed ${removed} fields from ${documents.length} YAML documents`);
+    return removed > 0 ? objects.map((object) => yaml.stringify(object)).join('---\n') : yamlString;
+  } catch (error) {
+    logger.warn(`Error slimming resource manifest: ${error instanceof Error ? error.message : String(error)}`);
+    return yamlString;
+  }
+};
+
+/**
+ * Processes JSON content containing Kubernetes resources, removing noise fields in slim mode.
+ *
+ * @param jsonString - The JSON string to process
+ * @param config - The merged configuration object
+ * @returns The slimmed JSON string, or the original string if nothing was removed
+ */
+export const slimJsonResourceManifest = (jsonString: string, config: KubeAggregatorConfigMerged): string => {
+  if (!jsonString || !config.slim?.enabled) {
+    return jsonString;
+  }
+
+  try {
+    const resourceData = JSON.parse(jsonString);
+    const removed = slimKubeObject(resourceData, config);
+    logger.debug(`Slim mode removed ${removed} fields from JSON content`);
+    return removed > 0 ? JSON.stringify(resourceData) : jsonString;
+  } catch (error) {
+    logger.warn(`Error slimming JSON resource manifest: ${error instanceof Error ? error.message : String(error)}`);
+    return jsonString;
+  }
+};
+
 /**
  * Helper function to redact the values in a Secret's data field
  *
@@ -0,0 +1,62 @@
+// src/core/processing/resourceSections.ts
+
+import * as yaml from 'yaml';
+import type { ResourceKindGroup, ResourceSection } from '../output/outputGeneratorTypes.js';
+import { parseResources } from '../output/outputStyles/jsonStyle.js';
+import { SECRET_REDACTION_PLACEHOLDER } from './resourceProcessor.js';
+
+/**
+ * Builds the anchor of a resource section, unique within the document and stable across runs
+ * (e.g., 'deployment-payments-api', or 'eu-west-deployment-payments-api' with several clusters).
+ *
+ * @param kind - The kind of the resource.
+ * @param name - The name of the resource.
+ * @param namespace - The namespace of the resource, if namespaced.
+ * @param cluster - The cluster label, only set when several clusters are aggregated.
+ * @returns The anchor.
+ */
+export const getResourceAnchor = (kind: string, name: string, namespace?: string, cluster?: string): string =>
+  [cluster, kind, namespace, name]
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Splits YAML or JSON output (kubectl lists or multi-document YAML) into one section per resource, grouped by kind
+ * in order of first appearance. The output is expected to be redacted already: each section keeps its redaction.
+ *
+ * @param output - The fetched (and processed) output.
+ * @param namespace - The namespace the output was fetched from, for resources that do not name it.
+ * @param cluster - The cluster label, only set when several clusters are aggregated.
+ * @returns The sections grouped by kind, or undefined for text output or output that cannot be parsed.
+ */
+export const groupResourceSections = (
+  output: string,
+  namespace?: string,
+  cluster?: string,
+): ResourceKindGroup[] | undefined => {
+  const resources = parseResources(output, namespace);
+  if (!resources?.length) return undefined;
+  // Each section keeps the format of the fetched output
+  const isJson = output.trim().startsWith('{');
+
+  const groups = new Map<string, ResourceSection[]>();
+  for (const resource of resources) {
+    const sectionOutput = isJson
+      ? JSON.stringify(resource.manifest, null, 2)
+      : yaml.stringify(resource.manifest).trimEnd();
+    const sections = groups.get(resource.kind) ?? [];
+    sections.push({
+      kind: resource.kind,
+      name: resource.name,
+      namespace: resource.namespace,
+      anchor: getResourceAnchor(resource.kind, resource.name, resource.namespace, cluster),
+      output: sectionOutput,
+      redacted: sectionOutput.includes(SECRET_REDACTION_PLACEHOLDER) || undefined,
+    });
+    groups.set(resource.kind, sections);
+  }
+  return [...groups].map(([kind, sections]) => ({ kind, resources: sections }));
+};
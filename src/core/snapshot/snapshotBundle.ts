@@ -0,0 +1,170 @@
+// src/core/snapshot/snapshotBundle.ts
+// Snapshot bundles persist everything collected from the clusters (--save-snapshot), so that any output style,
+// slim setting or token budget can be rendered later without cluster access (kubemix render).
+// Bump SNAPSHOT_BUNDLE_VERSION with every change to the bundle structure (major: incompatible changes).
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { KubeAggregatorError } from '../../shared/errorHandle.js';
+import { logger } from '../../shared/logger.js';
+import type { ClusterAggregation } from '../output/outputGeneratorTypes.js';
+
+export const SNAPSHOT_BUNDLE_FORMAT = 'kubemix-snapshot';
+export const SNAPSHOT_BUNDLE_VERSION = '1.0';
+
+// Settings that determined what was collected; they are restored when the bundle is rendered
+export type SnapshotCollectionConfig = Pick<
+  KubeAggregatorConfigMerged,
+  'kubernetes' | 'filter' | 'clusterResources' | 'offline' | 'security' | 'diagnostics' | 'events' | 'helm'
+>;
+
+// Everything collected from one cluster, with its counts for the summary
+export interface SnapshotCluster {
+  aggregation: ClusterAggregation;
+  namespaceCount: number;
+  resourceCounts: Record<string, number>;
+  eventCount: number;
+}
+
+// A snapshot bundle
+export interface SnapshotBundle {
+  format: typeof SNAPSHOT_BUNDLE_FORMAT;
+  version: string;
+  createdAt: string;
+  secretsRedacted: boolean; // Whether Secret data and credential-like Helm values were redacted when collected
+  slimmed: boolean; // Whether noise fields were removed when collected (they cannot be restored)
+  config: SnapshotCollectionConfig;
+  clusters: SnapshotCluster[];
+}
+
+/**
+ * Creates a snapshot bundle from the data collected from each cluster.
+ * Per-resource sections are left out: they are derived from the outputs when the bundle is rendered.
+ *
+ * @param config - The merged configuration used to collect the data.
+ * @param clusters - The data collected from each cluster, in order.
+ * @returns The bundle.
+ */
+export const createSnapshotBundle = (
+  config: KubeAggregatorConfigMerged,
+  clusters: SnapshotCluster[],
+): SnapshotBundle => ({
+  format: SNAPSHOT_BUNDLE_FORMAT,
+  version: SNAPSHOT_BUNDLE_VERSION,
+  createdAt: new Date().toISOString(),
+  secretsRedacted: config.security?.redactSecrets !== false,
+  slimmed: config.slim?.enabled === true,
+  config: {
+    kubernetes: config.kubernetes,
+    filter: config.filter,
+    clusterResources: config.clusterResources,
+    offline: config.offline,
+    security: config.security,
+    diagnostics: config.diagnostics,
+    events: config.events,
+    helm: config.helm,
+  },
+  clusters: clusters.map(({ aggregation, namespaceCount, resourceCounts, eventCount }) => ({
+    aggregation: {
+      ...aggregation,
+      resourceBlocks: aggregation.resourceBlocks.map(({ kinds: _, ...block }) => block),
+    },
+    namespaceCount,
+    resourceCounts,
+    eventCount,
+  })),
+});
+
+/**
+ * Applies the collection settings of a bundle to the configuration of a render. Output settings (style, slim mode,
+ * token budget, ...) are kept; redaction cannot be undone, so a redacted bundle stays redacted.
+ *
+ * @param config - The merged configuration of the render.
+ * @param bundle - The bundle to render.
+ * @returns The configuration to render the bundle with.
+ */
+export const applySnapshotConfig = (
+  config: KubeAggregatorConfigMerged,
+  bundle: SnapshotBundle,
+): KubeAggregatorConfigMerged => {
+  if (bundle.slimmed && !config.slim?.enabled) {
+    logger.warn('The snapshot was collected in slim mode; the removed fields cannot be restored');
+  }
+  if (bundle.secretsRedacted && config.security?.redactSecrets === false) {
+    logger.warn('The snapshot was collected with Secret redaction; redacted values cannot be restored');
+  }
+  return {
+    ...config,
+    ...bundle.config,
+    security: {
+      ...bundle.config.security,
+      redactSecrets: bundle.secretsRedacted || config.security?.redactSecrets !== false,
+    },
+  };
+};
+
+/**
+ * Checks whether a parsed JSON document is a snapshot bundle (of any version).
+ */
+export const isSnapshotBundle = (document: unknown): document is SnapshotBundle =>
+  !!document && typeof document === 'object' && (document as { format?: unknown }).format === SNAPSHOT_BUNDLE_FORMAT;
+
+/**
+ * Writes a snapshot bundle to disk, creating any necessary directories.
+ *
+ * @param bundle - The bundle to write.
+ * @param filePath - The bundle file, relative to the working directory.
+ * @param cwd - The working directory.
+ * @returns The absolute path of the written file.
+ */
+export const writeSnapshotBundle = async (bundle: SnapshotBundle, filePath: string, cwd: string): Promise<string> => {
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(cwd, filePath);
+  try {
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, `${JSON.stringify(bundle)}\n`, 'utf8');
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to write snapshot ${absolutePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  logger.trace(`Snapshot bundle written to ${absolutePath}`);
+  return absolutePath;
+};
+
+/**
+ * Checks that a parsed document is a snapshot bundle of a supported version.
+ *
+ * @param document - The parsed JSON document.
+ * @param filePath - The bundle file, for error messages.
+ * @returns The bundle.
+ * @throws {KubeAggregatorError} If the document is not a bundle, or of an unsupported version.
+ */
+export const validateSnapshotBundle = (document: unknown, filePath: string): SnapshotBundle => {
+  if (!isSnapshotBundle(document) || !Array.isArray(document.clusters)) {
+    throw new KubeAggregatorError(`${filePath} is not a kubemix snapshot; save snapshots with --save-snapshot`);
+  }
+  if (typeof document.version !== 'string' || !document.version.startsWith('1.')) {
+    throw new KubeAggregatorError(`Snapshot ${filePath} has unsupported version ${document.version}`);
+  }
+  return document;
+};
+
+/**
+ * Loads a snapshot bundle from disk.
+ *
+ * @param filePath - The bundle file.
+ * @returns The bundle.
+ * @throws {KubeAggregatorError} If the file cannot be read or is not a snapshot bundle of a supported version.
+ */
+export const loadSnapshotBundle = async (filePath: string): Promise<SnapshotBundle> => {
+  let document: unknown;
+  try {
+    document = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new KubeAggregatorError(
+      `Failed to read snapshot ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  return validateSnapshotBundle(document, filePath);
+};
@@ -0,0 +1,136 @@
+// Breakdown of the token count by namespace, by kind and by individual resource or log block,
+// to find out which parts of the cluster make the output large.
+
+import * as yaml from 'yaml';
+import { logger } from '../../shared/logger.js';
+import type { ClusterAggregation } from '../output/outputGeneratorTypes.js';
+
+// Label of the cluster-scoped resources in the per-namespace breakdown
+const CLUSTER_SCOPED_LABEL = '(cluster-scoped)';
+
+// A resource or log block and its token count
+export interface TokenConsumer {
+  label: string; // e.g., 'ConfigMap shop/big-config' or 'logs shop/api-1'
+  tokens: number;
+}
+
+// Token counts of the fetched content (before any trimming to a token budget)
+export interface TokenBreakdown {
+  byNamespace: Record<string, number>; // Resources and diagnostics of each namespace
+  byKind: Record<string, number>; // Resources of each kind (e.g., 'ConfigMap'), 'logs' and 'describe' for diagnostics
+  topConsumers: TokenConsumer[]; // The largest individual resources and log blocks, largest first
+}
+
+// A resource found in fetched output, with its text as it appears in the output
+interface OutputResource {
+  kind: string;
+  name: string;
+  text: string;
+}
+
+/**
+ * Splits fetched output into its resources: the items of YAML or JSON lists, or the rows of kubectl tables
+ * (whose names are prefixed with their kind when several types are listed, e.g. 'pod/api-1').
+ *
+ * @param output - The fetched output.
+ * @returns The resources, with the text they take up in the output.
+ */
+const splitOutputResources = (output: string): OutputResource[] => {
+  const trimmed = output.trim();
+  const toResources = (items: unknown[], serialize: (item: unknown) => string): OutputResource[] =>
+    items.flatMap((item) => {
+      const object = item as { kind?: string; metadata?: { name?: string }; items?: unknown[] } | null;
+      if (!object || typeof object !== 'object') return [];
+      if (Array.isArray(object.items)) return toResources(object.items, serialize);
+      return [{ kind: object.kind ?? 'unknown', name: object.metadata?.name ?? '', text: serialize(item) }];
+    });
+
+  try {
+    if (trimmed.startsWith('{')) {
+      return toResources([JSON.parse(trimmed)], (item) => JSON.stringify(item, null, 2));
+    }
+    if (trimmed.includes('apiVersion:')) {
+      const documents = yaml.parseAllDocuments(trimmed).map((document) => document.toJS());
+      return toResources(documents, (item) => yaml.stringify(item));
+    }
+  } catch (error) {
+    logger.debug(`Falling back to table rows for the token breakdown: ${error instanceof Error ? error.message : ''}`);
+  }
+
+  return trimmed.split('\n').flatMap((line) => {
+    const name = line.trim().split(/\s+/)[0] ?? '';
+    const separator = name.indexOf('/');
+    return separator > 0 ? [{ kind: name.slice(0, separator), name: name.slice(separator + 1), text: line }] : [];
+  });
+};
+
+/**
+ * Calculates token counts per namespace, per kind and for the largest resources and log blocks.
+ *
+ * @param clusters - The data collected from each cluster.
+ * @param countTokens - Counts the tokens of a text.
+ * @param topLength - Number of largest resources and log blocks to list.
+ * @returns The token breakdown.
+ */
+export const calculateTokenBreakdown = (
+  clusters: ClusterAggregation[],
+  countTokens: (text: string) => number,
+  topLength: number,
+): TokenBreakdown => {
+  const byNamespace: Record<string, number> = {};
+  const byKind: Record<string, number> = {};
+  const consumers: TokenConsumer[] = [];
+  const add = (namespace: string, kind: string, label: string, tokens: number) => {
+    byNamespace[namespace] = (byNamespace[namespace] ?? 0) + tokens;
+    byKind[kind] = (byKind[kind] ?? 0) + tokens;
+    consumers.push({ label, tokens });
+  };
+
+  for (const cluster of clusters) {
+    // Namespaces of several clusters are told apart by their context
+    const prefix = cluster.context ? `${cluster.context}: ` : '';
+    const addOutput = (namespace: string | undefined, output: string) => {
+      const resources = splitOutputResources(output);
+      // Tables of a single type do not name the kind of their rows: count the output as a whole
+      if (resources.length === 0) {
+        const label = `${prefix}${namespace ?? CLUSTER_SCOPED_LABEL}`;
+        add(label, 'other', `${label} output`, countTokens(output));
+        return;
+      }
+      for (const resource of resources) {
+        const qualifiedName = namespace ? `${namespace}/${resource.name}` : resource.name;
+        add(
+          `${prefix}${namespace ?? CLUSTER_SCOPED_LABEL}`,
+          resource.kind,
+          `${prefix}${resource.kind} ${qualifiedName}`,
+          countTokens(resource.text),
+        );
+      }
+    };
+
+    for (const block of cluster.resourceBlocks) {
+      addOutput(block.namespace, block.output);
+    }
+    if (cluster.clusterResources?.output) {
+      addOutput(undefined, cluster.clusterResources.output);
+    }
+    for (const diagnostics of cluster.podDiagnostics ?? []) {
+      const pod = `${diagnostics.namespace}/${diagnostics.podName}`;
+      const namespace = `${prefix}${diagnostics.namespace}`;
+      add(namespace, 'logs', `${prefix}logs ${pod}`, countTokens(diagnostics.logs));
+      if (diagnostics.prevLogs) {
+        add(namespace, 'logs', `${prefix}previous logs ${pod}`, countTokens(diagnostics.prevLogs));
+      }
+      add(namespace, 'describe', `${prefix}describe ${pod}`, countTokens(diagnostics.description));
+    }
+  }
+
+  return {
+    byNamespace,
+    byKind,
+    topConsumers: consumers
+      .filter((consumer) => consumer.tokens > 0)
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, topLength),
+  };
+};
@@ -0,0 +1,139 @@
+// src/core/watch/watchResources.ts
+// Watch mode (--watch): the aggregation is repeated periodically until interrupted, and each run is compared with
+// the previous one. Runs are compared like kubemix diff compares snapshots, as JSON output documents.
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { AggregationResult } from '../../cli/actions/namespaceAction.js';
+import type { KubeAggregatorConfigMerged } from '../../config/configSchema.js';
+import { logger } from '../../shared/logger.js';
+import { type SnapshotDiff, diffSnapshots } from '../diff/snapshotDiff.js';
+import { buildOutputGeneratorContext } from '../output/outputGenerate.js';
+import { type JsonOutputDocument, buildJsonOutputDocument } from '../output/outputStyles/jsonStyle.js';
+import { runAggregation } from '../packager.js';
+
+// The resource count of a kind that changed between two runs
+export interface ResourceCountChange {
+  kind: string;
+  before: number;
+  after: number;
+}
+
+// What changed since the previous run
+export interface WatchChanges {
+  diff: SnapshotDiff; // Added, removed and modified resources (only parsed from YAML and JSON output)
+  resourceCountChanges: ResourceCountChange[];
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// A completed run of watch mode
+export interface WatchIteration {
+  iteration: number; // 1 for the first run
+  metrics: AggregationResult;
+  changes?: WatchChanges; // Undefined for the first run
+}
+
+// A run, as kept to compare the next run with
+interface WatchState {
+  metrics: AggregationResult;
+  document: JsonOutputDocument;
+}
+
+// Dependencies of watch mode, injected for easier testing
+const defaultDeps = {
+  runAggregation,
+  // Resolves early (without rejecting) when the watch is stopped
+  wait: (milliseconds: number, signal: AbortSignal): Promise<void> =>
+    sleep(milliseconds, undefined, { signal }).catch(() => {}),
+};
+
+/**
+ * Compares a run with the previous one: resources added, removed and modified, resource counts and output size.
+ *
+ * @param previous - The previous run.
+ * @param current - The current run.
+ * @param ignoreFields - Volatile field paths ignored by kind (diff.ignoreFields).
+ * @returns The changes.
+ */
+const compareRuns = (
+  previous: WatchState,
+  current: WatchState,
+  ignoreFields: Record<string, string[]> | undefined,
+): WatchChanges => {
+  const before = previous.metrics.resourceCounts ?? {};
+  const after = current.metrics.resourceCounts ?? {};
+  const resourceCountChanges = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .map((kind) => ({ kind, before: before[kind] ?? 0, after: after[kind] ?? 0 }))
+    .filter((change) => change.before !== change.after);
+
+  return {
+    diff: diffSnapshots(
+      previous.document,
+      current.document,
+      { before: 'previous run', after: 'current run' },
+      ignoreFields,
+    ),
+    resourceCountChanges,
+    tokensBefore: previous.metrics.totalTokens ?? 0,
+    tokensAfter: current.metrics.totalTokens ?? 0,
+  };
+};
+
+/**
+ * Aggregates the resources every `watch.intervalSeconds` seconds until the signal is aborted, rewriting the output
+ * each time. Resources are only compared with the yaml and json output formats (a warning is logged otherwise).
+ * A failing first run is thrown, as it usually means a configuration problem; later failures (e.g., a cluster that
+ * is briefly unreachable) are logged and the previous output is kept.
+ *
+ * @param config - The merged configuration object.
+ * @param onIteration - Called after each successful run, with the changes since the previous successful run.
+ * @param signal - Stops the watch; a run in progress is completed first.
+ * @param deps - Dependency injection for testing.
+ * @returns A promise resolving with the number of successful runs once the watch is stopped.
+ */
+export const watchResources = async (
+  config: KubeAggregatorConfigMerged,
+  onIteration: (iteration: WatchIteration) => void,
+  signal: AbortSignal,
+  deps = defaultDeps,
+): Promise<number> => {
+  const intervalMilliseconds = (config.watch?.intervalSeconds ?? 60) * 1000;
+  // Runs are compared as JSON output documents, into which kubectl tables are not parsed
+  if ((config.kubernetes?.outputFormat || 'text') === 'text') {
+    logger.warn(
+      'With --format text, watch mode only reports changes in resource counts and tokens; fetch with --format yaml or json to see the added, removed and modified resources',
+    );
+  }
+  let previous: WatchState | undefined;
+  let successfulRuns = 0;
+
+  for (let iteration = 1; !signal.aborted; iteration++) {
+    try {
+      const { metrics, aggregations } = await deps.runAggregation(config);
+      const current = {
+        metrics,
+        document: buildJsonOutputDocument(await buildOutputGeneratorContext(config, aggregations)),
+      };
+      successfulRuns++;
+      onIteration({
+        iteration,
+        metrics,
+        changes: previous && compareRuns(previous, current, config.diff?.ignoreFields),
+      });
+      previous = current;
+    } catch (error) {
+      if (iteration === 1) {
+        throw error;
+      }
+      if (!signal.aborted) {
+        logger.warn(
+          `Run ${iteration} failed, the previous output is kept: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+    if (!signal.aborted) {
+      await deps.wait(intervalMilliseconds, signal);
+    }
+  }
+  return successfulRuns;
+};
@@ -9,6 +9,10 @@ export { aggregateResources } from './core/packager.js';
 export { generateOutput } from './core/output/outputGenerate.js';
 export { getNamespacesOutput, getNamespaceNames } from './core/kubernetes/kubectlWrapper.js';
 
+// Export the JSON output document type and the version of its schema (schemas/output.schema.json)
+export { JSON_OUTPUT_SCHEMA_VERSION } from './core/output/outputStyles/jsonStyle.js';
+export type { JsonOutputDocument } from './core/output/outputStyles/jsonStyle.js';
+
 // Export configuration-related types for programmatic access
 export type { KubeAggregatorConfigMerged } from './config/configSchema.js';
 
@@ -0,0 +1,31 @@
+// src/shared/concurrency.ts
+
+/**
+ * Maps items through an async function, running at most `limit` calls at a time.
+ * Results keep the order of the input items, like Promise.all.
+ *
+ * @param items - The items to process.
+ * @param limit - Maximum number of concurrent calls (values below 1 are treated as 1).
+ * @param fn - The async function applied to each item.
+ * @returns A promise that resolves with the results, in input order.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker picks the next unprocessed item until none are left
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
@@ -42,6 +42,27 @@ export class KubectlError extends KubeAggregatorError {
   }
 }
 
+// Specific error for kubectl commands that did not complete within the request timeout
+export class KubectlTimeoutError extends KubectlError {
+  constructor(message: string, command?: string) {
+    super(message, message, command);
+    this.name = 'KubectlTimeoutError';
+    Object.setPrototypeOf(this, KubectlTimeoutError.prototype);
+  }
+}
+
+// Specific error for failed Kubernetes API requests (API transport)
+export class KubeApiError extends KubeAggregatorError {
+  public readonly reason?: string; // Status reason reported by the API server, e.g. 'NotFound', 'Forbidden'
+
+  constructor(message: string, statusCode?: number, reason?: string) {
+    super(message, statusCode);
+    this.name = 'KubeApiError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, KubeApiError.prototype);
+  }
+}
+
 /**
  * Handles errors caught at the top level or during specific actions.
  * Logs the error appropriately and provides user feedback.
@@ -16,6 +16,7 @@ export type KubeAggregatorLogLevel = (typeof kubeAggregatorLogLevels)[keyof type
 // Logger class to handle different log levels and formatting
 class KubeAggregatorLogger {
   private level: KubeAggregatorLogLevel = kubeAggregatorLogLevels.INFO;
+  private stderrOnly = false; // Set while stdout carries the generated output (--stdout)
 
   constructor() {
     this.init(); // Set default level on instantiation
@@ -36,6 +37,11 @@ class KubeAggregatorLogger {
     return this.level;
   }
 
+  // Write every message to stderr, keeping stdout free for the generated output
+  setStderrOnly(stderrOnly: boolean) {
+    this.stderrOnly = stderrOnly;
+  }
+
   // Log error messages (visible at ERROR level and above)
   error(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.ERROR) {
@@ -53,42 +59,51 @@ class KubeAggregatorLogger {
   // Log success messages (visible at INFO level and above)
   success(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.INFO) {
-      console.log(pc.green(this.formatArgs(args)));
+      this.print(pc.green(this.formatArgs(args)));
     }
   }
 
   // Log general informational messages (visible at INFO level and above)
   info(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.INFO) {
-      console.log(pc.cyan(this.formatArgs(args)));
+      this.print(pc.cyan(this.formatArgs(args)));
     }
   }
 
   // Log standard messages without specific styling (visible at INFO level and above)
   log(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.INFO) {
-      console.log(this.formatArgs(args));
+      this.print(this.formatArgs(args));
     }
   }
 
   // Log less important informational messages (visible at INFO level and above)
   note(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.INFO) {
-      console.log(pc.dim(this.formatArgs(args))); // Use dim for less emphasis
+      this.print(pc.dim(this.formatArgs(args))); // Use dim for less emphasis
     }
   }
 
   // Log debug messages (only visible at DEBUG level)
   debug(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.DEBUG) {
-      console.log(pc.blue(`[DEBUG] ${this.formatArgs(args)}`)); // Add prefix for clarity
+      this.print(pc.blue(`[DEBUG] ${this.formatArgs(args)}`)); // Add prefix for clarity
     }
   }
 
   // Log trace messages for very detailed debugging (only visible at DEBUG level)
   trace(...args: unknown[]) {
     if (this.level >= kubeAggregatorLogLevels.DEBUG) {
-      console.log(pc.gray(`[TRACE] ${this.formatArgs(args)}`)); // Use gray and prefix
+      this.print(pc.gray(`[TRACE] ${this.formatArgs(args)}`)); // Use gray and prefix
+    }
+  }
+
+  // Helper to write non-error messages to stdout, or to stderr when stdout carries the output
+  private print(message: string) {
+    if (this.stderrOnly) {
+      console.error(message);
+    } else {
+      console.log(message);
     }
   }
 
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { runWatchAction } from '../../../src/cli/actions/watchAction.js';
+import { defaultConfig } from '../../../src/config/configSchema.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+describe('runWatchAction', () => {
+  it('rejects writing the output to stdout', async () => {
+    const config = {
+      ...defaultConfig,
+      cwd: '/test',
+      output: { ...defaultConfig.output, stdout: true },
+      watch: { enabled: true, intervalSeconds: 5 },
+    };
+
+    await expect(runWatchAction(config)).rejects.toThrow(KubeAggregatorError);
+  });
+});
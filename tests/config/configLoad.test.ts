@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildCliConfig, mergeConfigs } from '../../src/config/configLoad.js';
+
+describe('selector options', () => {
+  it('maps -l/--selector and --field-selector to the filter config', () => {
+    const cliConfig = buildCliConfig({ selector: ' app=checkout ', fieldSelector: 'status.phase!=Running' });
+
+    expect(cliConfig.filter?.labelSelector).toBe('app=checkout');
+    expect(cliConfig.filter?.fieldSelector).toBe('status.phase!=Running');
+  });
+
+  it('lets CLI selectors replace the ones from the config file', () => {
+    const merged = mergeConfigs(
+      '/test',
+      { filter: { labelSelector: 'app=payments', fieldSelector: 'metadata.name=api' } },
+      buildCliConfig({ selector: 'app=checkout' }),
+    );
+
+    expect(merged.filter?.labelSelector).toBe('app=checkout');
+    expect(merged.filter?.fieldSelector).toBe('metadata.name=api');
+  });
+
+  it('keeps file selectors when no CLI selectors are given', () => {
+    const merged = mergeConfigs('/test', { filter: { labelSelector: 'app=payments' } }, buildCliConfig({}));
+
+    expect(merged.filter?.labelSelector).toBe('app=payments');
+  });
+});
+
+describe('context options', () => {
+  it('maps a comma-separated --context to several contexts', () => {
+    const cliConfig = buildCliConfig({ context: 'eu-west, us-east' });
+
+    expect(cliConfig.kubernetes?.contexts).toEqual(['eu-west', 'us-east']);
+    expect(cliConfig.kubernetes?.context).toBeUndefined();
+  });
+
+  it('lets a single CLI context replace the contexts from the config file', () => {
+    const merged = mergeConfigs(
+      '/test',
+      { kubernetes: { contexts: ['eu-west', 'us-east'] } },
+      buildCliConfig({ context: 'staging' }),
+    );
+
+    expect(merged.kubernetes?.context).toBe('staging');
+    expect(merged.kubernetes?.contexts).toEqual([]);
+  });
+
+  it('maps --all-contexts to the kubernetes config', () => {
+    expect(buildCliConfig({ allContexts: true }).kubernetes?.allContexts).toBe(true);
+  });
+});
+
+describe('watch options', () => {
+  it('maps --watch with and without an interval to the watch config', () => {
+    expect(buildCliConfig({ watch: true }).watch).toEqual({ enabled: true });
+    expect(buildCliConfig({ watch: '30' }).watch).toEqual({ enabled: true, intervalSeconds: 30 });
+    expect(mergeConfigs('/test', {}, buildCliConfig({ watch: true })).watch).toEqual({
+      enabled: true,
+      intervalSeconds: 60,
+    });
+  });
+});
+
+describe('stdout options', () => {
+  it('maps --stdout and -o - to the output config', () => {
+    expect(buildCliConfig({ stdout: true }).output?.stdout).toBe(true);
+    expect(buildCliConfig({ output: '-' }).output).toEqual({ stdout: true });
+  });
+});
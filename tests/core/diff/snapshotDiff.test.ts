@@ -0,0 +1,160 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots, diffValues, loadSnapshot, normalizeManifest } from '../../../src/core/diff/snapshotDiff.js';
+import type { JsonOutputDocument, JsonOutputResource } from '../../../src/core/output/outputStyles/jsonStyle.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+const resource = (manifest: Record<string, unknown>): JsonOutputResource => {
+  const metadata = manifest.metadata as { name: string; namespace?: string };
+  return {
+    kind: manifest.kind as string,
+    name: metadata.name,
+    namespace: metadata.namespace,
+    labels: {},
+    manifest,
+  };
+};
+
+const snapshot = (resources: JsonOutputResource[], generatedAt: string): JsonOutputDocument =>
+  ({
+    schemaVersion: '1.0',
+    generator: { name: 'kubemix', generatedAt },
+    clusters: [{ context: null, resources, clusterResources: [], rawOutputs: [] }],
+  }) as unknown as JsonOutputDocument;
+
+const deployment = (image: string, resourceVersion: string) =>
+  resource({
+    kind: 'Deployment',
+    metadata: { name: 'api', namespace: 'payments', resourceVersion },
+    spec: { template: { spec: { containers: [{ name: 'api', image }] } } },
+    status: { conditions: [{ type: 'Available', status: 'True', lastTransitionTime: resourceVersion }] },
+  });
+
+describe('normalizeManifest', () => {
+  it('removes ignored fields and status timestamps without modifying the resource', () => {
+    const original = deployment('api:1', '100');
+    const normalized = normalizeManifest(original, { '*': ['metadata.resourceVersion'] });
+
+    expect(normalized.metadata).toEqual({ name: 'api', namespace: 'payments' });
+    expect(normalized.status).toEqual({ conditions: [{ type: 'Available', status: 'True' }] });
+    expect((original.manifest.metadata as { resourceVersion?: string }).resourceVersion).toBe('100');
+  });
+});
+
+describe('diffValues', () => {
+  it('matches named list items by name and reports changed, added and removed fields', () => {
+    const changes = diffValues(
+      {
+        containers: [
+          { name: 'api', image: 'api:1' },
+          { name: 'proxy', image: 'envoy' },
+        ],
+        replicas: 2,
+      },
+      { containers: [{ name: 'api', image: 'api:2' }], replicas: 2, paused: true },
+    );
+
+    expect(changes).toEqual([
+      { path: 'containers[name=api].image', type: 'changed', before: '"api:1"', after: '"api:2"' },
+      { path: 'containers[name=proxy]', type: 'removed', before: '{"name":"proxy","image":"envoy"}' },
+      { path: 'paused', type: 'added', after: 'true' },
+    ]);
+  });
+
+  it('compares other lists by position', () => {
+    expect(diffValues({ args: ['--a', '--b'] }, { args: ['--a'] })).toEqual([
+      { path: 'args[1]', type: 'removed', before: '"--b"' },
+    ]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports added, removed and modified resources, ignoring volatile fields', () => {
+    const before = snapshot(
+      [deployment('api:1', '100'), resource({ kind: 'Service', metadata: { name: 'old', namespace: 'payments' } })],
+      '2026-10-18T10:00:00Z',
+    );
+    const after = snapshot(
+      [deployment('api:2', '200'), resource({ kind: 'ConfigMap', metadata: { name: 'cfg', namespace: 'payments' } })],
+      '2026-10-19T10:00:00Z',
+    );
+
+    const diff = diffSnapshots(
+      before,
+      after,
+      { before: 'a.json', after: 'b.json' },
+      { '*': ['metadata.resourceVersion'] },
+    );
+
+    expect(diff.before).toEqual({ source: 'a.json', generatedAt: '2026-10-18T10:00:00Z' });
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0]).toMatchObject({ kind: 'Deployment', anchor: 'deployment-payments-api' });
+    expect(diff.modified[0].changes).toEqual([
+      {
+        path: 'spec.template.spec.containers[name=api].image',
+        type: 'changed',
+        before: '"api:1"',
+        after: '"api:2"',
+      },
+    ]);
+    expect(diff.removed.map((entry) => entry.name)).toEqual(['old']);
+    expect(diff.added.map((entry) => entry.name)).toEqual(['cfg']);
+    expect(diff.added[0].manifest).toContain('kind: ConfigMap');
+    expect(diff.unchangedCount).toBe(0);
+  });
+
+  it('counts unchanged resources and warns about text output', () => {
+    const before = snapshot([deployment('api:1', '100')], '');
+    const after = snapshot([deployment('api:1', '200')], '');
+    after.clusters[0].rawOutputs = [{ command: 'kubectl get pods -o wide', output: 'NAME  READY' }];
+
+    const diff = diffSnapshots(
+      before,
+      after,
+      { before: 'a.json', after: 'b.json' },
+      { '*': ['metadata.resourceVersion'] },
+    );
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.modified).toEqual([]);
+    expect(diff.warnings).toHaveLength(1);
+    expect(diff.warnings[0]).toContain('b.json');
+  });
+  it('tells apart kinds of the same name in different API groups, across versions of a group', () => {
+    const certificate = (apiVersion: string, issuer: string) =>
+      resource({ apiVersion, kind: 'Certificate', metadata: { name: 'web', namespace: 'shop' }, spec: { issuer } });
+    const before = snapshot(
+      [certificate('cert-manager.io/v1alpha2', 'letsencrypt'), certificate('acme.example.com/v1', 'internal')],
+      '',
+    );
+    const after = snapshot(
+      [certificate('cert-manager.io/v1', 'letsencrypt'), certificate('acme.example.com/v1', 'internal-ca')],
+      '',
+    );
+
+    const diff = diffSnapshots(before, after, { before: 'a.json', after: 'b.json' });
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.modified).toHaveLength(2);
+    expect(diff.modified.flatMap((entry) => entry.changes?.map((change) => change.path))).toEqual([
+      'apiVersion',
+      'spec.issuer',
+    ]);
+  });
+});
+
+describe('loadSnapshot', () => {
+  it('rejects files that are not JSON output documents', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-diff-'));
+    const filePath = path.join(directory, 'output.md');
+    await fs.writeFile(filePath, '# Cluster Summary');
+    try {
+      await expect(loadSnapshot(filePath)).rejects.toThrow(KubeAggregatorError);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
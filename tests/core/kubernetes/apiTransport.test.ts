@@ -0,0 +1,264 @@
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as yaml from 'yaml';
+import { formatHumanDuration } from '../../../src/core/kubernetes/apiRender.js';
+import { createApiTransport } from '../../../src/core/kubernetes/apiTransport.js';
+import {
+  type KubectlTransport,
+  createExecTransport,
+  setKubectlTransport,
+} from '../../../src/core/kubernetes/kubectlTransport.js';
+import {
+  describePod,
+  getNamespaceNames,
+  getPodLogs,
+  getResourcesByName,
+  getResourcesOutput,
+} from '../../../src/core/kubernetes/kubectlWrapper.js';
+import { getResourceKindRegistry } from '../../../src/core/kubernetes/resourceDiscovery.js';
+
+const TOKEN = 'test-token';
+const CREATED = new Date(Date.now() - 3 * 24 * 3600 * 1000).toISOString();
+
+const discovery: Record<string, unknown> = {
+  '/api/v1': {
+    groupVersion: 'v1',
+    resources: [
+      { name: 'namespaces', singularName: 'namespace', namespaced: false, kind: 'Namespace', verbs: ['get', 'list'] },
+      {
+        name: 'pods',
+        singularName: 'pod',
+        namespaced: true,
+        kind: 'Pod',
+        verbs: ['get', 'list'],
+        shortNames: ['po'],
+        categories: ['all'],
+      },
+      { name: 'pods/log', singularName: '', namespaced: true, kind: 'Pod', verbs: ['get'] },
+    ],
+  },
+  '/apis': { groups: [{ name: 'apps', preferredVersion: { groupVersion: 'apps/v1' } }] },
+  '/apis/apps/v1': {
+    groupVersion: 'apps/v1',
+    resources: [
+      {
+        name: 'deployments',
+        singularName: 'deployment',
+        namespaced: true,
+        kind: 'Deployment',
+        verbs: ['get', 'list'],
+        shortNames: ['deploy'],
+        categories: ['all'],
+      },
+    ],
+  },
+};
+
+const collections: Record<string, Array<{ name: string; labels?: Record<string, string> }>> = {
+  '/api/v1/namespaces': [{ name: 'default' }, { name: 'shop' }],
+  '/api/v1/namespaces/shop/pods': [{ name: 'web-1', labels: { app: 'web' } }, { name: 'worker-1' }],
+  '/apis/apps/v1/namespaces/shop/deployments': [{ name: 'web', labels: { app: 'web' } }],
+  '/api/v1/namespaces/shop/events': [],
+};
+
+const failingPod = {
+  metadata: { name: 'web-1', namespace: 'shop', uid: 'uid-1', labels: { app: 'web' } },
+  spec: { nodeName: 'node-1', containers: [{ name: 'web', image: 'nginx:1.27' }] },
+  status: {
+    phase: 'Running',
+    containerStatuses: [{ name: 'web', restartCount: 4, state: { waiting: { reason: 'CrashLoopBackOff' } } }],
+  },
+};
+
+// Stand-in API server serving discovery, lists (plain, metadata and table), logs and errors
+const handleRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(401, { kind: 'Status', message: 'Unauthorized', reason: 'Unauthorized', code: 401 });
+  }
+  if (discovery[url.pathname]) {
+    return send(200, discovery[url.pathname]);
+  }
+  if (url.pathname === '/api/v1/namespaces/slow/pods') {
+    setTimeout(() => send(200, { kind: 'List', metadata: {}, items: [] }), 150);
+    return;
+  }
+  if (url.pathname === '/api/v1/namespaces/shop/pods/web-1') {
+    return send(200, failingPod);
+  }
+  if (url.pathname === '/api/v1/namespaces/shop/pods/web-1/log') {
+    if (url.searchParams.get('previous') === 'true') {
+      return send(400, {
+        kind: 'Status',
+        message: 'previous terminated container "web" in pod "web-1" not found',
+        reason: 'BadRequest',
+        code: 400,
+      });
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    return res.end(`line ${url.searchParams.get('tailLines')}\n`);
+  }
+
+  const items = collections[url.pathname];
+  if (!items) {
+    return send(404, {
+      kind: 'Status',
+      message: 'the server could not find the requested resource',
+      reason: 'NotFound',
+    });
+  }
+  const labelSelector = url.searchParams.get('labelSelector');
+  const selected = items.filter(({ labels }) => {
+    if (!labelSelector) return true;
+    const [key, value] = labelSelector.split('=');
+    return labels?.[key] === value;
+  });
+
+  if (req.headers.accept?.startsWith('application/json;as=Table')) {
+    return send(200, {
+      kind: 'Table',
+      apiVersion: 'meta.k8s.io/v1',
+      columnDefinitions: [
+        { name: 'Name', type: 'string', format: 'name', priority: 0 },
+        { name: 'Age', type: 'date', priority: 0 },
+        { name: 'Labels', type: 'string', priority: 1 },
+      ],
+      rows: selected.map(({ name, labels }) => ({
+        cells: [name, CREATED, labels ? Object.entries(labels).map(([k, v]) => `${k}=${v}`) : null],
+        object: { metadata: { name } },
+      })),
+    });
+  }
+  return send(200, {
+    kind: 'List',
+    metadata: {},
+    items: selected.map(({ name, labels }) => ({ metadata: { name, labels, creationTimestamp: CREATED } })),
+  });
+};
+
+describe('API transport', () => {
+  let server: http.Server;
+  let tempDir: string;
+  let kubeconfigPath: string;
+  let transport: KubectlTransport;
+
+  beforeAll(async () => {
+    server = http.createServer(handleRequest);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-api-'));
+    kubeconfigPath = path.join(tempDir, 'config');
+    await fs.writeFile(
+      kubeconfigPath,
+      yaml.stringify({
+        apiVersion: 'v1',
+        kind: 'Config',
+        'current-context': 'test',
+        clusters: [{ name: 'test', cluster: { server: `http://127.0.0.1:${port}` } }],
+        users: [{ name: 'test', user: { token: TOKEN } }],
+        contexts: [{ name: 'test', context: { cluster: 'test', user: 'test', namespace: 'shop' } }],
+      }),
+    );
+
+    transport = createApiTransport();
+    setKubectlTransport(transport);
+  });
+
+  afterAll(async () => {
+    setKubectlTransport(createExecTransport());
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists namespace names', async () => {
+    expect(await getNamespaceNames(kubeconfigPath)).toEqual(['default', 'shop']);
+  });
+
+  it('builds the resource kind registry from the discovery endpoints', async () => {
+    const registry = await getResourceKindRegistry(kubeconfigPath);
+
+    expect(registry.getListableTypes()).toEqual(['deployments.apps', 'namespaces', 'pods']);
+    expect(registry.resolve('deploy')?.group).toBe('apps');
+  });
+
+  it('fetches resource names by kind, applying label selectors', async () => {
+    const names = await getResourcesByName('shop', ['pods', 'deployments.apps'], kubeconfigPath, undefined, {
+      labelSelector: 'app=web',
+    });
+
+    expect(names).toEqual({ pods: ['web-1'], 'deployments.apps': ['web'] });
+  });
+
+  it('renders YAML output as a kubectl List and records the equivalent kubectl command', async () => {
+    const { output, command } = await getResourcesOutput('shop', ['pods'], kubeconfigPath, undefined, 'yaml');
+    const document = yaml.parse(output);
+
+    expect(command).toBe(`kubectl --kubeconfig ${kubeconfigPath} get pods -n shop -o yaml`);
+    expect(document.kind).toBe('List');
+    expect(document.items.map((item: { kind: string; metadata: { name: string } }) => item.kind)).toEqual([
+      'Pod',
+      'Pod',
+    ]);
+  });
+
+  it('renders wide tables from the server-side table columns', async () => {
+    const { output } = await getResourcesOutput('shop', ['pods', 'deployments.apps'], kubeconfigPath);
+    const lines = output.trim().split('\n');
+
+    expect(lines[0].split(/\s+/)).toEqual(['NAME', 'AGE', 'LABELS']);
+    expect(lines[1].split(/\s+/)).toEqual(['pod/web-1', '3d', 'app=web']);
+    expect(lines[2].split(/\s+/)).toEqual(['pod/worker-1', '3d', '<none>']);
+    expect(output).toContain('deployment.apps/web');
+  });
+
+  it('fetches pod logs and reports missing previous containers like kubectl', async () => {
+    const current = await getPodLogs('shop', 'web-1', 20, false, kubeconfigPath);
+    const previous = await getPodLogs('shop', 'web-1', 20, true, kubeconfigPath);
+
+    expect(current.logs).toBe('line 20\n');
+    expect(previous.logs).toBe('(No previous container logs available)');
+  });
+
+  it('applies the timeout of each command to its own requests only', async () => {
+    const command = (timeoutMs: number) =>
+      transport.execute(['get', 'pods', '-n', 'slow', '-o', 'name'], {
+        kubeconfigPath,
+        command: 'kubectl get pods -n slow -o name',
+        timeoutMs,
+      });
+    const [withoutTimeout, withTimeout] = await Promise.allSettled([command(0), command(50)]);
+
+    expect(withoutTimeout.status).toBe('fulfilled');
+    expect(withTimeout.status).toBe('rejected');
+  });
+
+  it('describes pods like kubectl describe', async () => {
+    const { description, command } = await describePod('shop', 'web-1', kubeconfigPath);
+
+    expect(command).toBe(`kubectl --kubeconfig ${kubeconfigPath} describe pod web-1 -n shop`);
+    expect(description).toMatch(/^Name: +web-1$/m);
+    expect(description).toMatch(/^ {4}Image: +nginx:1\.27$/m);
+    expect(description).toMatch(/^ {6}Reason: +CrashLoopBackOff$/m);
+    expect(description).toMatch(/^ {4}Restart Count: +4$/m);
+    expect(description).toMatch(/^Events: +<none>$/m);
+  });
+});
+
+describe('formatHumanDuration', () => {
+  it('formats durations like kubectl ages', () => {
+    expect(formatHumanDuration(45 * 1000)).toBe('45s');
+    expect(formatHumanDuration(450 * 1000)).toBe('7m30s');
+    expect(formatHumanDuration(5.2 * 3600 * 1000)).toBe('5h12m');
+    expect(formatHumanDuration(76 * 3600 * 1000)).toBe('3d4h');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { EventObject } from '../../../src/core/kubernetes/apiTypes.js';
+import { getEventAnnotations, summarizeEvents } from '../../../src/core/kubernetes/eventCollector.js';
+
+const createEvent = (overrides: Partial<EventObject>): EventObject => ({
+  kind: 'Event',
+  metadata: { name: 'event', namespace: 'shop' },
+  involvedObject: { kind: 'Pod', name: 'api-1', namespace: 'shop' },
+  type: 'Warning',
+  reason: 'BackOff',
+  message: 'Back-off restarting failed container',
+  count: 1,
+  lastTimestamp: '2024-05-01T10:00:00Z',
+  ...overrides,
+});
+
+const options = { includeNormal: false, sinceMinutes: 60, maxEvents: 10, namespaces: ['shop'] };
+
+describe('summarizeEvents', () => {
+  it('merges events by reason and involved object', () => {
+    const events = summarizeEvents(
+      [
+        createEvent({ count: 3, firstTimestamp: '2024-05-01T09:40:00Z', lastTimestamp: '2024-05-01T09:50:00Z' }),
+        createEvent({ count: 2, message: 'Back-off restarting failed container (latest)' }),
+      ],
+      options,
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      resourceType: 'pods',
+      count: 5,
+      firstSeen: '2024-05-01T09:40:00Z',
+      lastSeen: '2024-05-01T10:00:00Z',
+      message: 'Back-off restarting failed container (latest)',
+    });
+  });
+
+  it('drops Normal events, old events and events of other namespaces, in chronological order', () => {
+    const events = summarizeEvents(
+      [
+        createEvent({ reason: 'Unhealthy', lastTimestamp: '2024-05-01T09:30:00Z' }),
+        createEvent({ reason: 'Pulled', type: 'Normal' }),
+        createEvent({ reason: 'Evicted', lastTimestamp: '2024-05-01T07:00:00Z' }),
+        createEvent({ involvedObject: { kind: 'Pod', name: 'web-1', namespace: 'web' } }),
+        createEvent({ involvedObject: { kind: 'Node', name: 'node-1' }, reason: 'NodeNotReady' }),
+      ],
+      { ...options, now: new Date('2024-05-01T10:30:00Z') },
+    );
+
+    expect(events.map((event) => event.reason)).toEqual(['Unhealthy', 'NodeNotReady']);
+    expect(events[1]).toMatchObject({ namespace: undefined, resourceType: 'nodes' });
+  });
+
+  it('keeps the most recent events up to the limit', () => {
+    const events = summarizeEvents(
+      [
+        createEvent({ reason: 'A', lastTimestamp: '2024-05-01T09:58:00Z' }),
+        createEvent({ reason: 'B', lastTimestamp: '2024-05-01T09:59:00Z' }),
+        createEvent({ reason: 'C' }),
+      ],
+      { ...options, maxEvents: 2 },
+    );
+
+    expect(events.map((event) => event.reason)).toEqual(['B', 'C']);
+  });
+});
+
+describe('getEventAnnotations', () => {
+  it('summarizes the events of each resource', () => {
+    const events = summarizeEvents(
+      [createEvent({ count: 12 }), createEvent({ reason: 'Unhealthy', lastTimestamp: '2024-05-01T09:59:00Z' })],
+      options,
+    );
+
+    expect(getEventAnnotations(events).get('shop/pods/api-1')).toBe('Warning Unhealthy, Warning BackOff x12');
+  });
+});
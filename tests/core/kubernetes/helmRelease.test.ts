@@ -0,0 +1,62 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import type { KubeObject } from '../../../src/core/kubernetes/apiTypes.js';
+import { HELM_RELEASE_SECRET_TYPE, decodeHelmReleases } from '../../../src/core/kubernetes/helmRelease.js';
+
+// Encodes a release record like Helm 3 does, wrapped in the Secret's base64 encoding
+const encodeRelease = (record: object): string => {
+  const helmEncoded = gzipSync(Buffer.from(JSON.stringify(record))).toString('base64');
+  return Buffer.from(helmEncoded).toString('base64');
+};
+
+const createReleaseSecret = (revision: number, status: string, namespace = 'shop'): KubeObject => ({
+  apiVersion: 'v1',
+  kind: 'Secret',
+  type: HELM_RELEASE_SECRET_TYPE,
+  metadata: {
+    name: `sh.helm.release.v1.checkout.v${revision}`,
+    namespace,
+    labels: { owner: 'helm', name: 'checkout', version: String(revision), status },
+  },
+  data: {
+    release: encodeRelease({
+      name: 'checkout',
+      namespace,
+      version: revision,
+      info: { status, last_deployed: '2024-05-01T10:00:00Z' },
+      chart: { metadata: { name: 'checkout', version: `1.${revision}.0`, appVersion: '2.0.0' } },
+      config: { replicaCount: revision },
+      manifest:
+        '---\napiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: checkout\n---\napiVersion: rbac.authorization.k8s.io/v1\nkind: ClusterRole\nmetadata:\n  name: checkout-reader\n',
+    }),
+  },
+});
+
+describe('decodeHelmReleases', () => {
+  it('decodes the latest revision of each release', () => {
+    const releases = decodeHelmReleases(
+      [createReleaseSecret(1, 'superseded'), createReleaseSecret(3, 'deployed'), createReleaseSecret(2, 'superseded')],
+      ['shop'],
+    );
+
+    expect(releases).toHaveLength(1);
+    expect(releases[0]).toMatchObject({
+      name: 'checkout',
+      namespace: 'shop',
+      chart: 'checkout',
+      chartVersion: '1.3.0',
+      appVersion: '2.0.0',
+      revision: 3,
+      status: 'deployed',
+      values: { replicaCount: 3 },
+      resourceKeys: ['shop/deployments.apps/checkout', '/clusterroles.rbac.authorization.k8s.io/checkout-reader'],
+    });
+  });
+
+  it('skips releases of other namespaces and undecodable Secrets', () => {
+    const broken = createReleaseSecret(1, 'deployed');
+    broken.data = { release: 'bm90IGEgcmVsZWFzZQ==' };
+
+    expect(decodeHelmReleases([createReleaseSecret(1, 'deployed', 'web'), broken], ['shop'])).toEqual([]);
+  });
+});
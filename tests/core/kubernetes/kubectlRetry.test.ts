@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  configureKubectlRequests,
+  getKubectlRequestStats,
+  isTransientKubectlError,
+  resetKubectlRequestStats,
+} from '../../../src/core/kubernetes/kubectlRetry.js';
+import {
+  type KubectlTransport,
+  createExecTransport,
+  setKubectlTransport,
+} from '../../../src/core/kubernetes/kubectlTransport.js';
+import { executeKubectlCommand } from '../../../src/core/kubernetes/kubectlWrapper.js';
+import { KubectlError, KubectlTimeoutError } from '../../../src/shared/errorHandle.js';
+
+// Transport failing with the given errors before succeeding
+const createFlakyTransport = (failures: Error[]): KubectlTransport & { calls: number[] } => {
+  const calls: number[] = [];
+  return {
+    name: 'kubectl',
+    calls,
+    execute: async (_args, options) => {
+      calls.push(options.timeoutMs ?? 0);
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+      return { stdout: 'ok', stderr: '' };
+    },
+  };
+};
+
+const serverError = (stderr: string) => new KubectlError(stderr, stderr, 'kubectl get pods');
+
+describe('kubectl retries', () => {
+  beforeEach(() => {
+    configureKubectlRequests({ timeoutMs: 5000, maxRetries: 2, backoffMs: 1 });
+    resetKubectlRequestStats();
+  });
+
+  afterEach(() => {
+    configureKubectlRequests({});
+    setKubectlTransport(createExecTransport());
+  });
+
+  it('retries transient failures and counts retries and timeouts', async () => {
+    const transport = createFlakyTransport([
+      serverError('Error from server (TooManyRequests): the server has received too many requests'),
+      new KubectlTimeoutError('error: timed out after 5000ms', 'kubectl get pods'),
+    ]);
+    setKubectlTransport(transport);
+
+    const result = await executeKubectlCommand(['get', 'pods']);
+
+    expect(result.stdout).toBe('ok');
+    expect(transport.calls).toEqual([5000, 5000, 5000]);
+    expect(getKubectlRequestStats()).toEqual({ requests: 1, retries: 2, timeouts: 1 });
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const unavailable = 'Error from server (ServiceUnavailable): the server is currently unable to handle the request';
+    const transport = createFlakyTransport([
+      serverError(unavailable),
+      serverError(unavailable),
+      serverError(unavailable),
+    ]);
+    setKubectlTransport(transport);
+
+    await expect(executeKubectlCommand(['get', 'pods'])).rejects.toThrow(unavailable);
+    expect(transport.calls).toHaveLength(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const transport = createFlakyTransport([serverError('Error from server (Forbidden): pods is forbidden')]);
+    setKubectlTransport(transport);
+
+    await expect(executeKubectlCommand(['get', 'pods'])).rejects.toThrow('Forbidden');
+    expect(transport.calls).toHaveLength(1);
+    expect(getKubectlRequestStats().retries).toBe(0);
+  });
+
+  it('classifies connection resets as transient', () => {
+    expect(isTransientKubectlError(serverError('read tcp 10.0.0.1:443: read: connection reset by peer'))).toBe(true);
+    expect(isTransientKubectlError(serverError('Error from server (NotFound): pods "web" not found'))).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  type KubectlTransport,
+  createExecTransport,
+  setKubectlTransport,
+} from '../../../src/core/kubernetes/kubectlTransport.js';
+import { getEvents, getResourcesByName } from '../../../src/core/kubernetes/kubectlWrapper.js';
+import { KubectlError } from '../../../src/shared/errorHandle.js';
+
+// Transport serving pods and services, where only pods support the status.phase field
+const createFieldSelectorTransport = (): KubectlTransport & { calls: string[][] } => {
+  const calls: string[][] = [];
+  return {
+    name: 'kubectl',
+    calls,
+    execute: async (args) => {
+      calls.push(args);
+      const types = args[1].split(',');
+      if (args.includes('status.phase=Running') && types.includes('services')) {
+        const stderr =
+          'Error from server (BadRequest): Unable to find "/v1, Resource=services" that match label selector "", ' +
+          'field selector "status.phase=Running": field label not supported: status.phase';
+        throw new KubectlError(stderr, stderr, `kubectl ${args.join(' ')}`);
+      }
+      const names = { pods: ['pod/web-1'], services: ['service/web'] };
+      return {
+        stdout: types.flatMap((type) => names[type as keyof typeof names] ?? []).join('\n'),
+        stderr: '',
+      };
+    },
+  };
+};
+
+describe('getResourcesByName', () => {
+  afterEach(() => {
+    setKubectlTransport(createExecTransport());
+  });
+
+  it('fetches all types in a single request without a field selector', async () => {
+    const transport = createFieldSelectorTransport();
+    setKubectlTransport(transport);
+
+    const result = await getResourcesByName('shop', ['pods', 'services'], undefined, undefined, {
+      labelSelector: 'app=web',
+    });
+
+    expect(result).toEqual({ pods: ['web-1'], services: ['web'] });
+    expect(transport.calls).toHaveLength(1);
+  });
+
+  it('applies a field selector type by type, keeping the types that support it', async () => {
+    const transport = createFieldSelectorTransport();
+    setKubectlTransport(transport);
+
+    const result = await getResourcesByName('shop', ['pods', 'services'], undefined, undefined, {
+      fieldSelector: 'status.phase=Running',
+    });
+
+    expect(result).toEqual({ pods: ['web-1'], services: [] });
+    expect(transport.calls.map((args) => args[1])).toEqual(['pods', 'services']);
+  });
+
+  it('retries type by type when a type of the combined request is forbidden, skipping only that type', async () => {
+    const calls: string[] = [];
+    setKubectlTransport({
+      name: 'kubectl',
+      execute: async (args) => {
+        calls.push(args[1]);
+        if (args[1].split(',').includes('podmetrics.metrics.k8s.io')) {
+          const stderr =
+            'Error from server (Forbidden): podmetrics.metrics.k8s.io is forbidden: User "dev" cannot list resource "pods" in API group "metrics.k8s.io"';
+          throw new KubectlError(stderr, stderr, `kubectl ${args.join(' ')}`);
+        }
+        const names = { pods: ['pod/web-1'], services: ['service/web'] };
+        return {
+          stdout: args[1]
+            .split(',')
+            .flatMap((type) => names[type as keyof typeof names] ?? [])
+            .join('\n'),
+          stderr: '',
+        };
+      },
+    });
+
+    const result = await getResourcesByName('shop', ['pods', 'podmetrics.metrics.k8s.io', 'services']);
+
+    expect(result).toEqual({ pods: ['web-1'], 'podmetrics.metrics.k8s.io': [], services: ['web'] });
+    expect(calls).toEqual(['pods,podmetrics.metrics.k8s.io,services', 'pods', 'podmetrics.metrics.k8s.io', 'services']);
+  });
+});
+
+describe('getEvents', () => {
+  afterEach(() => {
+    setKubectlTransport(createExecTransport());
+  });
+
+  it('lists the events of each given namespace, skipping namespaces that cannot be listed', async () => {
+    const calls: string[][] = [];
+    setKubectlTransport({
+      name: 'kubectl',
+      execute: async (args) => {
+        calls.push(args);
+        if (args.includes('billing')) {
+          const stderr = 'Error from server (Forbidden): events is forbidden';
+          throw new KubectlError(stderr, stderr, `kubectl ${args.join(' ')}`);
+        }
+        return { stdout: JSON.stringify({ items: [{ kind: 'Event', metadata: { name: 'web-1.1' } }] }), stderr: '' };
+      },
+    });
+
+    const { events, command } = await getEvents(false, undefined, undefined, ['shop', 'billing']);
+
+    expect(calls).toEqual([
+      ['get', 'events', '-n', 'shop', '-o', 'json', '--field-selector', 'type=Warning'],
+      ['get', 'events', '-n', 'billing', '-o', 'json', '--field-selector', 'type=Warning'],
+    ]);
+    expect(events).toHaveLength(1);
+    expect(command.split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,156 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as yaml from 'yaml';
+import { createExecTransport, setKubectlTransport } from '../../../src/core/kubernetes/kubectlTransport.js';
+import {
+  describePod,
+  getNamespaceNames,
+  getPodLogs,
+  getResourcesByName,
+  getResourcesOutput,
+} from '../../../src/core/kubernetes/kubectlWrapper.js';
+import { createManifestTransport } from '../../../src/core/kubernetes/manifestTransport.js';
+import { getResourceKindRegistry } from '../../../src/core/kubernetes/resourceDiscovery.js';
+import { matchesFieldSelector, matchesLabelSelector } from '../../../src/core/kubernetes/selectorMatch.js';
+
+const deployment = {
+  apiVersion: 'apps/v1',
+  kind: 'Deployment',
+  metadata: { name: 'web', namespace: 'shop', labels: { app: 'web' } },
+};
+const pods = {
+  apiVersion: 'v1',
+  kind: 'List',
+  items: [
+    {
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: { name: 'web-1', namespace: 'shop', labels: { app: 'web' } },
+      spec: { containers: [{ name: 'web', image: 'nginx:1.27' }] },
+      status: { phase: 'Running' },
+    },
+    {
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: { name: 'worker-1', namespace: 'shop', labels: { app: 'worker' } },
+      status: { phase: 'Pending' },
+    },
+  ],
+};
+const event = {
+  apiVersion: 'v1',
+  kind: 'Event',
+  metadata: { name: 'web-1.1', namespace: 'shop' },
+  involvedObject: { kind: 'Pod', name: 'web-1', namespace: 'shop' },
+  type: 'Warning',
+  reason: 'BackOff',
+  message: 'Back-off restarting failed container',
+};
+const crd = {
+  apiVersion: 'apiextensions.k8s.io/v1',
+  kind: 'CustomResourceDefinition',
+  metadata: { name: 'widgets.example.com' },
+  spec: {
+    group: 'example.com',
+    scope: 'Namespaced',
+    names: { plural: 'widgets', singular: 'widget', kind: 'Widget', shortNames: ['wd'] },
+    versions: [{ name: 'v1', storage: true }],
+  },
+};
+// Namespaced resource without a namespace, as in manifests from a repository
+const widget = { apiVersion: 'example.com/v1', kind: 'Widget', metadata: { name: 'gizmo' } };
+
+describe('manifest transport (offline mode)', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-manifests-'));
+    await fs.mkdir(path.join(tempDir, 'shop'));
+    await fs.writeFile(path.join(tempDir, 'shop', 'deploy.yaml'), yaml.stringify(deployment));
+    await fs.writeFile(path.join(tempDir, 'shop', 'pods.json'), JSON.stringify(pods));
+    await fs.writeFile(path.join(tempDir, 'shop', 'events.yaml'), yaml.stringify(event));
+    await fs.writeFile(path.join(tempDir, 'widgets.yml'), `${yaml.stringify(crd)}---\n${yaml.stringify(widget)}`);
+    await fs.writeFile(path.join(tempDir, 'notes.txt'), 'not a manifest');
+
+    setKubectlTransport(createManifestTransport({ directories: [tempDir] }));
+  });
+
+  afterAll(async () => {
+    setKubectlTransport(createExecTransport());
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('derives namespaces from the resources', async () => {
+    expect(await getNamespaceNames()).toEqual(['default', 'shop']);
+  });
+
+  it('resolves kinds from built-in types and CRDs in the manifests', async () => {
+    const registry = await getResourceKindRegistry();
+
+    expect(registry.resolve('wd')?.group).toBe('example.com');
+    expect(await getResourcesByName('default', ['widgets.example.com'], undefined, undefined, {}, registry)).toEqual({
+      'widgets.example.com': ['gizmo'],
+    });
+  });
+
+  it('applies label and field selectors', async () => {
+    const byLabel = await getResourcesByName('shop', ['pods', 'deployments.apps'], undefined, undefined, {
+      labelSelector: 'app in (web)',
+    });
+    const byField = await getResourcesByName('shop', ['pods'], undefined, undefined, {
+      fieldSelector: 'status.phase!=Running',
+    });
+
+    expect(byLabel).toEqual({ pods: ['web-1'], 'deployments.apps': ['web'] });
+    expect(byField).toEqual({ pods: ['worker-1'] });
+  });
+
+  it('renders YAML lists and reports the source files as the command', async () => {
+    const { output, command } = await getResourcesOutput(
+      'shop',
+      ['deployments.apps', 'pods'],
+      undefined,
+      undefined,
+      'yaml',
+    );
+    const document = yaml.parse(output);
+
+    expect(document.items.map((item: { metadata: { name: string } }) => item.metadata.name)).toEqual([
+      'web',
+      'web-1',
+      'worker-1',
+    ]);
+    expect(command).toBe(
+      `source: ${path.join(tempDir, 'shop', 'deploy.yaml')}, ${path.join(tempDir, 'shop', 'pods.json')}`,
+    );
+  });
+
+  it('describes pods with their events and reports logs as unavailable', async () => {
+    const { description } = await describePod('shop', 'web-1');
+    const { logs } = await getPodLogs('shop', 'web-1', 20);
+
+    expect(description).toMatch(/^Name: +web-1$/m);
+    expect(description).toContain('Back-off restarting failed container');
+    expect(logs).toContain('not available');
+  });
+});
+
+describe('selector matching', () => {
+  const labels = { app: 'web', tier: 'frontend' };
+
+  it('supports equality, set and existence requirements', () => {
+    expect(matchesLabelSelector(labels, 'app=web,tier!=cache')).toBe(true);
+    expect(matchesLabelSelector(labels, 'tier in (frontend,api),!canary')).toBe(true);
+    expect(matchesLabelSelector(labels, 'tier notin (frontend)')).toBe(false);
+    expect(matchesLabelSelector(labels, 'release')).toBe(false);
+  });
+
+  it('compares nested fields, treating missing ones as empty', () => {
+    const pod = { metadata: { name: 'web-1' }, spec: { nodeName: 'node-1' } };
+
+    expect(matchesFieldSelector(pod, 'metadata.name=web-1,spec.nodeName==node-1')).toBe(true);
+    expect(matchesFieldSelector(pod, 'status.phase!=Running')).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { KubeAggregatorConfigMerged } from '../../../src/config/configSchema.js';
+import {
+  getClusterResourceTypesToFetch,
+  getResourceTypesToFetch,
+  matchesResourceType,
+} from '../../../src/core/kubernetes/resourceFilter.js';
+
+const createMockConfig = (filter: KubeAggregatorConfigMerged['filter']): KubeAggregatorConfigMerged => {
+  return {
+    cwd: '/test',
+    filter,
+  };
+};
+
+const discoveredTypes = [
+  'configmaps',
+  'deployments.apps',
+  'events',
+  'events.events.k8s.io',
+  'pods',
+  'rollouts.argoproj.io',
+  'servicemonitors.monitoring.coreos.com',
+];
+
+describe('matchesResourceType', () => {
+  it('matches group-qualified types by their unqualified name', () => {
+    expect(matchesResourceType('deployments.apps', 'deployments')).toBe(true);
+    expect(matchesResourceType('deployments.apps', 'deployments.apps')).toBe(true);
+    expect(matchesResourceType('events.events.k8s.io', 'events')).toBe(true);
+    expect(matchesResourceType('deployments.apps', 'pods')).toBe(false);
+  });
+});
+
+describe('getResourceTypesToFetch', () => {
+  it('uses the default resource types when discovery is not used', () => {
+    const types = getResourceTypesToFetch(createMockConfig({ excludeResourceTypes: ['secrets'] }));
+
+    expect(types).toContain('pods');
+    expect(types).toContain('deployments.apps');
+    expect(types).not.toContain('secrets');
+  });
+
+  it('resolves included aliases to canonical type names', () => {
+    const types = getResourceTypesToFetch(
+      createMockConfig({ includeResourceTypes: ['po', 'pod', 'deploy', 'ingress', 'netpol'] }),
+    );
+
+    expect(types).toEqual([
+      'pods',
+      'deployments.apps',
+      'ingresses.networking.k8s.io',
+      'networkpolicies.networking.k8s.io',
+    ]);
+  });
+
+  it('fetches all discovered types, including custom resources', () => {
+    const types = getResourceTypesToFetch(createMockConfig({ excludeResourceTypes: ['events'] }), discoveredTypes);
+
+    expect(types).toEqual([
+      'configmaps',
+      'deployments.apps',
+      'pods',
+      'rollouts.argoproj.io',
+      'servicemonitors.monitoring.coreos.com',
+    ]);
+  });
+
+  it('applies the include list on top of the discovered types', () => {
+    const types = getResourceTypesToFetch(
+      createMockConfig({ includeResourceTypes: ['deployments', 'rollouts.argoproj.io', 'widgets'] }),
+      discoveredTypes,
+    );
+
+    expect(types).toEqual(['deployments.apps', 'rollouts.argoproj.io']);
+  });
+});
+
+describe('getClusterResourceTypesToFetch', () => {
+  it('resolves cluster-scoped types and skips namespaced ones', () => {
+    const types = getClusterResourceTypesToFetch({
+      cwd: '/test',
+      clusterResources: { resourceTypes: ['nodes', 'no', 'sc', 'clusterroles', 'pods'] },
+    });
+
+    expect(types).toEqual(['nodes', 'storageclasses.storage.k8s.io', 'clusterroles.rbac.authorization.k8s.io']);
+  });
+
+  it('returns no types when cluster-scoped collection is disabled', () => {
+    const types = getClusterResourceTypesToFetch({
+      cwd: '/test',
+      clusterResources: { enabled: false, resourceTypes: ['nodes'] },
+    });
+
+    expect(types).toEqual([]);
+  });
+});
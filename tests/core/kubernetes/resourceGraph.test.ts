@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { KubeObject } from '../../../src/core/kubernetes/apiTypes.js';
+import { buildResourceGraph, getGraphResourceTypes } from '../../../src/core/kubernetes/resourceGraph.js';
+import { generateResourceTreeString } from '../../../src/core/output/resourceTreeGenerate.js';
+
+const createObject = (
+  apiVersion: string,
+  kind: string,
+  name: string,
+  extra: {
+    labels?: Record<string, string>;
+    owner?: { apiVersion: string; kind: string; name: string };
+    spec?: object;
+  } = {},
+): KubeObject => ({
+  apiVersion,
+  kind,
+  metadata: {
+    name,
+    namespace: 'shop',
+    labels: extra.labels,
+    ownerReferences: extra.owner ? [extra.owner] : undefined,
+  },
+  spec: extra.spec,
+});
+
+const objects: KubeObject[] = [
+  createObject('apps/v1', 'Deployment', 'web'),
+  createObject('apps/v1', 'ReplicaSet', 'web-5d8f', {
+    owner: { apiVersion: 'apps/v1', kind: 'Deployment', name: 'web' },
+  }),
+  createObject('v1', 'Pod', 'web-5d8f-abc', {
+    labels: { app: 'web' },
+    owner: { apiVersion: 'apps/v1', kind: 'ReplicaSet', name: 'web-5d8f' },
+  }),
+  createObject('v1', 'Pod', 'worker', { labels: { app: 'worker' } }),
+  createObject('v1', 'Service', 'web', { spec: { selector: { app: 'web' } } }),
+  createObject('policy/v1', 'PodDisruptionBudget', 'all', {
+    spec: { selector: { matchExpressions: [{ key: 'app', operator: 'Exists' }] } },
+  }),
+  createObject('autoscaling/v2', 'HorizontalPodAutoscaler', 'web', {
+    spec: { scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: 'web' } },
+  }),
+];
+
+describe('buildResourceGraph', () => {
+  it('links owners, selected pods and scale targets', () => {
+    const graph = buildResourceGraph(objects);
+
+    expect(graph.nodes.map((node) => node.id)).toContain('shop/deployments.apps/web');
+    expect(graph.edges).toEqual(
+      expect.arrayContaining([
+        { from: 'shop/deployments.apps/web', to: 'shop/replicasets.apps/web-5d8f', type: 'owns' },
+        { from: 'shop/replicasets.apps/web-5d8f', to: 'shop/pods/web-5d8f-abc', type: 'owns' },
+        { from: 'shop/services/web', to: 'shop/pods/web-5d8f-abc', type: 'selects' },
+        { from: 'shop/poddisruptionbudgets.policy/all', to: 'shop/pods/worker', type: 'selects' },
+        { from: 'shop/horizontalpodautoscalers.autoscaling/web', to: 'shop/deployments.apps/web', type: 'scales' },
+      ]),
+    );
+    // The service only selects pods matching its selector
+    expect(graph.edges).not.toContainEqual({ from: 'shop/services/web', to: 'shop/pods/worker', type: 'selects' });
+  });
+
+  it('ignores owners that are not among the resources', () => {
+    const graph = buildResourceGraph([
+      createObject('v1', 'Pod', 'job-pod', { owner: { apiVersion: 'batch/v1', kind: 'Job', name: 'missing' } }),
+    ]);
+
+    expect(graph.edges).toEqual([]);
+  });
+});
+
+describe('getGraphResourceTypes', () => {
+  it('selects the listed types taking part in relationships', () => {
+    expect(getGraphResourceTypes({ pods: ['a'], 'deployments.apps': [], configmaps: ['b'] })).toEqual(['pods']);
+  });
+});
+
+describe('generateResourceTreeString with a resource graph', () => {
+  it('nests owned resources below their owners and lists relationships', () => {
+    const tree = generateResourceTreeString(
+      ['shop'],
+      {
+        shop: {
+          pods: ['web-5d8f-abc', 'worker'],
+          services: ['web'],
+          'deployments.apps': ['web'],
+          'replicasets.apps': ['web-5d8f'],
+          'horizontalpodautoscalers.autoscaling': ['web'],
+        },
+      },
+      undefined,
+      { graph: buildResourceGraph(objects) },
+    );
+
+    expect(tree).toContain('    web\n      replicasets.apps/web-5d8f\n        pods/web-5d8f-abc');
+    expect(tree).toContain('-> selects pods/web-5d8f-abc');
+    expect(tree).toContain('-> scales deployments.apps/web');
+    // Owned resources are not repeated below their own kinds
+    expect(tree).not.toContain('replicasets.apps:');
+    expect(tree).toMatch(/pods:\n\s+worker/);
+  });
+});
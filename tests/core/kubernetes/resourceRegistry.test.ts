@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ResourceKindRegistry,
+  createBuiltinResourceKindRegistry,
+  parseApiResourcesWide,
+} from '../../../src/core/kubernetes/resourceRegistry.js';
+
+const apiResourcesWide = `NAME                     SHORTNAMES   APIVERSION                NAMESPACED   KIND                    VERBS                                                        CATEGORIES
+events                   ev           v1                        true         Event                   create,delete,deletecollection,get,list,patch,update,watch
+pods                     po           v1                        true         Pod                     create,delete,deletecollection,get,list,patch,update,watch   all
+bindings                              v1                        true         Binding                 create
+nodes                    no           v1                        false        Node                    create,delete,deletecollection,get,list,patch,update,watch
+deployments              deploy       apps/v1                   true         Deployment              create,delete,deletecollection,get,list,patch,update,watch   all
+events                   ev           events.k8s.io/v1          true         Event                   create,delete,deletecollection,get,list,patch,update,watch
+ingresses                ing          networking.k8s.io/v1      true         Ingress                 create,delete,deletecollection,get,list,patch,update,watch
+rollouts                 ro           argoproj.io/v1alpha1      true         Rollout                 [delete deletecollection get list patch create update watch]   all
+`;
+
+describe('parseApiResourcesWide', () => {
+  it('parses columns including empty short names and bracketed verbs', () => {
+    const kinds = parseApiResourcesWide(apiResourcesWide);
+
+    expect(kinds).toHaveLength(8);
+    expect(kinds[2]).toMatchObject({ name: 'bindings', shortNames: [], group: '', verbs: ['create'] });
+    expect(kinds[4]).toMatchObject({ name: 'deployments', group: 'apps', version: 'v1', kind: 'Deployment' });
+    expect(kinds[7]).toMatchObject({ name: 'rollouts', group: 'argoproj.io', shortNames: ['ro'], categories: ['all'] });
+    expect(kinds[7].verbs).toContain('list');
+  });
+});
+
+describe('ResourceKindRegistry', () => {
+  const registry = new ResourceKindRegistry(parseApiResourcesWide(apiResourcesWide));
+
+  it('resolves plural, singular and short names to the same canonical type', () => {
+    expect(registry.canonicalName('po')).toBe('pods');
+    expect(registry.canonicalName('pod')).toBe('pods');
+    expect(registry.canonicalName('pods')).toBe('pods');
+    expect(registry.canonicalName('Pod')).toBe('pods');
+  });
+
+  it('maps group-qualified kinds from `kubectl get -o name` to canonical names', () => {
+    expect(registry.canonicalName('deployment.apps')).toBe('deployments.apps');
+    expect(registry.canonicalName('ingress.networking.k8s.io')).toBe('ingresses.networking.k8s.io');
+    expect(registry.canonicalName('rollout.argoproj.io')).toBe('rollouts.argoproj.io');
+  });
+
+  it('prefers the core group for ambiguous names', () => {
+    expect(registry.canonicalName('events')).toBe('events');
+    expect(registry.canonicalName('event.events.k8s.io')).toBe('events.events.k8s.io');
+  });
+
+  it('pluralizes unknown kinds on a best-effort basis', () => {
+    expect(registry.canonicalName('networkpolicy.networking.k8s.io')).toBe('networkpolicies.networking.k8s.io');
+    expect(registry.canonicalName('gateway.gateway.networking.k8s.io')).toBe('gateways.gateway.networking.k8s.io');
+  });
+
+  it('matches configured types against canonical types', () => {
+    expect(registry.matches('events.events.k8s.io', 'events')).toBe(true);
+    expect(registry.matches('events.events.k8s.io', 'events.events.k8s.io')).toBe(true);
+    expect(registry.matches('events', 'event.events.k8s.io')).toBe(false);
+    expect(registry.matches('deployments.apps', 'deploy')).toBe(true);
+    expect(registry.matches('rollouts.argoproj.io', 'all')).toBe(true);
+  });
+
+  it('lists listable types by scope', () => {
+    expect(registry.getListableTypes('namespaced')).toEqual([
+      'deployments.apps',
+      'events',
+      'events.events.k8s.io',
+      'ingresses.networking.k8s.io',
+      'pods',
+      'rollouts.argoproj.io',
+    ]);
+    expect(registry.getListableTypes('cluster')).toEqual(['nodes']);
+  });
+});
+
+describe('createBuiltinResourceKindRegistry', () => {
+  it('knows the common built-in kinds', () => {
+    const registry = createBuiltinResourceKindRegistry();
+
+    expect(registry.canonicalName('netpol')).toBe('networkpolicies.networking.k8s.io');
+    expect(registry.canonicalName('sts')).toBe('statefulsets.apps');
+    expect(registry.resolve('nodes')?.namespaced).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { KubeAggregatorConfigMerged } from '../../../src/config/configSchema.js';
+import { builtinTemplateHelpers } from '../../../src/core/output/customTemplate.js';
+import { generateOutput } from '../../../src/core/output/outputGenerate.js';
+import type { ClusterAggregation } from '../../../src/core/output/outputGeneratorTypes.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+const cluster: ClusterAggregation = {
+  namespaceNames: ['shop'],
+  namespaceData: { command: 'kubectl get namespaces', output: 'NAME\nshop' },
+  resourcesByNamespace: { shop: { pods: ['shop-api'] } },
+  resourceBlocks: [{ namespace: 'shop', command: 'kubectl get pods -n shop', output: 'NAME\nshop-api' }],
+};
+
+describe('custom templates', () => {
+  let directory: string;
+  const createConfig = (output: Record<string, unknown>) =>
+    ({
+      cwd: directory,
+      output: { filePath: 'out.md', style: 'markdown', ...output },
+      diagnostics: { includeFailingPods: true },
+    }) as KubeAggregatorConfigMerged;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-template-'));
+  });
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('renders the render context with the built-in helpers and those of helper modules', async () => {
+    await fs.writeFile(
+      path.join(directory, 'report.hbs'),
+      '# {{shout headerText}}\n{{#each clusters}}{{#each resources}}{{#if namespace}}{{{indent output 2}}}{{/if}}{{/each}}{{/each}}\n',
+    );
+    await fs.writeFile(path.join(directory, 'helpers.mjs'), 'export const shout = (text) => text.toUpperCase();\n');
+
+    const output = await generateOutput(
+      createConfig({ templatePath: 'report.hbs', templateHelpers: ['helpers.mjs'], headerText: 'checkout incident' }),
+      [cluster],
+    );
+
+    expect(output).toBe('# CHECKOUT INCIDENT\n  NAME\n  shop-api\n');
+  });
+
+  it('reloads a helper module after it is edited, as --watch renders again', async () => {
+    const helpersPath = path.join(directory, 'helpers.mjs');
+    await fs.writeFile(path.join(directory, 'report.hbs'), '# {{shout headerText}}\n');
+    await fs.writeFile(helpersPath, 'export const shout = (text) => text.toUpperCase();\n');
+    const config = createConfig({ templatePath: 'report.hbs', templateHelpers: ['helpers.mjs'], headerText: 'api' });
+
+    expect(await generateOutput(config, [cluster])).toBe('# API\n');
+
+    await fs.writeFile(helpersPath, 'export const shout = (text) => `${text.toUpperCase()}!`;\n');
+    // File systems with coarse timestamps may not see the edit as a change within the same second
+    const later = new Date(Date.now() + 5000);
+    await fs.utimes(helpersPath, later, later);
+
+    expect(await generateOutput(config, [cluster])).toBe('# API!\n');
+  });
+
+  it('reports syntax errors at their line in the template', async () => {
+    await fs.writeFile(path.join(directory, 'broken.hbs'), '# Report\n{{#each clusters}}\n{{name}}\n{{/if}}\n');
+
+    const result = generateOutput(createConfig({ templatePath: 'broken.hbs' }), [cluster]);
+
+    await expect(result).rejects.toThrow(KubeAggregatorError);
+    await expect(result).rejects.toThrow(`${path.join(directory, 'broken.hbs')}:2:4: each doesn't match if`);
+  });
+});
+
+describe('builtinTemplateHelpers', () => {
+  it('truncates, indents and converts values to YAML', () => {
+    expect(builtinTemplateHelpers.truncate('abcdefgh', 6)).toBe('abc...');
+    expect(builtinTemplateHelpers.truncate('abc', 6)).toBe('abc');
+    expect(builtinTemplateHelpers.indent('a\n\nb', 4)).toBe('    a\n\n    b');
+    expect(builtinTemplateHelpers.toYaml({ kind: 'Pod', labels: { app: 'api' } })).toBe(
+      'kind: Pod\nlabels:\n  app: api',
+    );
+  });
+});
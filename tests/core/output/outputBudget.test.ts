@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { fitToTokenBudget } from '../../../src/core/output/outputBudget.js';
+import type { ClusterSection, NamespaceResourceBlock } from '../../../src/core/output/outputGeneratorTypes.js';
+
+const replicaSet = (name: string, replicas: number, readyReplicas: number) => ({
+  apiVersion: 'apps/v1',
+  kind: 'ReplicaSet',
+  metadata: { name },
+  spec: { replicas },
+  status: { readyReplicas },
+});
+
+const createSection = (): ClusterSection => ({
+  resourceTreeString: 'shop',
+  resources: [
+    { kind: 'Namespaces', command: 'kubectl get namespaces', output: 'NAME\nshop' },
+    {
+      namespace: 'shop',
+      command: 'kubectl get all -n shop -o json',
+      output: JSON.stringify({
+        kind: 'List',
+        items: [
+          replicaSet('web-old', 0, 0),
+          replicaSet('web-new', 2, 2),
+          replicaSet('api', 2, 1),
+          { kind: 'ConfigMap', metadata: { name: 'big' }, data: { 'app.conf': 'x'.repeat(500) } },
+        ],
+      }),
+    },
+  ],
+  podDiagnostics: [
+    {
+      namespace: 'shop',
+      podName: 'api-1',
+      describeCommand: 'kubectl describe pod api-1',
+      description: 'Status: CrashLoopBackOff',
+      logsCommand: 'kubectl logs api-1',
+      logs: Array.from({ length: 100 }, (_, index) => `line ${index}`).join('\n'),
+      prevLogs: 'panic: boom',
+    },
+  ],
+});
+
+// Measures sections by the length of their serialization, standing in for the rendered token count
+const measure = async (clusters: ClusterSection[]) => {
+  const output = JSON.stringify(clusters);
+  return { output, tokens: output.length };
+};
+
+const getBlock = (output: string): NamespaceResourceBlock => JSON.parse(output)[0].resources[1];
+
+describe('fitToTokenBudget', () => {
+  it('returns the output unchanged when it fits', async () => {
+    const section = createSection();
+    const { tokens } = await measure([section]);
+
+    const result = await fitToTokenBudget([section], tokens, ['healthyReplicaSets'], measure);
+
+    expect(result.appliedSteps).toEqual([]);
+    expect(result.tokens).toBe(tokens);
+  });
+
+  it('trims in the configured order until the output fits, noting what was elided', async () => {
+    const section = createSection();
+    const { tokens } = await measure([section]);
+
+    // Removing the healthy ReplicaSets alone is not enough, eliding the ConfigMap data is
+    const result = await fitToTokenBudget(
+      [section],
+      tokens - 400,
+      ['healthyReplicaSets', 'configMapData', 'previousLogs'],
+      measure,
+    );
+
+    expect(result.appliedSteps).toEqual(['healthyReplicaSets', 'configMapData']);
+    expect(result.tokens).toBeLessThanOrEqual(tokens - 400);
+    const block = getBlock(result.output);
+    expect(block.elided).toEqual(['2 healthy ReplicaSets (all pods ready)', 'the data of 1 ConfigMap (keys kept)']);
+    const items = JSON.parse(block.output).items;
+    expect(items.map((item: { metadata: { name: string } }) => item.metadata.name)).toEqual(['api', 'big']);
+    expect(items[1].data).toEqual({ 'app.conf': '(elided)' });
+    // Later steps are not applied
+    expect(JSON.parse(result.output)[0].podDiagnostics[0].prevLogs).toBe('panic: boom');
+  });
+
+  it('keeps the most recent log lines', async () => {
+    const result = await fitToTokenBudget([createSection()], 100, ['olderLogs'], measure);
+
+    const diagnostics = JSON.parse(result.output)[0].podDiagnostics[0];
+    expect(diagnostics.logs.split('\n')).toHaveLength(20);
+    expect(diagnostics.logs.endsWith('line 99')).toBe(true);
+    expect(diagnostics.elided).toEqual(['80 older log lines']);
+  });
+
+  it('drops the trailing resources of single-line JSON output as a last resort', async () => {
+    const pods = Array.from({ length: 50 }, (_, index) => ({
+      apiVersion: 'v1',
+      kind: 'Pod',
+      metadata: { name: `web-${index}`, namespace: 'shop' },
+      spec: { containers: [{ name: 'web', image: 'nginx:1.27' }] },
+    }));
+    const section: ClusterSection = {
+      resourceTreeString: '',
+      resources: [
+        {
+          namespace: 'shop',
+          command: 'kubectl get pods -n shop -o json',
+          output: JSON.stringify({ apiVersion: 'v1', kind: 'List', items: pods }),
+        },
+      ],
+    };
+    const { tokens } = await measure([section]);
+
+    const result = await fitToTokenBudget([section], Math.floor(tokens / 4), ['resourceOutput'], measure);
+
+    expect(result.appliedSteps).toEqual(['resourceOutput']);
+    expect(result.tokens).toBeLessThanOrEqual(Math.floor(tokens / 4));
+    const block: NamespaceResourceBlock = JSON.parse(result.output)[0].resources[0];
+    const items = JSON.parse(block.output).items;
+    expect(items[0].metadata.name).toBe('web-0');
+    expect(block.output).not.toContain('\n');
+    expect(block.elided).toEqual([`the last ${50 - items.length} of 50 resources`]);
+  });
+
+  it('removes healthy ReplicaSet rows from table output', async () => {
+    const section: ClusterSection = {
+      resourceTreeString: '',
+      resources: [
+        {
+          namespace: 'shop',
+          command: 'kubectl get all -n shop',
+          output:
+            'NAME                DESIRED   CURRENT   READY   AGE\nreplicaset.apps/a   1         1         1       1d\nreplicaset.apps/b   1         1         0       1d',
+        },
+      ],
+    };
+
+    const result = await fitToTokenBudget([section], 10, ['healthyReplicaSets'], measure);
+
+    const block: NamespaceResourceBlock = JSON.parse(result.output)[0].resources[0];
+    expect(block.output).not.toContain('replicaset.apps/a');
+    expect(block.output).toContain('replicaset.apps/b');
+    expect(block.elided).toEqual(['1 healthy ReplicaSet (all pods ready)']);
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { KubeAggregatorConfigMerged } from '../../../src/config/configSchema.js';
+import { generateOutput, generateOutputParts } from '../../../src/core/output/outputGenerate.js';
+import type { ClusterAggregation } from '../../../src/core/output/outputGeneratorTypes.js';
+
+const createCluster = (context: string | undefined, namespace: string): ClusterAggregation => ({
+  context,
+  namespaceNames: [namespace],
+  namespaceData: { command: 'kubectl get namespaces', output: `NAME\n${namespace}` },
+  resourcesByNamespace: { [namespace]: { pods: [`${namespace}-api`] } },
+  resourceBlocks: [{ namespace, command: `kubectl get pods -n ${namespace}`, output: `${namespace}-api` }],
+});
+
+const createConfig = (style: 'markdown' | 'xml' | 'plain'): KubeAggregatorConfigMerged =>
+  ({
+    cwd: '/test',
+    output: { filePath: 'out', style },
+    diagnostics: { includeFailingPods: true },
+  }) as KubeAggregatorConfigMerged;
+
+describe('generateOutput', () => {
+  it('renders a single cluster without cluster labels', async () => {
+    const output = await generateOutput(createConfig('markdown'), [createCluster(undefined, 'shop')]);
+
+    expect(output).toContain('## Resources in Namespace: shop\n');
+    expect(output).not.toContain('Cluster:');
+  });
+
+  it('groups and labels the sections of several clusters', async () => {
+    const clusters = [createCluster('eu-west', 'shop'), createCluster('us-east', 'billing')];
+
+    const markdown = await generateOutput(createConfig('markdown'), clusters);
+    expect(markdown).toContain('from 2 clusters (eu-west, us-east)');
+    expect(markdown).toContain('# Cluster: eu-west');
+    expect(markdown).toContain('## Resources in Namespace: billing (Cluster: us-east)');
+    expect(markdown.indexOf('# Cluster: eu-west')).toBeLessThan(markdown.indexOf('# Cluster: us-east'));
+
+    const xml = await generateOutput(createConfig('xml'), clusters);
+    expect(xml).toContain('<resources cluster="us-east">');
+    expect(xml).toContain('<cluster_resource_overview cluster="eu-west">');
+
+    const plain = await generateOutput(createConfig('plain'), clusters);
+    expect(plain).toContain('Resources (Cluster: eu-west)');
+  });
+});
+
+describe('header text and instruction', () => {
+  it('adds the header text to the summary and the instruction file at the end', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-instruction-'));
+    try {
+      await fs.writeFile(path.join(directory, 'task.md'), 'Find why checkout fails.\n');
+      const config = {
+        ...createConfig('xml'),
+        cwd: directory,
+        output: {
+          filePath: 'out',
+          style: 'xml',
+          headerText: 'Payments platform, SLO 99.9%',
+          instructionFilePath: 'task.md',
+        },
+      } as KubeAggregatorConfigMerged;
+
+      const output = await generateOutput(config, [createCluster(undefined, 'shop')]);
+
+      expect(output).toContain('<user_provided_header>\n  Payments platform, SLO 99.9%\n  </user_provided_header>');
+      expect(output).toContain('<instruction>\n  Find why checkout fails.\n  </instruction>');
+      expect(output.indexOf('<instruction>')).toBeGreaterThan(output.indexOf('shop-api'));
+
+      const missing = { ...config, output: { ...config.output, instructionFilePath: 'missing.md' } };
+      await expect(generateOutput(missing, [createCluster(undefined, 'shop')])).rejects.toThrow('missing.md');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('generateOutputParts', () => {
+  it('repeats the preamble and the table of contents in every part', async () => {
+    const config = { ...createConfig('markdown'), output: { filePath: 'out.md', style: 'markdown', splitOutput: 1 } };
+    const cluster = createCluster(undefined, 'shop');
+    cluster.resourceBlocks.push({
+      namespace: 'billing',
+      command: 'kubectl get pods -n billing',
+      output: 'billing-api',
+    });
+    const parts = await generateOutputParts(config as KubeAggregatorConfigMerged, [cluster]);
+
+    expect(parts).toHaveLength(3);
+    for (const [index, part] of parts.entries()) {
+      expect(part).toContain('# Cluster Summary');
+      expect(part).toContain(`this is part ${index + 1}.`);
+      expect(part).toContain('- Part 2 (out.2.md): Namespace shop');
+    }
+    expect(parts[0]).toContain('# Cluster Resource Overview');
+    expect(parts[1]).not.toContain('# Cluster Resource Overview');
+    expect(parts[2]).toContain('## Resources in Namespace: billing');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { ClusterSection } from '../../../src/core/output/outputGeneratorTypes.js';
+import { getOutputPartPath, splitClusterSections } from '../../../src/core/output/outputSplit.js';
+
+// Counts characters instead of tokens, to keep expectations readable
+const countCharacters = (text: string) => text.length;
+
+const createSection = (name?: string): ClusterSection => ({
+  name,
+  resourceTreeString: 'shop\nbilling',
+  resources: [
+    { kind: 'Namespaces', command: 'kubectl get namespaces', output: 'NAME\nshop\nbilling' },
+    { namespace: 'shop', command: 'kubectl get all -n shop', output: 'x'.repeat(400) },
+    { namespace: 'billing', command: 'kubectl get all -n billing', output: 'y'.repeat(400) },
+  ],
+  podDiagnostics: [
+    {
+      namespace: 'shop',
+      podName: 'api-1',
+      describeCommand: 'kubectl describe pod api-1',
+      description: 'Status: CrashLoopBackOff',
+      logsCommand: 'kubectl logs api-1',
+      logs: 'panic: boom',
+    },
+  ],
+});
+
+describe('getOutputPartPath', () => {
+  it('numbers the part before the extension', () => {
+    expect(getOutputPartPath('out/kubemix-output.md', 2)).toBe('out/kubemix-output.2.md');
+    expect(getOutputPartPath('output', 1)).toBe('output.1');
+  });
+});
+
+describe('splitClusterSections', () => {
+  it('cuts at namespace boundaries and keeps the overview with the namespaces list', async () => {
+    const parts = await splitClusterSections([createSection()], 700, countCharacters, async () => 100);
+
+    expect(parts.map((part) => part.entries)).toEqual([
+      ['Resource overview and namespaces', 'Namespace shop'],
+      ['Namespace billing', 'Diagnostics shop/api-1'],
+    ]);
+    expect(parts[0].clusters[0].resourceTreeString).toBe('shop\nbilling');
+    expect(parts[0].clusters[0].podDiagnostics).toBeUndefined();
+    expect(parts[1].clusters[0].resourceTreeString).toBe('');
+    expect(parts[1].clusters[0].resources).toEqual([expect.objectContaining({ namespace: 'billing' })]);
+  });
+
+  it('gives a section larger than a part a part of its own', async () => {
+    const parts = await splitClusterSections([createSection()], 200, countCharacters, async () => 100);
+
+    expect(parts.map((part) => part.entries)).toEqual([
+      ['Resource overview and namespaces'],
+      ['Namespace shop'],
+      ['Namespace billing'],
+      ['Diagnostics shop/api-1'],
+    ]);
+  });
+
+  it('names the cluster of each section and leaves out clusters without sections in a part', async () => {
+    const parts = await splitClusterSections(
+      [createSection('eu-west'), createSection('us-east')],
+      1200,
+      countCharacters,
+      async () => 100,
+    );
+
+    expect(parts[0].entries[0]).toBe('eu-west: Resource overview and namespaces');
+    expect(parts[parts.length - 1].clusters.map((section) => section.name)).toEqual(['us-east']);
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import addFormats from 'ajv-formats';
+import Ajv2020 from 'ajv/dist/2020.js';
+import { describe, expect, it } from 'vitest';
+import type { KubeAggregatorConfigMerged } from '../../../../src/config/configSchema.js';
+import type { OutputGeneratorContext } from '../../../../src/core/output/outputGeneratorTypes.js';
+import {
+  JSON_OUTPUT_SCHEMA_VERSION,
+  type JsonOutputDocument,
+  generateJsonOutput,
+} from '../../../../src/core/output/outputStyles/jsonStyle.js';
+
+const createContext = (): OutputGeneratorContext => ({
+  generationDate: '2026-01-01T00:00:00.000Z',
+  config: { cwd: '/test', security: { redactSecrets: true } } as KubeAggregatorConfigMerged,
+  instruction: '',
+  clusters: [
+    {
+      namespaceNames: ['shop'],
+      resourceTreeString: 'shop',
+      resources: [
+        { kind: 'Namespaces', command: 'kubectl get namespaces', output: 'NAME\nshop' },
+        {
+          namespace: 'shop',
+          command: 'kubectl get pods,secrets -n shop -o json',
+          output: JSON.stringify({
+            kind: 'List',
+            items: [
+              { apiVersion: 'v1', kind: 'Pod', metadata: { name: 'api-1', labels: { app: 'api' } } },
+              { apiVersion: 'v1', kind: 'Secret', metadata: { name: 'db', namespace: 'shop' }, data: { pw: '*****' } },
+            ],
+          }),
+          elided: ['1 healthy ReplicaSet (all pods ready)'],
+        },
+      ],
+      resourceGraph: {
+        nodes: [
+          { id: 'shop/deployments.apps/api', kind: 'Deployment', name: 'api', namespace: 'shop', resourceType: 'x' },
+          { id: 'shop/pods/api-1', kind: 'Pod', name: 'api-1', namespace: 'shop', resourceType: 'pods' },
+        ],
+        edges: [{ from: 'shop/deployments.apps/api', to: 'shop/pods/api-1', type: 'owns' }],
+      },
+    },
+  ],
+});
+
+describe('generateJsonOutput', () => {
+  it('parses resources and keeps unparsable output as text', () => {
+    const document: JsonOutputDocument = JSON.parse(generateJsonOutput(createContext()));
+
+    expect(document.schemaVersion).toBe(JSON_OUTPUT_SCHEMA_VERSION);
+    const [cluster] = document.clusters;
+    expect(cluster.context).toBeNull();
+    expect(cluster.resources.map(({ manifest: _, ...resource }) => resource)).toEqual([
+      { kind: 'Pod', apiVersion: 'v1', name: 'api-1', namespace: 'shop', labels: { app: 'api' } },
+      { kind: 'Secret', apiVersion: 'v1', name: 'db', namespace: 'shop', labels: {} },
+    ]);
+    expect(cluster.rawOutputs).toEqual([{ command: 'kubectl get namespaces', output: 'NAME\nshop' }]);
+    expect(cluster.relationships).toEqual([
+      {
+        type: 'owns',
+        from: { kind: 'Deployment', name: 'api', namespace: 'shop' },
+        to: { kind: 'Pod', name: 'api-1', namespace: 'shop' },
+      },
+    ]);
+    expect(cluster.elided).toEqual(['shop: 1 healthy ReplicaSet (all pods ready)']);
+    expect(document.counts).toMatchObject({ clusters: 1, namespaces: 1, resources: 2 });
+    expect(document.redaction).toEqual({ secretsRedacted: true, placeholder: '*****', redactedSecrets: 1 });
+  });
+
+  it('matches the published schema', async () => {
+    const schema = JSON.parse(
+      await fs.readFile(path.resolve(__dirname, '../../../../schemas/output.schema.json'), 'utf8'),
+    );
+    const document = JSON.parse(generateJsonOutput(createContext()));
+    const ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(ajv);
+    const validate = ajv.compile(schema);
+
+    expect(schema.properties.schemaVersion.const).toBe(JSON_OUTPUT_SCHEMA_VERSION);
+    expect(validate(document), JSON.stringify(validate.errors, null, 2)).toBe(true);
+    expect(validate({ ...document, clusters: [{ ...document.clusters[0], resources: [{ kind: 'Pod' }] }] })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { ClusterSection, RenderContext } from '../../../../src/core/output/outputGeneratorTypes.js';
+import { generateParsableXmlOutput } from '../../../../src/core/output/outputStyles/parsableXmlStyle.js';
+
+const createRenderContext = (clusters: ClusterSection[]): RenderContext => ({
+  generationHeader: 'Generated <today> & redacted',
+  summaryPurpose: 'purpose',
+  summaryFileFormat: 'format',
+  summaryUsageGuidelines: 'guidelines',
+  summaryNotes: 'notes',
+  headerText: undefined,
+  instruction: '',
+  clusters,
+  multiCluster: false,
+  hasClusterResources: false,
+  hasEvents: false,
+  hasHelmReleases: false,
+  hasResourceSections: false,
+  preambleEnabled: true,
+  resourceTreeEnabled: true,
+  diagnosticsEnabled: true,
+});
+
+describe('generateParsableXmlOutput', () => {
+  it('escapes content and splits structured output into resources with attributes', () => {
+    const output = generateParsableXmlOutput(
+      createRenderContext([
+        {
+          resourceTreeString: 'shop',
+          resources: [
+            { kind: 'Namespaces', command: 'kubectl get namespaces', output: 'NAME\nshop' },
+            {
+              namespace: 'shop',
+              command: 'kubectl get configmaps -n shop -o json',
+              output: JSON.stringify({
+                kind: 'List',
+                items: [{ kind: 'ConfigMap', metadata: { name: 'html' }, data: { page: '<b>a & b</b> ]]> end' } }],
+              }),
+              events: [
+                {
+                  namespace: 'shop',
+                  type: 'Warning',
+                  reason: 'BackOff',
+                  message: 'Back-off "api" <1m>',
+                  kind: 'Pod',
+                  name: 'api-1',
+                  resourceType: 'pods',
+                  count: 3,
+                },
+              ],
+            },
+          ],
+        },
+      ]),
+    );
+
+    expect(output.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<kubemix>\n')).toBe(true);
+    expect(output.trimEnd().endsWith('</kubemix>')).toBe(true);
+    expect(output).toContain('<header>Generated &lt;today&gt; &amp; redacted</header>');
+    expect(output).toContain(
+      '<resource kind="ConfigMap" name="html" namespace="shop" command="kubectl get configmaps -n shop -o json"><![CDATA[',
+    );
+    // The CDATA terminator in the content is split across two sections
+    expect(output).toContain('<b>a & b</b> ]]]]><![CDATA[> end');
+    expect(output).toContain(
+      '<output kind="Namespaces" command="kubectl get namespaces"><![CDATA[NAME\nshop]]></output>',
+    );
+    expect(output).toContain(
+      '<event type="Warning" reason="BackOff" kind="Pod" name="api-1" namespace="shop" count="3">Back-off &quot;api&quot; &lt;1m&gt;</event>',
+    );
+  });
+
+  it('names clusters and removes characters that XML does not allow', () => {
+    const output = generateParsableXmlOutput(
+      createRenderContext([
+        {
+          name: 'eu-west',
+          resourceTreeString: 'shop',
+          resources: [{ namespace: 'shop', command: 'kubectl get pods -n shop', output: 'api-1\u0007 Running' }],
+        },
+      ]),
+    );
+
+    expect(output).toContain('<cluster name="eu-west">');
+    expect(output).toContain('<namespace name="shop">');
+    expect(output).toContain('<![CDATA[api-1 Running]]>');
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, expect, it, vi } from 'vitest';
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../src/config/configSchema.js';
+import type { EventObject, KubeObject } from '../../src/core/kubernetes/apiTypes.js';
+import { createBuiltinResourceKindRegistry } from '../../src/core/kubernetes/resourceRegistry.js';
+import { generateOutput } from '../../src/core/output/outputGenerate.js';
+import type { ClusterAggregation } from '../../src/core/output/outputGeneratorTypes.js';
+import { renderSnapshot, runAggregation } from '../../src/core/packager.js';
+import { applySnapshotConfig, createSnapshotBundle } from '../../src/core/snapshot/snapshotBundle.js';
+import { KubeAggregatorError } from '../../src/shared/errorHandle.js';
+
+type AggregationDeps = NonNullable<Parameters<typeof runAggregation>[2]>;
+
+const createConfig = (overrides: Partial<KubeAggregatorConfigMerged> = {}): KubeAggregatorConfigMerged => ({
+  ...defaultConfig,
+  cwd: '/test',
+  clusterResources: { ...defaultConfig.clusterResources, enabled: false },
+  kubernetes: { ...defaultConfig.kubernetes, outputFormat: 'yaml' },
+  ...overrides,
+});
+
+const podList = (names: string[]): string =>
+  [
+    'apiVersion: v1',
+    'kind: List',
+    'items:',
+    ...names.flatMap((name) => [
+      '  - apiVersion: v1',
+      '    kind: Pod',
+      '    metadata:',
+      `      name: ${name}`,
+      '    status:',
+      '      phase: Running',
+    ]),
+  ].join('\n');
+
+// Stubbed cluster: every namespace has the given pods; the output is captured instead of written
+const createDeps = (pods: Record<string, string[]> = { shop: ['web-1'] }) => {
+  const generated: ClusterAggregation[][] = [];
+  const deps = {
+    useKubectlTransport: vi.fn(),
+    setKubectlTransport: vi.fn(),
+    createManifestTransport: vi.fn(),
+    configureKubectlRequests: vi.fn(),
+    getKubeconfigContextNames: vi.fn(async () => ['eu', 'us']),
+    getNamespaceNames: vi.fn(async (_kubeconfigPath?: string, _context?: string) => Object.keys(pods)),
+    getNamespacesOutput: vi.fn(async () => ({ output: '', command: 'kubectl get namespaces -o yaml' })),
+    getResourcesByName: vi.fn(async (namespace: string, _types: string[]) => ({
+      pods: pods[namespace] ?? [],
+      services: [],
+    })),
+    getResourcesOutput: vi.fn(async (namespace: string, _types: string[]) => ({
+      output: podList(pods[namespace] ?? []),
+      command: `kubectl get pods -n ${namespace} -o yaml`,
+    })),
+    getResourceKindRegistry: vi.fn(async () => createBuiltinResourceKindRegistry()),
+    getClusterResourcesByName: vi.fn(async () => ({})),
+    getClusterResourcesOutput: vi.fn(async () => ({ output: '', command: '' })),
+    describePod: vi.fn(async () => ({ description: '', command: '' })),
+    getPodLogs: vi.fn(async () => ({ logs: '', command: '' })),
+    getEvents: vi.fn(async (..._args: unknown[]) => ({
+      events: [] as EventObject[],
+      command: 'kubectl get events -o json',
+    })),
+    getHelmReleaseSecrets: vi.fn(async (..._args: unknown[]) => ({
+      secrets: [] as KubeObject[],
+      command: 'kubectl get secrets --all-namespaces -o json -l owner=helm',
+    })),
+    getResourceObjects: vi.fn(async () => []),
+    generateOutput: vi.fn(async (_config: KubeAggregatorConfigMerged, aggregations: ClusterAggregation[]) => {
+      generated.push(aggregations);
+      return 'output';
+    }),
+    generateOutputParts: vi.fn(async () => ['output']),
+    diffAgainstSnapshot: vi.fn(),
+    generateDiffOutput: vi.fn(async () => 'diff'),
+    writeOutputToDisk: vi.fn(async () => ['/test/kubemix-output.md']),
+    writeOutputToStdout: vi.fn(async () => {}),
+    writeSnapshotBundle: vi.fn(async () => '/test/snapshot.json'),
+    copyToClipboardIfEnabled: vi.fn(async () => undefined),
+  };
+  return { deps: deps as unknown as AggregationDeps & typeof deps, generated };
+};
+
+describe('runAggregation', () => {
+  it('skips an unreachable cluster of a multi-cluster run', async () => {
+    const { deps } = createDeps();
+    deps.getNamespaceNames.mockImplementation(async (_kubeconfigPath, context) => {
+      if (context === 'us') throw new KubeAggregatorError('Unable to connect to the server');
+      return ['shop'];
+    });
+
+    const { metrics, aggregations } = await runAggregation(
+      createConfig({ kubernetes: { ...createConfig().kubernetes, contexts: ['eu', 'us'] } }),
+      () => {},
+      deps,
+    );
+
+    expect(aggregations.map((aggregation) => aggregation.context)).toEqual(['eu']);
+    expect(metrics.clusters?.map((cluster) => cluster.context)).toEqual(['eu']);
+    expect(metrics.resourceCounts).toMatchObject({ pods: 1 });
+  });
+
+  it('fails when no cluster of a multi-cluster run is reachable, and when a single cluster is not', async () => {
+    const { deps } = createDeps();
+    deps.getNamespaceNames.mockRejectedValue(new KubeAggregatorError('Unable to connect to the server'));
+
+    await expect(
+      runAggregation(createConfig({ kubernetes: { ...createConfig().kubernetes, allContexts: true } }), () => {}, deps),
+    ).rejects.toThrow('None of the clusters could be aggregated: eu, us');
+    await expect(runAggregation(createConfig(), () => {}, deps)).rejects.toThrow('Unable to connect to the server');
+  });
+
+  it('applies label and field selectors to name discovery, manifests and relationships', async () => {
+    const { deps } = createDeps();
+    const selectors = { labelSelector: 'app=web', fieldSelector: 'status.phase=Running' };
+
+    await runAggregation(createConfig({ filter: { ...defaultConfig.filter, ...selectors } }), () => {}, deps);
+
+    expect(deps.getResourcesByName).toHaveBeenCalledWith(
+      'shop',
+      expect.arrayContaining(['pods', 'services']),
+      undefined,
+      undefined,
+      selectors,
+      expect.anything(),
+    );
+    // Only the types that matched the field selector are fetched
+    expect(deps.getResourcesOutput).toHaveBeenCalledWith('shop', ['pods'], undefined, undefined, 'yaml', selectors);
+    expect(deps.getResourceObjects).toHaveBeenCalledWith('shop', ['pods'], undefined, undefined, selectors);
+  });
+
+  it('fetches the manifests of the types that have resources only', async () => {
+    const { deps } = createDeps();
+
+    await runAggregation(createConfig(), () => {}, deps);
+
+    // services have no resources: a forbidden or unavailable type must not fail the request of the others
+    expect(deps.getResourcesOutput).toHaveBeenCalledWith('shop', ['pods'], undefined, undefined, 'yaml', undefined);
+  });
+
+  it('lists the events of the selected namespaces, keeping those of the selected resources with selectors', async () => {
+    const { deps, generated } = createDeps({ shop: ['web-1'], billing: ['api-1'] });
+    const event = (kind: string, name: string, namespace?: string): EventObject => ({
+      kind: 'Event',
+      metadata: { name: `${name}.event`, namespace },
+      involvedObject: { kind, name, namespace },
+      type: 'Warning',
+      reason: 'BackOff',
+      lastTimestamp: new Date().toISOString(),
+    });
+    deps.getEvents.mockResolvedValue({
+      events: [event('Pod', 'web-1', 'shop'), event('Pod', 'worker-1', 'shop'), event('Node', 'node-1')],
+      command: 'kubectl get events -n shop -o json --field-selector type=Warning',
+    });
+
+    await runAggregation(
+      createConfig({ filter: { ...defaultConfig.filter, namespaces: ['shop'], labelSelector: 'app=web' } }),
+      () => {},
+      deps,
+    );
+
+    expect(deps.getEvents).toHaveBeenCalledWith(false, undefined, undefined, ['shop']);
+    // worker-1 does not match the label selector; cluster-scoped objects are kept
+    expect(generated[0][0].events?.events.map((summary) => summary.name)).toEqual(['web-1', 'node-1']);
+  });
+
+  it('lists events across the cluster without a namespace filter', async () => {
+    const { deps } = createDeps();
+
+    await runAggregation(createConfig(), () => {}, deps);
+
+    expect(deps.getEvents).toHaveBeenCalledWith(false, undefined, undefined, undefined);
+  });
+
+  it('lists the Helm release Secrets of the selected namespaces only', async () => {
+    const { deps } = createDeps({ shop: ['web-1'], billing: ['api-1'] });
+
+    await runAggregation(createConfig({ filter: { ...defaultConfig.filter, namespaces: ['shop'] } }), () => {}, deps);
+
+    expect(deps.getHelmReleaseSecrets).toHaveBeenCalledWith(undefined, undefined, ['shop']);
+  });
+});
+
+describe('renderSnapshot', () => {
+  // Bundle collected without slim mode, with noise fields and a large ConfigMap
+  const manifests = [
+    'apiVersion: v1',
+    'kind: List',
+    'items:',
+    '  - apiVersion: apps/v1',
+    '    kind: Deployment',
+    '    metadata:',
+    '      name: web',
+    '      namespace: shop',
+    '      managedFields:',
+    '        - manager: kubectl-client-side-apply',
+    '          operation: Update',
+    '    spec:',
+    '      replicas: 2',
+    '  - apiVersion: v1',
+    '    kind: ConfigMap',
+    '    metadata:',
+    '      name: catalog',
+    '      namespace: shop',
+    '    data:',
+    '      products.csv: |',
+    ...Array.from({ length: 400 }, (_, i) => `        product-${i},${i}.99`),
+  ].join('\n');
+  const bundle = createSnapshotBundle(createConfig(), [
+    {
+      aggregation: {
+        namespaceNames: ['shop'],
+        namespaceData: { command: 'kubectl get namespaces -o yaml', output: '' },
+        resourcesByNamespace: { shop: { 'deployments.apps': ['web'], configmaps: ['catalog'] } },
+        resourceBlocks: [
+          { namespace: 'shop', command: 'kubectl get deployments.apps,configmaps -n shop -o yaml', output: manifests },
+        ],
+      },
+      namespaceCount: 1,
+      resourceCounts: { 'deployments.apps': 1, configmaps: 1 },
+      eventCount: 0,
+    },
+  ]);
+
+  // Renders the bundle with the given output settings, returning the output and the metrics
+  const render = async (overrides: Partial<KubeAggregatorConfigMerged> = {}) => {
+    const { deps } = createDeps();
+    let output = '';
+    deps.generateOutput.mockImplementation(async (config, aggregations) => {
+      output = await generateOutput(config, aggregations);
+      return output;
+    });
+    const metrics = await renderSnapshot(applySnapshotConfig(createConfig(overrides), bundle), bundle, () => {}, deps);
+    return { output, metrics, deps };
+  };
+
+  it('renders the same bundle with other slim and style settings', async () => {
+    const markdown = await render();
+    const slimXml = await render({
+      slim: { ...defaultConfig.slim, enabled: true },
+      output: { ...defaultConfig.output, style: 'xml' },
+    });
+
+    expect(markdown.output).toContain('managedFields');
+    expect(markdown.metrics.slimTokensSaved).toBeUndefined();
+    expect(slimXml.output).not.toContain('managedFields');
+    expect(slimXml.output).toMatch(/<\w+/);
+    expect(slimXml.output).toContain('name: web');
+    expect(slimXml.metrics.slimTokensSaved).toBeGreaterThan(0);
+    expect(slimXml.metrics.resourceCounts).toEqual({ 'deployments.apps': 1, configmaps: 1 });
+    // The collection needs no cluster
+    expect(slimXml.deps.getNamespaceNames).not.toHaveBeenCalled();
+  });
+
+  it('trims the same bundle to a token budget', async () => {
+    const unbounded = await render();
+    const budget = 1500;
+    const bounded = await render({ tokenCount: { ...defaultConfig.tokenCount, budget } });
+
+    expect(unbounded.metrics.totalTokens).toBeGreaterThan(budget);
+    expect(bounded.metrics.totalTokens).toBeLessThanOrEqual(budget);
+    expect(bounded.output).not.toContain('product-399');
+    expect(bounded.output).toContain('name: web');
+  });
+});
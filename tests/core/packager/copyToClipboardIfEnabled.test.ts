@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../../src/config/configSchema.js';
+import {
+  buildOsc52Sequence,
+  copyToClipboardIfEnabled,
+  getClipboardCommands,
+} from '../../../src/core/packager/copyToClipboardIfEnabled.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+const config: KubeAggregatorConfigMerged = {
+  ...defaultConfig,
+  cwd: '/test',
+  output: { ...defaultConfig.output, copyToClipboard: true },
+};
+
+const createDeps = (overrides: { env?: NodeJS.ProcessEnv; isTTY?: boolean; available?: string[] } = {}) => ({
+  platform: 'linux' as NodeJS.Platform,
+  env: overrides.env ?? {},
+  runClipboardCommand: vi.fn(async ({ command }: { command: string }) => {
+    if (!overrides.available?.includes(command)) throw new Error('spawn ENOENT');
+  }),
+  terminal: { isTTY: overrides.isTTY, write: vi.fn() },
+});
+
+describe('getClipboardCommands', () => {
+  it('prefers the tools of the running display server', () => {
+    expect(
+      getClipboardCommands('linux', { WAYLAND_DISPLAY: 'wayland-0', DISPLAY: ':0' }).map((c) => c.command),
+    ).toEqual(['wl-copy', 'xclip', 'xsel', 'clip.exe']);
+    expect(getClipboardCommands('linux', {}).map((c) => c.command)).toEqual(['clip.exe']);
+    expect(getClipboardCommands('darwin', {}).map((c) => c.command)).toEqual(['pbcopy']);
+  });
+});
+
+describe('copyToClipboardIfEnabled', () => {
+  it('does nothing unless enabled', async () => {
+    const deps = createDeps({ available: ['clip.exe'] });
+
+    expect(await copyToClipboardIfEnabled('output', () => {}, defaultConfig as KubeAggregatorConfigMerged, deps)).toBe(
+      undefined,
+    );
+    expect(deps.runClipboardCommand).not.toHaveBeenCalled();
+  });
+
+  it('uses the first clipboard tool that works', async () => {
+    const deps = createDeps({ env: { DISPLAY: ':0' }, available: ['xsel'] });
+
+    expect(await copyToClipboardIfEnabled('output', () => {}, config, deps)).toBe('xsel');
+    expect(deps.runClipboardCommand).toHaveBeenCalledWith(
+      { command: 'xsel', args: ['--clipboard', '--input'] },
+      'output',
+    );
+  });
+
+  it('falls back to OSC 52 in a terminal, and fails otherwise', async () => {
+    const terminalDeps = createDeps({ isTTY: true });
+    expect(await copyToClipboardIfEnabled('output', () => {}, config, terminalDeps)).toBe('OSC 52');
+    expect(terminalDeps.terminal.write).toHaveBeenCalledWith(buildOsc52Sequence('output', {}));
+
+    await expect(copyToClipboardIfEnabled('output', () => {}, config, createDeps())).rejects.toThrow(
+      KubeAggregatorError,
+    );
+  });
+});
+
+describe('buildOsc52Sequence', () => {
+  it('encodes the content in base64 and wraps it for tmux', () => {
+    expect(buildOsc52Sequence('hi', {})).toBe('\x1b]52;c;aGk=\x07');
+    expect(buildOsc52Sequence('hi', { TMUX: '/tmp/tmux' })).toBe('\x1bPtmux;\x1b\x1b]52;c;aGk=\x07\x1b\\');
+  });
+});
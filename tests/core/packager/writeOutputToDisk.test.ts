@@ -0,0 +1,48 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../../src/config/configSchema.js';
+import { writeOutputToDisk } from '../../../src/core/packager/writeOutputToDisk.js';
+
+describe('writeOutputToDisk', () => {
+  let directory: string;
+  let config: KubeAggregatorConfigMerged;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-output-'));
+    config = { ...defaultConfig, cwd: directory, output: { ...defaultConfig.output, filePath: 'out/kubemix.md' } };
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes a split output to numbered files, and a single part to the configured path', async () => {
+    expect(await writeOutputToDisk(['# Part 1', '# Part 2'], config)).toEqual(['out/kubemix.1.md', 'out/kubemix.2.md']);
+    expect(await fs.readFile(path.join(directory, 'out/kubemix.2.md'), 'utf8')).toBe('# Part 2');
+
+    expect(await writeOutputToDisk(['# Output'], config)).toEqual(['out/kubemix.md']);
+    expect(await fs.readFile(path.join(directory, 'out/kubemix.md'), 'utf8')).toBe('# Output');
+  });
+
+  it('removes the parts left over from an earlier split output with more parts', async () => {
+    await writeOutputToDisk(['# Part 1', '# Part 2', '# Part 3'], config);
+
+    await writeOutputToDisk(['# Part 1', '# Part 2'], config);
+    expect((await fs.readdir(path.join(directory, 'out'))).sort()).toEqual(['kubemix.1.md', 'kubemix.2.md']);
+
+    await writeOutputToDisk('# Output', config);
+    expect(await fs.readdir(path.join(directory, 'out'))).toEqual(['kubemix.md']);
+  });
+
+  it('leaves part files it did not write in place', async () => {
+    await fs.mkdir(path.join(directory, 'out'));
+    await fs.writeFile(path.join(directory, 'out/kubemix.1.md'), '# Notes');
+
+    await writeOutputToDisk('# Output', config);
+
+    expect((await fs.readdir(path.join(directory, 'out'))).sort()).toEqual(['kubemix.1.md', 'kubemix.md']);
+    expect(await fs.readFile(path.join(directory, 'out/kubemix.1.md'), 'utf8')).toBe('# Notes');
+  });
+});
@@ -0,0 +1,36 @@
+import { Writable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { writeOutputToStdout } from '../../../src/core/packager/writeOutputToStdout.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+// A stream that collects what is written, or fails every write with the given error code
+const createStream = (errorCode?: string) => {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      if (errorCode) {
+        callback(Object.assign(new Error(errorCode), { code: errorCode }));
+        return;
+      }
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  stream.on('error', () => {});
+  return { stream, chunks };
+};
+
+describe('writeOutputToStdout', () => {
+  it('writes the parts one after the other, ending with a newline', async () => {
+    const { stream, chunks } = createStream();
+
+    await writeOutputToStdout(['# Part 1', '# Part 2'], stream);
+
+    expect(chunks.join('')).toBe('# Part 1\n# Part 2\n');
+  });
+
+  it('ignores a reader that stops early, and fails on other errors', async () => {
+    await expect(writeOutputToStdout('output', createStream('EPIPE').stream)).resolves.toBeUndefined();
+    await expect(writeOutputToStdout('output', createStream('EIO').stream)).rejects.toThrow(KubeAggregatorError);
+  });
+});
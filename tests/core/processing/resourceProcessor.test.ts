@@ -1,9 +1,13 @@
 // src/core/processing/__tests__/resourceProcessor.test.ts
 import { describe, expect, it } from 'vitest';
+import * as yaml from 'yaml';
 import type { KubeAggregatorConfigMerged } from '../../../src/config/configSchema.js';
 import {
   processJsonResourceManifest,
   processResourceManifest,
+  redactSensitiveValues,
+  slimJsonResourceManifest,
+  slimResourceManifest,
 } from '../../../src/core/processing/resourceProcessor.js';
 
 // Create a mock config that has the required properties for type checking
@@ -242,3 +246,202 @@ describe('processJsonResourceManifest', () => {
     expect(result).toBe(jsonString);
   });
 });
+
+describe('redactSensitiveValues', () => {
+  const values = {
+    replicaCount: 2,
+    auth: { password: 'hunter2', existingSecret: 'db-credentials', enabled: true },
+    ingress: { tls: [{ secretName: 'tls', hosts: ['shop.example.com'] }] },
+    extraObjects: [{ kind: 'Secret', metadata: { name: 'extra' }, stringData: { url: 'postgres://u:p@db' } }],
+  };
+
+  it('redacts credential-like values and embedded Secret data', () => {
+    expect(redactSensitiveValues(values, createMockConfig(true))).toEqual({
+      replicaCount: 2,
+      auth: { password: '*****', existingSecret: '*****', enabled: true },
+      ingress: { tls: [{ secretName: 'tls', hosts: ['shop.example.com'] }] },
+      extraObjects: [{ kind: 'Secret', metadata: { name: 'extra' }, stringData: { url: '*****' } }],
+    });
+  });
+
+  it('returns the values unchanged when redaction is disabled', () => {
+    expect(redactSensitiveValues(values, createMockConfig(false))).toBe(values);
+  });
+
+  it('redacts array items and nested non-string values under credential keys', () => {
+    expect(
+      redactSensitiveValues(
+        {
+          passwords: ['hunter2', 'hunter3'],
+          apiTokens: [{ name: 'ci', value: 'abc' }],
+          database: { port: 5432, password: 1234, connectionString: 'Server=db;Password=p' },
+          aws: { region: 'eu-west-1', accessKeyId: 'AKIA', secretAccessKey: 's3cr3t' },
+          sentry: { dsn: 'https://key@sentry.example.com/1' },
+          env: { DB_PASSWORD_FILE: '/run/secrets/db', DISABLE_AUTH: 'true' },
+          oauth: { enabled: false, basicAuth: 'user:pass' },
+        },
+        createMockConfig(true),
+      ),
+    ).toEqual({
+      passwords: ['*****', '*****'],
+      apiTokens: [{ name: '*****', value: '*****' }],
+      database: { port: 5432, password: '*****', connectionString: '*****' },
+      aws: { region: 'eu-west-1', accessKeyId: '*****', secretAccessKey: '*****' },
+      sentry: { dsn: '*****' },
+      env: { DB_PASSWORD_FILE: '*****', DISABLE_AUTH: 'true' },
+      oauth: { enabled: false, basicAuth: '*****' },
+    });
+  });
+
+  it('uses the key patterns of the configuration', () => {
+    const config = createMockConfig(true);
+    config.security = { redactSecrets: true, redactKeys: ['license*'] };
+
+    expect(redactSensitiveValues({ licenseKey: 'L-1', password: 'hunter2' }, config)).toEqual({
+      licenseKey: '*****',
+      password: 'hunter2',
+    });
+  });
+});
+
+describe('redaction by key name in manifests', () => {
+  const deployment = {
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: { name: 'api' },
+    spec: {
+      template: {
+        spec: {
+          containers: [
+            {
+              name: 'api',
+              env: [
+                { name: 'LOG_LEVEL', value: 'debug' },
+                { name: 'DB_PASSWORD', value: 'hunter2' },
+                { name: 'API_TOKEN', valueFrom: { secretKeyRef: { name: 'api', key: 'token' } } },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  };
+  const configMap = {
+    apiVersion: 'v1',
+    kind: 'ConfigMap',
+    metadata: { name: 'api' },
+    data: { REDIS_PASSWORD: 'p', DISABLE_AUTH: 'true', OAUTH_ENABLED: 'false' },
+  };
+  const createManifestConfig = (): KubeAggregatorConfigMerged => {
+    const config = createMockConfig(true);
+    return { ...config, security: { ...config.security, redactManifestKeys: true } };
+  };
+
+  it('leaves ConfigMaps and environment variables unchanged by default', () => {
+    const list = { apiVersion: 'v1', kind: 'List', items: [deployment, configMap] };
+
+    expect(yaml.parse(processResourceManifest(yaml.stringify(list), createMockConfig(true)))).toEqual(list);
+  });
+
+  it('redacts environment variables and ConfigMap entries in YAML lists when enabled', () => {
+    const result = yaml.parse(
+      processResourceManifest(
+        yaml.stringify({ apiVersion: 'v1', kind: 'List', items: [deployment, configMap] }),
+        createManifestConfig(),
+      ),
+    );
+
+    expect(result.items[0].spec.template.spec.containers[0].env).toEqual([
+      { name: 'LOG_LEVEL', value: 'debug' },
+      { name: 'DB_PASSWORD', value: '*****' },
+      { name: 'API_TOKEN', valueFrom: { secretKeyRef: { name: 'api', key: 'token' } } },
+    ]);
+    expect(result.items[1].data).toEqual({ REDIS_PASSWORD: '*****', DISABLE_AUTH: 'true', OAUTH_ENABLED: 'false' });
+  });
+
+  it('redacts environment variables in JSON lists when enabled', () => {
+    const result = JSON.parse(
+      processJsonResourceManifest(
+        JSON.stringify({ kind: 'List', items: [deployment, configMap] }),
+        createManifestConfig(),
+      ),
+    );
+
+    expect(result.items[0].spec.template.spec.containers[0].env[1]).toEqual({ name: 'DB_PASSWORD', value: '*****' });
+    expect(result.items[1].data).toMatchObject({ REDIS_PASSWORD: '*****', DISABLE_AUTH: 'true' });
+  });
+});
+
+describe('slim mode', () => {
+  const createSlimConfig = (removeDefaults = true): KubeAggregatorConfigMerged => ({
+    ...createMockConfig(true),
+    slim: {
+      enabled: true,
+      removeFields: {
+        '*': [
+          'metadata.managedFields',
+          'metadata.annotations[kubectl.kubernetes.io/last-applied-configuration]',
+          'metadata.resourceVersion',
+          'metadata.uid',
+        ],
+        ConfigMap: ['data'],
+      },
+      removeDefaults,
+    },
+  });
+
+  const pod = {
+    apiVersion: 'v1',
+    kind: 'Pod',
+    metadata: {
+      name: 'web',
+      uid: 'c0ffee',
+      resourceVersion: '42',
+      managedFields: [{ manager: 'kubectl' }],
+      annotations: { 'kubectl.kubernetes.io/last-applied-configuration': '{"kind":"Pod"}' },
+      labels: { app: 'web' },
+    },
+    spec: {
+      dnsPolicy: 'ClusterFirst',
+      restartPolicy: 'Never',
+      containers: [{ name: 'web', image: 'nginx', terminationMessagePath: '/dev/termination-log' }],
+    },
+  };
+
+  it('removes noise fields and default values from JSON lists', () => {
+    const result = JSON.parse(
+      slimJsonResourceManifest(JSON.stringify({ kind: 'List', items: [pod] }), createSlimConfig()),
+    );
+
+    expect(result.items[0]).toEqual({
+      apiVersion: 'v1',
+      kind: 'Pod',
+      // Annotations left empty are removed as well
+      metadata: { name: 'web', labels: { app: 'web' } },
+      // Fields differing from their defaults are kept
+      spec: { restartPolicy: 'Never', containers: [{ name: 'web', image: 'nginx' }] },
+    });
+  });
+
+  it('keeps default values unless asked to remove them', () => {
+    const result = JSON.parse(slimJsonResourceManifest(JSON.stringify(pod), createSlimConfig(false)));
+
+    expect(result.metadata.uid).toBeUndefined();
+    expect(result.spec.dnsPolicy).toBe('ClusterFirst');
+  });
+
+  it('applies per-kind paths to YAML documents', () => {
+    const yamlString =
+      'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: big\n  uid: c0ffee\ndata:\n  file: content\n';
+
+    const result = slimResourceManifest(yamlString, createSlimConfig());
+
+    expect(result).toBe('apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: big\n');
+  });
+
+  it('returns the content unchanged when slim mode is disabled', () => {
+    const jsonString = JSON.stringify(pod, null, 2);
+
+    expect(slimJsonResourceManifest(jsonString, createMockConfig(true))).toBe(jsonString);
+  });
+});
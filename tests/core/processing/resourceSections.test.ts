@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getResourceAnchor, groupResourceSections } from '../../../src/core/processing/resourceSections.js';
+
+const yamlList = `apiVersion: v1
+kind: List
+items:
+  - apiVersion: apps/v1
+    kind: Deployment
+    metadata:
+      name: api
+      namespace: payments
+  - apiVersion: v1
+    kind: Secret
+    metadata:
+      name: db-credentials
+      namespace: payments
+    data:
+      password: '*****'
+  - apiVersion: apps/v1
+    kind: Deployment
+    metadata:
+      name: worker
+      namespace: payments
+`;
+
+describe('getResourceAnchor', () => {
+  it('builds lowercase anchors from kind, namespace and name', () => {
+    expect(getResourceAnchor('Deployment', 'api', 'payments')).toBe('deployment-payments-api');
+    expect(getResourceAnchor('ClusterRole', 'system:node')).toBe('clusterrole-system-node');
+  });
+
+  it('prefixes the cluster label when given', () => {
+    expect(getResourceAnchor('Deployment', 'api', 'payments', 'eu-west')).toBe('eu-west-deployment-payments-api');
+  });
+});
+
+describe('groupResourceSections', () => {
+  it('splits a YAML list into resources grouped by kind in order of first appearance', () => {
+    const groups = groupResourceSections(yamlList, 'payments');
+
+    expect(groups?.map((group) => group.kind)).toEqual(['Deployment', 'Secret']);
+    expect(groups?.[0].resources.map((resource) => resource.name)).toEqual(['api', 'worker']);
+    expect(groups?.[0].resources[0]).toMatchObject({
+      namespace: 'payments',
+      anchor: 'deployment-payments-api',
+      redacted: undefined,
+    });
+    expect(groups?.[0].resources[0].output).toMatch(/^apiVersion: apps\/v1\nkind: Deployment/);
+  });
+
+  it('marks sections holding redacted values', () => {
+    const secret = groupResourceSections(yamlList, 'payments')?.[1].resources[0];
+
+    expect(secret?.redacted).toBe(true);
+    expect(secret?.output).toContain('password: "*****"');
+  });
+
+  it('keeps JSON output as JSON', () => {
+    const json = JSON.stringify({ kind: 'List', items: [{ kind: 'Service', metadata: { name: 'web' } }] });
+    const groups = groupResourceSections(json, 'shop');
+
+    expect(groups?.[0].resources[0]).toMatchObject({ kind: 'Service', name: 'web', namespace: 'shop' });
+    expect(JSON.parse(groups?.[0].resources[0].output ?? '')).toEqual({ kind: 'Service', metadata: { name: 'web' } });
+  });
+
+  it('returns undefined for text output', () => {
+    expect(groupResourceSections('NAME   READY\napi    1/1', 'payments')).toBeUndefined();
+  });
+});
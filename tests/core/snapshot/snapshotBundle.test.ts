@@ -0,0 +1,101 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../../src/config/configSchema.js';
+import type { ClusterAggregation } from '../../../src/core/output/outputGeneratorTypes.js';
+import {
+  SNAPSHOT_BUNDLE_VERSION,
+  applySnapshotConfig,
+  createSnapshotBundle,
+  loadSnapshotBundle,
+  writeSnapshotBundle,
+} from '../../../src/core/snapshot/snapshotBundle.js';
+import { KubeAggregatorError } from '../../../src/shared/errorHandle.js';
+
+const createConfig = (overrides: Partial<KubeAggregatorConfigMerged> = {}): KubeAggregatorConfigMerged => ({
+  ...defaultConfig,
+  cwd: '/test',
+  ...overrides,
+});
+
+const aggregation: ClusterAggregation = {
+  namespaceNames: ['shop'],
+  namespaceData: { command: 'kubectl get namespaces -o yaml', output: 'kind: List' },
+  resourcesByNamespace: { shop: { pods: ['web-1'] } },
+  resourceBlocks: [
+    {
+      namespace: 'shop',
+      command: 'kubectl get pods -n shop -o yaml',
+      output: 'apiVersion: v1\nkind: Pod\nmetadata:\n  name: web-1',
+      kinds: [{ kind: 'Pod', resources: [] }],
+    },
+  ],
+};
+
+describe('createSnapshotBundle', () => {
+  it('records the collected data and collection settings, without derived resource sections', () => {
+    const config = createConfig({ kubernetes: { ...defaultConfig.kubernetes, outputFormat: 'yaml' } });
+    const bundle = createSnapshotBundle(config, [
+      { aggregation, namespaceCount: 1, resourceCounts: { pods: 1 }, eventCount: 0 },
+    ]);
+
+    expect(bundle).toMatchObject({
+      format: 'kubemix-snapshot',
+      version: SNAPSHOT_BUNDLE_VERSION,
+      secretsRedacted: true,
+      slimmed: false,
+    });
+    expect(bundle.config.kubernetes?.outputFormat).toBe('yaml');
+    expect(bundle.clusters[0].resourceCounts).toEqual({ pods: 1 });
+    expect(bundle.clusters[0].aggregation.resourceBlocks[0].kinds).toBeUndefined();
+    expect(bundle.clusters[0].aggregation.resourceBlocks[0].output).toContain('name: web-1');
+  });
+});
+
+describe('applySnapshotConfig', () => {
+  it('keeps output settings and restores the collection settings of the bundle', () => {
+    const bundle = createSnapshotBundle(createConfig({ filter: { ...defaultConfig.filter, namespaces: ['shop'] } }), [
+      { aggregation, namespaceCount: 1, resourceCounts: {}, eventCount: 0 },
+    ]);
+    const config = applySnapshotConfig(
+      createConfig({
+        output: { ...defaultConfig.output, style: 'xml' },
+        slim: { ...defaultConfig.slim, enabled: true },
+      }),
+      bundle,
+    );
+
+    expect(config.output?.style).toBe('xml');
+    expect(config.slim?.enabled).toBe(true);
+    expect(config.filter?.namespaces).toEqual(['shop']);
+  });
+
+  it('keeps a redacted bundle redacted', () => {
+    const bundle = createSnapshotBundle(createConfig(), []);
+    const config = applySnapshotConfig(createConfig({ security: { redactSecrets: false } }), bundle);
+
+    expect(config.security?.redactSecrets).toBe(true);
+  });
+});
+
+describe('writeSnapshotBundle and loadSnapshotBundle', () => {
+  it('round-trips a bundle and rejects other documents', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kubemix-snapshot-'));
+    try {
+      const bundle = createSnapshotBundle(createConfig(), [
+        { aggregation, namespaceCount: 1, resourceCounts: { pods: 1 }, eventCount: 0 },
+      ]);
+      const filePath = await writeSnapshotBundle(bundle, 'nested/snapshot.json', directory);
+
+      expect(filePath).toBe(path.join(directory, 'nested/snapshot.json'));
+      expect(await loadSnapshotBundle(filePath)).toEqual(bundle);
+
+      const otherPath = path.join(directory, 'output.json');
+      await fs.writeFile(otherPath, JSON.stringify({ schemaVersion: '1.0', clusters: [] }));
+      await expect(loadSnapshotBundle(otherPath)).rejects.toThrow(KubeAggregatorError);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { ClusterAggregation } from '../../../src/core/output/outputGeneratorTypes.js';
+import { calculateTokenBreakdown } from '../../../src/core/tokenCount/tokenBreakdown.js';
+
+// Counts characters instead of tokens, to keep expectations readable
+const countCharacters = (text: string) => text.length;
+
+const createCluster = (context?: string): ClusterAggregation => ({
+  context,
+  namespaceNames: ['shop'],
+  namespaceData: { command: 'kubectl get namespaces', output: 'NAME\nshop' },
+  resourcesByNamespace: {},
+  resourceBlocks: [
+    {
+      namespace: 'shop',
+      command: 'kubectl get pods,configmaps -n shop -o json',
+      output: JSON.stringify({
+        kind: 'List',
+        items: [
+          { kind: 'Pod', metadata: { name: 'api' } },
+          { kind: 'ConfigMap', metadata: { name: 'big' }, data: { file: 'x'.repeat(200) } },
+        ],
+      }),
+    },
+  ],
+  clusterResources: {
+    command: 'kubectl get nodes',
+    output: 'NAME           STATUS\nnode/worker-1 Ready',
+    resourcesByKind: { nodes: ['worker-1'] },
+  },
+  podDiagnostics: [
+    {
+      namespace: 'shop',
+      podName: 'api',
+      describeCommand: 'kubectl describe pod api -n shop',
+      description: 'Status: Running',
+      logsCommand: 'kubectl logs api -n shop',
+      logs: 'log line\n'.repeat(10),
+    },
+  ],
+});
+
+describe('calculateTokenBreakdown', () => {
+  it('counts tokens per namespace, per kind and for the largest resources', () => {
+    const breakdown = calculateTokenBreakdown([createCluster()], countCharacters, 2);
+
+    expect(Object.keys(breakdown.byNamespace)).toEqual(['shop', '(cluster-scoped)']);
+    expect(breakdown.byKind.ConfigMap).toBeGreaterThan(200);
+    expect(breakdown.byKind.logs).toBe(90);
+    expect(breakdown.byKind.node).toBe('node/worker-1 Ready'.length);
+    expect(breakdown.topConsumers.map((consumer) => consumer.label)).toEqual(['ConfigMap shop/big', 'logs shop/api']);
+  });
+
+  it('tells the namespaces of several clusters apart', () => {
+    const breakdown = calculateTokenBreakdown([createCluster('eu'), createCluster('us')], countCharacters, 1);
+
+    expect(Object.keys(breakdown.byNamespace)).toContain('us: shop');
+    expect(breakdown.topConsumers).toEqual([{ label: 'eu: ConfigMap shop/big', tokens: expect.any(Number) }]);
+  });
+});
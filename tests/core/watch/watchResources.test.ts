@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AggregationResult } from '../../../src/cli/actions/namespaceAction.js';
+import { type KubeAggregatorConfigMerged, defaultConfig } from '../../../src/config/configSchema.js';
+import type { ClusterAggregation } from '../../../src/core/output/outputGeneratorTypes.js';
+import { type WatchIteration, watchResources } from '../../../src/core/watch/watchResources.js';
+import { logger } from '../../../src/shared/logger.js';
+
+const config: KubeAggregatorConfigMerged = {
+  ...defaultConfig,
+  cwd: '/test',
+  kubernetes: { ...defaultConfig.kubernetes, outputFormat: 'json' },
+  watch: { enabled: true, intervalSeconds: 5 },
+};
+
+// A run that found the given pods (name and image)
+const run = (pods: Array<[string, string]>, totalTokens: number) => {
+  const aggregation: ClusterAggregation = {
+    namespaceNames: ['shop'],
+    namespaceData: { command: 'kubectl get namespaces -o json', output: '' },
+    resourcesByNamespace: { shop: { pods: pods.map(([name]) => name) } },
+    resourceBlocks: [
+      {
+        namespace: 'shop',
+        command: 'kubectl get pods -n shop -o json',
+        output: JSON.stringify({
+          kind: 'List',
+          items: pods.map(([name, image]) => ({
+            apiVersion: 'v1',
+            kind: 'Pod',
+            metadata: { name, namespace: 'shop' },
+            spec: { containers: [{ name: 'app', image }] },
+          })),
+        }),
+      },
+    ],
+  };
+  const metrics: AggregationResult = { namespaceCount: 1, resourceCounts: { pods: pods.length }, totalTokens };
+  return { metrics, aggregations: [aggregation] };
+};
+
+describe('watchResources', () => {
+  it('repeats the aggregation until stopped and reports the changes since the previous run', async () => {
+    const controller = new AbortController();
+    const runAggregation = vi
+      .fn()
+      .mockResolvedValueOnce(run([['api-1', 'api:1']], 100))
+      .mockResolvedValueOnce(
+        run(
+          [
+            ['api-1', 'api:2'],
+            ['api-2', 'api:2'],
+          ],
+          150,
+        ),
+      );
+    const wait = vi.fn(async () => {
+      if (runAggregation.mock.calls.length === 2) controller.abort();
+    });
+    const iterations: WatchIteration[] = [];
+
+    const runs = await watchResources(config, (iteration) => iterations.push(iteration), controller.signal, {
+      runAggregation,
+      wait,
+    });
+
+    expect(runs).toBe(2);
+    expect(wait).toHaveBeenCalledWith(5000, controller.signal);
+    expect(iterations[0].changes).toBeUndefined();
+    const changes = iterations[1].changes;
+    expect(changes?.diff.added.map((resource) => resource.name)).toEqual(['api-2']);
+    expect(changes?.diff.modified.map((resource) => resource.changes?.map((change) => change.path))).toEqual([
+      ['spec.containers[name=app].image'],
+    ]);
+    expect(changes?.resourceCountChanges).toEqual([{ kind: 'pods', before: 1, after: 2 }]);
+    expect(changes).toMatchObject({ tokensBefore: 100, tokensAfter: 150 });
+  });
+
+  it('fails on a failing first run, and keeps watching after later failures', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('cluster unreachable'));
+    await expect(
+      watchResources(config, () => {}, new AbortController().signal, { runAggregation: failing, wait: vi.fn() }),
+    ).rejects.toThrow('cluster unreachable');
+
+    const controller = new AbortController();
+    const runAggregation = vi
+      .fn()
+      .mockResolvedValueOnce(run([['api-1', 'api:1']], 100))
+      .mockRejectedValueOnce(new Error('cluster unreachable'))
+      .mockResolvedValueOnce(run([['api-1', 'api:1']], 100));
+    const wait = vi.fn(async () => {
+      if (runAggregation.mock.calls.length === 3) controller.abort();
+    });
+    const iterations: WatchIteration[] = [];
+
+    const runs = await watchResources(config, (iteration) => iterations.push(iteration), controller.signal, {
+      runAggregation,
+      wait,
+    });
+
+    expect(runs).toBe(2);
+    expect(iterations.map((iteration) => iteration.iteration)).toEqual([1, 3]);
+    expect(iterations[1].changes?.diff.unchangedCount).toBe(1);
+  });
+
+  it('warns that text output is only compared by resource counts', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    const watchOnce = async (outputFormat: 'json' | 'text') => {
+      const controller = new AbortController();
+      await watchResources(
+        { ...config, kubernetes: { ...config.kubernetes, outputFormat } },
+        () => {},
+        controller.signal,
+        {
+          runAggregation: vi.fn().mockResolvedValue(run([['api-1', 'api:1']], 100)),
+          wait: async () => controller.abort(),
+        },
+      );
+    };
+
+    try {
+      await watchOnce('json');
+      expect(warn).not.toHaveBeenCalled();
+      await watchOnce('text');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('--format yaml or json'));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});